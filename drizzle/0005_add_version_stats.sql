@@ -0,0 +1,7 @@
+ALTER TABLE `getlostportal_book_version` ADD `wordCount` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_book_version` ADD `characterCount` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_book_version` ADD `estimatedPages` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_book_version` ADD `chapterCount` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_book_version` ADD `averageChapterLength` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_book_version` ADD `dialogueRatio` real;--> statement-breakpoint
+ALTER TABLE `getlostportal_book_version` ADD `readingTimeMinutes` integer;
\ No newline at end of file
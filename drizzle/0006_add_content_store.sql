@@ -0,0 +1,3 @@
+ALTER TABLE `getlostportal_book_version` ADD `contentHash` text(64);--> statement-breakpoint
+ALTER TABLE `getlostportal_book_version` ADD `storagePath` text(1000);--> statement-breakpoint
+CREATE INDEX `version_content_hash_idx` ON `getlostportal_book_version` (`contentHash`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `getlostportal_book_version` ADD `epubValidation` text;
\ No newline at end of file
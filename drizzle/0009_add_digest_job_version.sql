@@ -0,0 +1,2 @@
+ALTER TABLE `getlostportal_digest_job` ADD `bookVersionId` text(255) REFERENCES getlostportal_book_version(id);--> statement-breakpoint
+CREATE INDEX `digest_job_version_idx` ON `getlostportal_digest_job` (`bookVersionId`);
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `getlostportal_digest_job` ADD `aiProcessed` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_digest_job` ADD `tokenCount` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_digest_job` ADD `inputTokens` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_digest_job` ADD `outputTokens` integer;--> statement-breakpoint
+ALTER TABLE `getlostportal_digest_job` ADD `costCents` real;
\ No newline at end of file
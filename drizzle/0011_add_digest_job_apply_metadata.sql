@@ -0,0 +1 @@
+ALTER TABLE `getlostportal_digest_job` ADD `applyMetadata` integer DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `getlostportal_report` ADD `structuredContent` text;
\ No newline at end of file
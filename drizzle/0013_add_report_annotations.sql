@@ -0,0 +1,31 @@
+CREATE TABLE `getlostportal_report_annotation` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`reportId` text(255) NOT NULL,
+	`userId` text(255) NOT NULL,
+	`quote` text NOT NULL,
+	`prefix` text,
+	`suffix` text,
+	`startOffset` integer NOT NULL,
+	`endOffset` integer NOT NULL,
+	`resolvedAt` integer,
+	`resolvedBy` text(255),
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`reportId`) REFERENCES `getlostportal_report`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `getlostportal_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `annotation_report_idx` ON `getlostportal_report_annotation` (`reportId`);--> statement-breakpoint
+CREATE INDEX `annotation_user_idx` ON `getlostportal_report_annotation` (`userId`);--> statement-breakpoint
+CREATE TABLE `getlostportal_report_annotation_comment` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`annotationId` text(255) NOT NULL,
+	`userId` text(255) NOT NULL,
+	`body` text NOT NULL,
+	`fromAdmin` integer DEFAULT false NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`annotationId`) REFERENCES `getlostportal_report_annotation`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `getlostportal_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `annotation_comment_annotation_idx` ON `getlostportal_report_annotation_comment` (`annotationId`);
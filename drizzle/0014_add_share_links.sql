@@ -0,0 +1,18 @@
+CREATE TABLE `getlostportal_share_link` (
+	`id` text(255) PRIMARY KEY NOT NULL,
+	`bookId` text(255) NOT NULL,
+	`userId` text(255) NOT NULL,
+	`assetType` text(50) NOT NULL,
+	`label` text(255),
+	`passwordHash` text(255),
+	`expiresAt` integer NOT NULL,
+	`revokedAt` integer,
+	`viewCount` integer DEFAULT 0 NOT NULL,
+	`lastViewedAt` integer,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`bookId`) REFERENCES `getlostportal_book`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `getlostportal_user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `share_link_user_idx` ON `getlostportal_share_link` (`userId`);--> statement-breakpoint
+CREATE INDEX `share_link_book_idx` ON `getlostportal_share_link` (`bookId`);
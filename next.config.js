@@ -7,7 +7,7 @@ import "./src/env.js";
 /** @type {import("next").NextConfig} */
 const config = {
   // Next 15+: use serverExternalPackages instead of experimental.serverComponentsExternalPackages
-  serverExternalPackages: ['better-auth', 'better-sqlite3'],
+  serverExternalPackages: ['better-auth', 'better-sqlite3', 'playwright-core'],
   webpack: (config) => {
     // Prevent better-auth from being bundled in Edge Runtime
     config.externals = config.externals || [];
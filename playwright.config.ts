@@ -1,5 +1,9 @@
 import { defineConfig, devices } from "@playwright/test";
 
+/* Set E2E_BOOKDIGEST_MOCK=true to run digest processing against the local BookDigest mock */
+const useBookDigestMock = process.env.E2E_BOOKDIGEST_MOCK === "true";
+const bookDigestMockPort = process.env.BOOKDIGEST_MOCK_PORT || "4010";
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
@@ -44,22 +48,43 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
-  webServer: {
-    command: "npm run dev",
-    url: "http://localhost:3000",
-    reuseExistingServer: !process.env.CI,
-    timeout: 120 * 1000,
-    stdout: "ignore",
-    stderr: "pipe",
-    env: {
-      // Disable email sending during E2E tests
-      // Force these to override any .env file values
-      DISABLE_EMAIL_IN_TESTS: "true",
-      NODE_ENV: "test",
-      // Also unset RESEND_API_KEY to prevent accidental sends
-      RESEND_API_KEY: "",
+  /* Run your local dev server (and the BookDigest mock, if enabled) before starting the tests */
+  webServer: [
+    ...(useBookDigestMock
+      ? [
+          {
+            command: "npm run bookdigest:mock",
+            url: `http://127.0.0.1:${bookDigestMockPort}/__mock/jobs`,
+            reuseExistingServer: !process.env.CI,
+            timeout: 30 * 1000,
+            stdout: "ignore" as const,
+            stderr: "pipe" as const,
+            env: { BOOKDIGEST_MOCK_PORT: bookDigestMockPort, BOOKDIGEST_MOCK_PROCESSING_MS: "2000" },
+          },
+        ]
+      : []),
+    {
+      command: "npm run dev",
+      url: "http://localhost:3000",
+      reuseExistingServer: !process.env.CI,
+      timeout: 120 * 1000,
+      stdout: "ignore",
+      stderr: "pipe",
+      env: {
+        // Disable email sending during E2E tests
+        // Force these to override any .env file values
+        DISABLE_EMAIL_IN_TESTS: "true",
+        NODE_ENV: "test",
+        // Also unset RESEND_API_KEY to prevent accidental sends
+        RESEND_API_KEY: "",
+        ...(useBookDigestMock
+          ? {
+              BOOKDIGEST_URL: `http://127.0.0.1:${bookDigestMockPort}`,
+              BOOKDIGEST_API_KEY: "e2e-mock-key",
+            }
+          : {}),
+      },
     },
-  },
+  ],
 });
 
@@ -7,6 +7,10 @@ echo "Starting Render build process..."
 echo "Installing dependencies..."
 npm ci
 
+# Chromium for report PDF exports, installed into node_modules so it ships with the build
+echo "Installing Chromium for report PDFs..."
+PLAYWRIGHT_BROWSERS_PATH=0 npx playwright-core install --only-shell chromium || echo "Warning: Chromium install failed, report PDF downloads will be unavailable"
+
 # Generate database migrations
 echo "Generating database migrations..."
 npm run db:generate || echo "Warning: db:generate failed, continuing..."
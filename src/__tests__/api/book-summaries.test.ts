@@ -0,0 +1,129 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, digestJobs, summaries, users } from "@/server/db/schema";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { applyDigestStatus, triggerBookDigest } = await import("@/server/services/bookdigest");
+const { getSummariesByVersion, getSummaryText, parseSummaryMetadata } = await import(
+  "@/server/services/book-summaries"
+);
+
+describe("Versioned Book Summaries", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let bookId: string;
+  let firstVersionId: string;
+  let secondVersionId: string;
+  const originalApiKey = process.env.BOOKDIGEST_API_KEY;
+
+  async function createVersion(versionNumber: number, uploadedAt: Date) {
+    const [version] = await testDb
+      .insert(bookVersions)
+      .values({
+        bookId,
+        versionNumber,
+        fileName: `keeper-v${versionNumber}.txt`,
+        fileUrl: `/api/books/${bookId}/file`,
+        fileSize: 100,
+        fileType: "text/plain",
+        uploadedAt,
+      })
+      .returning();
+    return version!.id;
+  }
+
+  async function completeDigest(bookVersionId: string, brief: string) {
+    const [job] = await testDb
+      .insert(digestJobs)
+      .values({ bookId, bookVersionId, status: "processing", externalJobId: crypto.randomUUID(), attempts: 1 })
+      .returning();
+    await applyDigestStatus(job!, {
+      id: job!.externalJobId!,
+      status: "completed",
+      result: {
+        meta: { language: "en", pages: 212, words: 61000 },
+        brief,
+        short_summary: `${brief} In short.`,
+        summary: `${brief} In full.`,
+      },
+    });
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    const userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+    await testDb.insert(books).values({ id: bookId, userId, title: "The Lighthouse Keeper" });
+    firstVersionId = await createVersion(1, new Date("2026-01-01T00:00:00Z"));
+    secondVersionId = await createVersion(2, new Date("2026-02-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    closeTestDatabase();
+    process.env.BOOKDIGEST_API_KEY = originalApiKey;
+  });
+
+  it("should store a completed digest against the digested version", async () => {
+    await completeDigest(firstVersionId, "A keeper and a storm.");
+
+    const [row] = await testDb.select().from(summaries).where(eq(summaries.bookId, bookId));
+    expect(row).toMatchObject({
+      bookVersionId: firstVersionId,
+      source: "digest",
+      brief: "A keeper and a storm.",
+      shortSummary: "A keeper and a storm. In short.",
+      fullSummary: "A keeper and a storm. In full.",
+    });
+    expect(parseSummaryMetadata(row!.metadata)).toEqual({ language: "en", pages: 212, words: 61000 });
+  });
+
+  it("should keep one summary per draft and replace it when a draft is digested again", async () => {
+    await completeDigest(firstVersionId, "First draft.");
+    await completeDigest(secondVersionId, "Second draft.");
+    await completeDigest(secondVersionId, "Second draft, digested again.");
+
+    expect(await testDb.select().from(summaries)).toHaveLength(2);
+
+    const byVersion = await getSummariesByVersion(bookId);
+    expect(byVersion.get(firstVersionId)?.brief).toBe("First draft.");
+    expect(byVersion.get(secondVersionId)?.brief).toBe("Second draft, digested again.");
+    expect(byVersion.get(secondVersionId)?.metadata).toEqual({ language: "en", pages: 212, words: 61000 });
+  });
+
+  it("should tie new digest jobs to the latest version by default, one in flight per version", async () => {
+    process.env.BOOKDIGEST_API_KEY = "test-key";
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ job_id: crypto.randomUUID() }))));
+
+    const job = await triggerBookDigest(bookId, Buffer.from("text"), "keeper-v2.txt");
+    expect(job).toMatchObject({ bookVersionId: secondVersionId });
+
+    // A job in flight for one draft doesn't hold up another draft, only a second job for the same one
+    const pinned = await triggerBookDigest(bookId, Buffer.from("text"), "keeper-v1.txt", firstVersionId);
+    expect(pinned).toMatchObject({ bookVersionId: firstVersionId });
+    expect(pinned?.id).not.toBe(job?.id);
+
+    const repeated = await triggerBookDigest(bookId, Buffer.from("text"), "keeper-v2.txt");
+    expect(repeated?.id).toBe(job?.id);
+    expect(await testDb.select().from(digestJobs)).toHaveLength(2);
+  });
+
+  it("should pick the most detailed summary text available", () => {
+    expect(getSummaryText({ brief: "Brief.", shortSummary: "Short.", fullSummary: "Full." })).toBe("Full.");
+    expect(getSummaryText({ brief: "Brief.", shortSummary: " ", fullSummary: null })).toBe("Brief.");
+    expect(getSummaryText({ brief: null, shortSummary: null, fullSummary: null })).toBeNull();
+    expect(parseSummaryMetadata("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, digestJobs, notifications, users } from "@/server/db/schema";
+import { storeBookVersionFile } from "@/server/utils/book-version-file";
+import { startBookDigestMock, type BookDigestMock } from "@/server/services/bookdigest-mock";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { triggerBookDigest } = await import("@/server/services/bookdigest");
+const { pollDigestJobs } = await import("@/server/services/digest-poller");
+const { POST: webhookPOST } = await import("@/app/api/webhooks/bookdigest/route");
+
+const MINUTE = 60 * 1000;
+const API_KEY = "mock-key";
+
+describe("BookDigest Flow Against the Mock Server", () => {
+  let mock: BookDigestMock;
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let bookId: string;
+  let userId: string;
+  let storeDir: string;
+  const manuscript = Buffer.from("Chapter One\n\nThe lamp was lit before the storm came in.");
+  const originalEnv = { ...process.env };
+
+  async function getJob() {
+    const [job] = await testDb.select().from(digestJobs).where(eq(digestJobs.bookId, bookId));
+    return job!;
+  }
+
+  async function getBook() {
+    const [book] = await testDb.select().from(books).where(eq(books.id, bookId));
+    return book!;
+  }
+
+  // The poller only checks jobs once their backoff has elapsed
+  function pollLater(minutes = 1) {
+    return pollDigestJobs(new Date(Date.now() + minutes * MINUTE));
+  }
+
+  beforeAll(async () => {
+    mock = await startBookDigestMock({ apiKey: API_KEY });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    mock.reset();
+    mock.configure({ processingMs: 0, outcome: "completed", result: { meta: { title: "The Lighthouse Keeper" } } });
+
+    userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+    await testDb.insert(books).values({ id: bookId, userId, title: "keeper_final_v3" });
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "bookdigest-mock-"));
+    process.env.BOOKDIGEST_URL = mock.url;
+    process.env.BOOKDIGEST_API_KEY = API_KEY;
+    process.env.COVER_STORAGE_PATH = path.join(storeDir, "covers");
+    process.env.BOOK_STORAGE_PATH = path.join(storeDir, "books");
+  });
+
+  afterEach(async () => {
+    closeTestDatabase();
+    process.env = { ...originalEnv };
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should take a book from upload to completed digest", async () => {
+    const triggered = await triggerBookDigest(bookId, manuscript, "keeper_final_v3.txt");
+    expect(triggered).toMatchObject({ status: "processing", externalJobId: expect.stringMatching(/^mock-/) });
+
+    const result = await pollLater();
+
+    expect(result.updated).toEqual([{ id: triggered!.id, bookId, status: "completed" }]);
+    expect(await getJob()).toMatchObject({
+      status: "completed",
+      title: "The Lighthouse Keeper",
+      brief: "A mock digest of keeper_final_v3.txt.",
+      language: "en",
+      coverUrl: `/v1/jobs/${triggered!.externalJobId}/cover`,
+    });
+
+    const book = await getBook();
+    expect(book).toMatchObject({
+      title: "The Lighthouse Keeper",
+      description: "A mock digest of keeper_final_v3.txt.",
+      coverImageUrl: `/api/covers/${bookId}.png`,
+    });
+    const cover = await fs.readFile(path.join(storeDir, "covers", `${bookId}.png`));
+    expect(cover.subarray(1, 4).toString("latin1")).toBe("PNG");
+
+    const [notification] = await testDb.select().from(notifications).where(eq(notifications.userId, userId));
+    expect(notification).toMatchObject({ type: "processing_completed" });
+  });
+
+  it("should keep polling while the job is still processing", async () => {
+    mock.configure({ processingMs: 10 * MINUTE });
+    const triggered = await triggerBookDigest(bookId, manuscript, "keeper.txt");
+
+    expect((await pollLater()).updated).toEqual([{ id: triggered!.id, bookId, status: "pending" }]);
+    expect(await getJob()).toMatchObject({ status: "processing", attempts: 2 });
+
+    mock.finishJobs();
+    expect((await pollLater(5)).updated).toEqual([{ id: triggered!.id, bookId, status: "completed" }]);
+    expect((await getBook()).title).toBe("The Lighthouse Keeper");
+  });
+
+  it("should re-submit after a transient ingest failure", async () => {
+    await testDb.insert(bookVersions).values({
+      bookId,
+      versionNumber: 1,
+      fileName: "keeper.txt",
+      fileUrl: `/api/books/${bookId}/file`,
+      fileSize: manuscript.length,
+      fileType: "text/plain",
+      ...(await storeBookVersionFile(manuscript)),
+    });
+    mock.failNext("ingest", 503);
+
+    expect(await triggerBookDigest(bookId, manuscript, "keeper.txt")).toBeNull();
+    expect(await getJob()).toMatchObject({ status: "pending", attempts: 1 });
+
+    // First tick re-submits, the next one picks up the result
+    expect((await pollLater()).updated[0]).toMatchObject({ status: "processing" });
+    expect((await pollLater(5)).updated[0]).toMatchObject({ status: "completed" });
+    expect(mock.requests.filter((request) => request.startsWith("POST /v1/ingest"))).toEqual([
+      "POST /v1/ingest 503",
+      "POST /v1/ingest 200",
+    ]);
+  });
+
+  it("should record failed jobs and leave the book untouched", async () => {
+    mock.configure({ outcome: "failed", error: "Could not parse manuscript" });
+    await triggerBookDigest(bookId, manuscript, "keeper.txt");
+
+    await pollLater();
+
+    expect(await getJob()).toMatchObject({ status: "failed", error: "Could not parse manuscript" });
+    expect(await getBook()).toMatchObject({ title: "keeper_final_v3", coverImageUrl: null, description: null });
+    const [notification] = await testDb.select().from(notifications).where(eq(notifications.userId, userId));
+    expect(notification).toMatchObject({ type: "processing_failed" });
+  });
+
+  it("should queue jobs the service has forgotten for re-submission", async () => {
+    await triggerBookDigest(bookId, manuscript, "keeper.txt");
+    mock.reset();
+
+    expect((await pollLater()).updated[0]).toMatchObject({ status: "pending" });
+    expect(await getJob()).toMatchObject({ status: "pending", externalJobId: null });
+  });
+
+  it("should reject requests with the wrong API key", async () => {
+    process.env.BOOKDIGEST_API_KEY = "wrong-key";
+
+    expect(await triggerBookDigest(bookId, manuscript, "keeper.txt")).toBeNull();
+    expect(await getJob()).toMatchObject({ status: "failed" });
+  });
+
+  it("should deliver signed completion callbacks to the webhook", async () => {
+    // Relay the mock's callback into the route handler
+    let delivered!: (status: number) => void;
+    const delivery = new Promise<number>((resolve) => {
+      delivered = resolve;
+    });
+    const relay = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const response = await webhookPOST(
+        new NextRequest(`http://localhost${req.url}`, {
+          method: "POST",
+          body: Buffer.concat(chunks).toString("utf8"),
+          headers: req.headers as Record<string, string>,
+        })
+      );
+      res.writeHead(response.status).end();
+      delivered(response.status);
+    });
+    await new Promise<void>((resolve) => relay.listen(0, "127.0.0.1", resolve));
+
+    try {
+      process.env.BOOKDIGEST_WEBHOOK_SECRET = "whsec_mock";
+      process.env.NEXT_PUBLIC_APP_URL = `http://127.0.0.1:${(relay.address() as AddressInfo).port}`;
+      mock.configure({ processingMs: 50, webhookSecret: "whsec_mock" });
+
+      await triggerBookDigest(bookId, manuscript, "keeper.txt");
+
+      expect(await delivery).toBe(200);
+      expect(await getJob()).toMatchObject({ status: "completed", title: "The Lighthouse Keeper" });
+      expect((await getBook()).coverImageUrl).toBe(`/api/covers/${bookId}.png`);
+    } finally {
+      mock.configure({ webhookSecret: null });
+      await new Promise((resolve) => relay.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,66 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { getContentKey, hashContent, putContent, readContent } from "@/server/utils/content-store";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+
+describe("Content Store", () => {
+  let storeDir: string;
+  const originalStoragePath = process.env.BOOK_STORAGE_PATH;
+
+  beforeEach(async () => {
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "content-store-"));
+    process.env.BOOK_STORAGE_PATH = storeDir;
+  });
+
+  afterEach(async () => {
+    process.env.BOOK_STORAGE_PATH = originalStoragePath;
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should store content under its SHA-256 hash", async () => {
+    const content = Buffer.from("It was a dark and stormy night.");
+    const stored = await putContent(content);
+
+    expect(stored.hash).toBe(hashContent(content));
+    expect(stored.hash).toHaveLength(64);
+    expect(stored.storagePath).toBe(`sha256/${stored.hash.slice(0, 2)}/${stored.hash}`);
+    expect(stored.created).toBe(true);
+    expect(await readContent(stored.storagePath)).toEqual(content);
+  });
+
+  it("should write identical content only once", async () => {
+    const content = Buffer.from("Same manuscript, uploaded twice.");
+    const first = await putContent(content);
+    const second = await putContent(Buffer.from(content));
+
+    expect(second.storagePath).toBe(first.storagePath);
+    expect(second.created).toBe(false);
+
+    const files = await fs.readdir(path.join(storeDir, "sha256", first.hash.slice(0, 2)));
+    expect(files).toEqual([first.hash]);
+  });
+
+  it("should refuse storage paths outside the store", async () => {
+    await expect(readContent("../../etc/passwd")).rejects.toThrow("Invalid blob key");
+    expect(await readContent(getContentKey("a".repeat(64)))).toBeNull();
+  });
+
+  it("should read book versions from the store before legacy locations", async () => {
+    const stored = await putContent(Buffer.from("new copy"));
+    const legacyPath = path.join(storeDir, "book-1.txt");
+    await fs.writeFile(legacyPath, "legacy disk copy");
+
+    const version = { bookId: "book-1", versionNumber: 1, fileName: "draft.txt" };
+
+    expect((await readBookVersionFile({ ...version, storagePath: stored.storagePath }))?.toString()).toBe("new copy");
+    expect((await readBookVersionFile(version))?.toString()).toBe("legacy disk copy");
+
+    await fs.rm(legacyPath);
+    const fileData = Buffer.from("database copy").toString("base64");
+    expect((await readBookVersionFile({ ...version, fileData }))?.toString()).toBe("database copy");
+    expect(await readBookVersionFile(version)).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, digestJobs, purchases, users } from "@/server/db/schema";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { applyDigestStatus } = await import("@/server/services/bookdigest");
+const { calculateDigestCostCents, getDigestCostReport, getDigestTokenRates } = await import(
+  "@/server/services/digest-costs"
+);
+
+const RATES = { inputCentsPerMillion: 300, outputCentsPerMillion: 1500 };
+
+describe("Digest AI Costs", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let userId: string;
+  let bookId: string;
+  const originalEnv = { ...process.env };
+
+  async function completedJob(completedAt: Date, costCents: number, tokens: { input: number; output: number }) {
+    await testDb.insert(digestJobs).values({
+      bookId,
+      status: "completed",
+      completedAt,
+      aiProcessed: true,
+      inputTokens: tokens.input,
+      outputTokens: tokens.output,
+      tokenCount: tokens.input + tokens.output,
+      costCents,
+    });
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: "author@example.com", name: "Test Author" });
+    await testDb.insert(books).values({ id: bookId, userId, title: "The Lighthouse Keeper" });
+  });
+
+  afterEach(() => {
+    closeTestDatabase();
+    process.env = { ...originalEnv };
+  });
+
+  it("should price input and output tokens at their own rates", () => {
+    expect(calculateDigestCostCents({ aiProcessed: true, inputTokens: 100000, outputTokens: 2000 }, RATES)).toBe(33);
+    expect(calculateDigestCostCents({ aiProcessed: true, tokenCount: 50000 }, RATES)).toBe(15);
+    expect(calculateDigestCostCents({ aiProcessed: false, tokenCount: 50000 }, RATES)).toBe(0);
+    expect(calculateDigestCostCents({ aiProcessed: true }, RATES)).toBeNull();
+  });
+
+  it("should read rates from the environment and ignore invalid values", () => {
+    process.env.DIGEST_COST_INPUT_CENTS_PER_MILLION = "25";
+    process.env.DIGEST_COST_OUTPUT_CENTS_PER_MILLION = "lots";
+
+    expect(getDigestTokenRates()).toEqual({ inputCentsPerMillion: 25, outputCentsPerMillion: 1500 });
+  });
+
+  it("should store usage and cost when a job completes", async () => {
+    const [job] = await testDb
+      .insert(digestJobs)
+      .values({ bookId, status: "processing", externalJobId: "ext-1", attempts: 1 })
+      .returning();
+
+    await applyDigestStatus(job!, {
+      id: "ext-1",
+      status: "completed",
+      result: { brief: "A keeper and a storm.", ai_processed: true, token_count: 102000, input_tokens: 100000, output_tokens: 2000 },
+    });
+
+    const [stored] = await testDb.select().from(digestJobs).where(eq(digestJobs.id, job!.id));
+    expect(stored).toMatchObject({
+      aiProcessed: true,
+      tokenCount: 102000,
+      inputTokens: 100000,
+      outputTokens: 2000,
+      costCents: 33,
+    });
+  });
+
+  it("should total spend and revenue per day, user and book", async () => {
+    const from = new Date(2026, 2, 1);
+    const to = new Date(2026, 2, 4);
+
+    await completedJob(new Date(2026, 2, 1, 10), 33, { input: 100000, output: 2000 });
+    await completedJob(new Date(2026, 2, 3, 9), 0.5, { input: 1000, output: 100 });
+    // Outside the window
+    await completedJob(new Date(2026, 1, 27), 99, { input: 1, output: 1 });
+    await testDb.insert(digestJobs).values({ bookId, status: "failed", completedAt: new Date(2026, 2, 2) });
+
+    const paid = (at: Date) => ({ status: "completed", createdAt: at, completedAt: at });
+    await testDb.insert(purchases).values([
+      { userId, bookId, featureType: "manuscript-report", amount: 2999, ...paid(new Date(2026, 2, 1, 12)) },
+      { userId, featureType: "book-upload", amount: 999, ...paid(new Date(2026, 2, 3, 8)) },
+      { userId, bookId, featureType: "book-covers", amount: 1999, ...paid(new Date(2026, 2, 2)), status: "refunded" },
+    ]);
+
+    const report = await getDigestCostReport({ from, to });
+
+    expect(report.totals).toEqual({
+      jobs: 2,
+      inputTokens: 101000,
+      outputTokens: 2100,
+      tokenCount: 103100,
+      costCents: 33.5,
+      revenueCents: 3998,
+    });
+    expect(report.byDay.map((day) => [day.date, day.jobs, day.costCents, day.revenueCents])).toEqual([
+      ["2026-03-01", 1, 33, 2999],
+      ["2026-03-02", 0, 0, 0],
+      ["2026-03-03", 1, 0.5, 999],
+    ]);
+    expect(report.byUser).toEqual([
+      expect.objectContaining({ userId, email: "author@example.com", name: "Test Author", jobs: 2, revenueCents: 3998 }),
+    ]);
+    // User-level purchases don't count towards a book
+    expect(report.byBook).toEqual([
+      expect.objectContaining({ bookId, title: "The Lighthouse Keeper", userEmail: "author@example.com", revenueCents: 2999 }),
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, digestJobs, notifications, users } from "@/server/db/schema";
+import { storeBookVersionFile } from "@/server/utils/book-version-file";
+
+const database = vi.hoisted(() => {
+  // Read by the BookDigest service
+  process.env.BOOKDIGEST_API_KEY = "test-key";
+  process.env.BOOKDIGEST_URL = "http://bookdigest.test";
+  return { current: null as unknown };
+});
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { getDigestPollerConfig, getNextAttemptAt, pollDigestJobs } = await import("@/server/services/digest-poller");
+const { triggerBookDigest } = await import("@/server/services/bookdigest");
+
+const MINUTE = 60 * 1000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+describe("Digest Job Backoff", () => {
+  it("should double the delay per attempt up to the max delay", () => {
+    const config = { ...getDigestPollerConfig(), baseDelayMs: 15_000, maxDelayMs: 600_000 };
+    const lastAttemptAt = new Date("2026-01-01T00:00:00Z");
+    const delayFor = (attempts: number) =>
+      getNextAttemptAt({ attempts, lastAttemptAt }, config).getTime() - lastAttemptAt.getTime();
+
+    expect(delayFor(1)).toBe(15_000);
+    expect(delayFor(2)).toBe(30_000);
+    expect(delayFor(4)).toBe(120_000);
+    expect(delayFor(12)).toBe(600_000);
+    expect(getNextAttemptAt({ attempts: 0, lastAttemptAt: null }, config).getTime()).toBe(0);
+  });
+});
+
+describe("Digest Poller", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let bookId: string;
+  let userId: string;
+  let storeDir: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  const originalStoragePath = process.env.BOOK_STORAGE_PATH;
+
+  async function createJob(values: Partial<typeof digestJobs.$inferInsert>) {
+    const [job] = await testDb
+      .insert(digestJobs)
+      .values({ bookId, status: "processing", externalJobId: "ext-1", attempts: 1, ...values })
+      .returning();
+    return job!;
+  }
+
+  async function getJob(id: string) {
+    const [job] = await testDb.select().from(digestJobs).where(eq(digestJobs.id, id));
+    return job!;
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+    await testDb.insert(books).values({ id: bookId, userId, title: "The Lighthouse Keeper" });
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "digest-poller-"));
+    process.env.BOOK_STORAGE_PATH = storeDir;
+
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    closeTestDatabase();
+    process.env.BOOK_STORAGE_PATH = originalStoragePath;
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should only poll processing jobs whose backoff has elapsed", async () => {
+    const now = new Date();
+    const waiting = await createJob({ attempts: 3, lastAttemptAt: new Date(now.getTime() - 30_000) });
+    const due = await createJob({ externalJobId: "ext-2", attempts: 3, lastAttemptAt: new Date(now.getTime() - 90_000) });
+    fetchMock.mockResolvedValue(jsonResponse({ id: "ext-2", status: "processing" }));
+
+    const result = await pollDigestJobs(now);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0]![0])).toBe("http://bookdigest.test/v1/jobs/ext-2");
+    expect(result.updated).toEqual([{ id: due.id, bookId, status: "processing" }]);
+    expect((await getJob(due.id)).attempts).toBe(4);
+    expect((await getJob(waiting.id)).attempts).toBe(3);
+  });
+
+  it("should complete finished jobs and notify the owner", async () => {
+    const job = await createJob({ lastAttemptAt: new Date(Date.now() - 5 * MINUTE) });
+    fetchMock.mockResolvedValue(
+      jsonResponse({ id: "ext-1", status: "completed", result: { brief: "A keeper and a storm.", meta: {} } })
+    );
+
+    await pollDigestJobs();
+
+    expect((await getJob(job.id)).status).toBe("completed");
+    const [notification] = await testDb.select().from(notifications).where(eq(notifications.userId, userId));
+    expect(notification).toMatchObject({ type: "processing_completed" });
+  });
+
+  it("should fail jobs that miss the deadline without polling them", async () => {
+    const job = await createJob({
+      createdAt: new Date(Date.now() - 3 * 60 * MINUTE),
+      lastAttemptAt: new Date(Date.now() - 10 * MINUTE),
+    });
+
+    const result = await pollDigestJobs();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.updated).toEqual([{ id: job.id, bookId, status: "failed" }]);
+    expect(await getJob(job.id)).toMatchObject({ status: "failed", error: "Timed out after 120 minutes" });
+    const [notification] = await testDb.select().from(notifications).where(eq(notifications.userId, userId));
+    expect(notification).toMatchObject({ type: "processing_failed" });
+  });
+
+  it("should re-submit jobs whose submission failed transiently", async () => {
+    const manuscript = Buffer.from("Chapter One\n\nThe lamp was lit.");
+    await testDb.insert(bookVersions).values({
+      bookId,
+      versionNumber: 1,
+      fileName: "keeper.txt",
+      fileUrl: `/api/books/${bookId}/file`,
+      fileSize: manuscript.length,
+      fileType: "text/plain",
+      ...(await storeBookVersionFile(manuscript)),
+    });
+
+    fetchMock.mockResolvedValueOnce(new Response("Service Unavailable", { status: 503 }));
+    expect(await triggerBookDigest(bookId, manuscript, "keeper.txt")).toBeNull();
+
+    const [pending] = await testDb.select().from(digestJobs).where(eq(digestJobs.bookId, bookId));
+    expect(pending).toMatchObject({ status: "pending", attempts: 1, error: "Service Unavailable" });
+
+    // Not due yet, then due once the base delay has passed
+    expect((await pollDigestJobs()).updated).toEqual([]);
+    fetchMock.mockResolvedValueOnce(jsonResponse({ job_id: "ext-9" }));
+    const result = await pollDigestJobs(new Date(Date.now() + MINUTE));
+
+    expect(result.updated).toEqual([{ id: pending!.id, bookId, status: "processing" }]);
+    expect(await getJob(pending!.id)).toMatchObject({ status: "processing", externalJobId: "ext-9", attempts: 2, error: null });
+  });
+
+  it("should fail submissions that BookDigest rejects", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("Unsupported file", { status: 415 }));
+
+    await triggerBookDigest(bookId, Buffer.from("x"), "keeper.txt");
+
+    const [job] = await testDb.select().from(digestJobs).where(eq(digestJobs.bookId, bookId));
+    expect(job).toMatchObject({ status: "failed", error: "Unsupported file" });
+  });
+
+  it("should queue jobs BookDigest no longer knows about for re-submission", async () => {
+    const job = await createJob({ lastAttemptAt: new Date(Date.now() - 5 * MINUTE) });
+    fetchMock.mockResolvedValue(new Response("Not found", { status: 404 }));
+
+    const result = await pollDigestJobs();
+
+    expect(result.updated).toEqual([{ id: job.id, bookId, status: "pending" }]);
+    expect(await getJob(job.id)).toMatchObject({ status: "pending", externalJobId: null, attempts: 2 });
+  });
+});
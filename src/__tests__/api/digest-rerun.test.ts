@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, digestJobs, summaries, users } from "@/server/db/schema";
+import { storeBookVersionFile } from "@/server/utils/book-version-file";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { applyDigestStatus, digestBookVersion } = await import("@/server/services/bookdigest");
+
+describe("Re-running a Digest for a Book Version", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let bookId: string;
+  let firstVersionId: string;
+  let storeDir: string;
+  const originalEnv = { ...process.env };
+
+  async function getBook() {
+    const [book] = await testDb.select().from(books).where(eq(books.id, bookId));
+    return book!;
+  }
+
+  async function complete(job: typeof digestJobs.$inferSelect) {
+    await applyDigestStatus(job, {
+      id: job.externalJobId!,
+      status: "completed",
+      result: {
+        cover_url: "/v1/jobs/ext/cover",
+        meta: { title: "Keeper (Draft One)" },
+        brief: "An early draft.",
+      },
+    });
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "digest-rerun-"));
+    process.env.BOOKDIGEST_API_KEY = "test-key";
+    process.env.BOOK_STORAGE_PATH = path.join(storeDir, "books");
+    process.env.COVER_STORAGE_PATH = path.join(storeDir, "covers");
+
+    const userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+    await testDb.insert(books).values({
+      id: bookId,
+      userId,
+      title: "The Lighthouse Keeper",
+      description: "Written by the author.",
+      coverImageUrl: "/api/covers/custom.png",
+    });
+
+    const manuscript = Buffer.from("Chapter One\n\nThe lamp was lit.");
+    const [version] = await testDb
+      .insert(bookVersions)
+      .values({
+        bookId,
+        versionNumber: 1,
+        fileName: "keeper-v1.txt",
+        fileUrl: `/api/books/${bookId}/file`,
+        fileSize: manuscript.length,
+        fileType: "text/plain",
+        uploadedAt: new Date("2026-01-01T00:00:00Z"),
+        ...(await storeBookVersionFile(manuscript)),
+      })
+      .returning();
+    firstVersionId = version!.id;
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url.endsWith("/cover")
+          ? new Response(new Uint8Array([137, 80, 78, 71]), { headers: { "content-type": "image/png" } })
+          : new Response(JSON.stringify({ job_id: crypto.randomUUID() }))
+      )
+    );
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    closeTestDatabase();
+    process.env = { ...originalEnv };
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should submit the requested version and record it on the job", async () => {
+    const result = await digestBookVersion(bookId, firstVersionId);
+
+    expect(result).toMatchObject({
+      ok: true,
+      job: { bookId, bookVersionId: firstVersionId, status: "processing", applyMetadata: false, attempts: 1 },
+    });
+    const [url, init] = vi.mocked(fetch).mock.calls[0]!;
+    expect(url).toMatch(/\/v1\/ingest$/);
+    expect(((init as RequestInit).body as FormData).get("file")).toBeInstanceOf(Blob);
+  });
+
+  it("should leave the book's details alone unless asked to update them", async () => {
+    const result = await digestBookVersion(bookId, firstVersionId);
+    await complete((result as { ok: true; job: typeof digestJobs.$inferSelect }).job);
+
+    expect(await getBook()).toMatchObject({
+      title: "The Lighthouse Keeper",
+      description: "Written by the author.",
+      coverImageUrl: "/api/covers/custom.png",
+    });
+    // The cover isn't downloaded either, so the stored file can't be replaced
+    expect(vi.mocked(fetch).mock.calls.some(([url]) => String(url).endsWith("/cover"))).toBe(false);
+
+    const [summary] = await testDb.select().from(summaries).where(eq(summaries.bookVersionId, firstVersionId));
+    expect(summary?.brief).toBe("An early draft.");
+  });
+
+  it("should update the book's details when asked to", async () => {
+    const result = await digestBookVersion(bookId, firstVersionId, { applyMetadata: true });
+    await complete((result as { ok: true; job: typeof digestJobs.$inferSelect }).job);
+
+    expect((await getBook()).title).toBe("Keeper (Draft One)");
+  });
+
+  it("should refuse a second run while one is in progress", async () => {
+    await digestBookVersion(bookId, firstVersionId);
+
+    expect(await digestBookVersion(bookId, firstVersionId)).toEqual({
+      ok: false,
+      status: 409,
+      error: "A digest of this version is already in progress",
+    });
+  });
+
+  it("should reject versions of other books and unconfigured services", async () => {
+    expect(await digestBookVersion(crypto.randomUUID(), firstVersionId)).toMatchObject({ ok: false, status: 404 });
+
+    process.env.BOOKDIGEST_API_KEY = "";
+    expect(await digestBookVersion(bookId, firstVersionId)).toMatchObject({ ok: false, status: 503 });
+    expect(await testDb.select().from(digestJobs)).toHaveLength(0);
+  });
+});
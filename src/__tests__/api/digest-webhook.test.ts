@@ -0,0 +1,197 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, digestJobs, notifications, users } from "@/server/db/schema";
+import { signWebhookPayload, verifyWebhookSignature } from "@/server/utils/webhook-signature";
+
+const database = vi.hoisted(() => {
+  // Read by the BookDigest service
+  process.env.BOOKDIGEST_API_KEY = "test-key";
+  process.env.BOOKDIGEST_URL = "http://bookdigest.test";
+  return { current: null as unknown };
+});
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { POST } = await import("@/app/api/webhooks/bookdigest/route");
+const { triggerBookDigest } = await import("@/server/services/bookdigest");
+
+const SECRET = "whsec_test";
+
+function signedRequest(payload: unknown, options: { secret?: string; timestamp?: number } = {}): NextRequest {
+  const body = JSON.stringify(payload);
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  return new NextRequest("http://localhost/api/webhooks/bookdigest", {
+    method: "POST",
+    body,
+    headers: {
+      "Content-Type": "application/json",
+      "X-BookDigest-Timestamp": String(timestamp),
+      "X-BookDigest-Signature": signWebhookPayload(options.secret ?? SECRET, timestamp, body),
+      // Separate rate limit bucket per request
+      "X-Forwarded-For": `10.0.0.${Math.floor(Math.random() * 250)}`,
+    },
+  });
+}
+
+const completedPayload = {
+  id: "ext-1",
+  status: "completed",
+  result: {
+    cover_url: "/v1/jobs/ext-1/cover",
+    meta: { title: "The Lighthouse Keeper", author: "Ada Byrne", pages: 212, words: 61000, language: "en" },
+    brief: "A keeper, a storm and a letter.",
+    summary: "Full summary.",
+  },
+};
+
+describe("Webhook Signatures", () => {
+  it("should accept a fresh signature and reject tampered, stale or missing ones", () => {
+    const now = new Date("2026-05-01T12:00:00Z");
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+    const body = '{"id":"ext-1"}';
+    const signature = signWebhookPayload(SECRET, timestamp, body);
+
+    expect(verifyWebhookSignature({ secret: SECRET, body, timestamp, signature, now })).toEqual({ ok: true });
+    expect(verifyWebhookSignature({ secret: SECRET, body: '{"id":"ext-2"}', timestamp, signature, now }).ok).toBe(false);
+    expect(verifyWebhookSignature({ secret: "other", body, timestamp, signature, now }).ok).toBe(false);
+    expect(
+      verifyWebhookSignature({ secret: SECRET, body, timestamp, signature, now: new Date(now.getTime() + 10 * 60 * 1000) })
+    ).toEqual({ ok: false, error: "Signature timestamp outside the allowed window" });
+    expect(verifyWebhookSignature({ secret: SECRET, body, timestamp: null, signature, now }).ok).toBe(false);
+  });
+});
+
+describe("BookDigest Completion Webhook", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let bookId: string;
+  let userId: string;
+  let coverDir: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  const originalCoverPath = process.env.COVER_STORAGE_PATH;
+  const originalAppUrl = process.env.NEXT_PUBLIC_APP_URL;
+
+  async function getJob() {
+    const [job] = await testDb.select().from(digestJobs).where(eq(digestJobs.bookId, bookId));
+    return job!;
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+    await testDb.insert(books).values({ id: bookId, userId, title: "keeper_final_v3.docx" });
+    await testDb.insert(digestJobs).values({ bookId, status: "processing", externalJobId: "ext-1", attempts: 1 });
+
+    coverDir = await fs.mkdtemp(path.join(os.tmpdir(), "digest-webhook-"));
+    process.env.COVER_STORAGE_PATH = coverDir;
+    process.env.BOOKDIGEST_WEBHOOK_SECRET = SECRET;
+
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    closeTestDatabase();
+    process.env.COVER_STORAGE_PATH = originalCoverPath;
+    process.env.NEXT_PUBLIC_APP_URL = originalAppUrl;
+    delete process.env.BOOKDIGEST_WEBHOOK_SECRET;
+    await fs.rm(coverDir, { recursive: true, force: true });
+  });
+
+  it("should store results, download the cover and backfill the book", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(Buffer.from([0xff, 0xd8, 0xff, 0xe0]), { headers: { "Content-Type": "image/jpeg" } })
+    );
+
+    const response = await POST(signedRequest(completedPayload));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, status: "completed" });
+
+    // Only the cover is fetched - no status poll
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0]![0])).toBe("http://bookdigest.test/v1/jobs/ext-1/cover");
+
+    expect(await getJob()).toMatchObject({
+      status: "completed",
+      title: "The Lighthouse Keeper",
+      words: 61000,
+      brief: "A keeper, a storm and a letter.",
+    });
+
+    const [book] = await testDb.select().from(books).where(eq(books.id, bookId));
+    expect(book).toMatchObject({
+      title: "The Lighthouse Keeper",
+      description: "A keeper, a storm and a letter.",
+      coverImageUrl: `/api/covers/${bookId}.jpeg`,
+    });
+    expect(await fs.readFile(path.join(coverDir, `${bookId}.jpeg`))).toHaveLength(4);
+
+    const userNotifications = await testDb.select().from(notifications).where(eq(notifications.userId, userId));
+    expect(userNotifications.map((n) => n.type)).toEqual(["processing_completed"]);
+  });
+
+  it("should record failures reported by BookDigest", async () => {
+    const response = await POST(signedRequest({ id: "ext-1", status: "failed", error: "Unreadable file" }));
+
+    expect(response.status).toBe(200);
+    expect(await getJob()).toMatchObject({ status: "failed", error: "Unreadable file" });
+  });
+
+  it("should acknowledge repeated deliveries without applying them again", async () => {
+    await POST(signedRequest({ id: "ext-1", status: "failed", error: "Unreadable file" }));
+    const response = await POST(signedRequest(completedPayload));
+
+    expect(await response.json()).toEqual({ received: true, status: "failed" });
+    expect((await getJob()).status).toBe("failed");
+    expect(await testDb.select().from(notifications)).toHaveLength(1);
+  });
+
+  it("should reject unsigned, mis-signed and replayed deliveries", async () => {
+    const unsigned = new NextRequest("http://localhost/api/webhooks/bookdigest", {
+      method: "POST",
+      body: JSON.stringify(completedPayload),
+    });
+    expect((await POST(unsigned)).status).toBe(401);
+    expect((await POST(signedRequest(completedPayload, { secret: "wrong" }))).status).toBe(401);
+    expect(
+      (await POST(signedRequest(completedPayload, { timestamp: Math.floor(Date.now() / 1000) - 3600 }))).status
+    ).toBe(401);
+
+    expect((await getJob()).status).toBe("processing");
+  });
+
+  it("should return 404 for unknown jobs and 503 without a secret", async () => {
+    expect((await POST(signedRequest({ ...completedPayload, id: "ext-unknown" }))).status).toBe(404);
+
+    delete process.env.BOOKDIGEST_WEBHOOK_SECRET;
+    expect((await POST(signedRequest(completedPayload))).status).toBe(503);
+  });
+
+  it("should send the callback URL when submitting a book", async () => {
+    process.env.NEXT_PUBLIC_APP_URL = "https://portal.example.com/";
+    const otherBookId = crypto.randomUUID();
+    await testDb.insert(books).values({ id: otherBookId, userId, title: "Second Book" });
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ job_id: "ext-2" }), { status: 200 }));
+
+    await triggerBookDigest(otherBookId, Buffer.from("text"), "second.txt");
+
+    const body = fetchMock.mock.calls[0]![1].body as FormData;
+    expect(body.get("callback_url")).toBe("https://portal.example.com/api/webhooks/bookdigest");
+  });
+});
@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import { extractDocxMetadata } from "@/server/utils/extract-docx-metadata";
+import { extractManuscriptMetadata } from "@/server/utils/extract-manuscript-metadata";
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function paragraph(text: string, styleId?: string): string {
+  const pPr = styleId ? `<w:pPr><w:pStyle w:val="${styleId}"/></w:pPr>` : "";
+  return `<w:p>${pPr}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function buildDocx(options: { core?: string; body: string; styles?: string }): Buffer {
+  const zip = new AdmZip();
+  if (options.core) {
+    zip.addFile("docProps/core.xml", Buffer.from(options.core));
+  }
+  zip.addFile(
+    "word/document.xml",
+    Buffer.from(`<?xml version="1.0"?><w:document ${W_NS}><w:body>${options.body}</w:body></w:document>`)
+  );
+  if (options.styles) {
+    zip.addFile("word/styles.xml", Buffer.from(options.styles));
+  }
+  return zip.toBuffer();
+}
+
+const CORE_XML = `<?xml version="1.0"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:title>The Lighthouse Keeper</dc:title>
+  <dc:creator>Jane Writer</dc:creator>
+  <dc:description>A story about a lighthouse.</dc:description>
+  <dc:language>en-GB</dc:language>
+</cp:coreProperties>`;
+
+describe("DOCX Metadata Extraction", () => {
+  it("should read core properties", async () => {
+    const buffer = buildDocx({ core: CORE_XML, body: paragraph("Hello world") });
+
+    const metadata = await extractDocxMetadata(buffer, "book.docx");
+
+    expect(metadata.title).toBe("The Lighthouse Keeper");
+    expect(metadata.author).toBe("Jane Writer");
+    expect(metadata.description).toBe("A story about a lighthouse.");
+    expect(metadata.language).toBe("en-GB");
+  });
+
+  it("should extract plain text and chapters from heading styles", async () => {
+    // Localized style IDs are resolved through styles.xml names
+    const styles = `<?xml version="1.0"?><w:styles ${W_NS}>
+      <w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style>
+      <w:style w:type="paragraph" w:styleId="berschrift2"><w:name w:val="heading 2"/></w:style>
+    </w:styles>`;
+    const body = [
+      paragraph("Dedication for my family"),
+      paragraph("Chapter One", "berschrift1"),
+      paragraph("It was a dark and stormy night."),
+      paragraph("A Scene Break", "berschrift2"),
+      paragraph("The wind howled."),
+      paragraph("Chapter Two", "berschrift1"),
+      paragraph("Morning came."),
+    ].join("");
+
+    const metadata = await extractDocxMetadata(buildDocx({ core: CORE_XML, body, styles }), "book.docx");
+
+    expect(metadata.text).toContain("It was a dark and stormy night.");
+    expect(metadata.chapters).toHaveLength(2);
+    expect(metadata.chapters?.[0]?.title).toBe("Chapter One");
+    expect(metadata.chapters?.[0]?.wordCount).toBe(13);
+    expect(metadata.chapters?.[1]?.title).toBe("Chapter Two");
+    expect(metadata.chapters?.[1]?.text).toBe("Morning came.");
+  });
+
+  it("should fall back to chapter-like lines when there are no headings", async () => {
+    const body = [
+      paragraph("Prologue"),
+      paragraph("Before it all began."),
+      paragraph("Chapter 1"),
+      paragraph("It began."),
+    ].join("");
+
+    const metadata = await extractDocxMetadata(buildDocx({ body }), "draft.docx");
+
+    expect(metadata.title).toBeUndefined();
+    expect(metadata.chapters?.map((c) => c.title)).toEqual(["Prologue", "Chapter 1"]);
+  });
+
+  it("should return empty metadata for invalid files", async () => {
+    const metadata = await extractDocxMetadata(Buffer.from("not a zip"), "broken.docx");
+
+    expect(metadata).toEqual({});
+  });
+
+  it("should be selected by extension", async () => {
+    const buffer = buildDocx({ core: CORE_XML, body: paragraph("Hello") });
+
+    const metadata = await extractManuscriptMetadata(buffer, "Book.DOCX");
+    const unsupported = await extractManuscriptMetadata(buffer, "book.doc");
+
+    expect(metadata?.title).toBe("The Lighthouse Keeper");
+    expect(unsupported).toBeNull();
+  });
+});
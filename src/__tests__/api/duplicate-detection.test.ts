@@ -0,0 +1,185 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, users } from "@/server/db/schema";
+import { compareTextFingerprints, computeTextFingerprint } from "@/server/utils/manuscript-fingerprint";
+import { hashContent } from "@/server/utils/content-store";
+import { storeBookVersionFile } from "@/server/utils/book-version-file";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { describeDuplicate, findDuplicateManuscript } = await import("@/server/services/duplicate-detection");
+
+// Deterministic filler prose so fingerprints are stable between runs
+function makeText(seed: number, words = 2000): string {
+  const vocabulary = ["harbor", "lantern", "quiet", "river", "stone", "letter", "winter", "orchard", "mother", "road",
+    "bridge", "window", "salt", "morning", "coat", "garden", "bell", "ferry", "paper", "candle"];
+  let state = seed;
+  return Array.from({ length: words }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return vocabulary[Math.floor(state / 65536) % vocabulary.length];
+  }).join(" ");
+}
+
+function editWords(text: string, positions: number[]): string {
+  const words = text.split(" ");
+  for (const position of positions) {
+    words[position] = "changed";
+  }
+  return words.join(" ");
+}
+
+describe("Manuscript Fingerprints", () => {
+  it("should score the same text across formats as identical and unrelated text as different", () => {
+    const text = makeText(1);
+    const reformatted = text.toUpperCase().replace(/ /g, ",\n");
+
+    const fingerprint = computeTextFingerprint(text)!;
+    expect(fingerprint).toHaveLength(128 * 8);
+    expect(compareTextFingerprints(fingerprint, computeTextFingerprint(reformatted)!)).toBe(1);
+    expect(compareTextFingerprints(fingerprint, computeTextFingerprint(makeText(2))!)).toBeLessThan(0.2);
+  });
+
+  it("should score lightly edited text as near-identical", () => {
+    const text = makeText(1);
+    const edited = editWords(text, [100, 600, 1200, 1800]);
+
+    const similarity = compareTextFingerprints(computeTextFingerprint(text)!, computeTextFingerprint(edited)!);
+    expect(similarity).toBeGreaterThan(0.9);
+    expect(similarity).toBeLessThan(1);
+  });
+
+  it("should not fingerprint very short texts", () => {
+    expect(computeTextFingerprint("Chapter One. It was a dark night.")).toBeNull();
+  });
+});
+
+describe("Duplicate Manuscript Detection", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let userId: string;
+  let storeDir: string;
+  const originalStoragePath = process.env.BOOK_STORAGE_PATH;
+
+  async function createUser(): Promise<string> {
+    const id = crypto.randomUUID();
+    await testDb.insert(users).values({ id, email: `${id}@example.com`, name: "Test Author" });
+    return id;
+  }
+
+  async function createVersion(values: {
+    title: string;
+    userId?: string;
+    fileName?: string;
+    contentHash?: string;
+    storagePath?: string;
+    textFingerprint?: string | null;
+  }) {
+    const bookId = crypto.randomUUID();
+    await testDb.insert(books).values({ id: bookId, userId: values.userId ?? userId, title: values.title });
+    const [version] = await testDb
+      .insert(bookVersions)
+      .values({
+        bookId,
+        versionNumber: 1,
+        fileName: values.fileName ?? "book.txt",
+        fileUrl: `/api/books/${bookId}/file`,
+        fileSize: 1,
+        fileType: "text/plain",
+        contentHash: values.contentHash,
+        storagePath: values.storagePath,
+        textFingerprint: values.textFingerprint,
+      })
+      .returning();
+    return version!;
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+    userId = await createUser();
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "duplicates-"));
+    process.env.BOOK_STORAGE_PATH = storeDir;
+  });
+
+  afterEach(async () => {
+    closeTestDatabase();
+    process.env.BOOK_STORAGE_PATH = originalStoragePath;
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should find an exact copy by content hash", async () => {
+    const file = Buffer.from(makeText(1));
+    const version = await createVersion({ title: "Tides", contentHash: hashContent(file) });
+
+    const duplicate = await findDuplicateManuscript({
+      userId,
+      contentHash: hashContent(file),
+      textFingerprint: null,
+    });
+
+    expect(duplicate).toMatchObject({
+      kind: "exact",
+      similarity: 1,
+      versionId: version.id,
+      bookTitle: "Tides",
+      url: `/dashboard/book/${version.bookId}`,
+    });
+    expect(describeDuplicate(duplicate!)).toBe('This file is identical to version 1 of "Tides".');
+  });
+
+  it("should find near-duplicates and ignore other users' books", async () => {
+    const text = makeText(1);
+    const otherUserId = await createUser();
+    await createVersion({ title: "Someone Else", userId: otherUserId, textFingerprint: computeTextFingerprint(text) });
+    await createVersion({ title: "Unrelated", textFingerprint: computeTextFingerprint(makeText(2)) });
+    const original = await createVersion({ title: "Tides", textFingerprint: computeTextFingerprint(text) });
+
+    const duplicate = await findDuplicateManuscript({
+      userId,
+      contentHash: "0".repeat(64),
+      textFingerprint: computeTextFingerprint(editWords(text, [10, 500])),
+    });
+
+    expect(duplicate).toMatchObject({ kind: "near", versionId: original.id });
+    expect(duplicate!.similarity).toBeGreaterThanOrEqual(0.9);
+    expect(describeDuplicate(duplicate!)).toMatch(/^This manuscript is \d+% similar to version 1 of "Tides"\.$/);
+
+    const unique = await findDuplicateManuscript({
+      userId,
+      contentHash: "0".repeat(64),
+      textFingerprint: computeTextFingerprint(makeText(3)),
+    });
+    expect(unique).toBeNull();
+  });
+
+  it("should fingerprint older versions on demand and remember the result", async () => {
+    const text = makeText(1);
+    const { contentHash, storagePath } = await storeBookVersionFile(Buffer.from(text));
+    const legacy = await createVersion({ title: "Tides", fileName: "draft.txt", contentHash, storagePath });
+
+    const duplicate = await findDuplicateManuscript({
+      userId,
+      contentHash: "0".repeat(64),
+      textFingerprint: computeTextFingerprint(editWords(text, [42])),
+    });
+    expect(duplicate).toMatchObject({ kind: "near", versionId: legacy.id });
+
+    const [stored] = await testDb
+      .select({ textFingerprint: bookVersions.textFingerprint })
+      .from(bookVersions)
+      .where(eq(bookVersions.id, legacy.id));
+    expect(stored?.textFingerprint).toBe(computeTextFingerprint(text));
+  });
+});
@@ -0,0 +1,200 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import AdmZip from "adm-zip";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookCovers, bookVersions, users } from "@/server/db/schema";
+import { buildEpub } from "@/server/utils/build-epub";
+import { validateEpub } from "@/server/utils/validate-epub";
+import { storeBookVersionFile } from "@/server/utils/book-version-file";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { exportBookVersionEpub } = await import("@/server/services/epub-export");
+
+// Smallest PNG header we need for format detection
+const PNG_COVER = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32)]);
+
+function readEntry(epub: Buffer, name: string): string {
+  const entry = new AdmZip(epub).getEntry(name);
+  expect(entry).toBeTruthy();
+  return entry!.getData().toString("utf-8");
+}
+
+describe("EPUB Builder", () => {
+  it("should build an EPUB that passes the structural checks", () => {
+    const epub = buildEpub({
+      identifier: "8625796c-bffb-45aa-ba6e-2e77a1ff6d8a",
+      title: "Salt & Stone",
+      author: "Mara Quill",
+      description: "A ferryman's <last> winter.",
+      language: "en_GB",
+      cover: PNG_COVER,
+      chapters: [
+        { title: "The Ferry", text: "The river was high.\n\nShe said \"wait\" & waited." },
+        { title: "", text: "Morning came." },
+      ],
+      modifiedAt: new Date("2026-03-01T12:30:45.123Z"),
+    });
+
+    const report = validateEpub(epub);
+    expect(report.epubVersion).toBe("3.0");
+    expect(report.errorCount).toBe(0);
+    expect(report.warningCount).toBe(0);
+
+    const opf = readEntry(epub, "OEBPS/content.opf");
+    expect(opf).toContain("<dc:identifier id=\"book-id\">urn:uuid:8625796c-bffb-45aa-ba6e-2e77a1ff6d8a</dc:identifier>");
+    expect(opf).toContain("<dc:title>Salt &amp; Stone</dc:title>");
+    expect(opf).toContain("<dc:creator>Mara Quill</dc:creator>");
+    expect(opf).toContain("<dc:language>en-GB</dc:language>");
+    expect(opf).toContain("<dc:description>A ferryman's &lt;last&gt; winter.</dc:description>");
+    expect(opf).toContain('<meta property="dcterms:modified">2026-03-01T12:30:45Z</meta>');
+    expect(opf).toContain('href="images/cover.png" media-type="image/png" properties="cover-image"');
+
+    const chapter = readEntry(epub, "OEBPS/text/chapter-001.xhtml");
+    expect(chapter).toContain("<h1>The Ferry</h1>");
+    expect(chapter).toContain("<p>She said &quot;wait&quot; &amp; waited.</p>");
+
+    const nav = readEntry(epub, "OEBPS/nav.xhtml");
+    expect(nav).toContain('<a href="text/chapter-002.xhtml">Chapter 2</a>');
+  });
+
+  it("should leave out covers it can't embed", () => {
+    const epub = buildEpub({
+      identifier: "isbn:9780000000000",
+      title: "No Cover",
+      cover: Buffer.from("<svg/>"),
+      chapters: [{ title: "One", text: "Text." }],
+    });
+
+    const report = validateEpub(epub);
+    expect(report.errorCount).toBe(0);
+    expect(report.checks.find((check) => check.id === "cover")?.status).toBe("warning");
+    expect(new AdmZip(epub).getEntries().some((entry) => entry.entryName.includes("cover"))).toBe(false);
+  });
+
+  it("should drop characters XML 1.0 doesn't allow, keeping surrogate pairs", () => {
+    const epub = buildEpub({
+      identifier: "isbn:9780000000000",
+      title: "Bell\u0007 Tower\uD800 \uD83D\uDD14\uFFFF",
+      chapters: [{ title: "One", text: "Bell\u0001s rang\uDC00." }],
+    });
+
+    expect(readEntry(epub, "OEBPS/content.opf")).toContain("<dc:title>Bell Tower \uD83D\uDD14</dc:title>");
+    expect(readEntry(epub, "OEBPS/text/chapter-001.xhtml")).toContain("<p>Bells rang.</p>");
+  });
+
+  it("should require at least one chapter", () => {
+    expect(() => buildEpub({ identifier: "x", title: "Empty", chapters: [] })).toThrow();
+  });
+});
+
+describe("EPUB Export", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let userId: string;
+  let storeDir: string;
+  const originalBookPath = process.env.BOOK_STORAGE_PATH;
+  const originalCoverPath = process.env.COVER_STORAGE_PATH;
+
+  async function createBookVersion(fileName: string, content: string) {
+    const bookId = crypto.randomUUID();
+    const [book] = await testDb
+      .insert(books)
+      .values({ id: bookId, userId, title: "The Lighthouse Keeper", authorName: "Ada Byrne", description: "A novel." })
+      .returning();
+    const location = await storeBookVersionFile(Buffer.from(content));
+    const [version] = await testDb
+      .insert(bookVersions)
+      .values({
+        bookId,
+        versionNumber: 1,
+        fileName,
+        fileUrl: `/api/books/${bookId}/file`,
+        fileSize: content.length,
+        fileType: "text/markdown",
+        ...location,
+      })
+      .returning();
+    return { book: book!, version: version! };
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+    userId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "epub-export-"));
+    process.env.BOOK_STORAGE_PATH = path.join(storeDir, "books");
+    process.env.COVER_STORAGE_PATH = path.join(storeDir, "covers");
+  });
+
+  afterEach(async () => {
+    closeTestDatabase();
+    process.env.BOOK_STORAGE_PATH = originalBookPath;
+    process.env.COVER_STORAGE_PATH = originalCoverPath;
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should build an EPUB from a Markdown version with the primary cover", async () => {
+    const { book, version } = await createBookVersion(
+      "manuscript.md",
+      "# Chapter One\n\nThe lamp was lit.\n\n# Chapter Two\n\nThe storm came in."
+    );
+    await fs.mkdir(path.join(storeDir, "covers"), { recursive: true });
+    await fs.writeFile(path.join(storeDir, "covers", "primary.png"), PNG_COVER);
+    await testDb.insert(bookCovers).values([
+      { bookId: book.id, coverType: "ebook", imageUrl: "/api/covers/missing.png", isPrimary: false, status: "completed" },
+      { bookId: book.id, coverType: "ebook", imageUrl: "/api/covers/primary.png", isPrimary: true, status: "completed" },
+    ]);
+
+    const result = await exportBookVersionEpub(book, version);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(validateEpub(result.epub).errorCount).toBe(0);
+    const opf = readEntry(result.epub, "OEBPS/content.opf");
+    expect(opf).toContain("<dc:title>The Lighthouse Keeper</dc:title>");
+    expect(opf).toContain("<dc:creator>Ada Byrne</dc:creator>");
+    expect(opf).toContain(`urn:uuid:${version.id}`);
+    expect(opf).toContain("images/cover.png");
+    expect(readEntry(result.epub, "OEBPS/nav.xhtml")).toContain("Chapter Two");
+  });
+
+  it("should fall back to the book's own cover when the primary one can't be embedded", async () => {
+    const { book, version } = await createBookVersion("manuscript.md", "# Chapter One\n\nThe lamp was lit.");
+    await fs.mkdir(path.join(storeDir, "covers"), { recursive: true });
+    await fs.writeFile(path.join(storeDir, "covers", "gallery.mp4"), Buffer.from("\0\0\0\x18ftypisom"));
+    await fs.writeFile(path.join(storeDir, "covers", "uploaded.png"), PNG_COVER);
+    await testDb.insert(bookCovers).values({
+      bookId: book.id,
+      coverType: "html-gallery",
+      imageUrl: "/api/covers/gallery.mp4",
+      isPrimary: true,
+      status: "completed",
+    });
+
+    const result = await exportBookVersionEpub({ ...book, coverImageUrl: "/api/covers/uploaded.png" }, version);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(readEntry(result.epub, "OEBPS/content.opf")).toContain("images/cover.png");
+  });
+
+  it("should refuse EPUB versions and manuscripts without text", async () => {
+    const epubVersion = await createBookVersion("book.epub", "not really an epub");
+    expect(await exportBookVersionEpub(epubVersion.book, epubVersion.version)).toMatchObject({ ok: false, status: 400 });
+
+    const emptyVersion = await createBookVersion("empty.txt", "   ");
+    expect(await exportBookVersionEpub(emptyVersion.book, emptyVersion.version)).toMatchObject({ ok: false, status: 422 });
+  });
+});
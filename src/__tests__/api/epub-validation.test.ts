@@ -0,0 +1,179 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import { validateEpub, type EpubValidationReport } from "@/server/utils/validate-epub";
+
+const CONTAINER_XML = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+function xhtml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><head><title>Book</title></head><body>${body}</body></html>`;
+}
+
+interface EpubOptions {
+  language?: string;
+  manifest?: string;
+  spine?: string;
+  files?: Record<string, string>;
+  omit?: string[];
+  compressMimetype?: boolean;
+}
+
+/**
+ * Build a small EPUB 3 with a cover, a navigation document and two chapters
+ */
+function buildEpub(options: EpubOptions = {}): Buffer {
+  const manifest = options.manifest ?? `
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="cover" href="images/cover.jpg" media-type="image/jpeg" properties="cover-image"/>
+    <item id="ch1" href="text/chapter1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch2" href="text/chapter2.xhtml" media-type="application/xhtml+xml"/>`;
+  const spine = options.spine ?? `<itemref idref="ch1"/><itemref idref="ch2"/>`;
+
+  const files: Record<string, string> = {
+    "META-INF/container.xml": CONTAINER_XML,
+    "OEBPS/content.opf": `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="id">urn:uuid:1</dc:identifier>
+    <dc:title>The Lighthouse Keeper</dc:title>
+    <dc:language>${options.language ?? "en-GB"}</dc:language>
+  </metadata>
+  <manifest>${manifest}</manifest>
+  <spine>${spine}</spine>
+</package>`,
+    "OEBPS/nav.xhtml": xhtml(
+      `<nav epub:type="toc"><ol><li><a href="text/chapter1.xhtml">One</a></li><li><a href="text/chapter2.xhtml#start">Two</a></li></ol></nav>`
+    ),
+    "OEBPS/images/cover.jpg": "jpeg",
+    "OEBPS/text/chapter1.xhtml": xhtml(`<h1>One</h1><p>See <a href="chapter2.xhtml#start">chapter two</a>.</p>`),
+    "OEBPS/text/chapter2.xhtml": xhtml(`<h1 id="start">Two</h1><p><a href="https://example.com">Site</a></p>`),
+    ...options.files,
+  };
+
+  // noSort keeps entries in insertion order so mimetype stays first
+  const zip = new AdmZip(undefined, { noSort: true });
+  zip.addFile("mimetype", Buffer.from("application/epub+zip"));
+  if (!options.compressMimetype) {
+    zip.getEntry("mimetype")!.header.method = 0;
+  }
+  for (const [name, content] of Object.entries(files)) {
+    if (!options.omit?.includes(name)) {
+      zip.addFile(name, Buffer.from(content));
+    }
+  }
+  return zip.toBuffer();
+}
+
+function getCheck(report: EpubValidationReport, id: string) {
+  const check = report.checks.find((candidate) => candidate.id === id);
+  expect(check).toBeDefined();
+  return check!;
+}
+
+describe("EPUB Validation", () => {
+  it("should pass a well-formed EPUB 3", () => {
+    const report = validateEpub(buildEpub());
+
+    expect(report.epubVersion).toBe("3.0");
+    expect(report.checks.map((check) => [check.id, check.status])).toEqual([
+      ["mimetype", "passed"],
+      ["package", "passed"],
+      ["manifest", "passed"],
+      ["resources", "passed"],
+      ["links", "passed"],
+      ["cover", "passed"],
+      ["navigation", "passed"],
+      ["language", "passed"],
+    ]);
+    expect(report.errorCount).toBe(0);
+    expect(report.warningCount).toBe(0);
+  });
+
+  it("should flag a compressed or misplaced mimetype file", () => {
+    expect(getCheck(validateEpub(buildEpub({ compressMimetype: true })), "mimetype").issues[0]?.message).toContain(
+      "compressed"
+    );
+
+    const zip = new AdmZip(buildEpub(), { noSort: true });
+    zip.deleteFile("mimetype");
+    zip.addFile("mimetype", Buffer.from("application/epub+zip"));
+    const misplaced = getCheck(validateEpub(zip.toBuffer()), "mimetype");
+    expect(misplaced.status).toBe("error");
+    expect(misplaced.issues[0]?.message).toContain('instead of "mimetype"');
+  });
+
+  it("should report spine items missing from the manifest and unlisted or missing files", () => {
+    const report = validateEpub(
+      buildEpub({
+        spine: `<itemref idref="ch1"/><itemref idref="ch3"/>`,
+        files: { "OEBPS/text/extra.xhtml": xhtml("<p>Extra</p>") },
+        omit: ["OEBPS/text/chapter2.xhtml"],
+      })
+    );
+
+    const manifest = getCheck(report, "manifest");
+    expect(manifest.status).toBe("error");
+    expect(manifest.issues[0]?.message).toContain('"ch3", which is not in the manifest');
+
+    const resources = getCheck(report, "resources");
+    expect(resources.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ severity: "error", location: "OEBPS/text/chapter2.xhtml" }),
+        expect.objectContaining({ severity: "warning", location: "OEBPS/text/extra.xhtml" }),
+      ])
+    );
+  });
+
+  it("should report broken internal links and missing anchors", () => {
+    const report = validateEpub(
+      buildEpub({
+        files: {
+          "OEBPS/text/chapter1.xhtml": xhtml(
+            `<p><a href="chapter9.xhtml">Missing</a> <a href="chapter2.xhtml#nowhere">Anchor</a> <a href="#top">Self</a></p>`
+          ),
+        },
+      })
+    );
+
+    const links = getCheck(report, "links");
+    expect(links.status).toBe("error");
+    expect(links.issues.map((issue) => [issue.severity, issue.message])).toEqual([
+      ["error", 'Broken link to "chapter9.xhtml": the file does not exist.'],
+      ["warning", 'Broken link to "chapter2.xhtml#nowhere": no element has the id "nowhere".'],
+      ["warning", 'Broken link to "#top": no element has the id "top".'],
+    ]);
+  });
+
+  it("should report a missing cover and navigation document", () => {
+    const report = validateEpub(
+      buildEpub({
+        manifest: `
+          <item id="ch1" href="text/chapter1.xhtml" media-type="application/xhtml+xml"/>
+          <item id="ch2" href="text/chapter2.xhtml" media-type="application/xhtml+xml"/>`,
+        omit: ["OEBPS/nav.xhtml", "OEBPS/images/cover.jpg"],
+      })
+    );
+
+    expect(getCheck(report, "cover")).toMatchObject({ status: "warning" });
+    expect(getCheck(report, "navigation")).toMatchObject({ status: "error" });
+  });
+
+  it("should reject invalid language codes with a suggestion", () => {
+    expect(getCheck(validateEpub(buildEpub({ language: "en_US" })), "language").issues[0]?.message).toBe(
+      '"en_US" is not a valid language code. Use "en-US" instead.'
+    );
+    expect(getCheck(validateEpub(buildEpub({ language: "English" })), "language").status).toBe("error");
+  });
+
+  it("should skip package-level checks when the container is missing", () => {
+    const report = validateEpub(buildEpub({ omit: ["META-INF/container.xml"] }));
+
+    expect(getCheck(report, "package")).toMatchObject({ status: "error" });
+    expect(getCheck(report, "links").status).toBe("skipped");
+    expect(report.errorCount).toBe(1);
+  });
+});
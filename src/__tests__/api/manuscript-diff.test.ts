@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { diffManuscripts, diffParagraphs, diffWords } from "@/server/utils/manuscript-diff";
+import { countWords, type ManuscriptChapter } from "@/server/utils/manuscript-text";
+
+function chapter(index: number, title: string, paragraphs: string[]): ManuscriptChapter {
+  const text = paragraphs.join("\n\n");
+  return { index, title, text, wordCount: countWords(text) };
+}
+
+function manuscript(chapters: ManuscriptChapter[]) {
+  return { text: chapters.map((c) => `${c.title}\n\n${c.text}`).join("\n\n"), chapters };
+}
+
+describe("Manuscript Diff", () => {
+  it("should produce an inline word diff that rebuilds both texts", () => {
+    const segments = diffWords("The old lighthouse stood alone.", "The lighthouse stood proudly alone.");
+
+    expect(segments.filter((s) => s.type !== "added").map((s) => s.text).join("")).toBe(
+      "The old lighthouse stood alone."
+    );
+    expect(segments.filter((s) => s.type !== "removed").map((s) => s.text).join("")).toBe(
+      "The lighthouse stood proudly alone."
+    );
+    expect(segments).toContainEqual({ type: "removed", text: "old " });
+    expect(segments).toContainEqual({ type: "added", text: "proudly " });
+  });
+
+  it("should classify added, removed and changed paragraphs", () => {
+    const oldText = [
+      "The tide came in slowly over the rocks.",
+      "Nobody noticed the boat.",
+      "The keeper lit the lamp at dusk.",
+    ].join("\n\n");
+    const newText = [
+      "The tide came in slowly over the rocks.",
+      "The keeper lit the old lamp at dusk.",
+      "A gull cried somewhere in the fog.",
+    ].join("\n\n");
+
+    const paragraphs = diffParagraphs(oldText, newText);
+
+    expect(paragraphs.map((p) => p.type)).toEqual(["unchanged", "removed", "changed", "added"]);
+  });
+
+  it("should pair chapters by title and report per-chapter counts", () => {
+    const before = manuscript([
+      chapter(0, "Chapter 1", ["It was a calm night.", "The sea was flat."]),
+      chapter(1, "Chapter 2", ["Morning came."]),
+      chapter(2, "Chapter 3", ["A short goodbye."]),
+    ]);
+    const after = manuscript([
+      chapter(0, "Chapter 1", ["It was a calm night.", "The sea was flat.", "Then the wind rose."]),
+      chapter(1, "Chapter 2", ["Morning came."]),
+      chapter(2, "Epilogue", ["Years later, the keeper returned."]),
+    ]);
+
+    const diff = diffManuscripts(before, after);
+
+    expect(diff.chapters.map((c) => [c.title, c.status])).toEqual([
+      ["Chapter 1", "changed"],
+      ["Chapter 2", "unchanged"],
+      ["Chapter 3", "removed"],
+      ["Epilogue", "added"],
+    ]);
+    expect(diff.chapters[0]).toMatchObject({ added: 1, removed: 0, changed: 0, wordDelta: 4 });
+    expect(diff.chapters[1]?.paragraphs).toEqual([]);
+    expect(diff.totals).toMatchObject({ chaptersAdded: 1, chaptersRemoved: 1, chaptersChanged: 1 });
+    expect(diff.totals.wordDelta).toBe(countWords(after.text) - countWords(before.text));
+  });
+
+  it("should detect renamed chapters by content", () => {
+    const paragraphs = ["The storm broke the lamp glass.", "Everyone waited for the ship to return home."];
+    const before = manuscript([chapter(0, "Chapter 4", paragraphs)]);
+    const after = manuscript([chapter(0, "The Storm", paragraphs)]);
+
+    const diff = diffManuscripts(before, after);
+
+    expect(diff.chapters).toHaveLength(1);
+    expect(diff.chapters[0]).toMatchObject({ title: "The Storm", oldTitle: "Chapter 4", status: "changed", added: 0 });
+  });
+
+  it("should compare whole texts when there are no chapters", () => {
+    const diff = diffManuscripts(
+      { text: "One paragraph.\n\nAnother one.", chapters: [] },
+      { text: "One paragraph.", chapters: [] }
+    );
+
+    expect(diff.chapters).toHaveLength(1);
+    expect(diff.chapters[0]).toMatchObject({ title: "Manuscript", removed: 1, wordDelta: -2 });
+  });
+});
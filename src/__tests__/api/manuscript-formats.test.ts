@@ -0,0 +1,187 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import AdmZip from "adm-zip";
+import { extractManuscriptMetadata } from "@/server/utils/extract-manuscript-metadata";
+import { extractMarkdownMetadata } from "@/server/utils/extract-markdown-metadata";
+import { extractOdtMetadata } from "@/server/utils/extract-odt-metadata";
+import { extractRtfMetadata } from "@/server/utils/extract-rtf-metadata";
+import { sniffFileFormat, validateManuscriptFileType } from "@/server/utils/validate-file-type";
+
+const FIXTURES = path.resolve(__dirname, "../fixtures/manuscripts");
+
+function readFixture(name: string): Buffer {
+  return readFileSync(path.join(FIXTURES, name));
+}
+
+function makeFile(data: Buffer, name: string, type: string): File {
+  return new File([new Uint8Array(data)], name, { type });
+}
+
+const ODT_MIMETYPE = "application/vnd.oasis.opendocument.text";
+
+/**
+ * Build an ODT the way LibreOffice writes it: an uncompressed "mimetype" entry first
+ */
+function buildOdt(options: { meta?: string; body: string; styles?: string }): Buffer {
+  const zip = new AdmZip();
+  zip.addFile("mimetype", Buffer.from(ODT_MIMETYPE));
+  zip.getEntry("mimetype")!.header.method = 0;
+  zip.addFile("META-INF/manifest.xml", Buffer.from("<manifest:manifest/>"));
+  if (options.meta) {
+    zip.addFile("meta.xml", Buffer.from(options.meta));
+  }
+  zip.addFile(
+    "content.xml",
+    Buffer.from(`<?xml version="1.0"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0">
+  <office:body><office:text>${options.body}</office:text></office:body>
+</office:document-content>`)
+  );
+  if (options.styles) {
+    zip.addFile("styles.xml", Buffer.from(options.styles));
+  }
+  return zip.toBuffer();
+}
+
+const ODT_META = `<?xml version="1.0"?>
+<office:document-meta xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <office:meta>
+    <dc:title>The Lighthouse Keeper</dc:title>
+    <meta:initial-creator>Jane Writer</meta:initial-creator>
+    <dc:creator>Copy Editor</dc:creator>
+    <dc:description>A story about a lighthouse.</dc:description>
+  </office:meta>
+</office:document-meta>`;
+
+const ODT_BODY = [
+  "<text:p>For my family.</text:p>",
+  '<text:h text:outline-level="1">Chapter One</text:h>',
+  "<text:p>It was a <text:span>dark</text:span> and<text:s/>stormy night.<text:note><text:note-body><text:p>Not counted.</text:p></text:note-body></text:note></text:p>",
+  "<text:list><text:list-item><text:p>The keeper lit the lamp.</text:p></text:list-item></text:list>",
+  '<text:h text:outline-level="2">A Scene</text:h>',
+  "<text:p>The wind howled.</text:p>",
+  '<text:h text:outline-level="1">Chapter Two</text:h>',
+  "<text:p>Morning came.<text:line-break/>The gulls returned.</text:p>",
+].join("");
+
+describe("Markdown Metadata Extraction", () => {
+  it("should read front matter and chapters from headings", async () => {
+    const metadata = await extractMarkdownMetadata(readFixture("manuscript.md"), "manuscript.md");
+
+    expect(metadata).toMatchObject({
+      title: "The Lighthouse Keeper",
+      author: "Jane Writer",
+      description: "A story about a lighthouse.",
+      language: "en-GB",
+    });
+    expect(metadata.text).toContain("It was a dark and stormy night. The keeper lit the lamp.");
+    expect(metadata.text).toContain('She said, "Café later?"');
+    expect(metadata.text).not.toContain("https://");
+    expect(metadata.chapters?.map((chapter) => chapter.title)).toEqual(["Chapter One", "Chapter Two"]);
+    expect(metadata.chapters?.[1]?.text).toBe("Morning came.\n\nThe gulls returned.");
+  });
+
+  it("should read a MultiMarkdown header from a Scrivener export", async () => {
+    const metadata = await extractManuscriptMetadata(readFixture("scrivener-export.mmd"), "book.mmd");
+
+    expect(metadata?.title).toBe("The Lighthouse Keeper");
+    expect(metadata?.author).toBe("Jane Writer");
+    expect(metadata?.text).not.toContain("Base Header Level");
+    expect(metadata?.chapters?.map((chapter) => chapter.title)).toEqual(["Chapter One", "Chapter Two"]);
+  });
+
+  it("should keep an opening line that only looks like a header", async () => {
+    const metadata = await extractMarkdownMetadata(Buffer.from("Note: this is the first line.\n\nChapter 1\n\nText."), "a.md");
+
+    expect(metadata.title).toBeUndefined();
+    expect(metadata.text).toContain("Note: this is the first line.");
+  });
+});
+
+describe("RTF Metadata Extraction", () => {
+  it("should read the info group, text and heading-styled chapters", async () => {
+    const metadata = await extractRtfMetadata(readFixture("scrivener-export.rtf"), "book.rtf");
+
+    expect(metadata).toMatchObject({
+      title: "The Lighthouse Keeper",
+      author: "Jane Writer",
+      description: "A story about a lighthouse.",
+    });
+    expect(metadata.text).toContain("It was a dark and stormy night. The keeper lit the lamp.");
+    expect(metadata.text).toContain("She said, “Café later?” and smiled — briefly.");
+    expect(metadata.text).not.toContain("Palatino");
+    expect(metadata.text).not.toContain("not sure about this");
+    expect(metadata.text).not.toContain("Not counted");
+    expect(metadata.chapters?.map((chapter) => chapter.title)).toEqual(["Chapter One", "Chapter Two"]);
+    expect(metadata.chapters?.[1]?.text).toBe("Morning came.\nThe gulls returned.");
+  });
+});
+
+describe("ODT Metadata Extraction", () => {
+  it("should read meta.xml, text and outline-level chapters", async () => {
+    const styles = `<office:document-styles><style:default-style style:family="paragraph"><style:text-properties fo:language="en" fo:country="GB"/></style:default-style></office:document-styles>`;
+    const metadata = await extractOdtMetadata(buildOdt({ meta: ODT_META, body: ODT_BODY, styles }), "book.odt");
+
+    expect(metadata).toMatchObject({
+      title: "The Lighthouse Keeper",
+      author: "Jane Writer",
+      description: "A story about a lighthouse.",
+      language: "en-GB",
+    });
+    expect(metadata.text).toContain("It was a dark and stormy night.");
+    expect(metadata.text).toContain("The keeper lit the lamp.");
+    expect(metadata.text).not.toContain("Not counted");
+    expect(metadata.chapters?.map((chapter) => chapter.title)).toEqual(["Chapter One", "Chapter Two"]);
+    expect(metadata.chapters?.[0]?.text).toContain("A Scene");
+    expect(metadata.chapters?.[1]?.text).toBe("Morning came.\nThe gulls returned.");
+  });
+
+  it("should cap the spaces a <text:s/> repeat count stands for", async () => {
+    const body = '<text:p>Wide<text:s text:c="2000000000"/>gap<text:s text:c="-3"/>here.</text:p>';
+    const metadata = await extractOdtMetadata(buildOdt({ body }), "book.odt");
+
+    expect(metadata.text).toMatch(/^Wide {1000}gap here\.$/);
+  });
+});
+
+describe("New Manuscript Format Validation", () => {
+  it("should detect RTF and ODT content", async () => {
+    expect(await sniffFileFormat(makeFile(readFixture("scrivener-export.rtf"), "file", ""))).toBe("rtf");
+    expect(await sniffFileFormat(makeFile(buildOdt({ body: ODT_BODY }), "file", ""))).toBe("odt");
+    expect(await sniffFileFormat(makeFile(readFixture("manuscript.md"), "file", ""))).toBe("text");
+  });
+
+  it("should accept each format with its MIME type or a generic one", async () => {
+    const cases: Array<[Buffer, string, string, string]> = [
+      [readFixture("manuscript.md"), "book.md", "text/markdown", "text"],
+      [readFixture("scrivener-export.mmd"), "book.mmd", "", "text"],
+      [readFixture("scrivener-export.rtf"), "book.rtf", "application/rtf", "rtf"],
+      [readFixture("scrivener-export.rtf"), "book.rtf", "text/rtf", "rtf"],
+      [buildOdt({ body: ODT_BODY }), "book.odt", ODT_MIMETYPE, "odt"],
+      [buildOdt({ body: ODT_BODY }), "book.odt", "application/octet-stream", "odt"],
+    ];
+
+    for (const [data, name, type, format] of cases) {
+      expect(await validateManuscriptFileType(makeFile(data, name, type))).toEqual({
+        isValid: true,
+        detectedFormat: format,
+      });
+    }
+  });
+
+  it("should reject renamed files", async () => {
+    const docxAsOdt = new AdmZip();
+    docxAsOdt.addFile("[Content_Types].xml", Buffer.from("<Types/>"));
+    docxAsOdt.addFile("word/document.xml", Buffer.from("<w:document/>"));
+    const renamedDocx = await validateManuscriptFileType(makeFile(docxAsOdt.toBuffer(), "book.odt", ODT_MIMETYPE));
+    expect(renamedDocx.error).toContain("Expected an OpenDocument text document (ODT), but the file is actually a Word document (DOCX)");
+
+    const textAsRtf = await validateManuscriptFileType(makeFile(readFixture("manuscript.md"), "book.rtf", "application/rtf"));
+    expect(textAsRtf.error).toContain("Expected an RTF document, but the file is actually plain text");
+
+    const rtfAsMarkdown = await validateManuscriptFileType(makeFile(readFixture("scrivener-export.rtf"), "book.md", "text/markdown"));
+    expect(rtfAsMarkdown).toMatchObject({ isValid: false, detectedFormat: "rtf" });
+  });
+});
@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import { calculateDialogueRatio, computeManuscriptStats } from "@/server/utils/manuscript-stats";
+import { extractManuscriptMetadata } from "@/server/utils/extract-manuscript-metadata";
+
+function buildEpub(chapters: string[]): Buffer {
+  const zip = new AdmZip();
+  zip.addFile(
+    "META-INF/container.xml",
+    Buffer.from(`<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`)
+  );
+  const items = chapters
+    .map((_, i) => `<item id="ch${i}" href="text/ch${i}.xhtml" media-type="application/xhtml+xml"/>`)
+    .join("");
+  const spine = chapters.map((_, i) => `<itemref idref="ch${i}"/>`).join("");
+  zip.addFile(
+    "OEBPS/content.opf",
+    Buffer.from(`<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Tides</dc:title></metadata>
+  <manifest><item id="nav" href="nav.xhtml" properties="nav" media-type="application/xhtml+xml"/>${items}</manifest>
+  <spine><itemref idref="nav"/>${spine}</spine>
+</package>`)
+  );
+  zip.addFile(
+    "OEBPS/nav.xhtml",
+    Buffer.from(`<html xmlns="http://www.w3.org/1999/xhtml"><body><nav><ol><li>Contents</li></ol></nav></body></html>`)
+  );
+  chapters.forEach((body, i) => {
+    zip.addFile(
+      `OEBPS/text/ch${i}.xhtml`,
+      Buffer.from(`<html xmlns="http://www.w3.org/1999/xhtml"><body>${body}</body></html>`)
+    );
+  });
+  return zip.toBuffer();
+}
+
+describe("Manuscript Stats", () => {
+  it("should compute counts, pages and reading time", () => {
+    const text = Array.from({ length: 500 }, () => "word").join(" ");
+    const chapters = [
+      { index: 0, title: "One", text: "", wordCount: 300 },
+      { index: 1, title: "Two", text: "", wordCount: 200 },
+    ];
+
+    const stats = computeManuscriptStats(text, chapters);
+
+    expect(stats.wordCount).toBe(500);
+    expect(stats.characterCount).toBe(500 * 5 - 1);
+    expect(stats.estimatedPages).toBe(2);
+    expect(stats.chapterCount).toBe(2);
+    expect(stats.averageChapterLength).toBe(250);
+    expect(stats.readingTimeMinutes).toBe(3);
+  });
+
+  it("should not report an average chapter length without chapters", () => {
+    const stats = computeManuscriptStats("Just a few words here.");
+
+    expect(stats.chapterCount).toBe(0);
+    expect(stats.averageChapterLength).toBeNull();
+  });
+
+  it("should measure dialogue in double and single quotes", () => {
+    expect(calculateDialogueRatio("“Come here,” she said.")).toBe(0.5);
+    expect(calculateDialogueRatio("‘I don’t know,’ he said.")).toBe(0.6);
+    expect(calculateDialogueRatio("The keeper’s lamp didn’t flicker.")).toBe(0);
+    expect(calculateDialogueRatio("")).toBe(0);
+  });
+
+  it("should read plain text manuscripts", async () => {
+    const text = "Chapter 1\n\n\"Hello,\" she said.\n\nChapter 2\n\nThe end came quietly.";
+
+    const metadata = await extractManuscriptMetadata(Buffer.from(`\uFEFF${text}`), "draft.txt");
+    const stats = computeManuscriptStats(metadata?.text ?? "", metadata?.chapters);
+
+    expect(metadata?.chapters?.map((c) => c.title)).toEqual(["Chapter 1", "Chapter 2"]);
+    expect(stats.chapterCount).toBe(2);
+    expect(stats.wordCount).toBe(11);
+  });
+
+  it("should read EPUB spine text in order and skip the navigation document", async () => {
+    const buffer = buildEpub([
+      "<h1>Chapter One</h1><p>The tide came in.</p><blockquote><p>A quoted line.</p></blockquote>",
+      "<h1>Chapter Two</h1><p>It went back out.</p>",
+    ]);
+
+    const metadata = await extractManuscriptMetadata(buffer, "tides.epub");
+
+    expect(metadata?.title).toBe("Tides");
+    expect(metadata?.text).not.toContain("Contents");
+    expect(metadata?.chapters?.map((c) => c.title)).toEqual(["Chapter One", "Chapter Two"]);
+    expect(metadata?.chapters?.[0]?.text).toBe("The tide came in.\n\nA quoted line.");
+  });
+});
@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import zlib from "zlib";
+import { extractPdfMetadata } from "@/server/utils/extract-pdf-metadata";
+
+// Smallest valid JPEG header bytes - enough to be recognised as image data
+const FAKE_JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0xff, 0xd9]);
+
+/**
+ * Build a small PDF with an info dictionary, one page per entry in `pages`
+ * and an optional JPEG image on the first page
+ */
+function buildPdf(options: { info?: string; pages: string[][]; image?: Buffer; lastPageContent?: Buffer }): Buffer {
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n")];
+  const pageIds = options.pages.map((_, i) => 10 + i * 2);
+  const addObject = (num: number, body: string, stream?: Buffer) => {
+    if (stream) {
+      chunks.push(Buffer.from(`${num} 0 obj\n${body}\nstream\n`), stream, Buffer.from("\nendstream\nendobj\n"));
+    } else {
+      chunks.push(Buffer.from(`${num} 0 obj\n${body}\nendobj\n`));
+    }
+  };
+
+  addObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  addObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} /Resources << /Font << /F1 4 0 R >> >> >>`);
+  if (options.info) {
+    addObject(3, options.info);
+  }
+  addObject(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+  if (options.image) {
+    addObject(5, `<< /Type /XObject /Subtype /Image /Width 600 /Height 900 /Filter /DCTDecode /Length ${options.image.length} >>`, options.image);
+  }
+
+  options.pages.forEach((lines, i) => {
+    const pageId = pageIds[i]!;
+    const resources = i === 0 && options.image
+      ? " /Resources << /Font << /F1 4 0 R >> /XObject << /Im0 5 0 R >> >>"
+      : "";
+    const isLast = i === options.pages.length - 1;
+    const content = isLast && options.lastPageContent
+      ? options.lastPageContent
+      : zlib.deflateSync(
+          Buffer.from(`BT /F1 12 Tf 72 720 Td ${lines.map((line) => `(${line}) Tj 0 -14 Td`).join(" ")} ET`)
+        );
+    addObject(pageId, `<< /Type /Page /Parent 2 0 R /Contents ${pageId + 1} 0 R${resources} >>`);
+    addObject(pageId + 1, `<< /Filter /FlateDecode /Length ${content.length} >>`, content);
+  });
+
+  chunks.push(Buffer.from(`trailer\n<< /Root 1 0 R${options.info ? " /Info 3 0 R" : ""} >>\n%%EOF\n`));
+  return Buffer.concat(chunks);
+}
+
+describe("PDF Metadata Extraction", () => {
+  it("should read the document info dictionary and page count", async () => {
+    const buffer = buildPdf({
+      info: "<< /Title (The Quiet Harbor) /Author <FEFF004A0061006E006500200044006F0065> /Subject (A coastal mystery) >>",
+      pages: [["Hello"], ["World"]],
+    });
+
+    const metadata = await extractPdfMetadata(buffer, "harbor.pdf");
+
+    expect(metadata.title).toBe("The Quiet Harbor");
+    expect(metadata.author).toBe("Jane Doe");
+    expect(metadata.description).toBe("A coastal mystery");
+    expect(metadata.pageCount).toBe(2);
+  });
+
+  it("should extract the text layer and chapters", async () => {
+    const buffer = buildPdf({
+      pages: [
+        ["Chapter 1", "The tide came in slowly."],
+        ["It never went back out."],
+        ["Chapter 2", "Morning \\(finally\\) arrived."],
+      ],
+    });
+
+    const metadata = await extractPdfMetadata(buffer, "harbor.pdf");
+
+    expect(metadata.text).toContain("The tide came in slowly.");
+    expect(metadata.text).toContain("Morning (finally) arrived.");
+    expect(metadata.chapters?.map((c) => c.title)).toEqual(["Chapter 1", "Chapter 2"]);
+    expect(metadata.chapters?.[0]?.wordCount).toBe(10);
+  });
+
+  it("should use the first-page JPEG as the cover", async () => {
+    const buffer = buildPdf({ pages: [["Cover page"]], image: FAKE_JPEG });
+
+    const metadata = await extractPdfMetadata(buffer, "harbor.pdf");
+
+    expect(metadata.coverImageMimeType).toBe("image/jpeg");
+    expect(metadata.coverImage?.equals(FAKE_JPEG)).toBe(true);
+  });
+
+  it("should return empty metadata for non-PDF files", async () => {
+    const metadata = await extractPdfMetadata(Buffer.from("plain text"), "fake.pdf");
+
+    expect(metadata).toEqual({});
+  });
+
+  it("should skip streams that inflate past the size limit", async () => {
+    // 64 MB of spaces deflates to about 64 KB
+    const bomb = zlib.deflateSync(Buffer.alloc(64 * 1024 * 1024, 0x20));
+    const buffer = buildPdf({ pages: [["Chapter 1", "The tide came in."], ["ignored"]], lastPageContent: bomb });
+
+    const metadata = await extractPdfMetadata(buffer, "harbor.pdf");
+
+    expect(metadata.pageCount).toBe(2);
+    expect(metadata.text).toContain("The tide came in.");
+  });
+});
@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, reportAnnotationComments, reports, users } from "@/server/db/schema";
+import { injectAnnotationOverlay } from "@/server/utils/report-annotation-overlay";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const {
+  addAnnotationComment,
+  createAnnotation,
+  deleteAnnotation,
+  deleteReportAnnotations,
+  listAnnotations,
+  setAnnotationResolved,
+} = await import("@/server/services/report-annotations");
+
+describe("Report Annotations", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let authorId: string;
+  let adminId: string;
+  let bookId: string;
+  let firstReportId: string;
+  let secondReportId: string;
+
+  const highlight = (reportId: string, extra: Record<string, unknown> = {}) => ({
+    reportId,
+    quote: "the middle chapters sag",
+    prefix: "Overall, ",
+    suffix: " under repeated beats.",
+    startOffset: 120,
+    endOffset: 143,
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    authorId = crypto.randomUUID();
+    adminId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values([
+      { id: authorId, email: `${authorId}@example.com`, name: "Ann Author" },
+      { id: adminId, email: `${adminId}@example.com`, name: "Ed Editor", role: "admin" },
+    ]);
+    await testDb.insert(books).values({ id: bookId, userId: authorId, title: "The Lighthouse Keeper" });
+
+    const versions = await testDb
+      .insert(bookVersions)
+      .values([1, 2].map((versionNumber) => ({
+        bookId,
+        versionNumber,
+        fileName: `keeper-v${versionNumber}.txt`,
+        fileUrl: `/keeper-v${versionNumber}.txt`,
+        fileSize: 10,
+        fileType: "text/plain",
+      })))
+      .returning();
+    const inserted = await testDb
+      .insert(reports)
+      .values(versions.map((version) => ({ bookVersionId: version.id, status: "completed", htmlContent: "<p>Report</p>" })))
+      .returning();
+    firstReportId = inserted[0]!.id;
+    secondReportId = inserted[1]!.id;
+  });
+
+  afterEach(() => {
+    closeTestDatabase();
+  });
+
+  it("should create an annotation with its first comment", async () => {
+    const result = await createAnnotation(bookId, authorId, highlight(firstReportId, { comment: "  Is this fixable?  " }));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toMatchObject({
+      reportId: firstReportId,
+      versionNumber: 1,
+      authorName: "Ann Author",
+      quote: "the middle chapters sag",
+      prefix: "Overall, ",
+      startOffset: 120,
+      endOffset: 143,
+      resolvedAt: null,
+    });
+    expect(result.value.comments).toMatchObject([{ body: "Is this fixable?", fromAdmin: false, authorName: "Ann Author" }]);
+  });
+
+  it("should reject empty ranges and reports of other books", async () => {
+    const backwards = await createAnnotation(bookId, authorId, highlight(firstReportId, { startOffset: 150 }));
+    expect(backwards).toMatchObject({ ok: false, status: 400, error: "endOffset must be after startOffset" });
+
+    const otherBookId = crypto.randomUUID();
+    await testDb.insert(books).values({ id: otherBookId, userId: authorId, title: "Another Book" });
+    const elsewhere = await createAnnotation(otherBookId, authorId, highlight(firstReportId));
+    expect(elsewhere).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it("should thread replies in order, marking the ones from admins", async () => {
+    const created = await createAnnotation(bookId, authorId, highlight(firstReportId, { comment: "Is this fixable?" }));
+    if (!created.ok) throw new Error(created.error);
+
+    await addAnnotationComment(bookId, created.value.id, adminId, "Yes - cut chapter 10.", { fromAdmin: true });
+    const reply = await addAnnotationComment(bookId, created.value.id, authorId, "Thanks!");
+    expect(await addAnnotationComment(bookId, created.value.id, authorId, "   ")).toMatchObject({ ok: false, status: 400 });
+
+    if (!reply.ok) throw new Error(reply.error);
+    expect(reply.value.comments.map((comment) => [comment.authorName, comment.fromAdmin, comment.body])).toEqual([
+      ["Ann Author", false, "Is this fixable?"],
+      ["Ed Editor", true, "Yes - cut chapter 10."],
+      ["Ann Author", false, "Thanks!"],
+    ]);
+  });
+
+  it("should resolve and reopen a thread", async () => {
+    const created = await createAnnotation(bookId, authorId, highlight(firstReportId));
+    if (!created.ok) throw new Error(created.error);
+
+    const resolved = await setAnnotationResolved(bookId, created.value.id, adminId, true);
+    expect(resolved.ok && resolved.value.resolvedAt).toBeInstanceOf(Date);
+    expect(resolved.ok && resolved.value.resolvedBy).toBe(adminId);
+
+    const reopened = await setAnnotationResolved(bookId, created.value.id, authorId, false);
+    expect(reopened).toMatchObject({ ok: true, value: { resolvedAt: null, resolvedBy: null } });
+  });
+
+  it("should list a report's annotations or every report's", async () => {
+    await createAnnotation(bookId, authorId, highlight(firstReportId));
+    await createAnnotation(bookId, authorId, highlight(secondReportId, { startOffset: 10, endOffset: 33 }));
+
+    expect((await listAnnotations(bookId, { reportId: secondReportId })).map((a) => a.versionNumber)).toEqual([2]);
+    expect((await listAnnotations(bookId)).map((a) => a.versionNumber)).toEqual([2, 1]);
+    expect(await listAnnotations(crypto.randomUUID())).toEqual([]);
+  });
+
+  it("should only let the annotation's author or an admin delete it", async () => {
+    const created = await createAnnotation(bookId, adminId, highlight(firstReportId, { comment: "See chapter 9" }), {
+      fromAdmin: true,
+    });
+    if (!created.ok) throw new Error(created.error);
+
+    expect(await deleteAnnotation(bookId, created.value.id, authorId)).toMatchObject({ ok: false, status: 403 });
+    expect(await deleteAnnotation(bookId, created.value.id, authorId, { isAdmin: true })).toMatchObject({ ok: true });
+
+    expect(await listAnnotations(bookId)).toEqual([]);
+    const comments = await testDb
+      .select()
+      .from(reportAnnotationComments)
+      .where(eq(reportAnnotationComments.annotationId, created.value.id));
+    expect(comments).toEqual([]);
+  });
+
+  it("should remove the annotations of reports being deleted by version", async () => {
+    await createAnnotation(bookId, authorId, highlight(firstReportId, { comment: "Keep?" }));
+    await createAnnotation(bookId, authorId, highlight(secondReportId, { comment: "Drop?" }));
+    const [secondReport] = await testDb.select().from(reports).where(eq(reports.id, secondReportId));
+
+    await deleteReportAnnotations({ bookVersionIds: [secondReport!.bookVersionId] });
+
+    expect((await listAnnotations(bookId)).map((a) => a.reportId)).toEqual([firstReportId]);
+    expect(await testDb.select().from(reportAnnotationComments)).toHaveLength(1);
+  });
+
+  it("should add the overlay before the end of the body with config that can't break out of its script", () => {
+    const html = injectAnnotationOverlay("<html><body><p>Report</p></body></html>", {
+      bookId: "book-1",
+      reportId: "</script><script>alert(1)</script>",
+    });
+
+    expect(html).toMatch(/<p>Report<\/p>[\s\S]*<script data-report-annotations>[\s\S]*<\/script>\s*<\/body><\/html>$/);
+    expect(html).toContain('"reportId":"\\u003c/script\\u003e\\u003cscript\\u003ealert(1)\\u003c/script\\u003e"');
+    expect(html).not.toContain("<script>alert(1)");
+  });
+});
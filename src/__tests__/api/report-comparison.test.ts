@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { parseStructuredReport, type StructuredReport } from "@/server/utils/report-schema";
+import { compareStructuredReports } from "@/server/utils/report-comparison";
+
+function report(input: { scores?: unknown[]; sections: unknown[] }): StructuredReport {
+  const parsed = parseStructuredReport({
+    schemaVersion: 1,
+    book: { title: "The Lighthouse Keeper" },
+    summary: "A quiet literary mystery.",
+    scores: input.scores ?? [],
+    sections: input.sections,
+  });
+  if (!parsed.ok) throw new Error(parsed.errors.join(", "));
+  return parsed.report;
+}
+
+const first = report({
+  scores: [
+    { id: "overall", label: "Overall", value: 6 },
+    { id: "market", label: "Market fit", value: 3, max: 5 },
+  ],
+  sections: [
+    {
+      id: "craft",
+      title: "Craft",
+      scores: [{ id: "pacing", label: "Pacing", value: 5 }],
+      findings: [
+        { title: "Sagging middle", detail: "Chapters 9-12 repeat beats.", kind: "issue" },
+        { title: "Vivid setting", detail: "The coast is alive.", kind: "strength" },
+        { title: "Flat  antagonist", detail: "Motives unclear.", kind: "consideration" },
+      ],
+    },
+    { id: "comps", title: "Comparable Titles", findings: [{ title: "Too few comps", detail: "Only one." }] },
+  ],
+});
+
+const second = report({
+  scores: [
+    { id: "overall", label: "Overall", value: 7.5 },
+    { id: "market", label: "Market fit", value: 7 },
+  ],
+  sections: [
+    {
+      id: "craft",
+      title: "Craft",
+      scores: [
+        { id: "pacing", label: "Pacing", value: 4 },
+        { id: "voice", label: "Voice", value: 8 },
+      ],
+      findings: [
+        { title: "flat antagonist", detail: "Better, still thin.", kind: "consideration" },
+        { title: "Rushed ending", detail: "The last chapter hurries.", kind: "issue" },
+      ],
+    },
+    { id: "readership", title: "Readership", findings: [{ title: "Book club appeal", detail: "Strong.", kind: "strength" }] },
+  ],
+});
+
+describe("Report Comparison", () => {
+  it("should give score deltas overall and per section on the later report's scale", () => {
+    const comparison = compareStructuredReports(first, second);
+
+    expect(comparison.scores).toEqual([
+      { id: "overall", label: "Overall", max: 10, from: 6, to: 7.5, delta: 1.5 },
+      { id: "market", label: "Market fit", max: 10, from: 3, to: 7, delta: 1 },
+    ]);
+    expect(comparison.sections.find((s) => s.id === "craft")!.scores).toEqual([
+      { id: "pacing", label: "Pacing", max: 10, from: 5, to: 4, delta: -1 },
+      { id: "voice", label: "Voice", max: 10, from: null, to: 8, delta: null },
+    ]);
+  });
+
+  it("should report resolved and new findings, ignoring case and spacing in titles", () => {
+    const craft = compareStructuredReports(first, second).sections.find((s) => s.id === "craft")!;
+
+    // The strength that disappeared isn't counted as resolved
+    expect(craft.resolvedFindings.map((f) => f.title)).toEqual(["Sagging middle"]);
+    expect(craft.newFindings.map((f) => f.title)).toEqual(["Rushed ending"]);
+  });
+
+  it("should include sections that were added or removed between reports", () => {
+    const comparison = compareStructuredReports(first, second);
+
+    expect(comparison.sections.map((s) => [s.id, s.status])).toEqual([
+      ["craft", "both"],
+      ["readership", "added"],
+      ["comps", "removed"],
+    ]);
+    expect(comparison.totals).toEqual({
+      improvedScores: 2,
+      declinedScores: 1,
+      resolvedFindings: 2,
+      newFindings: 2,
+    });
+  });
+});
@@ -0,0 +1,212 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, reports, users } from "@/server/db/schema";
+import { buildPrintableReportHtml, getReportContents } from "@/server/utils/build-printable-report";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+const browser = vi.hoisted(() => ({ launch: vi.fn(), goto: vi.fn(), pdf: vi.fn(), fulfill: vi.fn() }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+vi.mock("playwright-core", () => ({
+  chromium: { launch: browser.launch },
+}));
+
+const { getReportPdf, getReportRevision, isAllowedPdfRequest } = await import("@/server/services/report-pdf");
+
+const REPORT_HTML = `<!DOCTYPE html>
+<html><head><title>Report</title></head>
+<body class="bg-gray-50">
+  <div class="grid">
+    <button class="tab-button" data-tab="overview">Overview</button>
+    <button class="tab-button" data-tab="readers"><svg></svg> Readers &amp; Market</button>
+    <button class="tab-button" data-tab="missing">No Panel</button>
+  </div>
+  <div id="overview" class="tab-content active">Overview text</div>
+  <div id="readers" class="tab-content">Readers text</div>
+</body></html>`;
+
+describe("Report PDF Export", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let bookId: string;
+  let reportId: string;
+  let storeDir: string;
+  const originalEnv = { ...process.env };
+  const details = { title: "The Lighthouse Keeper", author: "Ann Example", versionNumber: 2 };
+
+  async function getStoredReport() {
+    const [report] = await testDb.select().from(reports).where(eq(reports.id, reportId));
+    return { id: report!.id, bookId, htmlContent: report!.htmlContent!, pdfUrl: report!.pdfUrl };
+  }
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "report-pdf-"));
+    process.env.REPORT_STORAGE_PATH = storeDir;
+
+    const userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+    await testDb.insert(books).values({ id: bookId, userId, title: "The Lighthouse Keeper" });
+    const [version] = await testDb
+      .insert(bookVersions)
+      .values({ bookId, versionNumber: 2, fileName: "keeper.txt", fileUrl: "/keeper.txt", fileSize: 10, fileType: "text/plain" })
+      .returning();
+    const [report] = await testDb
+      .insert(reports)
+      .values({ bookVersionId: version!.id, status: "completed", htmlContent: REPORT_HTML })
+      .returning();
+    reportId = report!.id;
+
+    vi.clearAllMocks();
+    browser.pdf.mockImplementation(async () => Buffer.from("%PDF-1.7 rendered"));
+    browser.launch.mockImplementation(async () => {
+      let handleRoute: (route: unknown) => unknown = () => {};
+      return {
+        newPage: async () => ({
+          route: async (_pattern: string, handler: typeof handleRoute) => {
+            handleRoute = handler;
+          },
+          // Navigating asks the route handler for the document, as Chromium would
+          goto: async (url: string) => {
+            browser.goto(url);
+            await handleRoute({ request: () => ({ url: () => url }), fulfill: browser.fulfill });
+          },
+          emulateMedia: async () => {},
+          pdf: browser.pdf,
+        }),
+        close: async () => {},
+      };
+    });
+  });
+
+  afterEach(async () => {
+    closeTestDatabase();
+    process.env = { ...originalEnv };
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should list the tabs that have a panel as contents", () => {
+    expect(getReportContents(REPORT_HTML)).toEqual([
+      { id: "overview", title: "Overview" },
+      { id: "readers", title: "Readers & Market" },
+    ]);
+  });
+
+  it("should add print styles, a cover page and contents to the report", () => {
+    const html = buildPrintableReportHtml(REPORT_HTML, { ...details, generatedAt: new Date(2026, 4, 1) });
+
+    expect(html).toMatch(/<style data-report-print>[\s\S]*\.tab-content \{ display: block !important;[\s\S]*<\/style>\s*<\/head>/);
+    expect(html).toMatch(/<body class="bg-gray-50">\s*<section class="report-pdf-cover">/);
+    expect(html).toContain("<h1>The Lighthouse Keeper</h1>");
+    expect(html).toContain("Version 2 &middot; Generated May 1, 2026");
+    expect(html).toContain('<li><a href="#readers">Readers &amp; Market</a></li>');
+    expect(html).not.toContain('href="#missing"');
+  });
+
+  it("should render once per revision and serve the cached PDF after that", async () => {
+    const first = await getReportPdf(await getStoredReport(), details);
+    const second = await getReportPdf(await getStoredReport(), details);
+
+    expect(first.toString()).toBe("%PDF-1.7 rendered");
+    expect(second.toString()).toBe("%PDF-1.7 rendered");
+    expect(browser.launch).toHaveBeenCalledTimes(1);
+    expect(browser.pdf.mock.calls[0]![0]).toMatchObject({ displayHeaderFooter: true, format: "A4" });
+
+    const revision = getReportRevision(REPORT_HTML, details);
+    expect((await getStoredReport()).pdfUrl).toBe(`/api/books/${bookId}/report/download?format=pdf&revision=${revision}`);
+    await expect(fs.readFile(path.join(storeDir, "pdf", reportId, `${revision}.pdf`), "utf-8")).resolves.toBe(
+      "%PDF-1.7 rendered"
+    );
+  });
+
+  it("should share one render between simultaneous downloads", async () => {
+    const report = await getStoredReport();
+    await Promise.all([getReportPdf(report, details), getReportPdf(report, details)]);
+
+    expect(browser.launch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should render one report at a time", async () => {
+    let rendering = 0;
+    let mostAtOnce = 0;
+    browser.pdf.mockImplementation(async () => {
+      mostAtOnce = Math.max(mostAtOnce, ++rendering);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      rendering--;
+      return Buffer.from("%PDF-1.7 rendered");
+    });
+
+    const report = await getStoredReport();
+    await Promise.all([
+      getReportPdf(report, details),
+      getReportPdf(report, { ...details, versionNumber: 3 }),
+      getReportPdf(report, { ...details, versionNumber: 4 }),
+    ]);
+
+    expect(browser.launch).toHaveBeenCalledTimes(3);
+    expect(mostAtOnce).toBe(1);
+  });
+
+  it("should re-render when the report changes and drop the old PDF", async () => {
+    await getReportPdf(await getStoredReport(), details);
+    const oldRevision = getReportRevision(REPORT_HTML, details);
+
+    const updatedHtml = REPORT_HTML.replace("Readers text", "Revised readers text");
+    await testDb.update(reports).set({ htmlContent: updatedHtml }).where(eq(reports.id, reportId));
+    await getReportPdf(await getStoredReport(), details);
+
+    expect(browser.launch).toHaveBeenCalledTimes(2);
+    await expect(fs.stat(path.join(storeDir, "pdf", reportId, `${oldRevision}.pdf`))).rejects.toThrow();
+    await expect(
+      fs.stat(path.join(storeDir, "pdf", reportId, `${getReportRevision(updatedHtml, details)}.pdf`))
+    ).resolves.toBeTruthy();
+  });
+
+  it("should re-render when the printed title, author or version changes", async () => {
+    await getReportPdf(await getStoredReport(), details);
+    await getReportPdf(await getStoredReport(), { ...details, title: "The Lighthouse Keeper's Daughter" });
+    await getReportPdf(await getStoredReport(), { ...details, author: "Ann Example-Smith" });
+
+    expect(browser.launch).toHaveBeenCalledTimes(3);
+    expect(getReportRevision(REPORT_HTML, details)).not.toBe(getReportRevision(REPORT_HTML, { ...details, versionNumber: 3 }));
+  });
+
+  it("should print the report sanitized and sandboxed", async () => {
+    await testDb
+      .update(reports)
+      .set({ htmlContent: REPORT_HTML.replace("<div id=\"overview\"", "<img src=x onerror=\"fetch('/')\"><div id=\"overview\"") })
+      .where(eq(reports.id, reportId));
+    await getReportPdf(await getStoredReport(), details);
+
+    expect(browser.goto).toHaveBeenCalledWith("https://report-pdf.invalid/");
+    const [response] = browser.fulfill.mock.calls[0]!;
+    expect(response.body).toContain("report-pdf-cover");
+    expect(response.body).not.toContain("onerror");
+    expect(response.headers["Content-Security-Policy"]).toMatch(/^sandbox allow-scripts /);
+  });
+
+  it("should only let Chromium fetch data URLs and the allowlisted CDN and font hosts", () => {
+    expect(isAllowedPdfRequest("data:image/png;base64,AAAA")).toBe(true);
+    expect(isAllowedPdfRequest("https://cdn.tailwindcss.com/")).toBe(true);
+    expect(isAllowedPdfRequest("https://fonts.gstatic.com/s/inter.woff2")).toBe(true);
+
+    expect(isAllowedPdfRequest("http://169.254.169.254/latest/meta-data/")).toBe(false);
+    expect(isAllowedPdfRequest("http://localhost:3000/api/admin/users")).toBe(false);
+    expect(isAllowedPdfRequest("file:///etc/passwd")).toBe(false);
+    expect(isAllowedPdfRequest("https://evil.example/track.png")).toBe(false);
+    expect(isAllowedPdfRequest("http://cdn.tailwindcss.com/")).toBe(false);
+  });
+});
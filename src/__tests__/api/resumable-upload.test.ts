@@ -0,0 +1,175 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  MAX_OPEN_UPLOADS_PER_USER,
+  UPLOAD_CHUNK_SIZE,
+  UPLOAD_SESSION_TTL_MS,
+  cleanupExpiredUploads,
+  completeUploadSession,
+  computeUploadChecksum,
+  createUploadSession,
+  discardUploadSession,
+  getReceivedChunks,
+  getUploadSession,
+  readUploadChunk,
+  readUploadedFile,
+  writeUploadChunk,
+} from "@/server/utils/resumable-upload";
+
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+describe("Resumable Uploads", () => {
+  let uploadDir: string;
+  const originalUploadDir = process.env.UPLOAD_DIR;
+
+  // Two full chunks plus a short final chunk
+  const content = Buffer.alloc(UPLOAD_CHUNK_SIZE * 2 + 1234);
+  for (let i = 0; i < content.length; i++) content[i] = i % 251;
+  const chunks = [0, 1, 2].map((index) => content.subarray(index * UPLOAD_CHUNK_SIZE, (index + 1) * UPLOAD_CHUNK_SIZE));
+
+  async function startUpload(userId = "user-1") {
+    const result = await createUploadSession({
+      userId,
+      purpose: "asset",
+      fileName: "bundle.zip",
+      fileSize: content.length,
+      mimeType: "application/zip",
+    });
+    if (!result.ok) throw new Error(result.error);
+    return result.session;
+  }
+
+  beforeEach(async () => {
+    uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), "resumable-"));
+    process.env.UPLOAD_DIR = uploadDir;
+  });
+
+  afterEach(async () => {
+    process.env.UPLOAD_DIR = originalUploadDir;
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it("should assemble chunks sent out of order and hand the file over until it is discarded", async () => {
+    const session = await startUpload();
+    expect(session.totalChunks).toBe(3);
+
+    for (const index of [2, 0, 1]) {
+      const result = await writeUploadChunk(session, index, Buffer.from(chunks[index]!), sha256(chunks[index]!));
+      expect(result.ok).toBe(true);
+    }
+
+    const checksum = computeUploadChecksum(chunks.map((chunk) => sha256(chunk)));
+    const completed = await completeUploadSession(session, checksum);
+    expect(completed.ok).toBe(true);
+
+    const file = await readUploadedFile(session.id, "user-1", "asset");
+    expect(file?.name).toBe("bundle.zip");
+    expect(file?.type).toBe("application/zip");
+    expect(file?.size).toBe(content.length);
+    expect(Buffer.from(await file!.slice(0, 4).arrayBuffer()).equals(content.subarray(0, 4))).toBe(true);
+    expect(Buffer.from(await file!.arrayBuffer()).equals(content)).toBe(true);
+
+    expect(await readUploadedFile(session.id, "user-2", "asset")).toBeNull();
+    expect(await readUploadedFile(session.id, "user-1", "manuscript")).toBeNull();
+
+    await discardUploadSession(session.id);
+    expect(await readUploadedFile(session.id, "user-1", "asset")).toBeNull();
+  });
+
+  it("should cap the uploads a user can have open at once", async () => {
+    const sessions = [];
+    for (let i = 0; i < MAX_OPEN_UPLOADS_PER_USER; i++) {
+      sessions.push(await startUpload());
+    }
+
+    const rejected = await createUploadSession({
+      userId: "user-1",
+      purpose: "asset",
+      fileName: "bundle.zip",
+      fileSize: content.length,
+      mimeType: "application/zip",
+    });
+    expect(rejected).toMatchObject({ ok: false, status: 429 });
+
+    // Other users are unaffected, and finishing with an upload frees a slot
+    await startUpload("user-2");
+    await discardUploadSession(sessions[0]!.id);
+    await startUpload();
+  });
+
+  it("should report received chunks so an interrupted upload can resume", async () => {
+    const session = await startUpload();
+    await writeUploadChunk(session, 1, Buffer.from(chunks[1]!), sha256(chunks[1]!));
+
+    expect(await getReceivedChunks(session)).toEqual([1]);
+
+    const incomplete = await completeUploadSession(session, "anything");
+    expect(incomplete).toMatchObject({ ok: false, status: 409, missingChunks: [0, 2] });
+  });
+
+  it("should stop reading a chunk body once it passes the chunk size", async () => {
+    let pulled = 0;
+    let cancelled = false;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(64 * 1024));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    expect(await readUploadChunk(endless, UPLOAD_CHUNK_SIZE)).toBeNull();
+    expect(cancelled).toBe(true);
+    expect(pulled).toBeLessThanOrEqual(UPLOAD_CHUNK_SIZE / (64 * 1024) + 2);
+
+    const chunk = await readUploadChunk(new Response(chunks[2]).body, UPLOAD_CHUNK_SIZE);
+    expect(chunk?.equals(chunks[2]!)).toBe(true);
+  });
+
+  it("should reject corrupt chunks and a wrong upload checksum", async () => {
+    const session = await startUpload();
+
+    const corrupt = await writeUploadChunk(session, 0, Buffer.from(chunks[0]!), sha256(Buffer.from("other")));
+    expect(corrupt).toMatchObject({ ok: false, status: 422 });
+
+    const wrongSize = await writeUploadChunk(session, 2, Buffer.from("short"), sha256(Buffer.from("short")));
+    expect(wrongSize).toMatchObject({ ok: false, status: 400 });
+
+    for (const [index, chunk] of chunks.entries()) {
+      await writeUploadChunk(session, index, Buffer.from(chunk), sha256(chunk));
+    }
+    const result = await completeUploadSession(session, computeUploadChecksum(["00", "11", "22"]));
+    expect(result).toMatchObject({ ok: false, status: 422 });
+  });
+
+  it("should only expose sessions to their owner and enforce size limits", async () => {
+    const session = await startUpload();
+
+    expect(await getUploadSession(session.id, "user-1")).not.toBeNull();
+    expect(await getUploadSession(session.id, "user-2")).toBeNull();
+    expect(await getUploadSession("../etc", "user-1")).toBeNull();
+
+    const tooLarge = await createUploadSession({
+      userId: "user-1",
+      purpose: "manuscript",
+      fileName: "novel.pdf",
+      fileSize: 200 * 1024 * 1024,
+      mimeType: "application/pdf",
+    });
+    expect(tooLarge).toMatchObject({ ok: false, status: 400 });
+  });
+
+  it("should remove expired sessions", async () => {
+    const session = await startUpload();
+
+    expect(await cleanupExpiredUploads(Date.now())).toBe(0);
+    expect(await cleanupExpiredUploads(Date.now() + UPLOAD_SESSION_TTL_MS + 1)).toBe(1);
+    expect(await getUploadSession(session.id, "user-1")).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import AdmZip from "adm-zip";
+import { openArchive } from "@/server/utils/safe-archive";
+
+function buildZip(files: Record<string, string | Buffer>, configure?: (zip: AdmZip) => void): Buffer {
+  const zip = new AdmZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, Buffer.isBuffer(content) ? content : Buffer.from(content));
+  }
+  configure?.(zip);
+  return zip.toBuffer();
+}
+
+// Rewrite the uncompressed size a single-entry ZIP declares, in both its local and central headers
+function declareSize(buffer: Buffer, size: number): Buffer {
+  const patched = Buffer.from(buffer);
+  patched.writeUInt32LE(size, 22);
+  patched.writeUInt32LE(size, patched.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+  return patched;
+}
+
+function expectRejected(buffer: Buffer, pattern: RegExp, overrides = {}) {
+  const result = openArchive(buffer, overrides);
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.error).toMatch(pattern);
+  }
+}
+
+describe("Safe Archive Reader", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "safe-archive-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should list, read and extract a well-formed archive", async () => {
+    const buffer = buildZip({ "index.html": "<h1>Hi</h1>", "images/cover.png": Buffer.from([1, 2, 3]) });
+
+    const result = openArchive(buffer);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.archive.entries.map((entry) => entry.name).sort()).toEqual(["images/cover.png", "index.html"]);
+    expect(result.archive.readText("./index.html")).toBe("<h1>Hi</h1>");
+    expect(result.archive.read("missing.txt")).toBeNull();
+
+    expect(await result.archive.extractTo(tempDir)).toEqual({ ok: true });
+    expect(await fs.readFile(path.join(tempDir, "images", "cover.png"))).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it("should reject corrupt archives", () => {
+    expectRejected(Buffer.from("this is not a zip file"), /could not be read/);
+  });
+
+  it("should reject entries that escape the archive folder", () => {
+    for (const name of ["../evil.txt", "assets/../../evil.txt", "/etc/passwd", "C:/evil.txt"]) {
+      const buffer = buildZip({ "placeholder.txt": "x" }, (zip) => {
+        zip.getEntry("placeholder.txt")!.entryName = name;
+      });
+      expectRejected(buffer, /unsafe path/);
+    }
+  });
+
+  it("should reject symbolic links", () => {
+    const buffer = buildZip({ "index.html": "<p></p>" }, (zip) => {
+      zip.addFile("link", Buffer.from("/etc/passwd"));
+      zip.getEntry("link")!.attr = (0o120777 << 16) >>> 0;
+    });
+    expectRejected(buffer, /symbolic link/);
+  });
+
+  it("should reject nested archives by extension and by content", async () => {
+    const inner = buildZip({ "a.txt": "a" });
+    expectRejected(buildZip({ "bundle.zip": inner }), /archive inside the archive/);
+    expect(openArchive(buildZip({ "bundle.zip": inner }), { allowNestedArchives: true }).ok).toBe(true);
+
+    const renamed = openArchive(buildZip({ "bundle.dat": inner }));
+    expect(renamed.ok).toBe(true);
+    if (!renamed.ok) return;
+    const extracted = await renamed.archive.extractTo(tempDir);
+    expect(extracted.ok).toBe(false);
+    if (!extracted.ok) {
+      expect(extracted.error).toMatch(/archive inside the archive/);
+    }
+  });
+
+  it("should enforce entry count, size and compression ratio limits", () => {
+    expectRejected(buildZip({ "a.txt": "a", "b.txt": "b", "c.txt": "c" }), /more than the limit of 2/, {
+      maxEntries: 2,
+    });
+
+    const random = Buffer.from(Array.from({ length: 4096 }, (_, i) => (i * 7919) % 251));
+    expectRejected(buildZip({ "big.bin": random }), /limit per file/, { maxEntrySize: 1024 });
+    expectRejected(buildZip({ "a.bin": random, "b.bin": random }), /limit for uncompressed contents/, {
+      maxTotalSize: 6000,
+    });
+
+    // 4 MB of zeros deflates to a few KB
+    expectRejected(buildZip({ "zeros.bin": Buffer.alloc(4 * 1024 * 1024) }), /possible zip bomb/);
+  });
+
+  it("should not inflate entries past the size they declare", async () => {
+    const zeros = buildZip({ "zeros.bin": Buffer.alloc(4 * 1024 * 1024) });
+
+    // Declaring nothing used to skip the size, ratio and total checks altogether
+    expectRejected(declareSize(zeros, 0), /declares a smaller size than its compressed data/);
+
+    // A plausible size gets past the header checks, but inflating stops at it
+    const understated = openArchive(declareSize(zeros, 8000));
+    expect(understated.ok).toBe(true);
+    if (!understated.ok) return;
+    expect(() => understated.archive.read("zeros.bin")).toThrow();
+    const extracted = await understated.archive.extractTo(tempDir);
+    expect(extracted).toMatchObject({ ok: false, error: expect.stringMatching(/could not be decompressed/) });
+  });
+});
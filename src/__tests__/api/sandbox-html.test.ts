@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  addScriptNonce,
+  isAllowedScriptSource,
+  sandboxHtml,
+  sanitizeUploadedHtml,
+} from "@/server/utils/sandbox-html";
+import { injectAnnotationOverlay } from "@/server/utils/report-annotation-overlay";
+
+vi.mock("@/server/storage", () => ({
+  assertValidBlobKey: () => {},
+  getBlobStore: () => ({ get: async () => Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"/>`) }),
+}));
+
+const { GET: getAdminUpload } = await import("@/app/api/uploads/admin/[...path]/route");
+
+describe("Sandboxed HTML", () => {
+  describe("sanitizeUploadedHtml", () => {
+    it("should strip event handler attributes, including ones with > in other attributes", () => {
+      const html = sanitizeUploadedHtml(
+        `<img src="cover.png" alt="a > b" onerror="fetch('/api/user')"><body ONLOAD=steal()><button type="button" onclick='go()'>Go</button>`
+      );
+
+      expect(html).toBe(
+        `<html><head></head><body><img src="cover.png" alt="a > b"><button type="button">Go</button></body></html>`
+      );
+    });
+
+    it("should find attributes separated by slashes, as browsers do", () => {
+      const html = sanitizeUploadedHtml(
+        [
+          `<img/src="a.png"/onerror=alert(1)>`,
+          `<img src="b.png"/onerror="alert(2)">`,
+          `<svg/onload=alert(3)></svg>`,
+          `<a/href="javascript:alert(4)">four</a>`,
+          `<script/src="https://evil.example/x.js"></script>`,
+          `<script/src=//evil.example/y.js></script>`,
+          `<template><img src=x onerror=alert(5)></template>`,
+        ].join("")
+      );
+
+      expect(html).toBe(`<img src="a.png"><img src="b.png"><svg></svg><a>four</a><template><img src="x"></template>`);
+    });
+
+    it("should strip javascript: URLs however they are written", () => {
+      const html = sanitizeUploadedHtml(
+        [
+          `<a href="javascript:alert(1)">one</a>`,
+          `<a href=" JaVaScRiPt:alert(1)">two</a>`,
+          `<a href="java&#115;cript&colon;alert(1)">three</a>`,
+          `<a href="jav&#x09;ascript:alert(1)">four</a>`,
+          `<form action="vbscript:msgbox(1)"></form>`,
+          `<a href="https://example.com/javascript:ok">five</a>`,
+        ].join("")
+      );
+
+      expect(html).toBe(
+        `<a>one</a><a>two</a><a>three</a><a>four</a><form></form><a href="https://example.com/javascript:ok">five</a>`
+      );
+    });
+
+    it("should keep inline scripts and allowlisted sources but drop foreign ones", () => {
+      const html = sanitizeUploadedHtml(
+        [
+          `<script src="https://cdn.tailwindcss.com"></script>`,
+          `<script src="//cdn.jsdelivr.net/npm/chart.js"></script>`,
+          `<script src="https://evil.example/steal.js"></script>`,
+          `<script src="/uploads/admin/payload.js"></script>`,
+          `<script>document.querySelector('.tab').classList.add('active');</script>`,
+          `<p>Report</p>`,
+          `<script src="http://cdn.tailwindcss.com">`,
+        ].join("")
+      );
+
+      expect(html).toBe(
+        `<script src="https://cdn.tailwindcss.com"></script><script src="//cdn.jsdelivr.net/npm/chart.js"></script><script>document.querySelector('.tab').classList.add('active');</script><p>Report</p>`
+      );
+    });
+  });
+
+  it("should only allow https scripts from the allowlisted libraries", () => {
+    expect(isAllowedScriptSource("https://unpkg.com/lucide@latest/dist/umd/lucide.js")).toBe(true);
+    expect(isAllowedScriptSource("https://cdn.jsdelivr.net/npm/chart.js?v=4")).toBe(true);
+    expect(isAllowedScriptSource("https://cdn.jsdelivr.net/npm/chart.js/dist/chart.umd.min.js")).toBe(true);
+    expect(isAllowedScriptSource("http://unpkg.com/lucide@latest/dist/umd/lucide.js")).toBe(false);
+    expect(isAllowedScriptSource("https://unpkg.com.evil.example/lucide@latest/dist/umd/lucide.js")).toBe(false);
+    expect(isAllowedScriptSource("https://unpkg.com/evil-package/index.js")).toBe(false);
+    expect(isAllowedScriptSource("https://unpkg.com/lucide@latest/../evil-package/index.js")).toBe(false);
+    expect(isAllowedScriptSource("https://cdn.jsdelivr.net/npm/chart.js-evil/index.js")).toBe(false);
+    expect(isAllowedScriptSource("https://cdnjs.cloudflare.com/ajax/libs/x.js")).toBe(false);
+    expect(isAllowedScriptSource("data:text/javascript,alert(1)")).toBe(false);
+    expect(isAllowedScriptSource("report.js")).toBe(false);
+  });
+
+  it("should give inline and allowlisted scripts the nonce, replacing any they came with", () => {
+    const html = addScriptNonce(
+      `<script nonce="guessed">a()</script><script src="https://unpkg.com/lucide@latest/dist/umd/lucide.js"></script><script src="https://unpkg.com/x.js"></script>`,
+      "abc123"
+    );
+
+    expect(html).toBe(
+      `<script nonce="abc123">a()</script><script src="https://unpkg.com/lucide@latest/dist/umd/lucide.js" nonce="abc123"></script><script src="https://unpkg.com/x.js"></script>`
+    );
+  });
+
+  it("should not give the nonce to foreign scripts written with slash separators", () => {
+    const html = addScriptNonce(
+      `<script/src="https://evil.example/x.js"></script><script/nonce="guessed"/src=https://evil.example/y.js></script>`,
+      "abc123"
+    );
+
+    expect(html).not.toContain("abc123");
+    expect(html).not.toContain("guessed");
+  });
+
+  it("should serve with a sandbox CSP whose nonce matches the document's scripts", () => {
+    const first = sandboxHtml("<html><body><p>Report</p><script>tabs()</script></body></html>");
+    const second = sandboxHtml("<p>Report</p>");
+
+    const csp = first.headers["Content-Security-Policy"]!;
+    const nonce = csp.match(/'nonce-([^']+)'/)?.[1];
+    expect(csp).toMatch(/^sandbox allow-scripts /);
+    expect(csp).not.toContain("allow-same-origin");
+    expect(csp).not.toContain("'unsafe-inline' https://cdn");
+    expect(csp).toContain(" https://unpkg.com/lucide@latest/ ");
+    expect(csp).not.toMatch(/ https:\/\/unpkg\.com[ ;]/);
+    expect(csp).toContain("frame-ancestors 'self'");
+    expect(first.html).toContain(`<script nonce="${nonce}">tabs()</script>`);
+    expect(second.headers["Content-Security-Policy"]).not.toContain(nonce);
+  });
+
+  it("should let the annotation overlay run in a sandboxed report, posting to the viewer", () => {
+    const report = sanitizeUploadedHtml("<html><body><p onclick=\"x()\">Report</p></body></html>");
+    const { html } = sandboxHtml(injectAnnotationOverlay(report, { bookId: "book-1", reportId: "report-1" }));
+
+    expect(html).toMatch(/<script data-report-annotations="" nonce="[^"]+">/);
+    expect(html).toContain("window.parent.postMessage(");
+    expect(html).not.toContain("onclick");
+  });
+
+  it("should serve uploaded files, SVGs included, in an empty sandbox", async () => {
+    const response = await getAdminUpload(new NextRequest("http://localhost/api/uploads/admin/book-1/covers/videos/logo.svg"), {
+      params: Promise.resolve({ path: ["book-1", "covers", "videos", "logo.svg"] }),
+    });
+
+    expect(response.headers.get("Content-Type")).toBe("image/svg+xml");
+    expect(response.headers.get("Content-Security-Policy")).toBe("sandbox; default-src 'none'");
+    expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+});
@@ -0,0 +1,194 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, landingPages, reports, shareLinks, users } from "@/server/db/schema";
+import { createShareToken, readShareToken } from "@/server/utils/share-token";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const {
+  checkShareLinkPassword,
+  createShareLink,
+  getShareUnlockCookie,
+  getSharedContent,
+  isShareLinkUnlocked,
+  listShareLinks,
+  recordShareLinkView,
+  resolveShareToken,
+  revokeShareLink,
+} = await import("@/server/services/share-links");
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Share Links", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let authorId: string;
+  let bookId: string;
+  const now = new Date("2026-03-01T12:00:00.500Z");
+
+  const tokenOf = (url: string) => url.replace("/api/share/", "");
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    authorId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: authorId, email: `${authorId}@example.com`, name: "Ann Author" });
+    await testDb.insert(books).values({ id: bookId, userId: authorId, title: "The Lighthouse Keeper" });
+
+    const [version] = await testDb
+      .insert(bookVersions)
+      .values({
+        bookId,
+        versionNumber: 1,
+        fileName: "keeper.txt",
+        fileUrl: "/keeper.txt",
+        fileSize: 10,
+        fileType: "text/plain",
+      })
+      .returning();
+    await testDb.insert(reports).values([
+      { bookVersionId: version!.id, status: "completed", htmlContent: "<p>Old report</p>", requestedAt: new Date(now.getTime() - 2 * DAY) },
+      {
+        bookVersionId: version!.id,
+        status: "completed",
+        htmlContent: '<p>Report</p><img src="http://localhost:3000/chart.png">',
+        requestedAt: new Date(now.getTime() - DAY),
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    closeTestDatabase();
+  });
+
+  it("should sign tokens and reject edited or expired ones", () => {
+    const expiresAt = new Date(now.getTime() + DAY);
+    const token = createShareToken("secret", "link-1", expiresAt);
+
+    expect(readShareToken("secret", token, now)).toMatchObject({ ok: true, linkId: "link-1" });
+    expect(readShareToken("other-secret", token, now)).toMatchObject({ ok: false, error: "Invalid share link" });
+
+    const [, , signature] = token.split(".");
+    const extended = `link-1.${Math.floor(expiresAt.getTime() / 1000) + 86400}.${signature}`;
+    expect(readShareToken("secret", extended, now)).toMatchObject({ ok: false, error: "Invalid share link" });
+    expect(readShareToken("secret", "not-a-token", now)).toMatchObject({ ok: false });
+
+    expect(readShareToken("secret", token, new Date(expiresAt.getTime() + 1000))).toMatchObject({
+      ok: false,
+      error: "This share link has expired",
+    });
+  });
+
+  it("should share the latest report with localhost URLs removed", async () => {
+    const result = await createShareLink(authorId, { bookId, assetType: "report", expiresInDays: 30, label: " Agent " }, now);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toMatchObject({
+      bookTitle: "The Lighthouse Keeper",
+      assetType: "report",
+      label: "Agent",
+      hasPassword: false,
+      status: "active",
+      viewCount: 0,
+    });
+    expect(result.value.expiresAt.getTime()).toBe(Math.floor((now.getTime() + 30 * DAY) / 1000) * 1000);
+    expect(result.value.url).toMatch(/^\/api\/share\/[^/]+$/);
+
+    expect(await getSharedContent(bookId, "report")).toBe('<p>Report</p><img src="/chart.png">');
+  });
+
+  it("should refuse other users' books, missing deliverables and bad input", async () => {
+    const strangerId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: strangerId, email: `${strangerId}@example.com` });
+
+    expect(await createShareLink(strangerId, { bookId, assetType: "report" }, now)).toMatchObject({ ok: false, status: 404 });
+    expect(await createShareLink(authorId, { bookId, assetType: "landing-page" }, now)).toMatchObject({
+      ok: false,
+      status: 404,
+      error: "This book has no landing page preview to share yet",
+    });
+    expect(await createShareLink(authorId, { bookId, assetType: "report", expiresInDays: 365 }, now)).toMatchObject({
+      ok: false,
+      status: 400,
+    });
+    expect(await createShareLink(authorId, { bookId, assetType: "report", password: "abc" }, now)).toMatchObject({
+      ok: false,
+      status: 400,
+      error: "Passwords need at least 6 characters",
+    });
+
+    await testDb.insert(landingPages).values({ bookId, slug: "keeper", title: "Keeper", htmlContent: "<h1>Keeper</h1>" });
+    expect(await createShareLink(authorId, { bookId, assetType: "landing-page" }, now)).toMatchObject({ ok: true });
+  });
+
+  it("should resolve tokens until the link expires or is revoked", async () => {
+    const created = await createShareLink(authorId, { bookId, assetType: "report", expiresInDays: 1 }, now);
+    if (!created.ok) throw new Error(created.error);
+    const token = tokenOf(created.value.url);
+
+    expect(await resolveShareToken(token, now)).toMatchObject({ ok: true, value: { id: created.value.id } });
+    expect(await resolveShareToken(token, new Date(now.getTime() + 2 * DAY))).toMatchObject({ ok: false, status: 410 });
+
+    const revoked = await revokeShareLink(authorId, created.value.id, now);
+    expect(revoked).toMatchObject({ ok: true, value: { status: "revoked" } });
+    expect(await resolveShareToken(token, now)).toMatchObject({
+      ok: false,
+      status: 410,
+      error: "This share link has been revoked",
+    });
+    expect(await revokeShareLink(crypto.randomUUID(), created.value.id, now)).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it("should ask for the password until the unlock cookie is set", async () => {
+    const created = await createShareLink(authorId, { bookId, assetType: "report", password: "lighthouse" }, now);
+    if (!created.ok) throw new Error(created.error);
+    expect(created.value.hasPassword).toBe(true);
+
+    const resolved = await resolveShareToken(tokenOf(created.value.url), now);
+    if (!resolved.ok) throw new Error(resolved.error);
+    const link = resolved.value;
+
+    expect(await checkShareLinkPassword(link, "wrong-password")).toBe(false);
+    expect(await checkShareLinkPassword(link, "lighthouse")).toBe(true);
+
+    const cookie = getShareUnlockCookie(link);
+    expect(cookie.name).toBe(`share_unlock_${link.id}`);
+    expect(isShareLinkUnlocked(link, undefined)).toBe(false);
+    expect(isShareLinkUnlocked(link, "forged")).toBe(false);
+    expect(isShareLinkUnlocked(link, cookie.value)).toBe(true);
+
+    // A new password locks out viewers who entered the old one
+    expect(isShareLinkUnlocked({ ...link, passwordHash: "$2a$10$different" }, cookie.value)).toBe(false);
+  });
+
+  it("should count views and list the user's links newest first", async () => {
+    const first = await createShareLink(authorId, { bookId, assetType: "report" }, now);
+    const later = new Date(now.getTime() + 60 * 1000);
+    const second = await createShareLink(authorId, { bookId, assetType: "report", expiresInDays: 1 }, later);
+    if (!first.ok || !second.ok) throw new Error("Failed to create share links");
+
+    await recordShareLinkView(first.value.id, later);
+    await recordShareLinkView(first.value.id, later);
+
+    const [row] = await testDb.select().from(shareLinks).where(eq(shareLinks.id, first.value.id));
+    expect(row!.viewCount).toBe(2);
+    expect(row!.lastViewedAt!.getTime()).toBe(Math.floor(later.getTime() / 1000) * 1000);
+
+    const listed = await listShareLinks(authorId, new Date(now.getTime() + 3 * DAY));
+    expect(listed.map((link) => [link.id, link.status])).toEqual([
+      [second.value.id, "expired"],
+      [first.value.id, "active"],
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { eq } from "drizzle-orm";
+import { createTestDatabase, closeTestDatabase } from "../helpers/db";
+import { books, bookVersions, reports, users } from "@/server/db/schema";
+import { parseStructuredReport, type StructuredReport } from "@/server/utils/report-schema";
+import { renderReportHtml } from "@/server/utils/render-report-html";
+import { extractSummaryFromReportHtml, getReportScores, getReportSummary } from "@/server/utils/extract-report-summary";
+
+const database = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/server/db", () => ({
+  get db() {
+    return database.current;
+  },
+}));
+
+const { saveStructuredReport, renderStructuredPreview } = await import("@/server/services/structured-reports");
+
+const SUMMARY =
+  "A quiet literary mystery about a lighthouse keeper who finds letters from the drowned, for readers of atmospheric coastal fiction.";
+
+function sampleReport(): StructuredReport {
+  const parsed = parseStructuredReport({
+    schemaVersion: 1,
+    book: { title: "The Lighthouse Keeper", author: "Ann Example", tagline: "Letters from the deep" },
+    summary: SUMMARY,
+    scores: [{ id: "pacing", label: "Pacing", value: 7.5 }],
+    sections: [
+      {
+        id: "readership",
+        title: "Readership",
+        preview: true,
+        intro: "Adults who enjoy slow-burn mysteries.",
+        findings: [{ title: "Strong sense of place", detail: "The coast is vivid.", tag: "Setting", kind: "strength" }],
+      },
+      {
+        id: "craft",
+        title: "Craft",
+        excerpts: [{ text: "The lamp was lit <again>.", location: "Chapter 1" }],
+        recommendations: [{ title: "Tighten the middle", detail: "Chapters 9-12 repeat beats.", priority: "high" }],
+      },
+    ],
+  });
+  if (!parsed.ok) throw new Error(parsed.errors.join(", "));
+  return parsed.report;
+}
+
+describe("Structured Reports", () => {
+  let testDb: ReturnType<typeof createTestDatabase>["db"];
+  let bookId: string;
+  let versionId: string;
+  let storeDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    const { db } = createTestDatabase();
+    testDb = db;
+    database.current = db;
+
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "structured-reports-"));
+    process.env.REPORT_STORAGE_PATH = storeDir;
+
+    const userId = crypto.randomUUID();
+    bookId = crypto.randomUUID();
+    await testDb.insert(users).values({ id: userId, email: `${userId}@example.com`, name: "Test Author" });
+    await testDb.insert(books).values({ id: bookId, userId, title: "The Lighthouse Keeper" });
+    const [version] = await testDb
+      .insert(bookVersions)
+      .values({ bookId, versionNumber: 1, fileName: "keeper.txt", fileUrl: "/keeper.txt", fileSize: 10, fileType: "text/plain" })
+      .returning();
+    versionId = version!.id;
+  });
+
+  afterEach(async () => {
+    closeTestDatabase();
+    process.env = { ...originalEnv };
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("should report every problem with an invalid report", () => {
+    const result = parseStructuredReport({
+      schemaVersion: 1,
+      book: { title: "" },
+      summary: "Short",
+      scores: [{ id: "pacing", label: "Pacing", value: 12 }],
+      sections: [
+        { id: "craft", title: "Craft" },
+        { id: "craft", title: "Craft again" },
+      ],
+    });
+
+    expect(result.ok).toBe(false);
+    const errors = (result as { ok: false; errors: string[] }).errors;
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^book\.title:/),
+        "scores.0: value must not exceed max",
+        'sections.1.id: duplicate section id "craft"',
+      ])
+    );
+  });
+
+  it("should render escaped HTML that legacy summary scraping still reads", () => {
+    const html = renderReportHtml(sampleReport());
+
+    expect(html).toContain('data-tab="readership"');
+    expect(html).toContain('<div id="craft" class="tab-content">');
+    expect(html).toContain("The lamp was lit &lt;again&gt;.");
+    expect(html).not.toContain("<again>");
+    expect(html).toContain("7.5/10");
+    expect(extractSummaryFromReportHtml(html)).toBe(SUMMARY);
+  });
+
+  it("should limit the preview to preview sections", () => {
+    const html = renderReportHtml(sampleReport(), { variant: "preview" });
+
+    expect(html).toContain('<div id="readership" class="tab-content">');
+    expect(html).not.toContain('id="craft"');
+    expect(html).toContain("The full report has 1 more section");
+  });
+
+  it("should prefer structured summaries and scores over the markup", () => {
+    const legacyHtml = renderReportHtml({ ...sampleReport(), summary: "An older summary that only exists in the markup of this report." });
+    const structuredContent = JSON.stringify(sampleReport());
+
+    expect(getReportSummary({ structuredContent, htmlContent: legacyHtml })).toBe(SUMMARY);
+    expect(getReportSummary({ structuredContent: null, htmlContent: legacyHtml })).toMatch(/^An older summary/);
+    expect(getReportSummary({ structuredContent: "{not json", htmlContent: null })).toBeNull();
+    expect(getReportScores({ structuredContent })).toEqual([{ id: "pacing", label: "Pacing", value: 7.5, max: 10 }]);
+  });
+
+  it("should store, render and replace a version's report", async () => {
+    const first = await saveStructuredReport(bookId, sampleReport(), { analyzedBy: "admin-1" });
+    expect(first).toMatchObject({ ok: true, report: { bookVersionId: versionId, status: "completed", analyzedBy: "admin-1" } });
+
+    const reportId = (first as { ok: true; report: typeof reports.$inferSelect }).report.id;
+    const stored = await fs.readFile(path.join(storeDir, `${reportId}.html`), "utf-8");
+    expect(extractSummaryFromReportHtml(stored)).toBe(SUMMARY);
+
+    await saveStructuredReport(bookId, { ...sampleReport(), summary: `${SUMMARY} Revised.` }, { analyzedBy: "admin-1" });
+    const rows = await testDb.select().from(reports).where(eq(reports.bookVersionId, versionId));
+    expect(rows).toHaveLength(1);
+    expect(getReportSummary(rows[0]!)).toBe(`${SUMMARY} Revised.`);
+
+    expect(await renderStructuredPreview(versionId)).toContain("The full report has 1 more section");
+  });
+
+  it("should reject invalid reports and unknown versions without writing", async () => {
+    expect(await saveStructuredReport(bookId, { schemaVersion: 2 }, { analyzedBy: "admin-1" })).toMatchObject({
+      ok: false,
+      status: 400,
+      details: expect.arrayContaining([expect.stringMatching(/^schemaVersion:/)]),
+    });
+    expect(
+      await saveStructuredReport(bookId, sampleReport(), { analyzedBy: "admin-1", bookVersionId: crypto.randomUUID() })
+    ).toMatchObject({ ok: false, status: 404 });
+    expect(await testDb.select().from(reports)).toHaveLength(0);
+  });
+});
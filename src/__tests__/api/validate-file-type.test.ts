@@ -0,0 +1,136 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import AdmZip from "adm-zip";
+import {
+  sniffFileFormat,
+  validateAssetOrHtmlFileType,
+  validateExtractedFileType,
+  validateImageFileType,
+  validateManuscriptFileType,
+  validateReportFileType,
+} from "@/server/utils/validate-file-type";
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+const JPEG_BYTES = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46]);
+const PDF_BYTES = Buffer.from("%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\n");
+const MP4_BYTES = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from("ftypisom\0\0\0\0isommp41")]);
+
+function makeFile(data: Buffer, name: string, type: string): File {
+  return new File([new Uint8Array(data)], name, { type });
+}
+
+function makeDocx(): Buffer {
+  const zip = new AdmZip();
+  zip.addFile("[Content_Types].xml", Buffer.from("<Types/>"));
+  zip.addFile("word/document.xml", Buffer.from("<w:document/>"));
+  return zip.toBuffer();
+}
+
+function makeEpub(): Buffer {
+  const zip = new AdmZip();
+  zip.addFile("mimetype", Buffer.from("application/epub+zip"));
+  zip.addFile("META-INF/container.xml", Buffer.from("<container/>"));
+  return zip.toBuffer();
+}
+
+describe("File Type Sniffing", () => {
+  it("should detect formats from their leading bytes", async () => {
+    const zip = new AdmZip();
+    zip.addFile("index.html", Buffer.from("<html></html>"));
+
+    const cases: Array<[Buffer, string | null]> = [
+      [PDF_BYTES, "pdf"],
+      [PNG_BYTES, "png"],
+      [JPEG_BYTES, "jpeg"],
+      [Buffer.from("GIF89a\x01\0\x01\0"), "gif"],
+      [Buffer.from("RIFF\x24\0\0\0WEBPVP8 "), "webp"],
+      [MP4_BYTES, "mp4"],
+      [Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81]), "webm"],
+      [Buffer.from("RIFF\x24\0\0\0AVI LIST"), "avi"],
+      [Buffer.from("\uFEFF<!DOCTYPE html><html><body>Report</body></html>"), "html"],
+      [Buffer.from("Chapter One\n\nIt was a dark and stormy night."), "text"],
+      [makeDocx(), "docx"],
+      [makeEpub(), "epub"],
+      [zip.toBuffer(), "zip"],
+      [Buffer.from([0x00, 0x01, 0x02, 0x03]), null],
+    ];
+
+    for (const [data, expected] of cases) {
+      expect(await sniffFileFormat(makeFile(data, "file", ""))).toBe(expected);
+    }
+  });
+
+  it("should accept manuscripts whose content matches their type", async () => {
+    expect(await validateManuscriptFileType(makeFile(PDF_BYTES, "book.pdf", "application/pdf"))).toMatchObject({
+      isValid: true,
+      detectedFormat: "pdf",
+    });
+    expect(await validateManuscriptFileType(makeFile(makeEpub(), "book.epub", "application/epub+zip"))).toMatchObject({
+      isValid: true,
+      detectedFormat: "epub",
+    });
+    expect(
+      await validateManuscriptFileType(
+        makeFile(makeDocx(), "book.docx", "application/vnd.openxmlformats-officedocument.wordprocessingml.document")
+      )
+    ).toMatchObject({ isValid: true, detectedFormat: "docx" });
+  });
+
+  it("should reject renamed files with a reason naming the real format", async () => {
+    const renamedImage = await validateManuscriptFileType(makeFile(PNG_BYTES, "book.pdf", "application/pdf"));
+    expect(renamedImage.isValid).toBe(false);
+    expect(renamedImage.detectedFormat).toBe("png");
+    expect(renamedImage.error).toContain("Expected a PDF document");
+    expect(renamedImage.error).toContain("a PNG image");
+
+    const zipAsDocx = await validateManuscriptFileType(makeFile(makeEpub(), "book.docx", ""));
+    expect(zipAsDocx.error).toContain("actually an EPUB book");
+
+    const videoAsCover = await validateImageFileType(makeFile(MP4_BYTES, "cover.jpg", "image/jpeg"));
+    expect(videoAsCover.error).toContain("an MP4 video");
+
+    const wrongImage = await validateImageFileType(makeFile(PNG_BYTES, "cover.jpg", "image/jpeg"));
+    expect(wrongImage.error).toContain("Expected a JPEG image, but the file is actually a PNG image");
+
+    const binary = await validateReportFileType(makeFile(Buffer.from([0, 1, 2, 3]), "report.html", "text/html"));
+    expect(binary.error).toContain("not a recognized file format");
+
+    const empty = await validateImageFileType(makeFile(Buffer.alloc(0), "cover.png", "image/png"));
+    expect(empty).toMatchObject({ isValid: false, error: "The file is empty." });
+  });
+
+  it("should check both ZIP bundles and standalone HTML for asset uploads", async () => {
+    const bundle = new AdmZip();
+    bundle.addFile("index.html", Buffer.from("<html></html>"));
+
+    expect((await validateAssetOrHtmlFileType(makeFile(bundle.toBuffer(), "assets.zip", "application/zip"))).isValid).toBe(true);
+    expect((await validateAssetOrHtmlFileType(makeFile(Buffer.from("<html></html>"), "page.html", "text/html"))).isValid).toBe(true);
+
+    const fakeZip = await validateAssetOrHtmlFileType(makeFile(Buffer.from("<html></html>"), "assets.zip", "application/zip"));
+    expect(fakeZip).toMatchObject({ isValid: false, detectedFormat: "html" });
+
+    const fakeHtml = await validateAssetOrHtmlFileType(makeFile(bundle.toBuffer(), "page.html", "text/html"));
+    expect(fakeHtml).toMatchObject({ isValid: false, detectedFormat: "zip" });
+  });
+
+  it("should only store files from a ZIP whose content matches their extension", async () => {
+    expect(await validateExtractedFileType(makeFile(MP4_BYTES, "trailer.mp4", ""))).toMatchObject({
+      isValid: true,
+      detectedFormat: "mp4",
+    });
+    expect((await validateExtractedFileType(makeFile(MP4_BYTES, "trailer.MOV", ""))).isValid).toBe(true);
+    expect((await validateExtractedFileType(makeFile(PNG_BYTES, "images/chart.png", ""))).isValid).toBe(true);
+
+    const renamedPage = await validateExtractedFileType(
+      makeFile(Buffer.from("<html><script>alert(1)</script></html>"), "trailer.mp4", "")
+    );
+    expect(renamedPage).toMatchObject({ isValid: false, detectedFormat: "html" });
+    expect(renamedPage.error).toContain("Expected an MP4 video, but the file is actually an HTML page");
+
+    const renamedImage = await validateExtractedFileType(makeFile(PNG_BYTES, "trailer.mp4", ""));
+    expect(renamedImage).toMatchObject({ isValid: false, detectedFormat: "png" });
+
+    const unknown = await validateExtractedFileType(makeFile(MP4_BYTES, "trailer.flv", ""));
+    expect(unknown).toMatchObject({ isValid: false, error: "Unsupported file type in archive: .flv" });
+  });
+});
@@ -136,7 +136,18 @@ function createTablesManually(sqlite: Database.Database): void {
       fileType TEXT NOT NULL,
       fileData TEXT,
       mimeType TEXT,
+      contentHash TEXT,
+      storagePath TEXT,
+      textFingerprint TEXT,
+      epubValidation TEXT,
       summary TEXT,
+      wordCount INTEGER,
+      characterCount INTEGER,
+      estimatedPages INTEGER,
+      chapterCount INTEGER,
+      averageChapterLength INTEGER,
+      dialogueRatio REAL,
+      readingTimeMinutes INTEGER,
       uploadedAt INTEGER DEFAULT (unixepoch()) NOT NULL
     )
   `);
@@ -161,7 +172,7 @@ function createTablesManually(sqlite: Database.Database): void {
     CREATE TABLE IF NOT EXISTS getlostportal_purchase (
       id TEXT PRIMARY KEY,
       userId TEXT NOT NULL,
-      bookId TEXT NOT NULL,
+      bookId TEXT,
       featureType TEXT NOT NULL,
       amount INTEGER NOT NULL,
       currency TEXT DEFAULT 'USD',
@@ -181,6 +192,7 @@ function createTablesManually(sqlite: Database.Database): void {
       bookVersionId TEXT NOT NULL,
       status TEXT NOT NULL DEFAULT 'pending',
       htmlContent TEXT,
+      structuredContent TEXT,
       pdfUrl TEXT,
       adminNotes TEXT,
       requestedAt INTEGER DEFAULT (unixepoch()) NOT NULL,
@@ -254,6 +266,116 @@ function createTablesManually(sqlite: Database.Database): void {
       updatedAt INTEGER DEFAULT (unixepoch()) NOT NULL
     )
   `);
+
+  // Create digest_jobs table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS getlostportal_digest_job (
+      id TEXT PRIMARY KEY,
+      bookId TEXT NOT NULL,
+      bookVersionId TEXT,
+      externalJobId TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      startedAt INTEGER,
+      completedAt INTEGER,
+      lastAttemptAt INTEGER,
+      error TEXT,
+      textUrl TEXT,
+      coverUrl TEXT,
+      title TEXT,
+      author TEXT,
+      pages INTEGER,
+      words INTEGER,
+      language TEXT,
+      brief TEXT,
+      shortSummary TEXT,
+      summary TEXT,
+      aiProcessed INTEGER,
+      tokenCount INTEGER,
+      inputTokens INTEGER,
+      outputTokens INTEGER,
+      costCents REAL,
+      applyMetadata INTEGER DEFAULT 1 NOT NULL,
+      createdAt INTEGER DEFAULT (unixepoch()) NOT NULL,
+      updatedAt INTEGER DEFAULT (unixepoch()) NOT NULL
+    )
+  `);
+
+  // Create summaries table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS getlostportal_summary (
+      id TEXT PRIMARY KEY,
+      bookId TEXT NOT NULL,
+      bookVersionId TEXT,
+      source TEXT NOT NULL DEFAULT 'digest',
+      brief TEXT,
+      shortSummary TEXT,
+      fullSummary TEXT,
+      metadata TEXT,
+      createdAt INTEGER DEFAULT (unixepoch()) NOT NULL,
+      updatedAt INTEGER DEFAULT (unixepoch()) NOT NULL
+    )
+  `);
+
+  // Create report annotation tables
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS getlostportal_report_annotation (
+      id TEXT PRIMARY KEY,
+      reportId TEXT NOT NULL,
+      userId TEXT NOT NULL,
+      quote TEXT NOT NULL,
+      prefix TEXT,
+      suffix TEXT,
+      startOffset INTEGER NOT NULL,
+      endOffset INTEGER NOT NULL,
+      resolvedAt INTEGER,
+      resolvedBy TEXT,
+      createdAt INTEGER DEFAULT (unixepoch()) NOT NULL,
+      updatedAt INTEGER DEFAULT (unixepoch()) NOT NULL
+    )
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS getlostportal_report_annotation_comment (
+      id TEXT PRIMARY KEY,
+      annotationId TEXT NOT NULL,
+      userId TEXT NOT NULL,
+      body TEXT NOT NULL,
+      fromAdmin INTEGER NOT NULL DEFAULT 0,
+      createdAt INTEGER DEFAULT (unixepoch()) NOT NULL
+    )
+  `);
+
+  // Create share links table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS getlostportal_share_link (
+      id TEXT PRIMARY KEY,
+      bookId TEXT NOT NULL,
+      userId TEXT NOT NULL,
+      assetType TEXT NOT NULL,
+      label TEXT,
+      passwordHash TEXT,
+      expiresAt INTEGER NOT NULL,
+      revokedAt INTEGER,
+      viewCount INTEGER NOT NULL DEFAULT 0,
+      lastViewedAt INTEGER,
+      createdAt INTEGER DEFAULT (unixepoch()) NOT NULL
+    )
+  `);
+
+  // Create notifications table
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS getlostportal_notification (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      type TEXT NOT NULL,
+      title TEXT NOT NULL,
+      message TEXT NOT NULL,
+      data TEXT,
+      read INTEGER NOT NULL DEFAULT 0,
+      createdAt INTEGER DEFAULT (unixepoch()) NOT NULL
+    )
+  `);
 }
 
 /**
@@ -0,0 +1,284 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useSession } from "@/lib/auth-client";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Coins, RefreshCw } from "lucide-react";
+import { ErrorBoundary } from "@/components/error-boundary";
+
+interface CostTotals {
+  jobs: number;
+  inputTokens: number;
+  outputTokens: number;
+  tokenCount: number;
+  costCents: number;
+  revenueCents: number;
+}
+
+interface CostReport {
+  from: string;
+  to: string;
+  rates: {
+    inputCentsPerMillion: number;
+    outputCentsPerMillion: number;
+  };
+  totals: CostTotals;
+  byDay: Array<CostTotals & { date: string }>;
+  byUser: Array<CostTotals & { userId: string; email: string | null; name: string | null }>;
+  byBook: Array<CostTotals & { bookId: string; title: string | null; userEmail: string | null }>;
+}
+
+const RANGES = [7, 30, 90, 365];
+
+// Single jobs often cost a fraction of a cent, so small amounts keep more digits
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: Math.abs(cents) < 100 ? 4 : 2,
+  });
+}
+
+function CostColumns({ row }: { row: CostTotals }) {
+  const margin = row.revenueCents - row.costCents;
+  return (
+    <>
+      <td className="py-2 px-3 text-right text-gray-600">{row.jobs.toLocaleString()}</td>
+      <td className="py-2 px-3 text-right text-gray-600">{row.tokenCount.toLocaleString()}</td>
+      <td className="py-2 px-3 text-right text-gray-600">{formatCents(row.costCents)}</td>
+      <td className="py-2 px-3 text-right text-gray-600">{formatCents(row.revenueCents)}</td>
+      <td className={`py-2 px-3 text-right ${margin < 0 ? "text-red-600" : "text-gray-600"}`}>
+        {formatCents(margin)}
+      </td>
+    </>
+  );
+}
+
+function CostTable({
+  title,
+  label,
+  rows,
+}: {
+  title: string;
+  label: string;
+  rows: Array<{ key: string; name: React.ReactNode; totals: CostTotals }>;
+}) {
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No digest jobs or purchases in this period</div>
+        ) : (
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 px-3 font-medium text-gray-700">{label}</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Jobs</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Tokens</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">AI cost</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Revenue</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-b hover:bg-gray-50">
+                    <td className="py-2 px-3 text-gray-900">{row.name}</td>
+                    <CostColumns row={row.totals} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DigestCostsContent() {
+  const { data: session, isPending } = useSession();
+  const router = useRouter();
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<CostReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push("/login");
+    }
+  }, [session, isPending, router]);
+
+  useEffect(() => {
+    if (session) {
+      fetchReport(days);
+    }
+  }, [session, days]);
+
+  const fetchReport = async (range: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/admin/digest-costs?days=${range}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch digest costs");
+      }
+      setReport(await response.json());
+    } catch (err) {
+      console.error("[Digest Costs] Failed to fetch report:", err);
+      setError(err instanceof Error ? err.message : "Failed to load digest costs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (isPending || (loading && !report)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const totals = report?.totals;
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Coins className="w-6 h-6" />
+            Digest Costs
+          </h1>
+          <p className="text-sm text-gray-600 mt-1">
+            AI token spend on BookDigest jobs compared with completed purchases.
+            {report && (
+              <>
+                {" "}Priced at {formatCents(report.rates.inputCentsPerMillion)} per million input tokens and{" "}
+                {formatCents(report.rates.outputCentsPerMillion)} per million output tokens.
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {RANGES.map((range) => (
+            <Button
+              key={range}
+              size="sm"
+              variant={range === days ? "default" : "outline"}
+              onClick={() => setDays(range)}
+            >
+              {range}d
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={() => fetchReport(days)} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
+          {error}
+        </div>
+      )}
+
+      {report && totals && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-gray-500">Digest jobs</div>
+                <div className="text-2xl font-bold text-gray-900">{totals.jobs.toLocaleString()}</div>
+                <div className="text-xs text-gray-500 mt-1">{totals.tokenCount.toLocaleString()} tokens</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-gray-500">AI cost</div>
+                <div className="text-2xl font-bold text-gray-900">{formatCents(totals.costCents)}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {totals.jobs > 0 ? `${formatCents(totals.costCents / totals.jobs)} per job` : "No jobs"}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-gray-500">Revenue</div>
+                <div className="text-2xl font-bold text-gray-900">{formatCents(totals.revenueCents)}</div>
+                <div className="text-xs text-gray-500 mt-1">Completed purchases</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-gray-500">Margin</div>
+                <div
+                  className={`text-2xl font-bold ${
+                    totals.revenueCents - totals.costCents < 0 ? "text-red-600" : "text-gray-900"
+                  }`}
+                >
+                  {formatCents(totals.revenueCents - totals.costCents)}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">Revenue minus AI cost</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <CostTable
+            title="By Day"
+            label="Date"
+            rows={[...report.byDay].reverse().map((row) => ({ key: row.date, name: row.date, totals: row }))}
+          />
+          <CostTable
+            title="By User"
+            label="User"
+            rows={report.byUser.map((row) => ({
+              key: row.userId,
+              name: (
+                <>
+                  <div>{row.name || row.email || row.userId}</div>
+                  {row.name && row.email && <div className="text-xs text-gray-500">{row.email}</div>}
+                </>
+              ),
+              totals: row,
+            }))}
+          />
+          <CostTable
+            title="By Book"
+            label="Book"
+            rows={report.byBook.map((row) => ({
+              key: row.bookId,
+              name: (
+                <>
+                  <div>{row.title || row.bookId}</div>
+                  {row.userEmail && <div className="text-xs text-gray-500">{row.userEmail}</div>}
+                </>
+              ),
+              totals: row,
+            }))}
+          />
+        </>
+      )}
+    </main>
+  );
+}
+
+export default function DigestCosts() {
+  return (
+    <ErrorBoundary>
+      <DigestCostsContent />
+    </ErrorBoundary>
+  );
+}
@@ -4,7 +4,7 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useSession, signOut } from "@/lib/auth-client";
-import { Clock, CheckCircle, AlertCircle, XCircle, Settings, LogOut, BookOpen, Users, RefreshCw, User, UserX, Download, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Home, TrendingUp, Loader2, Image as ImageIcon, ExternalLink, Mail, MoreHorizontal, Shield, HelpCircle, FileUp, FileText, Edit2, Save, X, Database } from "lucide-react";
+import { Clock, CheckCircle, AlertCircle, XCircle, Settings, LogOut, BookOpen, Users, RefreshCw, User, UserX, Download, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Home, TrendingUp, Loader2, Image as ImageIcon, ExternalLink, Mail, MoreHorizontal, Shield, HelpCircle, FileUp, FileText, Edit2, Save, X, Database, Coins } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import {
@@ -22,6 +22,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { AssetUploadSection } from "@/components/admin/asset-upload-section";
+import { ReportAnnotationsSection } from "@/components/admin/report-annotations-section";
 import { ErrorBoundary } from "@/components/error-boundary";
 import {
   DropdownMenu,
@@ -75,7 +76,7 @@ interface Book {
     fileName: string;
     fileSize: number;
     uploadedAt: string;
-  };
+  } & Partial<Record<StatField, number | null>>;
   latestReport?: Report;
   reportStatus?: "not_requested" | "requested" | "uploaded" | "viewed";
   marketingStatus?: "not_requested" | "requested" | "uploaded" | "viewed";
@@ -106,9 +107,28 @@ interface User {
   lastActivity?: string | Date | number;
 }
 
-type SortField = "title" | "user" | "status" | "createdAt" | "updatedAt";
+type StatField =
+  | "wordCount"
+  | "characterCount"
+  | "estimatedPages"
+  | "chapterCount"
+  | "averageChapterLength"
+  | "dialogueRatio"
+  | "readingTimeMinutes";
+type SortField = "title" | "user" | "status" | "createdAt" | "updatedAt" | StatField;
 type SortDirection = "asc" | "desc";
 
+// Manuscript stats stored on each book version, selectable in the books table
+const STAT_COLUMNS: { field: StatField; label: string; format: (value: number) => string }[] = [
+  { field: "wordCount", label: "Words", format: (value) => value.toLocaleString() },
+  { field: "characterCount", label: "Characters", format: (value) => value.toLocaleString() },
+  { field: "estimatedPages", label: "Est. Pages", format: (value) => value.toLocaleString() },
+  { field: "chapterCount", label: "Chapters", format: (value) => value.toLocaleString() },
+  { field: "averageChapterLength", label: "Avg. Chapter", format: (value) => `${value.toLocaleString()} words` },
+  { field: "dialogueRatio", label: "Dialogue", format: (value) => `${Math.round(value * 100)}%` },
+  { field: "readingTimeMinutes", label: "Reading Time", format: (value) => `${Math.floor(value / 60)}h ${value % 60}m` },
+];
+
 function AdminDashboardContent() {
   const { data: session, isPending } = useSession();
   const router = useRouter();
@@ -117,14 +137,18 @@ function AdminDashboardContent() {
   const [analytics, setAnalytics] = useState<Analytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [rerunningDigest, setRerunningDigest] = useState(false);
+  const [digestApplyMetadata, setDigestApplyMetadata] = useState(false);
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [sortField, setSortField] = useState<SortField>("createdAt");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [statField, setStatField] = useState<StatField>("wordCount");
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(25);
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [sheetOpen, setSheetOpen] = useState(false);
   const [uploadingReport, setUploadingReport] = useState(false);
+  const [uploadingStructuredReport, setUploadingStructuredReport] = useState(false);
   const [activeView, setActiveView] = useState<"books" | "users">("books");
   
   // Asset management state
@@ -408,11 +432,12 @@ function AdminDashboardContent() {
     }
   }, [selectedBook]);
 
-  const handleReportUpload = async (bookId: string, file: File) => {
+  // Resolves to an error message for the upload section to show, or null on success
+  const handleReportUpload = async (bookId: string, uploadId: string, file: File): Promise<string | null> => {
     setUploadingReport(true);
     try {
       const formData = new FormData();
-      formData.append("file", file);
+      formData.append("uploadId", uploadId);
 
       const response = await fetch(`/api/admin/books/${bookId}/report`, {
         method: "POST",
@@ -423,9 +448,10 @@ function AdminDashboardContent() {
         await fetchBookAssets(bookId);
         await fetchData(); // Refresh main book list to update statuses
         alert("Report uploaded successfully");
+        return null;
       } else {
         const error = await response.json();
-        alert(error.error || "Failed to upload report");
+        return error.error || "Failed to upload report";
       }
     } catch (error) {
       console.error("[Admin] Failed to upload report:", error);
@@ -435,18 +461,54 @@ function AdminDashboardContent() {
         bookId: selectedBook?.id,
         fileName: file?.name,
       });
-      alert("Failed to upload report");
+      return "Failed to upload report";
     } finally {
       setUploadingReport(false);
     }
   };
 
 
-  const handleMarketingAssetUpload = async (bookId: string, file: File) => {
+  // Structured reports are JSON validated by the server and rendered to the report HTML
+  const handleStructuredReportUpload = async (bookId: string, file: File) => {
+    setUploadingStructuredReport(true);
+    try {
+      let body: unknown;
+      try {
+        body = JSON.parse(await file.text());
+      } catch {
+        alert("The file is not valid JSON");
+        return;
+      }
+
+      const response = await fetch(`/api/admin/books/${bookId}/report/structured`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const details = Array.isArray(data.details) ? `\n\n${data.details.join("\n")}` : "";
+        alert(`${data.error || "Failed to upload structured report"}${details}`);
+        return;
+      }
+      await fetchBookAssets(bookId);
+      await fetchData();
+      alert("Structured report uploaded successfully");
+    } catch (error) {
+      console.error("[Admin] Failed to upload structured report:", error);
+      alert("Failed to upload structured report");
+    } finally {
+      setUploadingStructuredReport(false);
+    }
+  };
+
+  // Resolves to an error message for the upload section to show, or null on success
+  const handleMarketingAssetUpload = async (bookId: string, uploadId: string, file: File): Promise<string | null> => {
     setUploadingAsset("marketing");
     try {
       const formData = new FormData();
-      formData.append("file", file);
+      formData.append("uploadId", uploadId);
       formData.append("title", `Marketing Asset ${new Date().toLocaleDateString()}`);
 
       const response = await fetch(`/api/admin/books/${bookId}/marketing-assets`, {
@@ -462,9 +524,10 @@ function AdminDashboardContent() {
           ? `Marketing asset uploaded successfully (ZIP with ${result.extractedFilesCount} file(s))`
           : "Marketing asset uploaded successfully";
         alert(message);
+        return null;
       } else {
         const error = await response.json();
-        alert(error.error || "Failed to upload marketing asset");
+        return error.error || "Failed to upload marketing asset";
       }
     } catch (error) {
       console.error("[Admin] Failed to upload marketing asset:", error);
@@ -474,17 +537,18 @@ function AdminDashboardContent() {
         bookId: selectedBook?.id,
         fileName: file?.name,
       });
-      alert("Failed to upload marketing asset");
+      return "Failed to upload marketing asset";
     } finally {
       setUploadingAsset(null);
     }
   };
 
-  const handleCoverUpload = async (bookId: string, file: File) => {
+  // Resolves to an error message for the upload section to show, or null on success
+  const handleCoverUpload = async (bookId: string, uploadId: string, file: File): Promise<string | null> => {
     setUploadingAsset("cover");
     try {
       const formData = new FormData();
-      formData.append("file", file);
+      formData.append("uploadId", uploadId);
 
       const response = await fetch(`/api/admin/books/${bookId}/covers`, {
         method: "POST",
@@ -495,9 +559,10 @@ function AdminDashboardContent() {
         await fetchBookAssets(bookId);
         await fetchData(); // Refresh main book list to update statuses
         alert("Cover uploaded successfully");
+        return null;
       } else {
         const error = await response.json();
-        alert(error.error || "Failed to upload cover");
+        return error.error || "Failed to upload cover";
       }
     } catch (error) {
       console.error("[Admin] Failed to upload cover:", error);
@@ -507,17 +572,18 @@ function AdminDashboardContent() {
         bookId: selectedBook?.id,
         fileName: file?.name,
       });
-      alert("Failed to upload cover");
+      return "Failed to upload cover";
     } finally {
       setUploadingAsset(null);
     }
   };
 
-  const handleLandingPageUpload = async (bookId: string, file: File) => {
+  // Resolves to an error message for the upload section to show, or null on success
+  const handleLandingPageUpload = async (bookId: string, uploadId: string, file: File): Promise<string | null> => {
     setUploadingAsset("landing-page");
     try {
       const formData = new FormData();
-      formData.append("file", file);
+      formData.append("uploadId", uploadId);
 
       const response = await fetch(`/api/admin/books/${bookId}/landing-page`, {
         method: "POST",
@@ -528,9 +594,10 @@ function AdminDashboardContent() {
         await fetchBookAssets(bookId);
         await fetchData(); // Refresh main book list to update statuses
         alert("Landing page uploaded successfully");
+        return null;
       } else {
         const error = await response.json();
-        alert(error.error || "Failed to upload landing page");
+        return error.error || "Failed to upload landing page";
       }
     } catch (error) {
       console.error("[Admin] Failed to upload landing page:", error);
@@ -540,7 +607,7 @@ function AdminDashboardContent() {
         bookId: selectedBook?.id,
         fileName: file?.name,
       });
-      alert("Failed to upload landing page");
+      return "Failed to upload landing page";
     } finally {
       setUploadingAsset(null);
     }
@@ -764,6 +831,35 @@ function AdminDashboardContent() {
     }
   };
 
+  const handleRerunDigest = async (bookId: string, versionId: string) => {
+    setRerunningDigest(true);
+    try {
+      const response = await fetch(`/api/books/${bookId}/versions/${versionId}/digest`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ applyMetadata: digestApplyMetadata }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        alert(data.error || "Failed to start digest");
+        return;
+      }
+      if (selectedBook && selectedBook.id === bookId) {
+        setSelectedBook({
+          ...selectedBook,
+          digestJob: { ...data, createdAt: new Date().toISOString() },
+        });
+      }
+      await fetchData();
+    } catch (error) {
+      console.error("[Admin] Failed to re-run digest:", error);
+      alert("Failed to start digest");
+    } finally {
+      setRerunningDigest(false);
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
@@ -916,7 +1012,13 @@ function AdminDashboardContent() {
         bValue = new Date(b.updatedAt).getTime();
         break;
       default:
-        return 0;
+        aValue = a.latestVersion?.[sortField] ?? null;
+        bValue = b.latestVersion?.[sortField] ?? null;
+        // Books without stats always go last
+        if (aValue === null || bValue === null) {
+          return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+        }
+        break;
     }
 
     if (sortDirection === "asc") {
@@ -1231,6 +1333,12 @@ function AdminDashboardContent() {
               Database
             </Button>
           </Link>
+          <Link href="/admin/digest-costs">
+            <Button variant="outline" title="AI spend on digest jobs">
+              <Coins className="w-4 h-4 mr-2" />
+              Digest Costs
+            </Button>
+          </Link>
           <Button 
             variant="outline" 
             onClick={async () => {
@@ -1354,6 +1462,37 @@ function AdminDashboardContent() {
                         <th className="text-left py-2 px-2">
                           <span>Landing Page Status</span>
                         </th>
+                        <th className="text-left py-2 px-2">
+                          <div className="flex items-center space-x-1">
+                            <select
+                              value={statField}
+                              onChange={(e) => {
+                                const field = e.target.value as StatField;
+                                setStatField(field);
+                                if (STAT_COLUMNS.some((column) => column.field === sortField)) {
+                                  setSortField(field);
+                                  setCurrentPage(1);
+                                }
+                              }}
+                              className="text-sm font-bold bg-transparent border rounded px-1 py-0.5"
+                              title="Manuscript stat to show"
+                            >
+                              {STAT_COLUMNS.map((column) => (
+                                <option key={column.field} value={column.field}>
+                                  {column.label}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              className="p-1 rounded hover:bg-gray-50"
+                              onClick={() => handleSort(statField)}
+                              title="Sort by this stat"
+                            >
+                              <SortIcon field={statField} />
+                            </button>
+                          </div>
+                        </th>
                         <th
                           className="text-left py-2 px-2 cursor-pointer hover:bg-gray-50"
                           onClick={() => handleSort("createdAt")}
@@ -1609,6 +1748,15 @@ function AdminDashboardContent() {
                                 )}
                               </div>
                             </td>
+                            <td className="py-2 px-2 text-xs text-gray-600">
+                              {(() => {
+                                const column = STAT_COLUMNS.find((c) => c.field === statField);
+                                const value = book.latestVersion?.[statField];
+                                return column && value !== null && value !== undefined
+                                  ? column.format(value)
+                                  : <span className="text-gray-400">—</span>;
+                              })()}
+                            </td>
                             <td className="py-2 px-2 text-xs text-gray-600">
                               {new Date(book.createdAt).toLocaleDateString()}<br/>
                               {new Date(book.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -2281,6 +2429,35 @@ function AdminDashboardContent() {
                       {selectedBook.digestJob?.language && (
                         <div><span className="text-gray-600">Language:</span> {selectedBook.digestJob.language}</div>
                       )}
+                      {selectedBook.latestVersion && (
+                        <div className="pt-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRerunDigest(selectedBook.id, selectedBook.latestVersion!.id)}
+                            disabled={
+                              rerunningDigest ||
+                              selectedBook.digestJob?.status === "pending" ||
+                              selectedBook.digestJob?.status === "processing"
+                            }
+                          >
+                            {rerunningDigest ? (
+                              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                            ) : (
+                              <RefreshCw className="w-3 h-3 mr-1" />
+                            )}
+                            Re-run Digest
+                          </Button>
+                          <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={digestApplyMetadata}
+                              onChange={(e) => setDigestApplyMetadata(e.target.checked)}
+                            />
+                            Update title, cover and description
+                          </label>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -2312,13 +2489,41 @@ function AdminDashboardContent() {
                   assetType="report"
                   items={reports.map(r => ({ ...r, adminNotes: r.adminNotes }))}
                   isUploading={uploadingReport}
-                  onUpload={(file) => handleReportUpload(selectedBook.id, file)}
+                  onUpload={(uploadId, file) => handleReportUpload(selectedBook.id, uploadId, file)}
                   onSetActive={(itemId) => handleSetReportActive(selectedBook.id, itemId)}
                   onDelete={(itemId) => handleDeleteAsset(selectedBook.id, "reports", itemId)}
                   activeLabel="Active"
                   uploadButtonColor="bg-blue-600 hover:bg-blue-700"
                   bookId={selectedBook.id}
                 />
+                <div className="-mt-2 flex items-center gap-2 text-sm">
+                  <label
+                    className={`inline-flex items-center text-blue-600 hover:text-blue-800 ${
+                      uploadingStructuredReport ? "opacity-50 pointer-events-none" : "cursor-pointer"
+                    }`}
+                  >
+                    {uploadingStructuredReport ? (
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    ) : (
+                      <FileUp className="w-3 h-3 mr-1" />
+                    )}
+                    Upload structured report (JSON)
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = "";
+                        if (file) handleStructuredReportUpload(selectedBook.id, file);
+                      }}
+                    />
+                  </label>
+                  <span className="text-xs text-gray-500">Replaces the latest version's report</span>
+                </div>
+
+                {/* Author notes on the reports */}
+                <ReportAnnotationsSection bookId={selectedBook.id} />
 
                 {/* Marketing Assets */}
                 <AssetUploadSection
@@ -2326,7 +2531,7 @@ function AdminDashboardContent() {
                   assetType="marketing-assets"
                   items={marketingAssets}
                   isUploading={uploadingAsset === "marketing"}
-                  onUpload={(file) => handleMarketingAssetUpload(selectedBook.id, file)}
+                  onUpload={(uploadId, file) => handleMarketingAssetUpload(selectedBook.id, uploadId, file)}
                   onSetActive={(itemId) => handleSetActive(selectedBook.id, "marketing-assets", itemId)}
                   onDelete={(itemId) => handleDeleteAsset(selectedBook.id, "marketing-assets", itemId)}
                   activeLabel="Active"
@@ -2340,7 +2545,7 @@ function AdminDashboardContent() {
                   assetType="covers"
                   items={covers}
                   isUploading={uploadingAsset === "cover"}
-                  onUpload={(file) => handleCoverUpload(selectedBook.id, file)}
+                  onUpload={(uploadId, file) => handleCoverUpload(selectedBook.id, uploadId, file)}
                   onSetActive={(itemId) => handleSetPrimary(selectedBook.id, itemId)}
                   onDelete={(itemId) => handleDeleteAsset(selectedBook.id, "covers", itemId)}
                   activeLabel="Active"
@@ -2354,7 +2559,7 @@ function AdminDashboardContent() {
                   assetType="landing-page"
                   items={landingPages}
                   isUploading={uploadingAsset === "landing-page"}
-                  onUpload={(file) => handleLandingPageUpload(selectedBook.id, file)}
+                  onUpload={(uploadId, file) => handleLandingPageUpload(selectedBook.id, uploadId, file)}
                   onSetActive={(itemId) => handleSetActive(selectedBook.id, "landing-page", itemId)}
                   onDelete={(itemId) => handleDeleteAsset(selectedBook.id, "landing-page", itemId)}
                   activeLabel="Active"
@@ -3,6 +3,7 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookCovers } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
 
 /**
  * GET /api/admin/books/[id]/covers/view
@@ -112,11 +113,13 @@ export async function GET(
         const metadata = JSON.parse(primaryCover.metadata);
         if (metadata.variant === "html" && metadata.htmlContent) {
           // Return HTML directly
-          return new NextResponse(metadata.htmlContent, {
+          const sandboxed = sandboxHtml(metadata.htmlContent);
+          return new NextResponse(sandboxed.html, {
             status: 200,
             headers: {
               'Content-Type': 'text/html; charset=utf-8',
               'Cache-Control': 'no-cache, no-store, must-revalidate',
+              ...sandboxed.headers,
             },
           });
         }
@@ -156,11 +159,13 @@ export async function GET(
           </body>
         </html>
       `;
-      return new NextResponse(htmlContent, {
+      const sandboxed = sandboxHtml(htmlContent);
+      return new NextResponse(sandboxed.html, {
         status: 200,
         headers: {
           'Content-Type': 'text/html; charset=utf-8',
           'Cache-Control': 'no-cache, no-store, must-revalidate',
+          ...sandboxed.headers,
         },
       });
     }
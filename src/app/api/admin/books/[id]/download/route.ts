@@ -3,8 +3,7 @@ import { isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions } from "@/server/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { promises as fs } from "fs";
-import path from "path";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
 
 export const dynamic = 'force-dynamic';
 
@@ -35,7 +34,10 @@ export async function GET(
     const [latestVersion] = await db
       .select({
         id: bookVersions.id,
+        bookId: bookVersions.bookId,
+        versionNumber: bookVersions.versionNumber,
         fileName: bookVersions.fileName,
+        storagePath: bookVersions.storagePath,
         fileData: bookVersions.fileData,
         mimeType: bookVersions.mimeType,
         fileType: bookVersions.fileType,
@@ -49,25 +51,10 @@ export async function GET(
       return NextResponse.json({ error: "No file found for this book" }, { status: 404 });
     }
 
-    let fileBuffer: Buffer;
-
-    // Try to read from file system first
-    const bookStoragePath = process.env.BOOK_STORAGE_PATH || './uploads/books';
-    const bookDir = path.resolve(bookStoragePath);
-    const fileExt = path.extname(latestVersion.fileName);
-    const storedFileName = `${id}${fileExt}`;
-    const bookFilePath = path.join(bookDir, storedFileName);
-
-    try {
-      // Try to read from file system
-      fileBuffer = await fs.readFile(bookFilePath);
-    } catch (error) {
-      // Fall back to database if file not found on disk
-      if (latestVersion.fileData) {
-        fileBuffer = Buffer.from(latestVersion.fileData, 'base64');
-      } else {
-        return NextResponse.json({ error: "Book file not found" }, { status: 404 });
-      }
+    // Read from the file system first, falling back to the database copy
+    const fileBuffer = await readBookVersionFile(latestVersion);
+    if (!fileBuffer) {
+      return NextResponse.json({ error: "Book file not found" }, { status: 404 });
     }
 
     // Set appropriate headers for file download
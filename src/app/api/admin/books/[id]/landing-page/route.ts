@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { isAdminFromRequest } from "@/server/auth";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, landingPages } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import { bundleReportHtmlFromContent } from "@/server/utils/bundle-report-html";
+import { discardUploadSession, readUploadedFile } from "@/server/utils/resumable-upload";
 import { storeUploadedAsset, findVideoFiles, rewriteVideoReferences } from "@/server/utils/store-uploaded-asset";
 import { promises as fs } from "fs";
 import path from "path";
-import AdmZip from "adm-zip";
+import { openArchive } from "@/server/utils/safe-archive";
 import { getEnvWithFallback } from "@/server/utils/validate-env";
+import { sanitizeUploadedHtml } from "@/server/utils/sandbox-html";
 
 export const dynamic = 'force-dynamic';
 
@@ -24,6 +26,8 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  const session = await getSessionFromRequest(request);
+
   try {
     // Verify book exists
     const [book] = await db
@@ -37,15 +41,19 @@ export async function POST(
     }
 
     const formData = await request.formData();
-    const file = formData.get("file") as File | null;
+    // Large bundles arrive through a resumable upload and are referenced by uploadId
+    const uploadId = formData.get("uploadId") as string | null;
+    const file = uploadId && session?.user?.id
+      ? await readUploadedFile(uploadId, session.user.id, "asset")
+      : (formData.get("file") as File | null);
 
     if (!file) {
       return NextResponse.json({ error: "ZIP or HTML file is required" }, { status: 400 });
     }
 
     // Server-side file size validation
-    const { validateFileSize } = await import("@/server/utils/validate-file-size");
-    const fileSizeValidation = validateFileSize(file);
+    const { validateFileSize, MAX_ASSET_FILE_SIZE } = await import("@/server/utils/validate-file-size");
+    const fileSizeValidation = validateFileSize(file, MAX_ASSET_FILE_SIZE);
     if (!fileSizeValidation.isValid) {
       return NextResponse.json(
         { error: fileSizeValidation.error },
@@ -55,7 +63,7 @@ export async function POST(
 
     // Server-side file type validation for asset upload (ZIP or HTML)
     const { validateAssetOrHtmlFileType } = await import("@/server/utils/validate-file-type");
-    const fileTypeValidation = validateAssetOrHtmlFileType(file);
+    const fileTypeValidation = await validateAssetOrHtmlFileType(file);
     if (!fileTypeValidation.isValid) {
       return NextResponse.json(
         { error: fileTypeValidation.error },
@@ -81,17 +89,26 @@ export async function POST(
         const fileBytes = await file.arrayBuffer();
         const zipBuffer = Buffer.from(fileBytes);
         
-        const zip = new AdmZip(zipBuffer);
+        // Check entry count, sizes, paths and nesting before anything is extracted
+        const opened = openArchive(zipBuffer);
+        if (!opened.ok) {
+          console.warn(`[Landing Page Upload] Rejected ZIP: ${opened.error}`);
+          return NextResponse.json({ error: opened.error }, { status: 400 });
+        }
         
         // Extract ZIP to temporary directory
-        zip.extractAllTo(tempDir, true);
+        const extraction = await opened.archive.extractTo(tempDir);
+        if (!extraction.ok) {
+          console.warn(`[Landing Page Upload] Rejected ZIP: ${extraction.error}`);
+          return NextResponse.json({ error: extraction.error }, { status: 400 });
+        }
         console.log(`[Landing Page Upload] Extracted ZIP to: ${tempDir}`);
         
         // Find HTML file(s) in the extracted files
-        const zipEntries = zip.getEntries();
+        const zipEntries = opened.archive.entries;
         const htmlFiles = zipEntries
-          .filter(entry => entry.entryName.toLowerCase().endsWith('.html') && !entry.isDirectory)
-          .map(entry => entry.entryName);
+          .filter(entry => entry.name.toLowerCase().endsWith('.html') && !entry.isDirectory)
+          .map(entry => entry.name);
         
         if (htmlFiles.length === 0) {
           return NextResponse.json({ error: "No HTML file found in ZIP archive" }, { status: 400 });
@@ -111,7 +128,7 @@ export async function POST(
         // Track extracted files
         extractedFiles = zipEntries
           .filter(entry => !entry.isDirectory)
-          .map(entry => entry.entryName);
+          .map(entry => entry.name);
         
         console.log(`[Landing Page Upload] Found HTML file: ${htmlFileName}`);
         console.log(`[Landing Page Upload] Extracted ${extractedFiles.length} file(s) from ZIP`);
@@ -213,6 +230,8 @@ export async function POST(
         console.log(`[Landing Page Upload] Rewrote ${videoReplacements.size} video reference(s) in HTML`);
       }
 
+      htmlContent = sanitizeUploadedHtml(htmlContent);
+
     const landingPageId = randomUUID();
 
     // Check if there are any existing landing pages for this book
@@ -273,6 +292,10 @@ export async function POST(
         videoFilesCount: videoReplacements.size,
       });
     } finally {
+      // The uploaded file is read from its session, so the session goes once the upload is processed
+      if (uploadId) {
+        await discardUploadSession(uploadId);
+      }
       // Clean up temporary directory
       try {
         await fs.rm(tempDir, { recursive: true, force: true });
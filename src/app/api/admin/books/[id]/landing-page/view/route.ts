@@ -3,6 +3,7 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, landingPages } from "@/server/db/schema";
 import { eq, and } from "drizzle-orm";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
 
 /**
  * GET /api/admin/books/[id]/landing-page/view
@@ -142,11 +143,13 @@ export async function GET(
     }
 
     // Return HTML directly with proper headers
-    return new NextResponse(page.htmlContent, {
+    const sandboxed = sandboxHtml(page.htmlContent);
+    return new NextResponse(sandboxed.html, {
       status: 200,
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
         'Cache-Control': 'no-cache, no-store, must-revalidate',
+        ...sandboxed.headers,
       },
     });
   } catch (error) {
@@ -7,8 +7,9 @@ import { randomUUID } from "crypto";
 import { bundleReportHtmlFromContent } from "@/server/utils/bundle-report-html";
 import { promises as fs } from "fs";
 import path from "path";
-import AdmZip from "adm-zip";
+import { openArchive } from "@/server/utils/safe-archive";
 import { getEnvWithFallback } from "@/server/utils/validate-env";
+import { sanitizeUploadedHtml } from "@/server/utils/sandbox-html";
 
 export const dynamic = 'force-dynamic';
 
@@ -51,7 +52,7 @@ export async function POST(
 
     // Server-side file type validation for asset upload (ZIP or HTML)
     const { validateAssetOrHtmlFileType } = await import("@/server/utils/validate-file-type");
-    const fileTypeValidation = validateAssetOrHtmlFileType(file);
+    const fileTypeValidation = await validateAssetOrHtmlFileType(file);
     if (!fileTypeValidation.isValid) {
       return NextResponse.json(
         { error: fileTypeValidation.error },
@@ -89,17 +90,26 @@ export async function POST(
         const fileBytes = await file.arrayBuffer();
         const zipBuffer = Buffer.from(fileBytes);
         
-        const zip = new AdmZip(zipBuffer);
+        // Check entry count, sizes, paths and nesting before anything is extracted
+        const opened = openArchive(zipBuffer);
+        if (!opened.ok) {
+          console.warn(`[Preview Report Upload] Rejected ZIP: ${opened.error}`);
+          return NextResponse.json({ error: opened.error }, { status: 400 });
+        }
         
         // Extract ZIP to temporary directory
-        zip.extractAllTo(tempDir, true);
+        const extraction = await opened.archive.extractTo(tempDir);
+        if (!extraction.ok) {
+          console.warn(`[Preview Report Upload] Rejected ZIP: ${extraction.error}`);
+          return NextResponse.json({ error: extraction.error }, { status: 400 });
+        }
         console.log(`[Preview Report Upload] Extracted ZIP to: ${tempDir}`);
         
         // Find HTML file(s) in the extracted files
-        const zipEntries = zip.getEntries();
+        const zipEntries = opened.archive.entries;
         const htmlFiles = zipEntries
-          .filter(entry => entry.entryName.toLowerCase().endsWith('.html') && !entry.isDirectory)
-          .map(entry => entry.entryName);
+          .filter(entry => entry.name.toLowerCase().endsWith('.html') && !entry.isDirectory)
+          .map(entry => entry.name);
         
         if (htmlFiles.length === 0) {
           return NextResponse.json({ error: "No HTML file found in ZIP archive" }, { status: 400 });
@@ -119,7 +129,7 @@ export async function POST(
         // Track extracted files
         extractedFiles = zipEntries
           .filter(entry => !entry.isDirectory)
-          .map(entry => entry.entryName);
+          .map(entry => entry.name);
         
         console.log(`[Preview Report Upload] Found HTML file: ${htmlFileName}`);
         console.log(`[Preview Report Upload] Extracted ${extractedFiles.length} file(s) from ZIP`);
@@ -182,7 +192,7 @@ export async function POST(
       }
 
       // Bundle images into HTML
-      const htmlContent = await bundleReportHtmlFromContent(rawHtmlContent, searchDirs);
+      const htmlContent = sanitizeUploadedHtml(await bundleReportHtmlFromContent(rawHtmlContent, searchDirs));
 
     // Generate report ID
     const reportId = randomUUID();
@@ -3,6 +3,7 @@ import { isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { bookVersions, reports } from "@/server/db/schema";
 import { eq, desc } from "drizzle-orm";
+import { deleteReportAnnotations } from "@/server/services/report-annotations";
 
 export const dynamic = 'force-dynamic';
 
@@ -47,6 +48,7 @@ export async function PATCH(
     if (status === "not_requested") {
       // If setting to not_requested, delete the report if it exists
       if (existingReport) {
+        await deleteReportAnnotations({ reportIds: [existingReport.id] });
         await db
           .delete(reports)
           .where(eq(reports.id, existingReport.id));
@@ -3,8 +3,7 @@ import { isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { bookVersions, reports } from "@/server/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { promises as fs } from "fs";
-import path from "path";
+import { getBlobStore } from "@/server/storage";
 
 export const dynamic = 'force-dynamic';
 
@@ -44,9 +43,8 @@ export async function GET(
       return NextResponse.json({ error: "No report found" }, { status: 404 });
     }
 
-    // Try to read from file system
-    const reportStoragePath = process.env.REPORT_STORAGE_PATH || './uploads/reports';
-    const reportDir = path.resolve(reportStoragePath);
+    // Try to read from blob storage
+    const reportStore = getBlobStore("reports");
 
     // Try common file extensions
     const extensions = ['.pdf', '.html'];
@@ -55,14 +53,12 @@ export async function GET(
     let mimeType = 'application/octet-stream';
 
     for (const ext of extensions) {
-      const filePath = path.join(reportDir, `${report.id}${ext}`);
-      try {
-        fileBuffer = await fs.readFile(filePath);
+      // File with this extension may not exist, try next
+      fileBuffer = await reportStore.get(`${report.id}${ext}`);
+      if (fileBuffer) {
         fileName = `report_${id}${ext}`;
         mimeType = ext === '.pdf' ? 'application/pdf' : 'text/html';
         break;
-      } catch (error) {
-        // File with this extension doesn't exist, try next
       }
     }
 
@@ -6,12 +6,15 @@ import { eq, desc } from "drizzle-orm";
 import { user as betterAuthUser } from "@/server/db/better-auth-schema";
 import { promises as fs } from "fs";
 import path from "path";
+import { openArchive } from "@/server/utils/safe-archive";
+import { getBlobStore } from "@/server/storage";
 import { bundleReportHtmlFromContent } from "@/server/utils/bundle-report-html";
+import { discardUploadSession, readUploadedFile } from "@/server/utils/resumable-upload";
 import { storeUploadedAsset, findVideoFiles, rewriteVideoReferences } from "@/server/utils/store-uploaded-asset";
-import AdmZip from "adm-zip";
 import { randomUUID } from "crypto";
 import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
 import { getEnvWithFallback } from "@/server/utils/validate-env";
+import { sanitizeUploadedHtml } from "@/server/utils/sandbox-html";
 
 export const dynamic = 'force-dynamic';
 
@@ -46,15 +49,19 @@ export async function POST(
 
   try {
     const formData = await request.formData();
-    const file = formData.get("file") as File;
+    // Large bundles arrive through a resumable upload and are referenced by uploadId
+    const uploadId = formData.get("uploadId") as string | null;
+    const file = uploadId && session?.user?.id
+      ? await readUploadedFile(uploadId, session.user.id, "asset")
+      : (formData.get("file") as File);
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
     // Server-side file size validation
-    const { validateFileSize } = await import("@/server/utils/validate-file-size");
-    const fileSizeValidation = validateFileSize(file);
+    const { validateFileSize, MAX_ASSET_FILE_SIZE } = await import("@/server/utils/validate-file-size");
+    const fileSizeValidation = validateFileSize(file, MAX_ASSET_FILE_SIZE);
     if (!fileSizeValidation.isValid) {
       return NextResponse.json(
         { error: fileSizeValidation.error },
@@ -64,7 +71,7 @@ export async function POST(
 
     // Server-side file type validation for asset upload (ZIP or HTML)
     const { validateAssetOrHtmlFileType } = await import("@/server/utils/validate-file-type");
-    const fileTypeValidation = validateAssetOrHtmlFileType(file);
+    const fileTypeValidation = await validateAssetOrHtmlFileType(file);
     if (!fileTypeValidation.isValid) {
       return NextResponse.json(
         { error: fileTypeValidation.error },
@@ -113,17 +120,26 @@ export async function POST(
         const fileBytes = await file.arrayBuffer();
         const zipBuffer = Buffer.from(fileBytes);
         
-        const zip = new AdmZip(zipBuffer);
+        // Check entry count, sizes, paths and nesting before anything is extracted
+        const opened = openArchive(zipBuffer);
+        if (!opened.ok) {
+          console.warn(`[Report Upload] Rejected ZIP: ${opened.error}`);
+          return NextResponse.json({ error: opened.error }, { status: 400 });
+        }
         
         // Extract ZIP to temporary directory
-        zip.extractAllTo(tempDir, true);
+        const extraction = await opened.archive.extractTo(tempDir);
+        if (!extraction.ok) {
+          console.warn(`[Report Upload] Rejected ZIP: ${extraction.error}`);
+          return NextResponse.json({ error: extraction.error }, { status: 400 });
+        }
         console.log(`[Report Upload] Extracted ZIP to: ${tempDir}`);
         
         // Find HTML file(s) in the extracted files
-        const zipEntries = zip.getEntries();
+        const zipEntries = opened.archive.entries;
         const htmlFiles = zipEntries
-          .filter(entry => entry.entryName.toLowerCase().endsWith('.html') && !entry.isDirectory)
-          .map(entry => entry.entryName);
+          .filter(entry => entry.name.toLowerCase().endsWith('.html') && !entry.isDirectory)
+          .map(entry => entry.name);
         
         if (htmlFiles.length === 0) {
           return NextResponse.json({ error: "No HTML file found in ZIP archive" }, { status: 400 });
@@ -143,7 +159,7 @@ export async function POST(
         // Track extracted files
         extractedFiles = zipEntries
           .filter(entry => !entry.isDirectory)
-          .map(entry => entry.entryName);
+          .map(entry => entry.name);
         
         console.log(`[Report Upload] Found HTML file: ${htmlFileName}`);
         console.log(`[Report Upload] Extracted ${extractedFiles.length} file(s) from ZIP`);
@@ -255,12 +271,16 @@ export async function POST(
         htmlContent = rewriteVideoReferences(htmlContent, videoReplacements);
         console.log(`[Report Upload] Rewrote ${videoReplacements.size} video reference(s) in HTML`);
       }
+
+      // Event handlers, javascript: URLs and scripts from outside the allowlist never run in the sandbox
+      htmlContent = sanitizeUploadedHtml(htmlContent);
       
-      // Save bundled HTML to disk (always save as .html)
+      // Save bundled HTML to blob storage (always save as .html)
       const storedFileName = `${reportId}.html`;
-      const reportFilePath = path.join(reportDir, storedFileName);
-      await fs.writeFile(reportFilePath, htmlContent, 'utf-8');
-      console.log(`[Report Upload] Saved bundled HTML report: ${reportFilePath}`);
+      await getBlobStore("reports").put(storedFileName, Buffer.from(htmlContent, 'utf-8'), {
+        contentType: "text/html",
+      });
+      console.log(`[Report Upload] Saved bundled HTML report: ${storedFileName}`);
 
       // If no existing report, create one
       if (!existingReport) {
@@ -284,6 +304,7 @@ export async function POST(
             completedAt: new Date(),
             analyzedBy: session.user.id,
             htmlContent: htmlContent, // Update HTML (standalone with embedded images)
+            structuredContent: null, // An uploaded HTML report replaces any structured one
           })
           .where(eq(reports.id, existingReport.id));
       }
@@ -341,6 +362,10 @@ export async function POST(
         extractedFilesCount: extractedFiles.length,
       });
     } finally {
+      // The uploaded file is read from its session, so the session goes once the upload is processed
+      if (uploadId) {
+        await discardUploadSession(uploadId);
+      }
       // Clean up temporary directory
       try {
         await fs.rm(tempDir, { recursive: true, force: true });
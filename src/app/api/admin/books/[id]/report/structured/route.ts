@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminFromRequest, getSessionFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { saveStructuredReport } from "@/server/services/structured-reports";
+import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/books/[id]/report/structured?versionId= - Upload a report as structured JSON
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const isAdmin = await isAdminFromRequest(request);
+  const { id } = await params;
+
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const session = await getSessionFromRequest(request);
+
+  const rateLimitResponse = rateLimitMiddleware(
+    request,
+    "admin:upload-report",
+    RATE_LIMITS.ADMIN,
+    session?.user?.id
+  );
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const [book] = await db
+      .select({ id: books.id })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const result = await saveStructuredReport(id, body, {
+      analyzedBy: session.user.id,
+      bookVersionId: request.nextUrl.searchParams.get("versionId") ?? undefined,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, details: result.details }, { status: result.status });
+    }
+
+    await db
+      .update(books)
+      .set({
+        manuscriptStatus: "ready_to_purchase",
+        updatedAt: new Date(),
+      })
+      .where(eq(books.id, id));
+
+    return NextResponse.json({
+      success: true,
+      reportId: result.report.id,
+      bookVersionId: result.report.bookVersionId,
+    });
+  } catch (error) {
+    console.error("Failed to save structured report:", error);
+    return NextResponse.json(
+      { error: "Failed to save structured report" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions, reports } from "@/server/db/schema";
 import { eq, desc, and } from "drizzle-orm";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
 
 /**
  * GET /api/admin/books/[id]/report/view
@@ -304,11 +305,13 @@ export async function GET(
     }
 
     // Return HTML directly with proper headers
-    return new NextResponse(report.htmlContent, {
+    const sandboxed = sandboxHtml(report.htmlContent);
+    return new NextResponse(sandboxed.html, {
       status: 200,
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
         'Cache-Control': 'no-cache, no-store, must-revalidate',
+        ...sandboxed.headers,
       },
     });
   } catch (error) {
@@ -3,6 +3,7 @@ import { isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { reports, bookVersions } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
+import { deleteReportAnnotations } from "@/server/services/report-annotations";
 
 export const dynamic = 'force-dynamic';
 
@@ -40,6 +41,7 @@ export async function DELETE(
       return NextResponse.json({ error: "Report not found for this book" }, { status: 404 });
     }
 
+    await deleteReportAnnotations({ reportIds: [reportId] });
     await db.delete(reports).where(eq(reports.id, reportId));
 
     return NextResponse.json({ success: true });
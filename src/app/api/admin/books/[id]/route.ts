@@ -11,11 +11,12 @@ import {
   marketingAssets,
   bookCovers,
   landingPages,
-  summaries
+  summaries,
+  shareLinks
 } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
-import path from "path";
-import { promises as fs } from "fs";
+import { getBlobStore } from "@/server/storage";
+import { deleteReportAnnotations } from "@/server/services/report-annotations";
 
 export const dynamic = 'force-dynamic';
 
@@ -66,7 +67,7 @@ export async function PATCH(
 
         // Server-side file type validation for cover image
         const { validateImageFileType } = await import("@/server/utils/validate-file-type");
-        const coverTypeValidation = validateImageFileType(coverImage);
+        const coverTypeValidation = await validateImageFileType(coverImage);
         if (!coverTypeValidation.isValid) {
           return NextResponse.json(
             { error: `Cover image: ${coverTypeValidation.error}` },
@@ -74,25 +75,16 @@ export async function PATCH(
           );
         }
 
-        // Save cover image to file system
-        const { promises: fs } = await import("fs");
-        const coverStoragePath = process.env.COVER_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'covers');
-        const coverDir = path.resolve(coverStoragePath);
-        
-        // Create directory if it doesn't exist
-        await fs.mkdir(coverDir, { recursive: true });
-        
         // Get file extension from MIME type
         const ext = coverImage.type.split('/')[1] || 'jpg';
         const coverFileName = `${bookId}.${ext}`;
-        const coverFilePath = path.join(coverDir, coverFileName);
         
-        // Save cover image to disk
+        // Save cover image to blob storage
         const bytes = await coverImage.arrayBuffer();
         const buffer = Buffer.from(bytes);
-        await fs.writeFile(coverFilePath, buffer);
+        await getBlobStore("covers").put(coverFileName, buffer, { contentType: coverImage.type });
         
-        console.log(`[Admin API] Saved cover image to: ${coverFilePath}`);
+        console.log(`[Admin API] Saved cover image: ${coverFileName}`);
         
         // Store the API path for serving
         coverImageUrl = `/api/covers/${bookId}.${ext}`;
@@ -226,14 +218,18 @@ export async function DELETE(
     
     const versionIds = bookVersionsList.map(v => v.id);
     
+    await deleteReportAnnotations({ bookVersionIds: versionIds });
     for (const versionId of versionIds) {
       await db.delete(reports).where(eq(reports.bookVersionId, versionId));
     }
 
-    // 9. Delete book versions
+    // 9. Delete share links
+    await db.delete(shareLinks).where(eq(shareLinks.bookId, bookId));
+
+    // 10. Delete book versions
     await db.delete(bookVersions).where(eq(bookVersions.bookId, bookId));
 
-    // 10. Finally, delete the book
+    // 11. Finally, delete the book
     await db.delete(books).where(eq(books.id, bookId));
 
     return NextResponse.json({ 
@@ -78,6 +78,13 @@ export async function GET(request: NextRequest) {
             fileName: bookVersions.fileName,
             fileSize: bookVersions.fileSize,
             uploadedAt: bookVersions.uploadedAt,
+            wordCount: bookVersions.wordCount,
+            characterCount: bookVersions.characterCount,
+            estimatedPages: bookVersions.estimatedPages,
+            chapterCount: bookVersions.chapterCount,
+            averageChapterLength: bookVersions.averageChapterLength,
+            dialogueRatio: bookVersions.dialogueRatio,
+            readingTimeMinutes: bookVersions.readingTimeMinutes,
           })
           .from(bookVersions)
           .where(eq(bookVersions.bookId, book.id))
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminFromRequest } from "@/server/auth";
+import { getDigestCostReport } from "@/server/services/digest-costs";
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+/**
+ * AI spend on digest jobs against purchase revenue, per day, user and book
+ * `?days=` picks the window ending today (default 30, at most 365)
+ */
+export async function GET(request: NextRequest) {
+  const isAdmin = await isAdminFromRequest(request);
+
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const daysParam = request.nextUrl.searchParams.get("days");
+  const days = daysParam === null ? DEFAULT_DAYS : Number(daysParam);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json(
+      { error: `days must be a whole number between 1 and ${MAX_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Whole days, ending with today
+    const to = new Date();
+    to.setHours(0, 0, 0, 0);
+    to.setDate(to.getDate() + 1);
+    const from = new Date(to);
+    from.setDate(from.getDate() - days);
+
+    const report = await getDigestCostReport({ from, to });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Failed to build digest cost report:", error);
+    return NextResponse.json(
+      { error: "Failed to build digest cost report" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { eq } from "drizzle-orm";
 import { findMatchingReport } from "@/server/utils/demo-reports";
 import { bundleReportHtml } from "@/server/utils/bundle-report-html";
 import { promises as fs } from "fs";
+import { sanitizeUploadedHtml } from "@/server/utils/sandbox-html";
 
 export const dynamic = 'force-dynamic';
 
@@ -84,6 +85,7 @@ export async function POST(
       matchingReports.htmlPath,
       htmlContent
     );
+    htmlContent = sanitizeUploadedHtml(htmlContent);
 
     // Update database
     await db
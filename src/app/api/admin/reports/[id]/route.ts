@@ -3,6 +3,7 @@ import { isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { reports } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
+import { deleteReportAnnotations } from "@/server/services/report-annotations";
 
 export const dynamic = 'force-dynamic';
 
@@ -34,6 +35,7 @@ export async function DELETE(
     }
 
     // Delete the report
+    await deleteReportAnnotations({ reportIds: [id] });
     await db.delete(reports).where(eq(reports.id, id));
 
     return NextResponse.json({ success: true });
@@ -3,8 +3,9 @@ import { isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { reports } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
-import { promises as fs } from "fs";
+import { getBlobStore } from "@/server/storage";
 import path from "path";
+import { sanitizeUploadedHtml } from "@/server/utils/sandbox-html";
 
 export const dynamic = 'force-dynamic';
 
@@ -57,7 +58,7 @@ export async function POST(
 
     // Server-side file type validation for report
     const { validateReportFileType } = await import("@/server/utils/validate-file-type");
-    const fileTypeValidation = validateReportFileType(file);
+    const fileTypeValidation = await validateReportFileType(file);
     if (!fileTypeValidation.isValid) {
       return NextResponse.json(
         { error: fileTypeValidation.error },
@@ -71,20 +72,14 @@ export async function POST(
     const isPdf = fileType === "application/pdf" || file.name.endsWith(".pdf");
 
     const fileBuffer = Buffer.from(await file.arrayBuffer());
-    const reportStoragePath =
-      process.env.REPORT_STORAGE_PATH || "./uploads/reports";
-    const reportDir = path.resolve(reportStoragePath);
-    await fs.mkdir(reportDir, { recursive: true });
-
     const originalExt = path.extname(file.name);
     const lowerExt = originalExt ? originalExt.toLowerCase() : "";
     const targetExt = isHtml ? ".html" : lowerExt || (isPdf ? ".pdf" : "");
     const storedFileName = `${id}${targetExt}`;
-    const storedFilePath = path.join(reportDir, storedFileName);
-    await fs.writeFile(storedFilePath, fileBuffer);
+    await getBlobStore("reports").put(storedFileName, fileBuffer, { contentType: fileType });
 
     const htmlContent = isHtml
-      ? fileBuffer.toString("utf-8")
+      ? sanitizeUploadedHtml(fileBuffer.toString("utf-8"))
       : existingReport.htmlContent;
     const pdfUrl = isPdf
       ? `/uploads/reports/${storedFileName}`
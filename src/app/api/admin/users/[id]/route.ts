@@ -14,10 +14,12 @@ import {
   landingPages,
   summaries,
   notifications,
-  verificationTokens
+  verificationTokens,
+  shareLinks
 } from "@/server/db/schema";
 import { session as betterAuthSession, account as betterAuthAccount } from "@/server/db/better-auth-schema";
 import { eq } from "drizzle-orm";
+import { deleteReportAnnotations } from "@/server/services/report-annotations";
 
 export const dynamic = 'force-dynamic';
 
@@ -171,6 +173,7 @@ export async function DELETE(
         
         const versionIds = bookVersionsList.map(v => v.id);
         
+        await deleteReportAnnotations({ bookVersionIds: versionIds });
         for (const versionId of versionIds) {
           try {
             await db.delete(reports).where(eq(reports.bookVersionId, versionId));
@@ -186,6 +189,15 @@ export async function DELETE(
         }
       }
 
+      try {
+        // Delete share links
+        await db.delete(shareLinks).where(eq(shareLinks.bookId, book.id));
+      } catch (error: any) {
+        if (!error.message?.includes("no such table")) {
+          console.warn(`Failed to delete share links for book ${book.id}:`, error.message);
+        }
+      }
+
       try {
         // Delete book versions
         await db.delete(bookVersions).where(eq(bookVersions.bookId, book.id));
@@ -4,6 +4,7 @@ import { db } from "@/server/db";
 import { books, digestJobs } from "@/server/db/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { checkBookDigestStatus } from "@/server/services/bookdigest";
+import { getNextAttemptAt } from "@/server/services/digest-poller";
 
 // GET /api/books/[id]/digest - Get digest job status for a book
 export async function GET(
@@ -51,8 +52,8 @@ export async function GET(
 
     const job = latestJob[0]!;
 
-    // If job is processing, check for updates
-    if (job.status === "processing" && job.externalJobId) {
+    // If job is processing and its backoff has elapsed, check for updates
+    if (job.status === "processing" && job.externalJobId && getNextAttemptAt(job) <= new Date()) {
       try {
         const updatedStatus = await checkBookDigestStatus(job.id);
 
@@ -67,6 +68,8 @@ export async function GET(
 
         return NextResponse.json({
           id: updatedJob.id,
+          bookVersionId: updatedJob.bookVersionId,
+          applyMetadata: updatedJob.applyMetadata,
           status: updatedJob.status,
           attempts: updatedJob.attempts,
           startedAt: updatedJob.startedAt,
@@ -89,6 +92,8 @@ export async function GET(
 
     return NextResponse.json({
       id: job.id,
+      bookVersionId: job.bookVersionId,
+      applyMetadata: job.applyMetadata,
       status: job.status,
       attempts: job.attempts,
       startedAt: job.startedAt,
@@ -3,8 +3,14 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions } from "@/server/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { extractEpubMetadata } from "@/server/utils/extract-epub-metadata";
-import { promises as fs } from "fs";
+import {
+  canExtractManuscriptMetadata,
+  extractManuscriptMetadata,
+  METADATA_EXTRACTION_EXTENSIONS,
+} from "@/server/utils/extract-manuscript-metadata";
+import { recordVersionStats } from "@/server/services/version-stats";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+import { getBlobStore } from "@/server/storage";
 import path from "path";
 
 /**
@@ -47,7 +53,10 @@ export async function POST(
     const [latestVersion] = await db
       .select({
         id: bookVersions.id,
+        bookId: bookVersions.bookId,
+        versionNumber: bookVersions.versionNumber,
         fileName: bookVersions.fileName,
+        storagePath: bookVersions.storagePath,
         fileData: bookVersions.fileData,
         mimeType: bookVersions.mimeType,
         fileType: bookVersions.fileType,
@@ -64,38 +73,22 @@ export async function POST(
       );
     }
 
-    // Read the book file
-    let fileBuffer: Buffer;
-    const fileExt = path.extname(latestVersion.fileName).toLowerCase();
-
-    // Try to read from file system first
-    const bookStoragePath = process.env.BOOK_STORAGE_PATH || './uploads/books';
-    const bookDir = path.resolve(bookStoragePath);
-    const storedFileName = `${id}${fileExt}`;
-    const bookFilePath = path.join(bookDir, storedFileName);
-
-    try {
-      fileBuffer = await fs.readFile(bookFilePath);
-      console.log(`[Extract Metadata] Read file from disk: ${bookFilePath}`);
-    } catch (error) {
-      // Fall back to database if file not found on disk
-      if (latestVersion.fileData) {
-        fileBuffer = Buffer.from(latestVersion.fileData, 'base64');
-        console.log(`[Extract Metadata] Read file from database (${fileBuffer.length} bytes)`);
-      } else {
-        return NextResponse.json(
-          { error: "Book file not found" },
-          { status: 404 }
-        );
-      }
+    // Read the book file (disk first, then the legacy database copy)
+    const fileBuffer = await readBookVersionFile(latestVersion);
+    if (!fileBuffer) {
+      return NextResponse.json(
+        { error: "Book file not found" },
+        { status: 404 }
+      );
     }
+    console.log(`[Extract Metadata] Read ${latestVersion.fileName} (${fileBuffer.length} bytes)`);
 
-    // Only extract metadata from EPUB files
-    if (fileExt !== ".epub") {
+    // Only extract metadata from supported formats (EPUB, DOCX, PDF, TXT)
+    if (!canExtractManuscriptMetadata(latestVersion.fileName)) {
       return NextResponse.json(
         {
-          error: "Metadata extraction only supported for EPUB files",
-          supportedFormats: [".epub"],
+          error: `Metadata extraction only supported for ${METADATA_EXTRACTION_EXTENSIONS.join(", ")} files`,
+          supportedFormats: METADATA_EXTRACTION_EXTENSIONS,
         },
         { status: 400 }
       );
@@ -103,7 +96,10 @@ export async function POST(
 
     // Extract metadata
     console.log(`[Extract Metadata] Extracting metadata from ${latestVersion.fileName}`);
-    const metadata = await extractEpubMetadata(fileBuffer, latestVersion.fileName);
+    const metadata = (await extractManuscriptMetadata(fileBuffer, latestVersion.fileName)) ?? {};
+
+    // Refresh the version's manuscript stats (backfills versions uploaded before stats existed)
+    const stats = await recordVersionStats(latestVersion.id, metadata);
 
     const updates: {
       title?: string;
@@ -133,10 +129,6 @@ export async function POST(
     // Save cover image if extracted
     let coverUrl: string | null = null;
     if (metadata.coverImage) {
-      const coverStoragePath = process.env.COVER_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'covers');
-      const coverDir = path.resolve(coverStoragePath);
-      await fs.mkdir(coverDir, { recursive: true });
-
       // Determine file extension from MIME type
       let ext = 'jpg'; // default
       if (metadata.coverImageMimeType) {
@@ -149,10 +141,11 @@ export async function POST(
       }
 
       const coverFileName = `${id}.${ext}`;
-      const coverFilePath = path.join(coverDir, coverFileName);
 
-      // Save cover image to disk
-      await fs.writeFile(coverFilePath, metadata.coverImage);
+      // Save cover image to blob storage
+      await getBlobStore("covers").put(coverFileName, metadata.coverImage, {
+        contentType: metadata.coverImageMimeType,
+      });
 
       // Store the path for serving
       coverUrl = `/api/covers/${id}.${ext}`;
@@ -179,6 +172,8 @@ export async function POST(
         author: metadata.author || null,
         description: metadata.description || null,
         language: metadata.language || null,
+        pageCount: metadata.pageCount ?? null,
+        stats,
         coverImage: metadata.coverImage ? {
           url: coverUrl,
           size: metadata.coverImage.length,
@@ -255,10 +250,9 @@ export async function GET(
     }
 
     const fileExt = path.extname(latestVersion.fileName).toLowerCase();
-    const isEpub = fileExt === ".epub";
 
     return NextResponse.json({
-      canExtract: isEpub,
+      canExtract: canExtractManuscriptMetadata(latestVersion.fileName),
       fileType: fileExt,
       fileName: latestVersion.fileName,
       currentMetadata: {
@@ -266,7 +260,7 @@ export async function GET(
         coverImageUrl: book.coverImageUrl,
         description: book.description,
       },
-      supportedFormats: [".epub"],
+      supportedFormats: METADATA_EXTRACTION_EXTENSIONS,
     });
   } catch (error) {
     console.error("[Extract Metadata] Error:", error);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { getSharedContent } from "@/server/services/share-links";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
+
+/**
+ * GET /api/books/[id]/landing-page/view
+ * Returns the book's landing page HTML directly, sandboxed, for the dashboard iframe
+ * The JSON route (/api/books/[id]/landing-page) picks the same one and records the view
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id: bookId } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select({ userId: books.userId })
+      .from(books)
+      .where(eq(books.id, bookId))
+      .limit(1);
+
+    if (!book || book.userId !== session.user.id) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const htmlContent = await getSharedContent(bookId, "landing-page");
+    if (!htmlContent) {
+      return NextResponse.json({ error: "No landing page available for this book" }, { status: 404 });
+    }
+
+    const sandboxed = sandboxHtml(htmlContent);
+    return new NextResponse(sandboxed.html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        ...sandboxed.headers,
+      },
+    });
+  } catch (error) {
+    console.error("[Landing Page View] Error:", error);
+    return NextResponse.json({ error: "Failed to load landing page" }, { status: 500 });
+  }
+}
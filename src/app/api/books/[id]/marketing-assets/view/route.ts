@@ -3,6 +3,7 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, marketingAssets, bookFeatures } from "@/server/db/schema";
 import { eq, and } from "drizzle-orm";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
 
 /**
  * GET /api/books/[id]/marketing-assets/view
@@ -232,12 +233,14 @@ export async function GET(
     }
 
     // Return HTML directly with proper headers
-    return new NextResponse(finalHtml, {
+    const sandboxed = sandboxHtml(finalHtml);
+    return new NextResponse(sandboxed.html, {
       status: 200,
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
         'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'X-Frame-Options': 'SAMEORIGIN', // Allow iframe embedding from same origin
+        'X-Frame-Options': 'SAMEORIGIN', // Allow iframe embedding from same origin,
+        ...sandboxed.headers,
       },
     });
   } catch (error) {
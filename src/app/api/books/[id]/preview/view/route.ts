@@ -3,6 +3,8 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions, reports } from "@/server/db/schema";
 import { eq, desc, and } from "drizzle-orm";
+import { renderStructuredPreview } from "@/server/services/structured-reports";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
 
 export async function GET(
   request: NextRequest,
@@ -54,11 +56,24 @@ export async function GET(
       .orderBy(desc(reports.requestedAt))
       .limit(1);
 
+    // Without an uploaded preview, structured reports provide their own teaser
     if (!previewReport || !previewReport.htmlContent) {
-      return NextResponse.json(
-        { error: "Preview not available for this book" },
-        { status: 404 }
-      );
+      const structuredPreview = await renderStructuredPreview(latestVersion.id);
+      if (!structuredPreview) {
+        return NextResponse.json(
+          { error: "Preview not available for this book" },
+          { status: 404 }
+        );
+      }
+      const sandboxed = sandboxHtml(structuredPreview);
+      return new NextResponse(sandboxed.html, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-cache, no-store, must-revalidate",
+          ...sandboxed.headers,
+        },
+      });
     }
 
     // Update viewedAt timestamp when user views the preview report
@@ -67,11 +82,13 @@ export async function GET(
       .set({ viewedAt: new Date() })
       .where(eq(reports.id, previewReport.id));
 
-    return new NextResponse(previewReport.htmlContent, {
+    const sandboxed = sandboxHtml(previewReport.htmlContent);
+    return new NextResponse(sandboxed.html, {
       status: 200,
       headers: {
         "Content-Type": "text/html; charset=utf-8",
         "Cache-Control": "no-cache, no-store, must-revalidate",
+        ...sandboxed.headers,
       },
     });
   } catch (error) {
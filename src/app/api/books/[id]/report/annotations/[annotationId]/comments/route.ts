@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { addAnnotationComment } from "@/server/services/report-annotations";
+
+/**
+ * POST /api/books/[id]/report/annotations/[annotationId]/comments
+ * Reply to an annotation's thread: { body }
+ * Replies from admins are marked as coming from the team
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id, annotationId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select({ userId: books.userId })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await addAnnotationComment(id, annotationId, session.user.id, body?.body, {
+      fromAdmin: isAdmin,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ annotation: result.value }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to add annotation comment:", error);
+    return NextResponse.json({ error: "Failed to add annotation comment" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { deleteAnnotation, setAnnotationResolved } from "@/server/services/report-annotations";
+
+/**
+ * PATCH /api/books/[id]/report/annotations/[annotationId]
+ * Resolve or reopen an annotation's thread: { resolved: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id, annotationId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select({ userId: books.userId })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.resolved !== "boolean") {
+      return NextResponse.json({ error: "'resolved' must be true or false" }, { status: 400 });
+    }
+
+    const result = await setAnnotationResolved(id, annotationId, session.user.id, body.resolved);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ annotation: result.value });
+  } catch (error) {
+    console.error("Failed to update report annotation:", error);
+    return NextResponse.json({ error: "Failed to update report annotation" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/books/[id]/report/annotations/[annotationId]
+ * Remove an annotation and its thread (its author or an admin)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; annotationId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id, annotationId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select({ userId: books.userId })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const result = await deleteAnnotation(id, annotationId, session.user.id, { isAdmin });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete report annotation:", error);
+    return NextResponse.json({ error: "Failed to delete report annotation" }, { status: 500 });
+  }
+}
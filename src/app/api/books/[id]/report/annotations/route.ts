@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { createAnnotation, listAnnotations } from "@/server/services/report-annotations";
+
+/**
+ * GET /api/books/[id]/report/annotations?reportId=<reportId>
+ * Annotations and their comment threads, for one report or every report of the book
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select({ userId: books.userId })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const reportId = request.nextUrl.searchParams.get("reportId") ?? undefined;
+    const annotations = await listAnnotations(id, { reportId });
+
+    return NextResponse.json({ annotations, currentUserId: session.user.id });
+  } catch (error) {
+    console.error("Failed to fetch report annotations:", error);
+    return NextResponse.json({ error: "Failed to fetch report annotations" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/books/[id]/report/annotations
+ * Highlight a range of a report: { reportId, quote, prefix?, suffix?, startOffset, endOffset, comment? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select({ userId: books.userId })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const result = await createAnnotation(id, session.user.id, body, { fromAdmin: isAdmin });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ annotation: result.value }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create report annotation:", error);
+    return NextResponse.json({ error: "Failed to create report annotation" }, { status: 500 });
+  }
+}
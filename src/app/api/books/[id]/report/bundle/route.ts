@@ -6,6 +6,7 @@ import { eq, and, desc } from "drizzle-orm";
 import { bundleReportHtmlFromContent } from "@/server/utils/bundle-report-html";
 import { promises as fs } from "fs";
 import path from "path";
+import { getBlobStore } from "@/server/storage";
 import { getEnvWithFallback } from "@/server/utils/validate-env";
 
 /**
@@ -127,13 +128,13 @@ export async function POST(
       .set({ htmlContent: bundledHtml })
       .where(eq(reports.id, report.id));
 
-    // Also save to file system
+    // Also save to blob storage
     try {
-      await fs.mkdir(reportStoragePath, { recursive: true });
-      const htmlFilePath = path.join(reportStoragePath, `${report.id}.html`);
-      await fs.writeFile(htmlFilePath, bundledHtml, 'utf-8');
+      await getBlobStore("reports").put(`${report.id}.html`, Buffer.from(bundledHtml, 'utf-8'), {
+        contentType: "text/html",
+      });
     } catch (error) {
-      console.warn("Could not save bundled report to file system:", error);
+      console.warn("Could not save bundled report to storage:", error);
     }
 
     return NextResponse.json({ 
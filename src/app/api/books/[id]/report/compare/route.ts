@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books, bookVersions, reports } from "@/server/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { readStructuredReport } from "@/server/utils/report-schema";
+import { compareStructuredReports } from "@/server/utils/report-comparison";
+
+/**
+ * GET /api/books/[id]/report/compare?from=<reportId>&to=<reportId>
+ * Compare the scores and findings of two completed reports on different versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const from = request.nextUrl.searchParams.get("from");
+  const to = request.nextUrl.searchParams.get("to");
+
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: "Both 'from' and 'to' report ids are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const rows = await db
+      .select({
+        id: reports.id,
+        status: reports.status,
+        completedAt: reports.completedAt,
+        structuredContent: reports.structuredContent,
+        versionId: bookVersions.id,
+        versionNumber: bookVersions.versionNumber,
+        fileName: bookVersions.fileName,
+        wordCount: bookVersions.wordCount,
+      })
+      .from(reports)
+      .innerJoin(bookVersions, eq(reports.bookVersionId, bookVersions.id))
+      .where(and(eq(bookVersions.bookId, id), inArray(reports.id, [from, to])));
+
+    const fromReport = rows.find((row) => row.id === from);
+    const toReport = rows.find((row) => row.id === to);
+
+    if (!fromReport || !toReport || fromReport.status !== "completed" || toReport.status !== "completed") {
+      return NextResponse.json({ error: "Both reports must be completed reports of this book" }, { status: 404 });
+    }
+
+    if (fromReport.versionId === toReport.versionId) {
+      return NextResponse.json(
+        { error: "Choose reports for two different versions to compare" },
+        { status: 400 }
+      );
+    }
+
+    const fromStructured = readStructuredReport(fromReport.structuredContent);
+    const toStructured = readStructuredReport(toReport.structuredContent);
+    if (!fromStructured || !toStructured) {
+      const missing = fromStructured ? toReport : fromReport;
+      return NextResponse.json(
+        { error: `The report for version ${missing.versionNumber} has no scores or findings to compare` },
+        { status: 422 }
+      );
+    }
+
+    const summarize = (row: typeof fromReport) => ({
+      reportId: row.id,
+      versionId: row.versionId,
+      versionNumber: row.versionNumber,
+      fileName: row.fileName,
+      completedAt: row.completedAt,
+      wordCount: row.wordCount,
+    });
+
+    return NextResponse.json({
+      from: summarize(fromReport),
+      to: summarize(toReport),
+      wordDelta:
+        fromReport.wordCount != null && toReport.wordCount != null
+          ? toReport.wordCount - fromReport.wordCount
+          : null,
+      ...compareStructuredReports(fromStructured, toStructured),
+    });
+  } catch (error) {
+    console.error("Failed to compare reports:", error);
+    return NextResponse.json({ error: "Failed to compare reports" }, { status: 500 });
+  }
+}
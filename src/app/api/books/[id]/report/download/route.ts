@@ -3,8 +3,9 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions, reports } from "@/server/db/schema";
 import { eq, desc, and } from "drizzle-orm";
-import { promises as fs } from "fs";
-import path from "path";
+import { getBlobStore } from "@/server/storage";
+import { getReportPdf } from "@/server/services/report-pdf";
+import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
 
 // Function to sanitize filename
 function sanitizeFilename(filename: string): string {
@@ -27,6 +28,11 @@ function sanitizeFilename(filename: string): string {
   return sanitized;
 }
 
+/**
+ * GET /api/books/[id]/report/download?format=pdf|html
+ * Without a format, serves the stored report file (PDF if one was uploaded, else HTML).
+ * `format=pdf` renders the report HTML to a PDF, cached per report revision.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -38,12 +44,18 @@ export async function GET(
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  const format = request.nextUrl.searchParams.get("format");
+  if (format && format !== "pdf" && format !== "html") {
+    return NextResponse.json({ error: "format must be pdf or html" }, { status: 400 });
+  }
+
   try {
     // Verify the user owns this book
     const [book] = await db
       .select({
         id: books.id,
         title: books.title,
+        authorName: books.authorName,
         userId: books.userId,
       })
       .from(books)
@@ -80,31 +92,51 @@ export async function GET(
       return NextResponse.json({ error: "No completed report found" }, { status: 404 });
     }
 
-    // Try to read from file system
-    const reportStoragePath = process.env.REPORT_STORAGE_PATH || './uploads/reports';
-    const reportDir = path.resolve(reportStoragePath);
+    // Create filename from book title
+    const baseFilename = sanitizeFilename(book.title);
+
+    if (format === "pdf" && report.htmlContent) {
+      const rateLimitResponse = rateLimitMiddleware(request, "report:pdf", RATE_LIMITS.EXPORT, session.user.id);
+      if (rateLimitResponse) {
+        return rateLimitResponse;
+      }
 
-    // Try common file extensions
-    const extensions = ['.pdf', '.html'];
+      const pdf = await getReportPdf(
+        { id: report.id, bookId, htmlContent: report.htmlContent, pdfUrl: report.pdfUrl },
+        { title: book.title, author: book.authorName, versionNumber: latestVersion.versionNumber }
+      );
+      return new NextResponse(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${baseFilename}-report.pdf"`,
+          'Content-Length': pdf.length.toString(),
+        },
+      });
+    }
+
+    // Try to read from blob storage
+    const reportStore = getBlobStore("reports");
+
+    // Try common file extensions; an uploaded PDF is the only PDF of an HTML-less report
+    const extensions = format === "html" ? ['.html'] : format === "pdf" ? ['.pdf'] : ['.pdf', '.html'];
     let fileBuffer: Buffer | null = null;
     let fileExt = '';
     let mimeType = 'application/octet-stream';
 
     for (const ext of extensions) {
-      const filePath = path.join(reportDir, `${report.id}${ext}`);
-      try {
-        fileBuffer = await fs.readFile(filePath);
+      // File with this extension may not exist, try next
+      fileBuffer = await reportStore.get(`${report.id}${ext}`);
+      if (fileBuffer) {
         fileExt = ext;
         mimeType = ext === '.pdf' ? 'application/pdf' : 'text/html';
         break;
-      } catch (error) {
-        // File with this extension doesn't exist, try next
       }
     }
 
     if (!fileBuffer) {
       // Check if report has HTML content in database (legacy)
-      if (report.htmlContent) {
+      if (report.htmlContent && format !== "pdf") {
         fileBuffer = Buffer.from(report.htmlContent);
         fileExt = '.html';
         mimeType = 'text/html';
@@ -113,8 +145,6 @@ export async function GET(
       }
     }
 
-    // Create filename from book title
-    const baseFilename = sanitizeFilename(book.title);
     const fileName = `${baseFilename}-report${fileExt}`;
 
     // Set appropriate headers for file download
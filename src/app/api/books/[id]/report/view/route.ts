@@ -3,12 +3,15 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions, reports, bookFeatures, purchases } from "@/server/db/schema";
 import { eq, desc, and } from "drizzle-orm";
+import { injectAnnotationOverlay } from "@/server/utils/report-annotation-overlay";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
 
 /**
  * GET /api/books/[id]/report/view
  * Returns the report HTML content directly (not as JSON)
  * This avoids JSON response size limits for large HTML files
  * Bundles images on-the-fly if not already bundled
+ * Adds the annotation overlay so the author can highlight and comment on the report
  * 
  * Requires: manuscript-report feature to be unlocked
  */
@@ -365,7 +368,7 @@ export async function GET(
 
     // HTML content should already be bundled with images when stored in database
     // All data comes from database, no file system access needed
-    const htmlContent = report.htmlContent;
+    const htmlContent = injectAnnotationOverlay(report.htmlContent, { bookId, reportId: report.id });
 
     // Update viewedAt timestamp when user views the report
     // Drizzle's mode: "timestamp" expects a Date object
@@ -377,11 +380,13 @@ export async function GET(
     console.log(`[Report View] Updated viewedAt for report ${report.id} to ${new Date().toISOString()}`);
 
     // Return HTML directly with proper headers
-    return new NextResponse(htmlContent, {
+    const sandboxed = sandboxHtml(htmlContent);
+    return new NextResponse(sandboxed.html, {
       status: 200,
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
         'Cache-Control': 'no-cache, no-store, must-revalidate',
+        ...sandboxed.headers,
       },
     });
   } catch (error) {
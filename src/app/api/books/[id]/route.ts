@@ -3,9 +3,10 @@ import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions, reports, bookFeatures } from "@/server/db/schema";
 import { eq, desc, and } from "drizzle-orm";
-import { extractSummaryFromReportHtml } from "@/server/utils/extract-report-summary";
-import { promises as fs } from "fs";
-import path from "path";
+import { getReportScores, getReportSummary } from "@/server/utils/extract-report-summary";
+import { getBlobStore } from "@/server/storage";
+import { parseEpubValidation } from "@/server/services/epub-validation";
+import { getSummariesByVersion, getSummaryText } from "@/server/services/book-summaries";
 
 export async function GET(
   request: NextRequest,
@@ -45,6 +46,8 @@ export async function GET(
       .where(eq(bookVersions.bookId, id))
       .orderBy(desc(bookVersions.uploadedAt));
 
+    const versionSummaries = await getSummariesByVersion(id);
+
     // Get reports for each version
     const versionsWithReports = await Promise.all(
       versions.map(async (version: any) => {
@@ -55,6 +58,7 @@ export async function GET(
             requestedAt: reports.requestedAt,
             completedAt: reports.completedAt,
             htmlContent: reports.htmlContent,
+            structuredContent: reports.structuredContent,
             pdfUrl: reports.pdfUrl,
             adminNotes: reports.adminNotes,
           })
@@ -76,21 +80,23 @@ export async function GET(
               // ignore invalid admin notes
             }
           }
-          const { adminNotes, ...rest } = report;
-          return { ...rest, variant };
+          const { adminNotes, structuredContent, ...rest } = report;
+          return { ...rest, variant, structured: Boolean(structuredContent), scores: getReportScores({ structuredContent }) };
         });
 
-        // Extract summary from the latest completed report
-        let extractedSummary: string | null = null;
-        const latestCompletedReport = versionReports.find((r: any) => r.status === "completed");
-        if (latestCompletedReport?.htmlContent) {
-          extractedSummary = extractSummaryFromReportHtml(latestCompletedReport.htmlContent);
-        }
+        // Summary of the latest completed report, from its structured content when it has some
+        const latestCompletedReport = versionReportsRaw.find((r: any) => r.status === "completed");
+        const extractedSummary = latestCompletedReport ? getReportSummary(latestCompletedReport) : null;
+
+        // Prefer the version's stored summary, then the report, then the upload form
+        const summaryDetails = versionSummaries.get(version.id) ?? null;
 
         return {
           ...version,
           reports: versionReports,
-          summary: extractedSummary || version.summary, // Use extracted summary if available, fallback to version summary
+          summary: (summaryDetails && getSummaryText(summaryDetails)) || extractedSummary || version.summary,
+          summaryDetails,
+          epubValidation: parseEpubValidation(version.epubValidation),
         };
       })
     );
@@ -154,7 +160,7 @@ export async function PATCH(
 
         // Server-side file type validation for cover image
         const { validateImageFileType } = await import("@/server/utils/validate-file-type");
-        const coverTypeValidation = validateImageFileType(coverImage);
+        const coverTypeValidation = await validateImageFileType(coverImage);
         if (!coverTypeValidation.isValid) {
           return NextResponse.json(
             { error: `Cover image: ${coverTypeValidation.error}` },
@@ -162,23 +168,14 @@ export async function PATCH(
           );
         }
 
-        // Save cover image to file system (same as POST endpoint)
-        // Use process.cwd() to ensure we resolve from project root
-        const coverStoragePath = process.env.COVER_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'covers');
-        const coverDir = path.resolve(coverStoragePath);
-        
-        // Create directory if it doesn't exist
-        await fs.mkdir(coverDir, { recursive: true });
-        
+        // Save cover image to blob storage (same as POST endpoint)
         // Get file extension from MIME type
         const ext = coverImage.type.split('/')[1] || 'jpg';
         const coverFileName = `${id}.${ext}`;
-        const coverFilePath = path.join(coverDir, coverFileName);
         
-        // Save cover image to disk
         const bytes = await coverImage.arrayBuffer();
         const buffer = Buffer.from(bytes);
-        await fs.writeFile(coverFilePath, buffer);
+        await getBlobStore("covers").put(coverFileName, buffer, { contentType: coverImage.type });
         
         // Store the API path for serving
         coverImageUrl = `/api/covers/${id}.${ext}`;
@@ -240,33 +237,44 @@ export async function PATCH(
       .where(eq(bookVersions.bookId, id))
       .orderBy(desc(bookVersions.uploadedAt));
 
+    const versionSummaries = await getSummariesByVersion(id);
+
     // Get reports for each version
     const versionsWithReports = await Promise.all(
       versions.map(async (version: any) => {
-        const versionReports = await db
+        const versionReportsRaw = await db
           .select({
             id: reports.id,
             status: reports.status,
             requestedAt: reports.requestedAt,
             completedAt: reports.completedAt,
             htmlContent: reports.htmlContent,
+            structuredContent: reports.structuredContent,
             pdfUrl: reports.pdfUrl,
           })
           .from(reports)
           .where(eq(reports.bookVersionId, version.id))
           .orderBy(desc(reports.requestedAt));
 
-        // Extract summary from the latest completed report
-        let extractedSummary: string | null = null;
-        const latestCompletedReport = versionReports.find((r: any) => r.status === "completed");
-        if (latestCompletedReport?.htmlContent) {
-          extractedSummary = extractSummaryFromReportHtml(latestCompletedReport.htmlContent);
-        }
+        const versionReports = versionReportsRaw.map(({ structuredContent, ...report }: any) => ({
+          ...report,
+          structured: Boolean(structuredContent),
+          scores: getReportScores({ structuredContent }),
+        }));
+
+        // Summary of the latest completed report, from its structured content when it has some
+        const latestCompletedReport = versionReportsRaw.find((r: any) => r.status === "completed");
+        const extractedSummary = latestCompletedReport ? getReportSummary(latestCompletedReport) : null;
+
+        // Prefer the version's stored summary, then the report, then the upload form
+        const summaryDetails = versionSummaries.get(version.id) ?? null;
 
         return {
           ...version,
           reports: versionReports,
-          summary: extractedSummary || version.summary, // Use extracted summary if available, fallback to version summary
+          summary: (summaryDetails && getSummaryText(summaryDetails)) || extractedSummary || version.summary,
+          summaryDetails,
+          epubValidation: parseEpubValidation(version.epubValidation),
         };
       })
     );
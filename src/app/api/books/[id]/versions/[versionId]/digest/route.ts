@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { digestBookVersion } from "@/server/services/bookdigest";
+import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
+
+/**
+ * POST /api/books/[id]/versions/[versionId]/digest
+ * Run a new digest of this version. Body: `{ applyMetadata?: boolean }` - when
+ * true the results also update the book's title, cover and description (default false)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id, versionId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body?.applyMetadata !== undefined && typeof body.applyMetadata !== "boolean") {
+      return NextResponse.json({ error: "applyMetadata must be a boolean" }, { status: 400 });
+    }
+    const applyMetadata: boolean = body?.applyMetadata ?? false;
+
+    const [book] = await db
+      .select({ userId: books.userId })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Authors can't run up the digest bill by re-running it over and over
+    if (!isAdmin) {
+      const rateLimitResponse = rateLimitMiddleware(request, "digest:rerun", RATE_LIMITS.DIGEST, session.user.id);
+      if (rateLimitResponse) {
+        return rateLimitResponse;
+      }
+    }
+
+    const result = await digestBookVersion(id, versionId, { applyMetadata });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const { job } = result;
+    return NextResponse.json(
+      {
+        id: job.id,
+        bookVersionId: job.bookVersionId,
+        status: job.status,
+        applyMetadata: job.applyMetadata,
+        attempts: job.attempts,
+        error: job.error,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("[Digest] Failed to re-run digest:", error);
+    return NextResponse.json({ error: "Failed to start digest" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books, bookVersions } from "@/server/db/schema";
+import { and, eq } from "drizzle-orm";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+import { isEpubFileName, recordEpubValidation } from "@/server/services/epub-validation";
+
+/**
+ * POST /api/books/[id]/versions/[versionId]/epub-validation
+ * (Re)run the EPUB structural check for a version, e.g. one uploaded before checks existed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id, versionId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [version] = await db
+      .select({
+        id: bookVersions.id,
+        bookId: bookVersions.bookId,
+        versionNumber: bookVersions.versionNumber,
+        fileName: bookVersions.fileName,
+        storagePath: bookVersions.storagePath,
+        fileData: bookVersions.fileData,
+      })
+      .from(bookVersions)
+      .where(and(eq(bookVersions.id, versionId), eq(bookVersions.bookId, id)))
+      .limit(1);
+
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    if (!isEpubFileName(version.fileName)) {
+      return NextResponse.json({ error: "Only EPUB files can be checked" }, { status: 400 });
+    }
+
+    const fileBuffer = await readBookVersionFile(version);
+    if (!fileBuffer) {
+      return NextResponse.json({ error: "Manuscript file not found" }, { status: 404 });
+    }
+
+    const report = await recordEpubValidation(version.id, fileBuffer, version.fileName);
+    if (!report) {
+      return NextResponse.json({ error: "Failed to check EPUB" }, { status: 500 });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[EPUB Check] Failed to check version:", error);
+    return NextResponse.json({ error: "Failed to check EPUB" }, { status: 500 });
+  }
+}
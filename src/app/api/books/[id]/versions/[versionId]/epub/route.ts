@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books, bookVersions } from "@/server/db/schema";
+import { and, eq } from "drizzle-orm";
+import { exportBookVersionEpub } from "@/server/services/epub-export";
+
+/**
+ * Turn a book title into a safe download file name
+ */
+function toFileName(title: string): string {
+  const base = Array.from(title)
+    .filter((character) => character.charCodeAt(0) > 0x1f)
+    .join("")
+    .replace(/[<>:"/\\|?*]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .substring(0, 200)
+    .trim();
+  return base || "book";
+}
+
+/**
+ * GET /api/books/[id]/versions/[versionId]/epub
+ * Download an EPUB 3 built from this version's manuscript (regenerated on every request)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id, versionId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [book] = await db
+      .select({
+        id: books.id,
+        userId: books.userId,
+        title: books.title,
+        authorName: books.authorName,
+        description: books.description,
+        coverImageUrl: books.coverImageUrl,
+      })
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [version] = await db
+      .select({
+        id: bookVersions.id,
+        bookId: bookVersions.bookId,
+        versionNumber: bookVersions.versionNumber,
+        fileName: bookVersions.fileName,
+        storagePath: bookVersions.storagePath,
+        fileData: bookVersions.fileData,
+      })
+      .from(bookVersions)
+      .where(and(eq(bookVersions.id, versionId), eq(bookVersions.bookId, id)))
+      .limit(1);
+
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const result = await exportBookVersionEpub(book, version);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const fileName = `${toFileName(book.title)}-v${version.versionNumber}.epub`;
+    // Header values must be ASCII; filename* carries the real title
+    const asciiFileName = fileName.replace(/[^\x20-\x7E]/g, "_");
+
+    return new NextResponse(new Uint8Array(result.epub), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/epub+zip",
+        "Content-Disposition": `attachment; filename="${asciiFileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "Content-Length": result.epub.length.toString(),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[EPUB Export] Failed to build EPUB:", error);
+    return NextResponse.json({ error: "Failed to build EPUB" }, { status: 500 });
+  }
+}
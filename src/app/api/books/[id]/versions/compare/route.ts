@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { db } from "@/server/db";
+import { books, bookVersions } from "@/server/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { compareBookVersions } from "@/server/services/version-diff";
+
+/**
+ * GET /api/books/[id]/versions/compare?from=1&to=2
+ * Compare the extracted text of two versions (by versionNumber)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { id } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const from = Number(request.nextUrl.searchParams.get("from"));
+  const to = Number(request.nextUrl.searchParams.get("to"));
+
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+    return NextResponse.json(
+      { error: "Both 'from' and 'to' version numbers are required" },
+      { status: 400 }
+    );
+  }
+
+  if (from === to) {
+    return NextResponse.json(
+      { error: "Choose two different versions to compare" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.id, id))
+      .limit(1);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // Check if user owns the book or is admin
+    const isAdmin = await isAdminFromRequest(request);
+    if (book.userId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const versions = await db
+      .select({
+        id: bookVersions.id,
+        bookId: bookVersions.bookId,
+        versionNumber: bookVersions.versionNumber,
+        fileName: bookVersions.fileName,
+        storagePath: bookVersions.storagePath,
+        fileData: bookVersions.fileData,
+        uploadedAt: bookVersions.uploadedAt,
+      })
+      .from(bookVersions)
+      .where(and(eq(bookVersions.bookId, id), inArray(bookVersions.versionNumber, [from, to])));
+
+    const fromVersion = versions.find((v) => v.versionNumber === from);
+    const toVersion = versions.find((v) => v.versionNumber === to);
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: `Version ${fromVersion ? to : from} not found` },
+        { status: 404 }
+      );
+    }
+
+    const result = await compareBookVersions(fromVersion, toVersion);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: `Version ${result.versionNumber}: ${result.error}` },
+        { status: 422 }
+      );
+    }
+
+    const summarize = (version: typeof fromVersion) => ({
+      id: version.id,
+      versionNumber: version.versionNumber,
+      fileName: version.fileName,
+      uploadedAt: version.uploadedAt,
+    });
+
+    return NextResponse.json({
+      from: summarize(fromVersion),
+      to: summarize(toVersion),
+      ...result.diff,
+    });
+  } catch (error) {
+    console.error("Failed to compare book versions:", error);
+    return NextResponse.json({ error: "Failed to compare versions" }, { status: 500 });
+  }
+}
@@ -4,6 +4,18 @@ import { db } from "@/server/db";
 import { books, bookVersions } from "@/server/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
+import {
+  canExtractManuscriptMetadata,
+  extractManuscriptMetadata,
+  type ManuscriptMetadata,
+} from "@/server/utils/extract-manuscript-metadata";
+import { describeDuplicate, findDuplicateManuscript } from "@/server/services/duplicate-detection";
+import { recordVersionStats } from "@/server/services/version-stats";
+import { recordEpubValidation } from "@/server/services/epub-validation";
+import { storeBookVersionFile } from "@/server/utils/book-version-file";
+import { hashContent } from "@/server/utils/content-store";
+import { computeTextFingerprint } from "@/server/utils/manuscript-fingerprint";
+import { discardUploadSession, readUploadedFile } from "@/server/utils/resumable-upload";
 
 export async function POST(
   request: NextRequest,
@@ -46,7 +58,13 @@ export async function POST(
     }
 
     const formData = await request.formData();
-    const file = formData.get("file") as File;
+    // Large manuscripts arrive through a resumable upload and are referenced by uploadId.
+    // The upload is kept until the version is created so it can be resubmitted after a duplicate warning
+    const uploadId = formData.get("uploadId") as string | null;
+    const file = uploadId
+      ? await readUploadedFile(uploadId, session.user.id, "manuscript")
+      : (formData.get("file") as File);
+    const allowDuplicate = formData.get("allowDuplicate") === "true";
 
     if (!file) {
       return NextResponse.json({ error: "File is required" }, { status: 400 });
@@ -64,7 +82,7 @@ export async function POST(
 
     // Server-side file type validation for manuscript
     const { validateManuscriptFileType } = await import("@/server/utils/validate-file-type");
-    const fileTypeValidation = validateManuscriptFileType(file);
+    const fileTypeValidation = await validateManuscriptFileType(file);
     if (!fileTypeValidation.isValid) {
       return NextResponse.json(
         { error: fileTypeValidation.error },
@@ -72,6 +90,34 @@ export async function POST(
       );
     }
 
+    // Extract the text up front so the upload can be checked for duplicates
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    let metadata: ManuscriptMetadata | null = null;
+    if (canExtractManuscriptMetadata(file.name)) {
+      try {
+        metadata = (await extractManuscriptMetadata(fileBuffer, file.name)) ?? {};
+      } catch (error) {
+        // Log error but don't fail the version upload
+        console.error("[Metadata] Failed to extract metadata:", error);
+      }
+    }
+    const textFingerprint = metadata?.text ? computeTextFingerprint(metadata.text) : null;
+
+    // Re-uploading the same manuscript as a "new version" wastes a report purchase - warn first
+    if (!allowDuplicate) {
+      const duplicate = await findDuplicateManuscript({
+        userId: session.user.id,
+        contentHash: hashContent(fileBuffer),
+        textFingerprint,
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: describeDuplicate(duplicate), duplicate },
+          { status: 409 }
+        );
+      }
+    }
+
     // Get the latest version number
     const latestVersion = await db
       .select()
@@ -82,12 +128,14 @@ export async function POST(
 
     const nextVersionNumber = latestVersion.length > 0 ? latestVersion[0]!.versionNumber + 1 : 1;
 
-    // TODO: Upload file to storage
     const fileName = file.name;
     const fileType = file.type;
     const fileSize = file.size;
     const fileUrl = `/uploads/${id}/v${nextVersionNumber}/${fileName}`;
 
+    // Keep the file so the version can be re-extracted and compared later
+    const { contentHash, storagePath } = await storeBookVersionFile(fileBuffer);
+
     // Create new version
     const newVersion = await db
       .insert(bookVersions)
@@ -98,9 +146,70 @@ export async function POST(
         fileUrl,
         fileSize,
         fileType,
+        contentHash,
+        storagePath,
+        textFingerprint: textFingerprint ?? "",
+        mimeType: fileType,
       })
       .returning();
 
+    if (uploadId) {
+      await discardUploadSession(uploadId);
+    }
+
+    // EPUBs get a structural validation report for the book page
+    const epubValidation = await recordEpubValidation(newVersion[0]!.id, fileBuffer, fileName);
+    if (epubValidation) {
+      newVersion[0]!.epubValidation = JSON.stringify(epubValidation);
+    }
+
+    // Record manuscript stats and fill in missing book metadata from the new
+    // manuscript (EPUB, DOCX, PDF, TXT). Never overwrite fields the author already set
+    if (metadata) {
+      try {
+        const stats = await recordVersionStats(newVersion[0]!.id, metadata);
+        if (stats) {
+          Object.assign(newVersion[0]!, stats);
+        }
+
+        const updates: {
+          title?: string;
+          authorName?: string;
+          description?: string;
+          updatedAt: Date;
+        } = {
+          updatedAt: new Date(),
+        };
+        let hasUpdates = false;
+
+        if (metadata.title?.trim() && !bookData.title?.trim()) {
+          updates.title = metadata.title.trim();
+          hasUpdates = true;
+        }
+
+        if (metadata.author?.trim() && !bookData.authorName?.trim()) {
+          updates.authorName = metadata.author.trim();
+          hasUpdates = true;
+        }
+
+        if (metadata.description?.trim() && !bookData.description?.trim()) {
+          updates.description = metadata.description.trim();
+          hasUpdates = true;
+        }
+
+        if (hasUpdates) {
+          await db
+            .update(books)
+            .set(updates)
+            .where(eq(books.id, id));
+          console.log(`[Metadata] Updated book ${id} with metadata from version ${nextVersionNumber}`);
+        }
+      } catch (error) {
+        // Log error but don't fail the version upload
+        console.error("[Metadata] Failed to apply metadata:", error);
+      }
+    }
+
     return NextResponse.json(newVersion[0]);
   } catch (error) {
     console.error("Failed to create book version:", error);
@@ -3,9 +3,19 @@ import { getSessionFromRequest } from "@/server/auth";
 import { db } from "@/server/db";
 import { books, bookVersions, reports, bookFeatures, marketingAssets, bookCovers, landingPages, purchases } from "@/server/db/schema";
 import { eq, desc, and, ne } from "drizzle-orm";
-import { extractEpubMetadata } from "@/server/utils/extract-epub-metadata";
-import { promises as fs } from "fs";
-import path from "path";
+import {
+  canExtractManuscriptMetadata,
+  extractManuscriptMetadata,
+  type ManuscriptMetadata,
+} from "@/server/utils/extract-manuscript-metadata";
+import { recordVersionStats } from "@/server/services/version-stats";
+import { recordEpubValidation } from "@/server/services/epub-validation";
+import { describeDuplicate, findDuplicateManuscript } from "@/server/services/duplicate-detection";
+import { storeBookVersionFile } from "@/server/utils/book-version-file";
+import { hashContent } from "@/server/utils/content-store";
+import { computeTextFingerprint } from "@/server/utils/manuscript-fingerprint";
+import { discardUploadSession, readUploadedFile } from "@/server/utils/resumable-upload";
+import { getBlobStore } from "@/server/storage";
 import { randomUUID } from "crypto";
 import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
 import {
@@ -544,7 +554,13 @@ export async function POST(request: NextRequest) {
     const authorBio = formData.get("authorBio") as string | null;
     const description = formData.get("description") as string || "";
     const summary = formData.get("summary") as string || "";
-    const file = formData.get("file") as File;
+    // Large manuscripts arrive through a resumable upload and are referenced by uploadId.
+    // The upload is kept until the book is created so it can be resubmitted after a duplicate warning
+    const uploadId = formData.get("uploadId") as string | null;
+    const file = uploadId
+      ? await readUploadedFile(uploadId, session.user.id, "manuscript")
+      : (formData.get("file") as File);
+    const allowDuplicate = formData.get("allowDuplicate") === "true";
     const coverImage = formData.get("coverImage") as File | null;
 
     if (!file) {
@@ -581,7 +597,7 @@ export async function POST(request: NextRequest) {
 
     // Server-side file type validation for manuscript
     const { validateManuscriptFileType } = await import("@/server/utils/validate-file-type");
-    const fileTypeValidation = validateManuscriptFileType(file);
+    const fileTypeValidation = await validateManuscriptFileType(file);
     if (!fileTypeValidation.isValid) {
       return NextResponse.json(
         { error: fileTypeValidation.error },
@@ -601,7 +617,7 @@ export async function POST(request: NextRequest) {
 
       // Server-side file type validation for cover image
       const { validateImageFileType } = await import("@/server/utils/validate-file-type");
-      const coverTypeValidation = validateImageFileType(coverImage);
+      const coverTypeValidation = await validateImageFileType(coverImage);
       if (!coverTypeValidation.isValid) {
         return NextResponse.json(
           { error: `Cover image: ${coverTypeValidation.error}` },
@@ -610,6 +626,36 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Read the manuscript once: its hash and text are checked for duplicates
+    // before anything is created, then reused to store it and fill in metadata
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    let metadata: ManuscriptMetadata | null = null;
+    if (canExtractManuscriptMetadata(file.name)) {
+      try {
+        console.log(`[Metadata] Extracting metadata from ${file.name}`);
+        metadata = (await extractManuscriptMetadata(fileBuffer, file.name)) ?? {};
+      } catch (error) {
+        // Log error but don't fail the book creation
+        console.error("[Metadata] Failed to extract metadata:", error);
+      }
+    }
+    const textFingerprint = metadata?.text ? computeTextFingerprint(metadata.text) : null;
+
+    // Warn before creating a second copy of a manuscript the author already uploaded
+    if (!allowDuplicate) {
+      const duplicate = await findDuplicateManuscript({
+        userId: session.user.id,
+        contentHash: hashContent(fileBuffer),
+        textFingerprint,
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: describeDuplicate(duplicate), duplicate },
+          { status: 409 }
+        );
+      }
+    }
+
     // Use sanitized values
     const bookTitle = sanitizedTitle;
 
@@ -619,22 +665,14 @@ export async function POST(request: NextRequest) {
     // Handle cover image upload if provided
     let coverImageUrl: string | null = null;
     if (coverImage) {
-      // Use process.cwd() to ensure we resolve from project root
-      const coverStoragePath = process.env.COVER_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'covers');
-      const coverDir = path.resolve(coverStoragePath);
-
-      // Create directory if it doesn't exist
-      await fs.mkdir(coverDir, { recursive: true });
-
       // Get file extension from MIME type
       const ext = coverImage.type.split('/')[1] || 'jpg';
       const coverFileName = `${bookId}.${ext}`;
-      const coverFilePath = path.join(coverDir, coverFileName);
 
-      // Save cover image to disk
+      // Save cover image to blob storage
       const bytes = await coverImage.arrayBuffer();
       const buffer = Buffer.from(bytes);
-      await fs.writeFile(coverFilePath, buffer);
+      await getBlobStore("covers").put(coverFileName, buffer, { contentType: coverImage.type });
 
       // Store the path for serving
       coverImageUrl = `/api/covers/${bookId}.${ext}`;
@@ -674,25 +712,8 @@ export async function POST(request: NextRequest) {
 
     const createdBook = newBook[0]!;
 
-    // Save the book file to disk
-    const bookStoragePath = process.env.BOOK_STORAGE_PATH || './uploads/books';
-    const bookDir = path.resolve(bookStoragePath);
-
-    // Create directory if it doesn't exist
-    await fs.mkdir(bookDir, { recursive: true });
-
-    // Save file with book ID as name (preserving extension for download)
-    const fileExt = path.extname(file.name);
-    const storedFileName = `${bookId}${fileExt}`;
-    const bookFilePath = path.join(bookDir, storedFileName);
-
-    // Save book file to disk
-    const fileBytes = await file.arrayBuffer();
-    const fileBuffer = Buffer.from(fileBytes);
-    await fs.writeFile(bookFilePath, fileBuffer);
-
-    // Also store file data in database for now (for backward compatibility)
-    const fileBase64 = fileBuffer.toString('base64');
+    // Save the book file once in the content-addressed store
+    const { contentHash, storagePath } = await storeBookVersionFile(fileBuffer);
 
     // Create first version
     const fileName = file.name;
@@ -721,41 +742,45 @@ export async function POST(request: NextRequest) {
         fileUrl,
         fileSize,
         fileType,
-        fileData: fileBase64,
+        contentHash,
+        storagePath,
+        textFingerprint: textFingerprint ?? "",
         mimeType: fileType,
         summary: sanitizedSummary,
       })
       .returning();
 
-    // Extract metadata from EPUB file (if EPUB format)
+    if (uploadId) {
+      await discardUploadSession(uploadId);
+    }
+
+    // EPUBs get a structural validation report for the book page
+    await recordEpubValidation(newVersion[0]!.id, fileBuffer, fileName);
+
+    // Apply metadata from the manuscript file (EPUB, DOCX, PDF, TXT) and record its stats
     let extractedTitle: string | null = null;
     let extractedAuthor: string | null = null;
     let extractedCoverUrl: string | null = null;
     
-    if (fileExt.toLowerCase() === ".epub") {
+    if (metadata) {
       try {
-        console.log(`[EPUB] Extracting metadata from ${fileName}`);
-        const metadata = await extractEpubMetadata(fileBuffer, fileName);
+        await recordVersionStats(newVersion[0]!.id, metadata);
 
         // Use extracted title if available and current title is from filename
         // Only use if form title was not provided
         if (metadata.title && metadata.title.trim() && !title?.trim()) {
           extractedTitle = metadata.title.trim();
-          console.log(`[EPUB] Extracted title: "${extractedTitle}"`);
+          console.log(`[Metadata] Extracted title: "${extractedTitle}"`);
         }
 
         // Extract author if not provided in form
         if (metadata.author && metadata.author.trim() && !authorName?.trim()) {
           extractedAuthor = metadata.author.trim();
-          console.log(`[EPUB] Extracted author: "${extractedAuthor}"`);
+          console.log(`[Metadata] Extracted author: "${extractedAuthor}"`);
         }
 
         // Save cover image if extracted and not provided in form
         if (metadata.coverImage && !coverImage) {
-          const coverStoragePath = process.env.COVER_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'covers');
-          const coverDir = path.resolve(coverStoragePath);
-          await fs.mkdir(coverDir, { recursive: true });
-
           // Determine file extension from MIME type
           let ext = 'jpg'; // default
           if (metadata.coverImageMimeType) {
@@ -768,18 +793,19 @@ export async function POST(request: NextRequest) {
           }
           
           const coverFileName = `${bookId}.${ext}`;
-          const coverFilePath = path.join(coverDir, coverFileName);
 
-          // Save cover image to disk
-          await fs.writeFile(coverFilePath, metadata.coverImage);
+          // Save cover image to blob storage
+          await getBlobStore("covers").put(coverFileName, metadata.coverImage, {
+            contentType: metadata.coverImageMimeType,
+          });
 
           // Store the path for serving
           extractedCoverUrl = `/api/covers/${bookId}.${ext}`;
-          console.log(`[EPUB] Extracted and saved cover image: ${extractedCoverUrl} (${metadata.coverImage.length} bytes, ${metadata.coverImageMimeType})`);
+          console.log(`[Metadata] Extracted and saved cover image: ${extractedCoverUrl} (${metadata.coverImage.length} bytes, ${metadata.coverImageMimeType})`);
         }
       } catch (error) {
         // Log error but don't fail the book creation
-        console.error("[EPUB] Failed to extract metadata:", error);
+        console.error("[Metadata] Failed to apply metadata:", error);
       }
     }
 
@@ -832,7 +858,7 @@ export async function POST(request: NextRequest) {
         createdBook.coverImageUrl = updates.coverImageUrl;
       }
 
-      console.log(`[EPUB] Updated book ${createdBook.id} with extracted metadata`);
+      console.log(`[Metadata] Updated book ${createdBook.id} with extracted metadata`);
     }
 
     // Attempt to import precanned content based on filename
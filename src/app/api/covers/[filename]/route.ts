@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { promises as fs } from "fs";
 import path from "path";
+import { assertValidBlobKey, getBlobStore } from "@/server/storage";
 
 export async function GET(
   request: NextRequest,
@@ -18,64 +19,23 @@ export async function GET(
   const shouldCheckPrecanned = !isLikelyUploadedFile;
 
   try {
-    // First, try the standard covers directory
-    // Use process.cwd() to ensure we resolve from project root
-    const coverStoragePath = process.env.COVER_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'covers');
-    const coverDir = path.resolve(coverStoragePath);
-    let filePath = path.join(coverDir, filename);
-    let resolvedPath = path.resolve(filePath);
-    
-    // Security: Ensure the requested file is within the covers directory
-    if (!resolvedPath.startsWith(coverDir)) {
-      console.error(`[Covers API] Security check failed: ${resolvedPath} does not start with ${coverDir}`);
-      return NextResponse.json({ error: "Invalid file path" }, { status: 403 });
-    }
-    
-    // Check if directory exists and is accessible
-    let dirExists = false;
-    let dirWritable = false;
+    // Security: Ensure the requested file is a plain file name within the covers store
     try {
-      await fs.access(coverDir);
-      dirExists = true;
-      // Try to write a test file to check if directory is writable
-      try {
-        const testFile = path.join(coverDir, '.test-write');
-        await fs.writeFile(testFile, 'test');
-        await fs.unlink(testFile);
-        dirWritable = true;
-      } catch {
-        dirWritable = false;
-      }
+      assertValidBlobKey(filename);
     } catch {
-      dirExists = false;
+      console.error(`[Covers API] Security check failed: ${filename}`);
+      return NextResponse.json({ error: "Invalid file path" }, { status: 403 });
     }
-    
-    // Try to read from standard covers directory
-    let fileBuffer: Buffer;
-    try {
-      fileBuffer = await fs.readFile(filePath);
-      // Success - return the file
-    } catch (error: any) {
-      // File not found in standard location
-      
-      // Log diagnostic information
-      console.log(`[Covers API] File not found in standard location: ${filePath}`);
-      console.log(`[Covers API] Directory exists: ${dirExists}, Writable: ${dirWritable}`);
-      console.log(`[Covers API] Cover storage path: ${coverStoragePath}`);
-      console.log(`[Covers API] Resolved cover dir: ${coverDir}`);
-      console.log(`[Covers API] Error: ${error.message}`);
-      
+
+    // First, try the covers blob store
+    const coverStore = getBlobStore("covers");
+    let fileBuffer = await coverStore.get(filename);
+
+    if (!fileBuffer) {
+      console.log(`[Covers API] File not found in cover storage (${coverStore.driver}): ${filename}`);
+
       // If this looks like an uploaded file (UUID), don't check precanned locations
       if (!shouldCheckPrecanned) {
-        // For uploaded files, check if directory exists and list files for debugging
-        if (dirExists) {
-          try {
-            const files = await fs.readdir(coverDir);
-            console.log(`[Covers API] Files in covers directory (${files.length} total): ${files.slice(0, 10).join(', ')}${files.length > 10 ? '...' : ''}`);
-          } catch (listError: any) {
-            console.log(`[Covers API] Could not list directory contents: ${listError.message}`);
-          }
-        }
         console.log(`[Covers API] Uploaded cover image not found: ${filename}`);
         return NextResponse.json({ error: "Cover image not found" }, { status: 404 });
       }
@@ -83,22 +43,12 @@ export async function GET(
       // For precanned files, try fallback locations
       console.log(`[Covers API] File not found in standard location, checking precanned locations for: ${filename}`);
       
-      // Try precanned uploads directory (for precanned cover images)
-      const precannedUploadsPath = path.resolve(process.cwd(), 'public', 'uploads', 'precanned', 'uploads', filename);
-      const precannedResolvedPath = path.resolve(precannedUploadsPath);
-      const precannedBaseDir = path.resolve(process.cwd(), 'public', 'uploads', 'precanned', 'uploads');
-      
-      // Security: Ensure the requested file is within the precanned uploads directory
-      if (!precannedResolvedPath.startsWith(precannedBaseDir)) {
-        console.error(`[Covers API] Security check failed for precanned: ${precannedResolvedPath} does not start with ${precannedBaseDir}`);
-        return NextResponse.json({ error: "Invalid file path" }, { status: 403 });
-      }
-      
-      try {
-        fileBuffer = await fs.readFile(precannedUploadsPath);
-        console.log(`[Covers API] ✅ Found in precanned public location: ${precannedUploadsPath}`);
-      } catch (precannedError: any) {
-        // If not in public/uploads/precanned/uploads, try source precannedcontent/uploads
+      // Try precanned uploads (precanned cover images copied at seed time)
+      fileBuffer = await getBlobStore("precanned").get(`uploads/${filename}`);
+      if (fileBuffer) {
+        console.log(`[Covers API] ✅ Found in precanned storage: uploads/${filename}`);
+      } else {
+        // If not copied yet, try source precannedcontent/uploads
         const sourcePrecannedPath = path.resolve(process.cwd(), 'precannedcontent', 'uploads', filename);
         const sourcePrecannedResolved = path.resolve(sourcePrecannedPath);
         const sourcePrecannedBaseDir = path.resolve(process.cwd(), 'precannedcontent', 'uploads');
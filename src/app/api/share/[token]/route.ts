@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkShareLinkPassword,
+  getSharedContent,
+  getShareUnlockCookie,
+  isShareLinkUnlocked,
+  recordShareLinkView,
+  resolveShareToken,
+} from "@/server/services/share-links";
+import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
+import { sandboxHtml } from "@/server/utils/sandbox-html";
+
+export const dynamic = 'force-dynamic';
+
+// Shared pages shouldn't be indexed, cached, or leak the token to the sites they link to
+const SHARE_HEADERS = {
+  'Content-Type': 'text/html; charset=utf-8',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'X-Robots-Tag': 'noindex, nofollow',
+  'Referrer-Policy': 'no-referrer',
+};
+
+function renderMessagePage(title: string, body: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>${title}</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <style>
+          body {
+            font-family: system-ui, -apple-system, sans-serif;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            height: 100vh;
+            margin: 0;
+            background: #f9fafb;
+            color: #374151;
+          }
+          .error-container {
+            text-align: center;
+            padding: 2rem;
+            max-width: 400px;
+          }
+          h1 { color: #111827; margin-bottom: 0.5rem; }
+          p { color: #6b7280; }
+          .error { color: #dc2626; }
+          input { width: 100%; box-sizing: border-box; padding: 0.6rem 0.75rem; margin-top: 1rem; border: 1px solid #d1d5db; border-radius: 0.375rem; font: inherit; }
+          button { width: 100%; margin-top: 0.75rem; padding: 0.6rem; border: 0; border-radius: 0.375rem; background: #2563eb; color: #fff; font: inherit; cursor: pointer; }
+        </style>
+      </head>
+      <body>
+        <div class="error-container">
+          <h1>${title}</h1>
+          ${body}
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+function renderPasswordPage(error?: string): string {
+  return renderMessagePage(
+    "Password Required",
+    `<p>This shared page is protected. Enter the password you were given to view it.</p>
+          ${error ? `<p class="error">${error}</p>` : ""}
+          <form method="post">
+            <input type="password" name="password" placeholder="Password" autocomplete="current-password" required autofocus>
+            <button type="submit">View</button>
+          </form>`
+  );
+}
+
+/**
+ * GET /api/share/[token]
+ * Public, read-only view of the deliverable a share link points to
+ * Asks for the password first when the link has one
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const rateLimitResponse = rateLimitMiddleware(request, "share:view", RATE_LIMITS.API);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const { token } = await params;
+
+  try {
+    const resolved = await resolveShareToken(token);
+    if (!resolved.ok) {
+      return new NextResponse(
+        renderMessagePage("Link Not Available", `<p>${resolved.error}. Ask the author for a new link.</p>`),
+        { status: resolved.status, headers: SHARE_HEADERS }
+      );
+    }
+
+    const link = resolved.value;
+    const unlock = getShareUnlockCookie(link);
+    if (!isShareLinkUnlocked(link, request.cookies.get(unlock.name)?.value)) {
+      return new NextResponse(renderPasswordPage(), { status: 401, headers: SHARE_HEADERS });
+    }
+
+    const html = await getSharedContent(link.bookId, link.assetType);
+    if (!html) {
+      return new NextResponse(
+        renderMessagePage("Nothing Here Yet", "<p>What was shared is no longer available.</p>"),
+        { status: 404, headers: SHARE_HEADERS }
+      );
+    }
+
+    await recordShareLinkView(link.id);
+
+    const sandboxed = sandboxHtml(html);
+    return new NextResponse(sandboxed.html, { status: 200, headers: { ...SHARE_HEADERS, ...sandboxed.headers } });
+  } catch (error) {
+    console.error("Failed to serve share link:", error);
+    return new NextResponse(
+      renderMessagePage("Error", "<p>Something went wrong loading this page. Please try again later.</p>"),
+      { status: 500, headers: SHARE_HEADERS }
+    );
+  }
+}
+
+/**
+ * POST /api/share/[token]
+ * Password form submission; remembers the unlock in a cookie for this link and shows the page
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  // Same limit as sign-in, so passwords can't be guessed quickly
+  const rateLimitResponse = rateLimitMiddleware(request, "share:password", RATE_LIMITS.AUTH);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const { token } = await params;
+
+  try {
+    const resolved = await resolveShareToken(token);
+    if (!resolved.ok) {
+      return new NextResponse(
+        renderMessagePage("Link Not Available", `<p>${resolved.error}. Ask the author for a new link.</p>`),
+        { status: resolved.status, headers: SHARE_HEADERS }
+      );
+    }
+
+    const link = resolved.value;
+    const formData = await request.formData().catch(() => null);
+    const password = formData?.get("password");
+
+    if (typeof password !== "string" || !(await checkShareLinkPassword(link, password))) {
+      return new NextResponse(renderPasswordPage("That password isn't right."), { status: 401, headers: SHARE_HEADERS });
+    }
+
+    const response = NextResponse.redirect(new URL(request.nextUrl.pathname, request.url), 303);
+    const unlock = getShareUnlockCookie(link);
+    response.cookies.set(unlock.name, unlock.value, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: request.nextUrl.pathname,
+      expires: link.expiresAt,
+    });
+    return response;
+  } catch (error) {
+    console.error("Failed to unlock share link:", error);
+    return new NextResponse(
+      renderMessagePage("Error", "<p>Something went wrong. Please try again later.</p>"),
+      { status: 500, headers: SHARE_HEADERS }
+    );
+  }
+}
@@ -4,10 +4,11 @@ import { db } from "@/server/db";
 import { 
   users, books, bookVersions, reports, purchases, notifications, 
   verificationTokens, summaries, landingPages, bookCovers, 
-  marketingAssets, bookFeatures, digestJobs
+  marketingAssets, bookFeatures, digestJobs, shareLinks
 } from "@/server/db/schema";
 import { session as betterAuthSession, account as betterAuthAccount } from "@/server/db/better-auth-schema";
 import { eq, inArray } from "drizzle-orm";
+import { deleteReportAnnotations } from "@/server/services/report-annotations";
 
 /**
  * Test-only cleanup endpoint to delete users by email
@@ -165,12 +166,20 @@ export async function DELETE(request: NextRequest) {
         const versionIds = bookVersionsList.map(v => v.id);
         
         if (versionIds.length > 0) {
+          await deleteReportAnnotations({ bookVersionIds: versionIds });
           await db.delete(reports).where(inArray(reports.bookVersionId, versionIds));
         }
       } catch (error) {
         console.warn(`[Test Cleanup] Failed to delete reports for book ${book.id}:`, error);
       }
 
+      try {
+        // Delete share links
+        await db.delete(shareLinks).where(eq(shareLinks.bookId, book.id));
+      } catch (error) {
+        console.warn(`[Test Cleanup] Failed to delete share links for book ${book.id}:`, error);
+      }
+
       try {
         // Delete book versions
         await db.delete(bookVersions).where(eq(bookVersions.bookId, book.id));
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { promises as fs } from "fs";
 import path from "path";
+import { assertValidBlobKey, getBlobStore } from "@/server/storage";
+import { UPLOADED_FILE_HEADERS } from "@/server/utils/sandbox-html";
 
 /**
  * API route to serve admin-uploaded assets (videos, images, etc.)
@@ -24,26 +25,21 @@ export async function GET(
   }
   
   try {
-    // Build path to file in public/uploads/admin/
-    const publicPath = path.resolve(process.cwd(), "public", "uploads", "admin", ...pathSegments);
-    const publicBaseDir = path.resolve(process.cwd(), "public", "uploads", "admin");
-    
     // Security check
-    if (!publicPath.startsWith(publicBaseDir)) {
+    const key = pathSegments.join("/");
+    try {
+      assertValidBlobKey(key);
+    } catch {
       console.error(`[Admin Uploads API] Security check failed for path`);
       return NextResponse.json({ error: "Invalid file path" }, { status: 403 });
     }
     
-    // Check if file exists
-    try {
-      await fs.access(publicPath);
-    } catch {
+    // Read file from the admin uploads blob store
+    const fileBuffer = await getBlobStore("admin-uploads").get(key);
+    if (!fileBuffer) {
       return NextResponse.json({ error: "File not found" }, { status: 404 });
     }
     
-    // Read file
-    const fileBuffer = await fs.readFile(publicPath);
-    
     // Determine MIME type from extension
     const ext = path.extname(filename).toLowerCase();
     let mimeType = "application/octet-stream";
@@ -92,6 +88,7 @@ export async function GET(
           "Accept-Ranges": "bytes",
           "Content-Length": chunksize.toString(),
           "Content-Type": mimeType,
+          ...UPLOADED_FILE_HEADERS,
           "Cache-Control": "public, max-age=31536000, immutable",
           "Access-Control-Allow-Origin": "*",
           "Access-Control-Allow-Methods": "GET",
@@ -104,6 +101,7 @@ export async function GET(
       status: 200,
       headers: {
         "Content-Type": mimeType,
+        ...UPLOADED_FILE_HEADERS,
         "Content-Length": fileBuffer.length.toString(),
         "Accept-Ranges": "bytes", // Indicate support for Range requests
         "Cache-Control": "public, max-age=31536000, immutable",
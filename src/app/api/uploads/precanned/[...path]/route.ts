@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { promises as fs } from "fs";
 import path from "path";
+import { assertValidBlobKey, getBlobStore } from "@/server/storage";
+import { UPLOADED_FILE_HEADERS } from "@/server/utils/sandbox-html";
 
 /**
  * API route to serve precanned assets (images, videos, etc.)
@@ -41,23 +43,22 @@ export async function GET(
   }
 
   try {
-    // First, try the copied location in public/uploads/precanned/
-    const publicPath = path.resolve(process.cwd(), "public", "uploads", "precanned", ...pathSegments);
-    const publicBaseDir = path.resolve(process.cwd(), "public", "uploads", "precanned");
-    
     // Security check
-    if (!publicPath.startsWith(publicBaseDir)) {
-      console.error(`[Precanned API] Security check failed for public path`);
+    const key = pathSegments.join("/");
+    try {
+      assertValidBlobKey(key);
+    } catch {
+      console.error(`[Precanned API] Security check failed for path`);
       return NextResponse.json({ error: "Invalid file path" }, { status: 403 });
     }
 
-    let fileBuffer: Buffer | null = null;
-    try {
-      fileBuffer = await fs.readFile(publicPath);
-      console.log(`[Precanned API] ✅ Served from public: ${publicPath}`);
-    } catch (publicError: any) {
-      // If not in public, try source precannedcontent/ directory
-      console.log(`[Precanned API] File not in public, trying source precannedcontent...`);
+    // First, try the copy in the precanned blob store
+    let fileBuffer = await getBlobStore("precanned").get(key);
+    if (fileBuffer) {
+      console.log(`[Precanned API] ✅ Served from precanned storage: ${key}`);
+    } else {
+      // If not copied yet, try source precannedcontent/ directory
+      console.log(`[Precanned API] File not in precanned storage, trying source precannedcontent...`);
       
       // Reconstruct path in precannedcontent/
       // e.g., /uploads/precanned/uploads/beach_read.jpg -> precannedcontent/uploads/beach_read.jpg
@@ -227,6 +228,7 @@ export async function GET(
           "Accept-Ranges": "bytes",
           "Content-Length": chunksize.toString(),
           "Content-Type": mimeType,
+          ...UPLOADED_FILE_HEADERS,
           "Cache-Control": "public, max-age=31536000, immutable",
           "Access-Control-Allow-Origin": "*",
           "Access-Control-Allow-Methods": "GET",
@@ -239,6 +241,7 @@ export async function GET(
       status: 200,
       headers: {
         "Content-Type": mimeType,
+        ...UPLOADED_FILE_HEADERS,
         "Content-Length": fileBuffer.length.toString(),
         "Accept-Ranges": "bytes", // Indicate support for Range requests
         "Cache-Control": "public, max-age=31536000, immutable",
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/server/auth";
+import { getUploadSession, readUploadChunk, writeUploadChunk } from "@/server/utils/resumable-upload";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Upload one chunk of a resumable upload
+ * Body: raw chunk bytes. Header X-Chunk-SHA256: hex SHA-256 of the chunk.
+ * Re-sending a chunk replaces it, so the client can simply retry on failure.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string; index: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { uploadId, index } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const upload = await getUploadSession(uploadId, session.user.id);
+    if (!upload) {
+      return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+    }
+
+    // Reject oversized bodies without reading them into memory
+    const contentLength = Number(request.headers.get("content-length") ?? 0);
+    const data = contentLength > upload.chunkSize ? null : await readUploadChunk(request.body, upload.chunkSize);
+    if (!data) {
+      return NextResponse.json({ error: "Chunk is larger than the chunk size" }, { status: 413 });
+    }
+
+    const result = await writeUploadChunk(
+      upload,
+      Number(index),
+      data,
+      request.headers.get("x-chunk-sha256")
+    );
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, index: Number(index) });
+  } catch (error) {
+    console.error(`[Uploads] Failed to store chunk ${index} of ${uploadId}:`, error);
+    return NextResponse.json({ error: "Failed to store chunk" }, { status: 500 });
+  }
+}
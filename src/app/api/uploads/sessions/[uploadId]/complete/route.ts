@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/server/auth";
+import { completeUploadSession, getUploadSession } from "@/server/utils/resumable-upload";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Finish a resumable upload
+ * Body: { checksum } - SHA-256 of the chunk hashes joined in order (see resumable-upload.ts)
+ * On success the uploadId can be sent to the upload route in place of the file.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { uploadId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const upload = await getUploadSession(uploadId, session.user.id);
+    if (!upload) {
+      return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.checksum !== "string" || !body.checksum) {
+      return NextResponse.json({ error: "Checksum is required" }, { status: 400 });
+    }
+
+    const result = await completeUploadSession(upload, body.checksum);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, missingChunks: result.missingChunks },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      uploadId: result.session.id,
+      fileName: result.session.fileName,
+      fileSize: result.session.fileSize,
+    });
+  } catch (error) {
+    console.error(`[Uploads] Failed to complete upload ${uploadId}:`, error);
+    return NextResponse.json({ error: "Failed to complete upload" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/server/auth";
+import {
+  discardUploadSession,
+  getReceivedChunks,
+  getUploadSession,
+} from "@/server/utils/resumable-upload";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Get upload progress - used by the client to resume an interrupted upload
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { uploadId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const upload = await getUploadSession(uploadId, session.user.id);
+  if (!upload) {
+    return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    uploadId: upload.id,
+    status: upload.status,
+    fileName: upload.fileName,
+    fileSize: upload.fileSize,
+    chunkSize: upload.chunkSize,
+    totalChunks: upload.totalChunks,
+    receivedChunks: await getReceivedChunks(upload),
+    expiresAt: upload.expiresAt,
+  });
+}
+
+/**
+ * Cancel an upload and delete its chunks
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { uploadId } = await params;
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const upload = await getUploadSession(uploadId, session.user.id);
+  if (!upload) {
+    return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+  }
+
+  await discardUploadSession(upload.id);
+  return NextResponse.json({ success: true });
+}
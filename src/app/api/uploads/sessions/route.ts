@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest, isAdminFromRequest } from "@/server/auth";
+import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
+import { createUploadSession, type UploadPurpose } from "@/server/utils/resumable-upload";
+
+export const dynamic = 'force-dynamic';
+
+const PURPOSES: UploadPurpose[] = ["manuscript", "asset"];
+
+/**
+ * Start a resumable upload
+ * Body: { fileName, fileSize, mimeType, purpose: "manuscript" | "asset" }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSessionFromRequest(request);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateLimitResponse = rateLimitMiddleware(
+    request,
+    "uploads:init",
+    RATE_LIMITS.UPLOAD,
+    session.user.id
+  );
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const body = await request.json();
+    const purpose = body.purpose as UploadPurpose;
+
+    if (!PURPOSES.includes(purpose)) {
+      return NextResponse.json({ error: "Invalid upload purpose" }, { status: 400 });
+    }
+
+    // Asset bundles are only uploaded from the admin panel
+    if (purpose === "asset" && !(await isAdminFromRequest(request))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const result = await createUploadSession({
+      userId: session.user.id,
+      purpose,
+      fileName: String(body.fileName ?? ""),
+      fileSize: Number(body.fileSize),
+      mimeType: String(body.mimeType ?? ""),
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const { id, chunkSize, totalChunks, expiresAt } = result.session;
+    return NextResponse.json({ uploadId: id, chunkSize, totalChunks, expiresAt }, { status: 201 });
+  } catch (error) {
+    console.error("[Uploads] Failed to start upload:", error);
+    return NextResponse.json({ error: "Failed to start upload" }, { status: 500 });
+  }
+}
@@ -12,9 +12,11 @@ import {
   bookCovers,
   landingPages,
   summaries,
-  notifications
+  notifications,
+  shareLinks
 } from "@/server/db/schema";
 import { eq, and, ne } from "drizzle-orm";
+import { deleteReportAnnotations } from "@/server/services/report-annotations";
 
 /**
  * DELETE /api/user/books
@@ -100,16 +102,22 @@ export async function DELETE(request: NextRequest) {
     
     const allVersionIds = allBookVersions.flat().map(v => v.id);
     
+    await deleteReportAnnotations({ bookVersionIds: allVersionIds });
     for (const versionId of allVersionIds) {
       await db.delete(reports).where(eq(reports.bookVersionId, versionId));
     }
 
-    // 10. Delete book versions
+    // 10. Delete share links
+    for (const bookId of bookIds) {
+      await db.delete(shareLinks).where(eq(shareLinks.bookId, bookId));
+    }
+
+    // 11. Delete book versions
     for (const bookId of bookIds) {
       await db.delete(bookVersions).where(eq(bookVersions.bookId, bookId));
     }
 
-    // 11. Finally, delete books (excluding system book)
+    // 12. Finally, delete books (excluding system book)
     const deleteResult = await db
       .delete(books)
       .where(
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/server/auth";
+import { revokeShareLink } from "@/server/services/share-links";
+
+/**
+ * DELETE /api/user/share-links/[linkId]
+ * Revoke a share link; it stops working straight away
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ linkId: string }> }
+) {
+  const session = await getSessionFromRequest(request);
+  const { linkId } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await revokeShareLink(session.user.id, linkId);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ link: result.value });
+  } catch (error) {
+    console.error("Failed to revoke share link:", error);
+    return NextResponse.json({ error: "Failed to revoke share link" }, { status: 500 });
+  }
+}
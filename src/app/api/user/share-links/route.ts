@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/server/auth";
+import { createShareLink, listShareLinks } from "@/server/services/share-links";
+
+/**
+ * GET /api/user/share-links
+ * The user's share links with their status and view counts
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSessionFromRequest(request);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const links = await listShareLinks(session.user.id);
+    return NextResponse.json({ links });
+  } catch (error) {
+    console.error("Failed to fetch share links:", error);
+    return NextResponse.json({ error: "Failed to fetch share links" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/share-links
+ * Share a deliverable of one of the user's books:
+ * { bookId, assetType, expiresInDays?, label?, password? }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSessionFromRequest(request);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await createShareLink(session.user.id, body);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ link: result.value }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create share link:", error);
+    return NextResponse.json({ error: "Failed to create share link" }, { status: 500 });
+  }
+}
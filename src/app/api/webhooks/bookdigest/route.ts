@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDigestWebhookSecret, handleDigestWebhook, type BookDigestStatusResponse } from "@/server/services/bookdigest";
+import { verifyWebhookSignature } from "@/server/utils/webhook-signature";
+import { rateLimitMiddleware, RATE_LIMITS } from "@/server/utils/rate-limit";
+
+/**
+ * POST /api/webhooks/bookdigest
+ * Completion callback from BookDigest, signed with BOOKDIGEST_WEBHOOK_SECRET
+ * Headers: X-BookDigest-Timestamp (unix seconds), X-BookDigest-Signature (sha256=...)
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = rateLimitMiddleware(
+    request,
+    "webhook:bookdigest",
+    RATE_LIMITS.WEBHOOK
+  );
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const secret = getDigestWebhookSecret();
+  if (!secret) {
+    console.error("[Digest Webhook] BOOKDIGEST_WEBHOOK_SECRET is not configured");
+    return NextResponse.json({ error: "BookDigest webhooks not configured" }, { status: 503 });
+  }
+
+  // Verify against the raw body - re-serialized JSON would not match the signature
+  const body = await request.text();
+  const verification = verifyWebhookSignature({
+    secret,
+    body,
+    timestamp: request.headers.get("x-bookdigest-timestamp"),
+    signature: request.headers.get("x-bookdigest-signature"),
+  });
+
+  if (!verification.ok) {
+    console.warn(`[Digest Webhook] Rejected delivery: ${verification.error}`);
+    return NextResponse.json({ error: verification.error }, { status: 401 });
+  }
+
+  let payload: BookDigestStatusResponse;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  try {
+    const result = await handleDigestWebhook(payload);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ received: true, status: result.status });
+  } catch (error) {
+    // A 500 makes BookDigest retry; the poller is the fallback if it doesn't
+    console.error("[Digest Webhook] Failed to process delivery:", error);
+    return NextResponse.json({ error: "Failed to process webhook" }, { status: 500 });
+  }
+}
@@ -0,0 +1,643 @@
+"use client";
+
+import { useState, useEffect, useCallback, type ReactNode } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useSession } from "@/lib/auth-client";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, AlertCircle, CheckCircle, ChevronDown, ChevronRight, GitCompare, Sparkles } from "lucide-react";
+
+interface BookVersion {
+  id: string;
+  versionNumber: number;
+  fileName: string;
+  uploadedAt: string;
+  reports?: VersionReport[];
+}
+
+interface VersionReport {
+  id: string;
+  status: string;
+  variant?: string;
+  structured?: boolean;
+}
+
+interface WordSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+type ParagraphDiff =
+  | { type: "unchanged"; text: string }
+  | { type: "added"; text: string }
+  | { type: "removed"; text: string }
+  | { type: "changed"; oldText: string; newText: string; segments: WordSegment[] };
+
+interface ChapterDiff {
+  title: string;
+  oldTitle: string | null;
+  status: "added" | "removed" | "changed" | "unchanged";
+  oldWordCount: number;
+  newWordCount: number;
+  wordDelta: number;
+  added: number;
+  removed: number;
+  changed: number;
+  paragraphs: ParagraphDiff[];
+}
+
+interface VersionComparison {
+  from: BookVersion;
+  to: BookVersion;
+  chapters: ChapterDiff[];
+  totals: {
+    oldWordCount: number;
+    newWordCount: number;
+    wordDelta: number;
+    added: number;
+    removed: number;
+    changed: number;
+    chaptersAdded: number;
+    chaptersRemoved: number;
+    chaptersChanged: number;
+  };
+}
+
+interface ScoreDelta {
+  id: string;
+  label: string;
+  max: number;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+interface ReportFinding {
+  title: string;
+  detail: string;
+  tag?: string;
+  kind?: "strength" | "consideration" | "issue";
+}
+
+interface SectionComparison {
+  id: string;
+  title: string;
+  status: "added" | "removed" | "both";
+  scores: ScoreDelta[];
+  resolvedFindings: ReportFinding[];
+  newFindings: ReportFinding[];
+}
+
+interface ReportComparison {
+  from: { versionNumber: number; wordCount: number | null };
+  to: { versionNumber: number; wordCount: number | null };
+  wordDelta: number | null;
+  scores: ScoreDelta[];
+  sections: SectionComparison[];
+  totals: {
+    improvedScores: number;
+    declinedScores: number;
+    resolvedFindings: number;
+    newFindings: number;
+  };
+}
+
+const STATUS_STYLES: Record<ChapterDiff["status"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-yellow-100 text-yellow-800",
+  unchanged: "bg-gray-100 text-gray-600",
+};
+
+// Runs of unchanged paragraphs longer than this are collapsed to their first and last paragraph
+const UNCHANGED_CONTEXT = 2;
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${delta.toLocaleString()}`;
+}
+
+// The latest completed full report of a version that has structured scores and findings
+function getComparableReport(version: BookVersion | undefined): VersionReport | undefined {
+  return version?.reports?.find(
+    (report) => report.status === "completed" && report.variant !== "preview" && report.structured
+  );
+}
+
+/**
+ * Key diff rows by their position in the old and new versions, which identifies a row
+ * for as long as the comparison is shown
+ */
+function keyDiffRows<T>(rows: T[], getChange: (row: T) => string): { key: string; row: T }[] {
+  let oldPosition = 0;
+  let newPosition = 0;
+  return rows.map((row) => {
+    const key = `${oldPosition}:${newPosition}`;
+    const change = getChange(row);
+    if (change !== "added") oldPosition++;
+    if (change !== "removed") newPosition++;
+    return { key, row };
+  });
+}
+
+function ScoreDeltaRows({ scores }: { scores: ScoreDelta[] }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {scores.map((score) => (
+          <tr key={score.id} className="border-t first:border-t-0">
+            <td className="py-2 text-gray-700">{score.label}</td>
+            <td className="py-2 text-right text-gray-500 w-20">{score.from ?? "—"}</td>
+            <td className="py-2 text-right text-gray-900 w-20">{score.to ?? "—"}<span className="text-gray-400">/{score.max}</span></td>
+            <td
+              className={`py-2 text-right font-medium w-20 ${
+                score.delta == null || score.delta === 0 ? "text-gray-500" : score.delta > 0 ? "text-green-700" : "text-red-700"
+              }`}
+            >
+              {score.delta == null ? "—" : formatDelta(score.delta)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ReportComparisonView({ comparison }: { comparison: ReportComparison }) {
+  const { totals } = comparison;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Report</CardTitle>
+        <CardDescription>
+          Version {comparison.from.versionNumber} report compared with version {comparison.to.versionNumber}
+          {comparison.wordDelta != null &&
+            ` · ${comparison.from.wordCount!.toLocaleString()} → ${comparison.to.wordCount!.toLocaleString()} words (${formatDelta(comparison.wordDelta)})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-xs text-gray-500">Scores improved</p>
+            <p className="text-xl font-semibold text-green-700">{totals.improvedScores}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Scores declined</p>
+            <p className="text-xl font-semibold text-red-700">{totals.declinedScores}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Findings resolved</p>
+            <p className="text-xl font-semibold text-green-700">{totals.resolvedFindings}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">New findings</p>
+            <p className="text-xl font-semibold text-gray-900">{totals.newFindings}</p>
+          </div>
+        </div>
+
+        {comparison.scores.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">Overall</h3>
+            <ScoreDeltaRows scores={comparison.scores} />
+          </div>
+        )}
+
+        {comparison.sections.map((section) => {
+          if (section.scores.length === 0 && section.resolvedFindings.length === 0 && section.newFindings.length === 0) {
+            return null;
+          }
+          return (
+            <div key={section.id} className="border-t pt-4">
+              <div className="flex items-center gap-2 mb-2">
+                <h3 className="font-semibold text-gray-700">{section.title}</h3>
+                {section.status !== "both" && (
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded ${STATUS_STYLES[section.status]}`}>
+                    {section.status === "added" ? "New section" : "Removed section"}
+                  </span>
+                )}
+              </div>
+              {section.scores.length > 0 && <ScoreDeltaRows scores={section.scores} />}
+              {section.resolvedFindings.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                  {section.resolvedFindings.map((finding) => (
+                    <li key={finding.title} className="flex gap-2 text-sm">
+                      <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                      <span>
+                        <span className="text-gray-500 line-through">{finding.title}</span>
+                        <span className="text-xs text-green-700 ml-2">Resolved</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {section.newFindings.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                  {section.newFindings.map((finding) => (
+                    <li key={finding.title} className="flex gap-2 text-sm">
+                      <Sparkles className="w-4 h-4 text-orange-500 flex-shrink-0 mt-0.5" />
+                      <span>
+                        <span className="text-gray-900">{finding.title}</span>
+                        {finding.kind && <span className="text-xs text-gray-500 ml-2 capitalize">{finding.kind}</span>}
+                        <span className="block text-gray-600">{finding.detail}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ParagraphDiffView({ paragraphs }: { paragraphs: ParagraphDiff[] }) {
+  const rows = keyDiffRows(paragraphs, (paragraph) => paragraph.type);
+  const items: ReactNode[] = [];
+  let index = 0;
+
+  while (index < rows.length) {
+    const { key, row: paragraph } = rows[index]!;
+
+    if (paragraph.type === "unchanged") {
+      let end = index;
+      while (end < rows.length && rows[end]!.row.type === "unchanged") end++;
+      const run = rows.slice(index, end);
+      const visible = run.length > UNCHANGED_CONTEXT
+        ? [run[0]!, null, run[run.length - 1]!]
+        : run;
+      for (const item of visible) {
+        items.push(
+          item === null ? (
+            <p key={`${key}-gap`} className="text-xs text-gray-400 italic">
+              {run.length - 2} unchanged paragraphs
+            </p>
+          ) : (
+            <p key={item.key} className="text-gray-500">
+              {item.row.type === "unchanged" && item.row.text}
+            </p>
+          )
+        );
+      }
+      index = end;
+      continue;
+    }
+
+    if (paragraph.type === "added") {
+      items.push(
+        <p key={key} className="bg-green-50 border-l-4 border-green-400 pl-3 text-gray-900">
+          {paragraph.text}
+        </p>
+      );
+    } else if (paragraph.type === "removed") {
+      items.push(
+        <p key={key} className="bg-red-50 border-l-4 border-red-400 pl-3 text-gray-500 line-through">
+          {paragraph.text}
+        </p>
+      );
+    } else {
+      items.push(
+        <p key={key} className="border-l-4 border-yellow-400 pl-3 text-gray-900">
+          {keyDiffRows(paragraph.segments, (segment) => segment.type).map(({ key: segmentKey, row: segment }) => {
+            if (segment.type === "added") {
+              return (
+                <ins key={segmentKey} className="bg-green-100 no-underline">
+                  {segment.text}
+                </ins>
+              );
+            }
+            if (segment.type === "removed") {
+              return (
+                <del key={segmentKey} className="bg-red-100 text-gray-500">
+                  {segment.text}
+                </del>
+              );
+            }
+            return <span key={segmentKey}>{segment.text}</span>;
+          })}
+        </p>
+      );
+    }
+    index++;
+  }
+
+  return <div className="space-y-3 text-sm leading-relaxed">{items}</div>;
+}
+
+export default function CompareVersionsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, isPending } = useSession();
+  const bookId = params.id as string;
+  const [bookTitle, setBookTitle] = useState("");
+  const [versions, setVersions] = useState<BookVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [reportComparison, setReportComparison] = useState<ReportComparison | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [expandedChapters, setExpandedChapters] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/books/${bookId}`);
+      if (response.ok) {
+        const data = await response.json();
+        const bookVersions: BookVersion[] = [...data.versions].sort(
+          (a: BookVersion, b: BookVersion) => a.versionNumber - b.versionNumber
+        );
+        setBookTitle(data.title);
+        setVersions(bookVersions);
+
+        // Default to the two most recent versions
+        if (bookVersions.length >= 2) {
+          setFromVersion(bookVersions[bookVersions.length - 2]!.versionNumber);
+          setToVersion(bookVersions[bookVersions.length - 1]!.versionNumber);
+        }
+      } else if (response.status === 403) {
+        router.push("/dashboard");
+      }
+    } catch (error) {
+      console.error("Failed to fetch book versions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [bookId, router]);
+
+  const fetchComparison = useCallback(async (from: number, to: number) => {
+    setComparing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/books/${bookId}/versions/compare?from=${from}&to=${to}`);
+      const data = await response.json();
+      if (response.ok) {
+        setComparison(data);
+        // Open the edited chapters by default
+        setExpandedChapters(
+          new Set(
+            data.chapters.flatMap((chapter: ChapterDiff, i: number) =>
+              chapter.status === "changed" ? [i] : []
+            )
+          )
+        );
+      } else {
+        setComparison(null);
+        setError(data.error || "Failed to compare versions");
+      }
+    } catch (error) {
+      console.error("Failed to compare versions:", error);
+      setComparison(null);
+      setError("Failed to compare versions");
+    } finally {
+      setComparing(false);
+    }
+  }, [bookId]);
+
+  // Only versions that both have a structured report can be compared report to report
+  const fetchReportComparison = useCallback(async (from: number, to: number) => {
+    setReportComparison(null);
+    setReportError(null);
+    const fromReport = getComparableReport(versions.find((v) => v.versionNumber === from));
+    const toReport = getComparableReport(versions.find((v) => v.versionNumber === to));
+    if (!fromReport || !toReport) return;
+
+    try {
+      const response = await fetch(`/api/books/${bookId}/report/compare?from=${fromReport.id}&to=${toReport.id}`);
+      const data = await response.json();
+      if (response.ok) {
+        setReportComparison(data);
+      } else {
+        setReportError(data.error || "Failed to compare reports");
+      }
+    } catch (error) {
+      console.error("Failed to compare reports:", error);
+      setReportError("Failed to compare reports");
+    }
+  }, [bookId, versions]);
+
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push("/login");
+    } else if (session) {
+      fetchVersions();
+    }
+  }, [session, isPending, router, fetchVersions]);
+
+  useEffect(() => {
+    if (fromVersion !== null && toVersion !== null && fromVersion !== toVersion) {
+      fetchComparison(fromVersion, toVersion);
+      fetchReportComparison(fromVersion, toVersion);
+    }
+  }, [fromVersion, toVersion, fetchComparison, fetchReportComparison]);
+
+  const toggleChapter = (index: number) => {
+    const next = new Set(expandedChapters);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setExpandedChapters(next);
+  };
+
+  if (isPending || loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  const versionLabel = (version: BookVersion) =>
+    `Version ${version.versionNumber} – ${version.fileName} (${new Date(version.uploadedAt).toLocaleDateString()})`;
+
+  return (
+    <>
+      {/* Breadcrumb */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-3">
+            <Link href={`/dashboard/book/${bookId}`} className="flex items-center text-gray-600 hover:text-orange-600 text-sm">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to {bookTitle || "Book"}
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitCompare className="w-5 h-5 text-orange-600" />
+                Compare Versions
+              </CardTitle>
+              <CardDescription>
+                See what changed between two drafts of your manuscript
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {versions.length < 2 ? (
+                <p className="text-gray-500 text-sm">
+                  Upload a new version of your manuscript to compare drafts.
+                </p>
+              ) : (
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <label className="flex-1 text-sm">
+                    <span className="block text-gray-600 mb-1">From</span>
+                    <select
+                      value={fromVersion ?? ""}
+                      onChange={(e) => setFromVersion(Number(e.target.value))}
+                      className="w-full px-3 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    >
+                      {versions.map((version) => (
+                        <option key={version.id} value={version.versionNumber}>
+                          {versionLabel(version)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex-1 text-sm">
+                    <span className="block text-gray-600 mb-1">To</span>
+                    <select
+                      value={toVersion ?? ""}
+                      onChange={(e) => setToVersion(Number(e.target.value))}
+                      className="w-full px-3 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    >
+                      {versions.map((version) => (
+                        <option key={version.id} value={version.versionNumber}>
+                          {versionLabel(version)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              )}
+              {fromVersion !== null && fromVersion === toVersion && (
+                <p className="text-sm text-gray-500 mt-3">Choose two different versions to compare.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {comparing && (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-orange-600"></div>
+            </div>
+          )}
+
+          {!comparing && error && (
+            <Card>
+              <CardContent className="p-6 flex items-center gap-3 text-red-700">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {reportComparison && <ReportComparisonView comparison={reportComparison} />}
+
+          {reportError && (
+            <Card>
+              <CardContent className="p-6 flex items-center gap-3 text-red-700">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">{reportError}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {!comparing && comparison && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-xs text-gray-500">Word count</p>
+                    <p className="text-xl font-semibold text-gray-900">
+                      {formatDelta(comparison.totals.wordDelta)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {comparison.totals.oldWordCount.toLocaleString()} → {comparison.totals.newWordCount.toLocaleString()}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-xs text-gray-500">Paragraphs added</p>
+                    <p className="text-xl font-semibold text-green-700">{comparison.totals.added}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-xs text-gray-500">Paragraphs removed</p>
+                    <p className="text-xl font-semibold text-red-700">{comparison.totals.removed}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <p className="text-xs text-gray-500">Paragraphs changed</p>
+                    <p className="text-xl font-semibold text-yellow-700">{comparison.totals.changed}</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Chapters */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Chapters</CardTitle>
+                  <CardDescription>
+                    {comparison.totals.chaptersChanged} changed, {comparison.totals.chaptersAdded} added, {comparison.totals.chaptersRemoved} removed
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                  {keyDiffRows(comparison.chapters, (chapter) => chapter.status).map(({ key, row: chapter }, index) => {
+                    const expanded = expandedChapters.has(index);
+                    const canExpand = chapter.paragraphs.length > 0;
+                    return (
+                      <div key={key} className="border-t">
+                        <button
+                          type="button"
+                          onClick={() => canExpand && toggleChapter(index)}
+                          className={`w-full flex items-center gap-3 px-6 py-3 text-left ${canExpand ? "hover:bg-gray-50" : "cursor-default"}`}
+                        >
+                          {canExpand ? (
+                            expanded ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />
+                          ) : (
+                            <span className="w-4 h-4" />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-gray-900 truncate">{chapter.title}</p>
+                            {chapter.oldTitle && chapter.status !== "removed" && (
+                              <p className="text-xs text-gray-500 truncate">Renamed from “{chapter.oldTitle}”</p>
+                            )}
+                          </div>
+                          <span className={`text-xs font-medium px-2 py-0.5 rounded capitalize ${STATUS_STYLES[chapter.status]}`}>
+                            {chapter.status}
+                          </span>
+                          <span className="hidden sm:inline text-xs text-gray-500 w-40 text-right">
+                            +{chapter.added} −{chapter.removed} ~{chapter.changed}
+                          </span>
+                          <span className="text-xs text-gray-500 w-24 text-right">
+                            {formatDelta(chapter.wordDelta)} words
+                          </span>
+                        </button>
+                        {expanded && (
+                          <div className="px-6 pb-6 pl-12">
+                            <ParagraphDiffView paragraphs={chapter.paragraphs} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -96,29 +96,13 @@ export default function BookCoversPage() {
   });
 
   if (htmlCover) {
-    const metadata = parseMetadata(htmlCover.metadata);
-    let htmlContent = metadata?.htmlContent || "";
-    
-    // Inject base tag for proper URL resolution (especially for videos)
-    if (htmlContent && typeof htmlContent === 'string') {
-      const origin = typeof window !== 'undefined' ? window.location.origin : '';
-      
-      // Remove any existing base tags first
-      htmlContent = htmlContent.replace(/<base[^>]*>/gi, '');
-      
-      // Inject base tag right after <head> tag
-      htmlContent = htmlContent.replace(
-        /<head([^>]*)>/i,
-        `<head$1><base href="${origin}">`
-      );
-    }
-    
+    // Served sandboxed by the API rather than inlined, so the gallery's scripts can't reach the session
     return (
       <div className="w-full h-screen bg-white">
         <iframe
           title={htmlCover.title || "Cover Gallery"}
-          srcDoc={htmlContent}
-          sandbox="allow-scripts allow-same-origin"
+          src={`/api/books/${bookId}/covers/view`}
+          sandbox="allow-scripts allow-popups allow-popups-to-escape-sandbox allow-downloads allow-modals"
           className="w-full h-full border-0 bg-white"
           style={{ 
             width: '100%', 
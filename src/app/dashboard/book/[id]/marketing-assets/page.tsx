@@ -18,6 +18,7 @@ export default function MarketingAssetsPage() {
       <iframe
         title="Marketing Toolkit"
         src={`/api/books/${bookId}/marketing-assets/view`}
+        sandbox="allow-scripts allow-popups allow-popups-to-escape-sandbox allow-downloads allow-modals"
         className="w-full h-full border-0 bg-white"
         style={{ 
           width: '100%', 
@@ -3,13 +3,16 @@
 import { useState, useEffect, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useSession } from "@/lib/auth-client";
+import { uploadFileResumable } from "@/lib/resumable-upload";
+import { useReportAnnotationBridge } from "@/lib/report-annotation-bridge";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EpubValidationChecklist, type EpubValidationReport } from "@/components/epub-validation-checklist";
 import {
   ArrowLeft, Upload, FileText, Clock, CheckCircle, AlertCircle,
   Download, Eye, CreditCard, Loader2, ChevronDown, ChevronRight, Edit2, Save, X, Image,
-  Lock, Users, Megaphone, MessageCircle
+  Lock, Users, Megaphone, MessageCircle, RefreshCw
 } from "lucide-react";
 
 interface BookVersion {
@@ -20,9 +23,28 @@ interface BookVersion {
   fileSize: number;
   uploadedAt: string;
   summary?: string;
+  summaryDetails?: VersionSummary | null;
+  wordCount?: number | null;
+  characterCount?: number | null;
+  estimatedPages?: number | null;
+  chapterCount?: number | null;
+  averageChapterLength?: number | null;
+  dialogueRatio?: number | null;
+  readingTimeMinutes?: number | null;
+  epubValidation?: EpubValidationReport | null;
   reports: Report[];
 }
 
+interface VersionSummary {
+  id: string;
+  source: string;
+  brief: string | null;
+  shortSummary: string | null;
+  fullSummary: string | null;
+  metadata: { language?: string; pages?: number; words?: number } | null;
+  updatedAt: string;
+}
+
 interface Report {
   id: string;
   status: "pending" | "requested" | "analyzing" | "completed" | "preview";
@@ -31,6 +53,15 @@ interface Report {
   htmlContent?: string;
   pdfUrl?: string;
   variant?: string;
+  scores?: ReportScore[];
+}
+
+interface ReportScore {
+  id: string;
+  label: string;
+  value: number;
+  max: number;
+  note?: string;
 }
 
 interface Book {
@@ -55,6 +86,8 @@ interface Book {
 
 interface DigestJob {
   id: string;
+  bookVersionId?: string | null;
+  applyMetadata?: boolean;
   status: "pending" | "processing" | "completed" | "failed" | "no_job";
   attempts?: number;
   startedAt?: string;
@@ -93,9 +126,17 @@ export default function BookDetail() {
   const [digestJob, setDigestJob] = useState<DigestJob | null>(null);
   const [digestLoaded, setDigestLoaded] = useState(false);
   const [checkingDigest, setCheckingDigest] = useState(false);
+  const [checkingEpub, setCheckingEpub] = useState(false);
+  const [ebookVersionId, setEbookVersionId] = useState<string | null>(null);
+  const [downloadingEbook, setDownloadingEbook] = useState(false);
+  const [digestVersionId, setDigestVersionId] = useState<string | null>(null);
+  const [digestApplyMetadata, setDigestApplyMetadata] = useState(false);
+  const [startingDigest, setStartingDigest] = useState(false);
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
   const [isViewingReport, setIsViewingReport] = useState(false);
   const reportContainerRef = useRef<HTMLIFrameElement>(null);
+  // The report is sandboxed away from the session; its annotation overlay calls the API through this page
+  useReportAnnotationBridge(reportContainerRef, params.id as string);
   const [mounted, setMounted] = useState(false);
   const getReportVariant = (report?: Report | null) => report?.variant;
 
@@ -204,6 +245,83 @@ export default function BookDetail() {
     }
   };
 
+  const runEpubCheck = async (versionId: string) => {
+    setCheckingEpub(true);
+    try {
+      const response = await fetch(`/api/books/${params.id}/versions/${versionId}/epub-validation`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        alert(error.error || "Failed to check EPUB");
+        return;
+      }
+      const report: EpubValidationReport = await response.json();
+      setBook((current) => current && {
+        ...current,
+        versions: current.versions.map((version) =>
+          version.id === versionId ? { ...version, epubValidation: report } : version
+        ),
+      });
+    } catch (error) {
+      console.error("Failed to check EPUB:", error);
+      alert("Failed to check EPUB");
+    } finally {
+      setCheckingEpub(false);
+    }
+  };
+
+  const downloadEbook = async (version: BookVersion) => {
+    setDownloadingEbook(true);
+    try {
+      const response = await fetch(`/api/books/${params.id}/versions/${version.id}/epub`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        alert(error.error || "Failed to build EPUB");
+        return;
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${book?.title || "book"}-v${version.versionNumber}.epub`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error("Failed to download EPUB:", error);
+      alert("Failed to download EPUB");
+    } finally {
+      setDownloadingEbook(false);
+    }
+  };
+
+  const rerunDigest = async (versionId: string) => {
+    setStartingDigest(true);
+    try {
+      const response = await fetch(`/api/books/${params.id}/versions/${versionId}/digest`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ applyMetadata: digestApplyMetadata }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        alert(data.error || "Failed to start digest");
+        return;
+      }
+      if (data.status === "failed") {
+        alert(data.error || "BookDigest could not process this version");
+      }
+      await fetchDigestStatus();
+    } catch (error) {
+      console.error("Failed to start digest:", error);
+      alert("Failed to start digest");
+    } finally {
+      setStartingDigest(false);
+    }
+  };
+
   const fetchDigestStatus = async () => {
     try {
       const response = await fetch(`/api/books/${params.id}/digest`);
@@ -395,14 +513,31 @@ export default function BookDetail() {
 
     setUploadingNewVersion(true);
     try {
-      const formData = new FormData();
-      formData.append("file", newVersionFile);
-      formData.append("bookId", params.id as string);
+      const uploadId = await uploadFileResumable(newVersionFile, { purpose: "manuscript" });
+
+      const postVersion = (allowDuplicate: boolean) => {
+        const formData = new FormData();
+        formData.append("uploadId", uploadId);
+        formData.append("bookId", params.id as string);
+        if (allowDuplicate) {
+          formData.append("allowDuplicate", "true");
+        }
+        return fetch(`/api/books/${params.id}/versions`, {
+          method: "POST",
+          body: formData,
+        });
+      };
 
-      const response = await fetch(`/api/books/${params.id}/versions`, {
-        method: "POST",
-        body: formData,
-      });
+      let response = await postVersion(false);
+
+      // The same manuscript was uploaded before - let the author decide
+      if (response.status === 409) {
+        const data = await response.json();
+        if (!confirm(`${data.error}\n\nUpload it as a new version anyway?`)) {
+          return;
+        }
+        response = await postVersion(true);
+      }
 
       if (response.ok) {
         setNewVersionFile(null);
@@ -475,41 +610,18 @@ export default function BookDetail() {
           ref={reportContainerRef}
           src={`/api/books/${params.id}/report/view`}
           className="w-full h-full border-0"
-          sandbox="allow-scripts allow-same-origin"
+          sandbox="allow-scripts allow-popups allow-popups-to-escape-sandbox allow-downloads allow-modals"
           title="Report View"
           style={{ 
             width: '100%', 
             height: '100vh'
           }}
-          onLoad={async () => {
-            // Check if iframe loaded successfully or returned an error
-            try {
-              const iframe = reportContainerRef.current;
-              if (iframe?.contentWindow) {
-                // Try to access the iframe content to check for errors
-                const iframeDoc = iframe.contentDocument || iframe.contentWindow.document;
-                const bodyText = iframeDoc?.body?.innerText || '';
-                
-                // Check if it's an error response
-                if (bodyText.includes('Not Available') || bodyText.includes('Error') || bodyText.includes('Unauthorized')) {
-                  console.error('[Report View] Error loading report:', bodyText);
-                } else {
-                  // Report loaded successfully
-                  console.log('[Report View] Report loaded successfully');
-                  // When iframe loads (report is viewed), trigger refresh after a delay
-                  setTimeout(() => {
-                    window.dispatchEvent(new CustomEvent('refreshBooks'));
-                  }, 1000);
-                }
-              }
-            } catch (error) {
-              // Cross-origin or other error accessing iframe
-              console.error('[Report View] Could not check iframe content:', error);
-              // Assume it loaded and trigger refresh anyway
-              setTimeout(() => {
-                window.dispatchEvent(new CustomEvent('refreshBooks'));
-              }, 1000);
-            }
+          onLoad={() => {
+            // The sandboxed report can't be inspected from here; the API returns an error page
+            // itself, so refresh once it has had time to record the view
+            setTimeout(() => {
+              window.dispatchEvent(new CustomEvent('refreshBooks'));
+            }, 1000);
           }}
           onError={(e) => {
             console.error('[Report View] Iframe load error:', e);
@@ -544,7 +656,7 @@ export default function BookDetail() {
           ref={reportContainerRef}
           src={`/api/books/${params.id}/report/view`}
           className="w-full h-full border-0"
-          sandbox="allow-scripts allow-same-origin"
+          sandbox="allow-scripts allow-popups allow-popups-to-escape-sandbox allow-downloads allow-modals"
           title="Report View"
           style={{ 
             width: '100%', 
@@ -693,6 +805,14 @@ export default function BookDetail() {
                         )}
                         <p className="text-sm text-gray-500 mt-1">
                           Added {new Date(bookData.createdAt).toLocaleDateString()}
+                          {bookData.versions.length >= 2 && (
+                            <>
+                              {" · "}
+                              <Link href={`/dashboard/book/${bookData.id}/compare`} className="text-orange-600 hover:text-orange-700">
+                                Compare versions
+                              </Link>
+                            </>
+                          )}
                         </p>
                       </div>
                       {!editMode ? (
@@ -759,6 +879,218 @@ export default function BookDetail() {
                         </div>
                       )
                     )}
+
+                    {/* Manuscript stats for the latest version */}
+                    {(() => {
+                      const version = bookData.versions[0];
+                      if (!version || version.wordCount == null) return null;
+                      const stats = [
+                        { label: "Words", value: version.wordCount.toLocaleString() },
+                        { label: "Characters", value: version.characterCount?.toLocaleString() },
+                        { label: "Est. pages", value: version.estimatedPages?.toLocaleString() },
+                        { label: "Chapters", value: version.chapterCount?.toLocaleString() },
+                        {
+                          label: "Avg. chapter",
+                          value: version.averageChapterLength != null
+                            ? `${version.averageChapterLength.toLocaleString()} words`
+                            : undefined,
+                        },
+                        {
+                          label: "Dialogue",
+                          value: version.dialogueRatio != null ? `${Math.round(version.dialogueRatio * 100)}%` : undefined,
+                        },
+                        {
+                          label: "Reading time",
+                          value: version.readingTimeMinutes != null
+                            ? `${Math.floor(version.readingTimeMinutes / 60)}h ${version.readingTimeMinutes % 60}m`
+                            : undefined,
+                        },
+                      ];
+                      return (
+                        <div className="mt-4">
+                          <h3 className="font-semibold text-gray-700 mb-2">Manuscript</h3>
+                          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-x-6 gap-y-2">
+                            {stats.map((stat) => (
+                              <div key={stat.label}>
+                                <dt className="text-xs text-gray-500">{stat.label}</dt>
+                                <dd className="text-sm font-medium text-gray-900">{stat.value ?? "—"}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </div>
+                      );
+                    })()}
+
+                    {/* Summary of each draft, latest first */}
+                    {(() => {
+                      const summarized = bookData.versions.filter((version) => version.summaryDetails);
+                      if (summarized.length === 0) return null;
+                      const [latest, ...earlier] = summarized;
+                      const details = latest!.summaryDetails!;
+                      return (
+                        <div className="mt-4">
+                          <h3 className="font-semibold text-gray-700 mb-2">Summary</h3>
+                          <p className="text-xs text-gray-500 mb-2">
+                            Version {latest!.versionNumber} · {latest!.fileName}
+                            {details.metadata?.words != null && ` · ${details.metadata.words.toLocaleString()} words`}
+                          </p>
+                          {details.brief && <p className="text-gray-900 font-medium">{details.brief}</p>}
+                          {details.shortSummary && <p className="text-gray-600 mt-2">{details.shortSummary}</p>}
+                          {details.fullSummary && (
+                            <details className="mt-2">
+                              <summary className="text-sm text-orange-600 cursor-pointer">Full summary</summary>
+                              <p className="text-sm text-gray-600 mt-2 whitespace-pre-wrap">{details.fullSummary}</p>
+                            </details>
+                          )}
+                          {earlier.length > 0 && (
+                            <details className="mt-3">
+                              <summary className="text-sm text-gray-500 cursor-pointer">
+                                Earlier drafts ({earlier.length})
+                              </summary>
+                              <ul className="mt-2 space-y-3">
+                                {earlier.map((version) => (
+                                  <li key={version.id} className="border-l-2 border-gray-200 pl-3">
+                                    <p className="text-xs text-gray-500">
+                                      Version {version.versionNumber} · {version.fileName}
+                                    </p>
+                                    <p className="text-sm text-gray-600">
+                                      {version.summaryDetails!.shortSummary || version.summaryDetails!.brief}
+                                    </p>
+                                  </li>
+                                ))}
+                              </ul>
+                            </details>
+                          )}
+                        </div>
+                      );
+                    })()}
+
+                    {/* Scores from the latest completed structured report */}
+                    {(() => {
+                      if (!isReportUnlocked) return null;
+                      const report = bookData.versions[0]?.reports?.find((r) => r.status === "completed");
+                      if (!report?.scores?.length) return null;
+                      return (
+                        <div className="mt-4">
+                          <h3 className="font-semibold text-gray-700 mb-2">Report Scores</h3>
+                          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-x-6 gap-y-2">
+                            {report.scores.map((score) => (
+                              <div key={score.id} title={score.note}>
+                                <dt className="text-xs text-gray-500">{score.label}</dt>
+                                <dd className="text-sm font-medium text-gray-900">
+                                  {score.value}/{score.max}
+                                </dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </div>
+                      );
+                    })()}
+
+                    {/* EPUB structural check for the latest version */}
+                    {bookData.versions[0]?.fileName.toLowerCase().endsWith(".epub") && (
+                      <EpubValidationChecklist
+                        report={bookData.versions[0].epubValidation ?? null}
+                        checking={checkingEpub}
+                        onCheck={() => runEpubCheck(bookData.versions[0]!.id)}
+                      />
+                    )}
+
+                    {/* EPUB built from a plain manuscript version, regenerated on each download */}
+                    {(() => {
+                      const convertible = bookData.versions.filter(
+                        (version) => !version.fileName.toLowerCase().endsWith(".epub")
+                      );
+                      if (convertible.length === 0) return null;
+                      const version = convertible.find((v) => v.id === ebookVersionId) ?? convertible[0]!;
+                      return (
+                        <div className="mt-4">
+                          <h3 className="font-semibold text-gray-700 mb-2">Ebook</h3>
+                          <p className="text-sm text-gray-500 mb-2">
+                            Download an EPUB 3 built from your manuscript's chapters, with this book's title,
+                            description and primary cover.
+                          </p>
+                          <div className="flex items-center gap-2">
+                            {convertible.length > 1 && (
+                              <select
+                                value={version.id}
+                                onChange={(e) => setEbookVersionId(e.target.value)}
+                                className="px-3 py-1.5 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-orange-500"
+                              >
+                                {convertible.map((v) => (
+                                  <option key={v.id} value={v.id}>
+                                    Version {v.versionNumber} · {v.fileName}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => downloadEbook(version)}
+                              disabled={downloadingEbook}
+                            >
+                              {downloadingEbook ? (
+                                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                              ) : (
+                                <Download className="w-4 h-4 mr-1" />
+                              )}
+                              Download EPUB
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })()}
+
+                    {/* Digest any draft again, optionally refreshing the book's details from it */}
+                    {bookData.versions.length > 0 && (() => {
+                      const version = bookData.versions.find((v) => v.id === digestVersionId) ?? bookData.versions[0]!;
+                      const running = digestJob?.status === "processing" || digestJob?.status === "pending";
+                      return (
+                        <div className="mt-4">
+                          <h3 className="font-semibold text-gray-700 mb-2">Digest</h3>
+                          <p className="text-sm text-gray-500 mb-2">
+                            Extract the summary and metadata from a draft again.
+                          </p>
+                          <div className="flex flex-wrap items-center gap-2">
+                            {bookData.versions.length > 1 && (
+                              <select
+                                value={version.id}
+                                onChange={(e) => setDigestVersionId(e.target.value)}
+                                className="px-3 py-1.5 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-orange-500"
+                              >
+                                {bookData.versions.map((v) => (
+                                  <option key={v.id} value={v.id}>
+                                    Version {v.versionNumber} · {v.fileName}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => rerunDigest(version.id)}
+                              disabled={startingDigest || running}
+                            >
+                              {startingDigest ? (
+                                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                              ) : (
+                                <RefreshCw className="w-4 h-4 mr-1" />
+                              )}
+                              {running ? "Digest running" : "Run digest"}
+                            </Button>
+                          </div>
+                          <label className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={digestApplyMetadata}
+                              onChange={(e) => setDigestApplyMetadata(e.target.checked)}
+                            />
+                            Update the title, cover and description from the results
+                          </label>
+                        </div>
+                      );
+                    })()}
                   </div>
                 </div>
 
@@ -935,7 +1267,25 @@ export default function BookDetail() {
                                   if (latestReport.status === "completed") {
                                     if (latestReport.htmlContent) {
                                       return (
-                                        <div className="w-full" dangerouslySetInnerHTML={{ __html: latestReport.htmlContent }} />
+                                        <div className="w-full">
+                                          <div className="flex justify-end mb-4">
+                                            <Button
+                                              variant="outline"
+                                              size="sm"
+                                              onClick={() => window.location.href = `/api/books/${book?.id}/report/download?format=pdf`}
+                                            >
+                                              <Download className="w-4 h-4 mr-2" />
+                                              Download PDF
+                                            </Button>
+                                          </div>
+                                          <iframe
+                                            ref={reportContainerRef}
+                                            src={`/api/books/${book?.id}/report/view`}
+                                            sandbox="allow-scripts allow-popups allow-popups-to-escape-sandbox allow-downloads allow-modals"
+                                            title="Report"
+                                            className="w-full h-[80vh] border-0"
+                                          />
+                                        </div>
                                       );
                                     }
                                     return (
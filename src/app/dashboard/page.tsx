@@ -12,6 +12,7 @@ import { BookOpen, Plus, RefreshCw, Users, Upload, X, Loader2, FileText, CreditC
 import { CondensedLibrary } from "@/components/condensed-library";
 import { ManuscriptCard } from "@/components/manuscript-card";
 import { ErrorBoundary } from "@/components/error-boundary";
+import { uploadFileResumable } from "@/lib/resumable-upload";
 
 // Force dynamic rendering to prevent prerendering errors
 export const dynamic = 'force-dynamic';
@@ -57,6 +58,18 @@ interface Book {
   hasPrecannedContent?: boolean;
 }
 
+// Returned by POST /api/books (409) when the manuscript was uploaded before
+interface DuplicateWarning {
+  uploadId: string;
+  message: string;
+  duplicate: {
+    kind: "exact" | "near";
+    bookTitle: string;
+    versionNumber: number;
+    url: string;
+  };
+}
+
 function DashboardContent() {
   const { data: session, isPending } = useSession();
   const router = useRouter();
@@ -70,7 +83,9 @@ function DashboardContent() {
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadError, setUploadError] = useState("");
+  const [duplicateWarning, setDuplicateWarning] = useState<DuplicateWarning | null>(null);
   const [sessionTimeout, setSessionTimeout] = useState(false);
   const [fallbackSession, setFallbackSession] = useState<any>(null);
   const [hasUploadPermission, setHasUploadPermission] = useState<boolean | null>(null);
@@ -953,7 +968,7 @@ function DashboardContent() {
   };
 
   // Upload functionality
-  const supportedFormats = process.env.NEXT_PUBLIC_SUPPORTED_FORMATS || ".docx,.pdf,.epub,.txt,.doc";
+  const supportedFormats = process.env.NEXT_PUBLIC_SUPPORTED_FORMATS || ".docx,.pdf,.epub,.txt,.doc,.odt,.rtf,.md,.mmd";
   const formatList = supportedFormats.split(",").map(f => f.trim());
 
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -991,11 +1006,16 @@ function DashboardContent() {
 
     setUploadFile(file);
     setUploadError("");
+    setDuplicateWarning(null);
   };
 
   const handleUploadSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    await submitUpload();
+  };
 
+  // allowDuplicate resubmits an already-uploaded manuscript after the duplicate warning
+  const submitUpload = async (allowDuplicate = false) => {
     if (!uploadFile) {
       setUploadError("Please upload a manuscript file");
       return;
@@ -1013,9 +1033,21 @@ function DashboardContent() {
     }
 
     setUploading(true);
+    setUploadProgress(allowDuplicate ? 1 : 0);
     setUploadError("");
 
+    let manuscriptUploaded = false;
     try {
+      // Send the manuscript in resumable chunks first so slow connections can pick up where they left off
+      const uploadId = allowDuplicate && duplicateWarning
+        ? duplicateWarning.uploadId
+        : await uploadFileResumable(uploadFile, {
+            purpose: "manuscript",
+            onProgress: setUploadProgress,
+          });
+      manuscriptUploaded = true;
+      setDuplicateWarning(null);
+
       const formData = new FormData();
       // Title is required
       formData.append("title", uploadTitle.trim());
@@ -1029,13 +1061,22 @@ function DashboardContent() {
       if (uploadCoverImage) {
         formData.append("coverImage", uploadCoverImage);
       }
-      formData.append("file", uploadFile);
+      formData.append("uploadId", uploadId);
+      if (allowDuplicate) {
+        formData.append("allowDuplicate", "true");
+      }
 
       const response = await fetch("/api/books", {
         method: "POST",
         body: formData,
       });
 
+      if (response.status === 409) {
+        const data = await response.json();
+        setDuplicateWarning({ uploadId, message: data.error, duplicate: data.duplicate });
+        return;
+      }
+
       if (!response.ok) {
         throw new Error("Failed to create book");
       }
@@ -1047,6 +1088,7 @@ function DashboardContent() {
       setUploadAuthorBio("");
       setUploadCoverImage(null);
       setUploadFile(null);
+      setDuplicateWarning(null);
       await fetchBooks();
       // Scroll to the newly uploaded book
       setTimeout(() => {
@@ -1064,7 +1106,11 @@ function DashboardContent() {
         title: uploadTitle,
         authorName: uploadAuthorName,
       });
-      setUploadError("Failed to create book. Please try again.");
+      setUploadError(
+        manuscriptUploaded
+          ? "Failed to create book. Please try again."
+          : "The upload was interrupted. Try again to resume where it left off."
+      );
     } finally {
       setUploading(false);
     }
@@ -1078,6 +1124,7 @@ function DashboardContent() {
     setUploadCoverImage(null);
     setUploadFile(null);
     setUploadError("");
+    setDuplicateWarning(null);
     setDragActive(false);
   };
 
@@ -1613,6 +1660,27 @@ function DashboardContent() {
                     </div>
                   )}
 
+                  {duplicateWarning && (
+                    <div className="bg-amber-50 text-amber-900 p-3 rounded-md text-sm space-y-2">
+                      <p>
+                        {duplicateWarning.message}{" "}
+                        <Link href={duplicateWarning.duplicate.url} className="font-medium underline">
+                          View {duplicateWarning.duplicate.bookTitle}
+                        </Link>
+                      </p>
+                      <p>Uploading it again will create a separate copy that needs its own report.</p>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => submitUpload(true)}
+                        disabled={uploading}
+                      >
+                        Upload anyway
+                      </Button>
+                    </div>
+                  )}
+
                   <div className="flex justify-end gap-3">
                     <Button
                       type="button"
@@ -1630,7 +1698,7 @@ function DashboardContent() {
                       {uploading ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                          Uploading...
+                          {uploadProgress < 1 ? `Uploading ${Math.round(uploadProgress * 100)}%` : "Processing..."}
                         </>
                       ) : (
                         <>
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { ShareLinksSettings } from "@/components/share-links-settings";
 import { ArrowLeft, User, Mail, Shield, Save, Loader2, Trash2, AlertTriangle, CreditCard, Upload } from "lucide-react";
 
 // Force dynamic rendering since we need auth check
@@ -389,6 +390,9 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Share Links */}
+          <ShareLinksSettings />
+
           {/* Delete All Book Data */}
           <Card className="border-red-200">
             <CardHeader>
@@ -1,7 +1,9 @@
 "use client";
 
+import { useState } from "react";
 import { FileUp, XCircle, CheckCircle2, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { uploadFileResumable } from "@/lib/resumable-upload";
 
 interface AssetItem {
   id: string;
@@ -20,7 +22,7 @@ interface AssetUploadSectionProps {
   assetType: "report" | "preview-report" | "marketing-assets" | "covers" | "landing-page";
   items: AssetItem[];
   isUploading: boolean;
-  onUpload: (file: File) => void;
+  onUpload: (uploadId: string, file: File) => Promise<string | null>; // Called once the file has been uploaded in chunks; resolves to an error message
   onSetActive?: (itemId: string) => void;
   onDelete: (itemId: string) => void;
   activeLabel?: string; // "Active" or "Primary"
@@ -40,6 +42,35 @@ export function AssetUploadSection({
   uploadButtonColor = "bg-blue-600 hover:bg-blue-700",
   bookId,
 }: AssetUploadSectionProps) {
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Upload the file in resumable chunks, then hand the uploadId to the parent to process
+  const handleFile = async (file: File) => {
+    setUploadError(null);
+    setUploadProgress(0);
+    let uploadId: string;
+    try {
+      uploadId = await uploadFileResumable(file, { purpose: "asset", onProgress: setUploadProgress });
+    } catch (error) {
+      console.error("[AssetUpload] Upload failed:", error);
+      setUploadError(
+        `${error instanceof Error ? error.message : "Upload failed"}. Choose the same file again to resume.`
+      );
+      return;
+    } finally {
+      setUploadProgress(null);
+    }
+
+    // Processing errors (e.g. an archive that breaks the safety limits) are shown next to the button
+    const processingError = await onUpload(uploadId, file);
+    if (processingError) {
+      setUploadError(processingError);
+    }
+  };
+
+  const busy = isUploading || uploadProgress !== null;
+
   const getUploadDate = (item: AssetItem): Date | null => {
     const dateValue = item.createdAt || item.requestedAt || item.completedAt;
     if (!dateValue) return null;
@@ -92,21 +123,26 @@ export function AssetUploadSection({
         <div className="flex items-center justify-start">
           <label className={`inline-flex items-center px-4 py-2 text-sm font-medium ${uploadButtonColor} text-white rounded cursor-pointer hover:opacity-90 transition-opacity`}>
             <FileUp className="w-4 h-4 mr-2" />
-            {isUploading ? "Uploading..." : "Upload"}
+            {uploadProgress !== null
+              ? `Uploading ${Math.round(uploadProgress * 100)}%`
+              : isUploading
+                ? "Processing..."
+                : "Upload"}
             <input
               type="file"
               className="hidden"
               accept=".zip,.html"
-              disabled={isUploading}
+              disabled={busy}
               onChange={(e) => {
                 if (e.target.files?.[0]) {
-                  onUpload(e.target.files[0]);
+                  handleFile(e.target.files[0]);
                   e.target.value = "";
                 }
               }}
             />
           </label>
         </div>
+        {uploadError && <p className="text-xs text-red-600">{uploadError}</p>}
         <p className="text-xs text-gray-500">
           Upload a ZIP file (HTML + images/videos) or a standalone HTML file. 
           Images will be automatically bundled into the HTML.
@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2, Loader2, MessageSquare, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface AnnotationComment {
+  id: string;
+  userId: string;
+  authorName: string | null;
+  body: string;
+  fromAdmin: boolean;
+  createdAt: string;
+}
+
+interface AnnotationThread {
+  id: string;
+  reportId: string;
+  versionNumber: number;
+  authorName: string | null;
+  quote: string;
+  resolvedAt: string | null;
+  createdAt: string;
+  comments: AnnotationComment[];
+}
+
+interface ReportAnnotationsSectionProps {
+  bookId: string;
+}
+
+/**
+ * Notes the author left on their reports, with a reply box per thread
+ */
+export function ReportAnnotationsSection({ bookId }: ReportAnnotationsSectionProps) {
+  const [annotations, setAnnotations] = useState<AnnotationThread[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showResolved, setShowResolved] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const baseUrl = `/api/books/${bookId}/report/annotations`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(baseUrl)
+      .then((response) => (response.ok ? response.json() : { annotations: [] }))
+      .then((data) => {
+        if (!cancelled) setAnnotations(data.annotations ?? []);
+      })
+      .catch((error) => console.error("[Admin] Failed to fetch report annotations:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseUrl]);
+
+  const replaceThread = (updated: AnnotationThread) => {
+    setAnnotations((current) => current.map((thread) => (thread.id === updated.id ? updated : thread)));
+  };
+
+  const handleReply = async (annotationId: string) => {
+    const body = drafts[annotationId]?.trim();
+    if (!body) return;
+    setSavingId(annotationId);
+    try {
+      const response = await fetch(`${baseUrl}/${annotationId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        alert(data.error || "Failed to send reply");
+        return;
+      }
+      replaceThread(data.annotation);
+      setDrafts((current) => ({ ...current, [annotationId]: "" }));
+    } catch (error) {
+      console.error("[Admin] Failed to reply to annotation:", error);
+      alert("Failed to send reply");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleResolved = async (thread: AnnotationThread) => {
+    setSavingId(thread.id);
+    try {
+      const response = await fetch(`${baseUrl}/${thread.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resolved: !thread.resolvedAt }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        alert(data.error || "Failed to update annotation");
+        return;
+      }
+      replaceThread(data.annotation);
+    } catch (error) {
+      console.error("[Admin] Failed to update annotation:", error);
+      alert("Failed to update annotation");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const openCount = annotations.filter((thread) => !thread.resolvedAt).length;
+  const visible = showResolved ? annotations : annotations.filter((thread) => !thread.resolvedAt);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" />
+          Report Annotations
+          {openCount > 0 && (
+            <span className="text-xs font-medium bg-amber-100 text-amber-800 rounded-full px-2 py-0.5">
+              {openCount} open
+            </span>
+          )}
+        </h3>
+        {annotations.length > openCount && (
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:text-blue-800"
+            onClick={() => setShowResolved(!showResolved)}
+          >
+            {showResolved ? "Hide resolved" : `Show resolved (${annotations.length - openCount})`}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading annotations...
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {annotations.length === 0 ? "The author hasn't annotated any reports." : "No open annotations."}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((thread) => (
+            <div
+              key={thread.id}
+              className={`p-3 rounded border ${thread.resolvedAt ? "bg-gray-50 opacity-75" : "bg-white"}`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <blockquote className="text-sm italic text-gray-700 border-l-2 border-amber-400 pl-2 line-clamp-3">
+                  {thread.quote}
+                </blockquote>
+                <span className="text-xs text-gray-500 whitespace-nowrap">Version {thread.versionNumber}</span>
+              </div>
+
+              <div className="mt-2 space-y-2">
+                {thread.comments.map((comment) => (
+                  <div key={comment.id} className="text-sm">
+                    <span className={`text-xs font-semibold ${comment.fromAdmin ? "text-blue-700" : "text-gray-700"}`}>
+                      {comment.fromAdmin ? `${comment.authorName || "Admin"} (team)` : comment.authorName || "Author"}
+                    </span>
+                    <span className="text-xs text-gray-400 ml-2">{new Date(comment.createdAt).toLocaleString()}</span>
+                    <p className="text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+                  </div>
+                ))}
+              </div>
+
+              <Textarea
+                className="mt-2 min-h-[60px]"
+                placeholder="Reply to the author..."
+                value={drafts[thread.id] ?? ""}
+                onChange={(e) => setDrafts((current) => ({ ...current, [thread.id]: e.target.value }))}
+              />
+              <div className="flex items-center gap-2 mt-2">
+                <Button
+                  size="sm"
+                  disabled={savingId === thread.id || !drafts[thread.id]?.trim()}
+                  onClick={() => handleReply(thread.id)}
+                >
+                  Reply
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={savingId === thread.id}
+                  onClick={() => handleToggleResolved(thread)}
+                >
+                  {thread.resolvedAt ? (
+                    <>
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Reopen
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                      Resolve
+                    </>
+                  )}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, Loader2, MinusCircle, RefreshCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Mirrors EpubValidationReport in src/server/utils/validate-epub.ts
+export interface EpubValidationIssue {
+  severity: "error" | "warning";
+  message: string;
+  location?: string;
+}
+
+export interface EpubValidationCheck {
+  id: string;
+  label: string;
+  status: "passed" | "warning" | "error" | "skipped";
+  issues: EpubValidationIssue[];
+}
+
+export interface EpubValidationReport {
+  checkedAt: string;
+  epubVersion: string | null;
+  errorCount: number;
+  warningCount: number;
+  checks: EpubValidationCheck[];
+}
+
+interface EpubValidationChecklistProps {
+  report: EpubValidationReport | null;
+  checking: boolean;
+  onCheck: () => void;
+}
+
+const STATUS_ICONS = {
+  passed: <CheckCircle className="w-4 h-4 text-green-600 shrink-0" />,
+  warning: <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />,
+  error: <XCircle className="w-4 h-4 text-red-600 shrink-0" />,
+  skipped: <MinusCircle className="w-4 h-4 text-gray-400 shrink-0" />,
+};
+
+const SEVERITY_STYLES = {
+  error: "bg-red-100 text-red-700",
+  warning: "bg-amber-100 text-amber-700",
+};
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * EPUB structural check results as a checklist, one row per check
+ * Rows with issues expand to list them with their severity and location
+ */
+export function EpubValidationChecklist({ report, checking, onCheck }: EpubValidationChecklistProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-700">EPUB check</h3>
+        <Button variant="outline" size="sm" onClick={onCheck} disabled={checking}>
+          {checking ? (
+            <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+          ) : (
+            <RefreshCw className="w-3.5 h-3.5 mr-1" />
+          )}
+          {report ? "Check again" : "Check EPUB"}
+        </Button>
+      </div>
+
+      {!report ? (
+        <p className="text-sm text-gray-500">
+          Check this EPUB for the structural problems retailers reject most often.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-2">
+            {report.errorCount === 0 && report.warningCount === 0
+              ? "No problems found."
+              : `${plural(report.errorCount, "error")}, ${plural(report.warningCount, "warning")}.`}
+            {report.epubVersion && ` EPUB ${report.epubVersion}.`}
+            <span className="text-gray-400"> Checked {new Date(report.checkedAt).toLocaleString()}</span>
+          </p>
+          <ul className="divide-y border rounded">
+            {report.checks.map((check) => {
+              const isOpen = expanded.has(check.id);
+              const hasIssues = check.issues.length > 0;
+              return (
+                <li key={check.id} className="px-3 py-2">
+                  <button
+                    type="button"
+                    className="flex items-center gap-2 w-full text-left text-sm disabled:cursor-default"
+                    onClick={() => toggle(check.id)}
+                    disabled={!hasIssues}
+                  >
+                    {STATUS_ICONS[check.status]}
+                    <span className={check.status === "skipped" ? "text-gray-400" : "text-gray-900"}>
+                      {check.label}
+                    </span>
+                    {hasIssues && (
+                      <span className="ml-auto flex items-center gap-1 text-xs text-gray-500">
+                        {plural(check.issues.length, "issue")}
+                        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                      </span>
+                    )}
+                    {check.status === "skipped" && (
+                      <span className="ml-auto text-xs text-gray-400">Not checked</span>
+                    )}
+                  </button>
+                  {isOpen && (
+                    <ul className="mt-2 ml-6 space-y-1">
+                      {check.issues.map((issue) => (
+                        <li key={`${issue.location ?? ""}:${issue.message}`} className="text-xs text-gray-700">
+                          <span className={`inline-block px-1.5 py-0.5 mr-2 rounded font-medium uppercase ${SEVERITY_STYLES[issue.severity]}`}>
+                            {issue.severity}
+                          </span>
+                          {issue.message}
+                          {issue.location && (
+                            <span className="ml-1 font-mono text-gray-500">({issue.location})</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
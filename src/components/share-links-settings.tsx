@@ -0,0 +1,325 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, Eye, Link2, Loader2, Lock, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ShareLink {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  assetType: string;
+  label: string | null;
+  hasPassword: boolean;
+  status: "active" | "expired" | "revoked";
+  expiresAt: string;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+  url: string;
+}
+
+interface BookOption {
+  id: string;
+  title: string;
+}
+
+const ASSET_OPTIONS = [
+  { value: "report", label: "Manuscript report" },
+  { value: "covers", label: "Book covers" },
+  { value: "marketing-assets", label: "Marketing assets" },
+  { value: "landing-page", label: "Landing page preview" },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: 1, label: "1 day" },
+  { value: 7, label: "7 days" },
+  { value: 30, label: "30 days" },
+  { value: 90, label: "90 days" },
+];
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+/**
+ * Create, copy and revoke links that let people without an account see a book's deliverables
+ */
+export function ShareLinksSettings() {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [books, setBooks] = useState<BookOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    bookId: "",
+    assetType: "report",
+    expiresInDays: 7,
+    label: "",
+    password: "",
+  });
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [linksRes, booksRes] = await Promise.all([fetch("/api/user/share-links"), fetch("/api/books")]);
+        if (linksRes.ok) {
+          const data = await linksRes.json();
+          setLinks(data.links ?? []);
+        }
+        if (booksRes.ok) {
+          const data = await booksRes.json();
+          const options: BookOption[] = Array.isArray(data)
+            ? data.map((book: BookOption) => ({ id: book.id, title: book.title }))
+            : [];
+          setBooks(options);
+          setForm((current) => ({ ...current, bookId: current.bookId || options[0]?.id || "" }));
+        }
+      } catch (loadError) {
+        console.error("Failed to load share links:", loadError);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setCreating(true);
+    try {
+      const response = await fetch("/api/user/share-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || "Failed to create share link");
+        return;
+      }
+      setLinks((current) => [data.link, ...current]);
+      setForm((current) => ({ ...current, label: "", password: "" }));
+      await handleCopy(data.link);
+    } catch (createError) {
+      console.error("Failed to create share link:", createError);
+      setError("Failed to create share link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${link.url}`);
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId((current) => (current === link.id ? null : current)), 2000);
+    } catch (copyError) {
+      console.error("Failed to copy share link:", copyError);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm(`Revoke this link to "${link.bookTitle}"? Anyone using it will lose access.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/user/share-links/${link.id}`, { method: "DELETE" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        alert(data.error || "Failed to revoke share link");
+        return;
+      }
+      setLinks((current) => current.map((item) => (item.id === link.id ? data.link : item)));
+    } catch (revokeError) {
+      console.error("Failed to revoke share link:", revokeError);
+      alert("Failed to revoke share link");
+    }
+  };
+
+  const assetLabel = (assetType: string) =>
+    ASSET_OPTIONS.find((option) => option.value === assetType)?.label ?? assetType;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Share Links</CardTitle>
+        <CardDescription>
+          Let an agent or co-author without an account view your report, covers, marketing assets or landing page
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {books.length === 0 ? (
+              <p className="text-gray-500 text-sm">Upload a book to share its deliverables.</p>
+            ) : (
+              <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="share-book">Book</Label>
+                  <select
+                    id="share-book"
+                    className={selectClassName}
+                    value={form.bookId}
+                    onChange={(e) => setForm({ ...form, bookId: e.target.value })}
+                  >
+                    {books.map((book) => (
+                      <option key={book.id} value={book.id}>
+                        {book.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="share-asset">What to share</Label>
+                  <select
+                    id="share-asset"
+                    className={selectClassName}
+                    value={form.assetType}
+                    onChange={(e) => setForm({ ...form, assetType: e.target.value })}
+                  >
+                    {ASSET_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="share-label">Label (optional)</Label>
+                  <Input
+                    id="share-label"
+                    placeholder="e.g. Agent - Jane"
+                    maxLength={255}
+                    value={form.label}
+                    onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="share-expiry">Expires after</Label>
+                  <select
+                    id="share-expiry"
+                    className={selectClassName}
+                    value={form.expiresInDays}
+                    onChange={(e) => setForm({ ...form, expiresInDays: Number(e.target.value) })}
+                  >
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="share-password">Password (optional)</Label>
+                  <Input
+                    id="share-password"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="At least 6 characters"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button type="submit" disabled={creating || !form.bookId} className="w-full">
+                    {creating ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      <>
+                        <Link2 className="w-4 h-4 mr-2" />
+                        Create & Copy Link
+                      </>
+                    )}
+                  </Button>
+                </div>
+                {error && <p className="text-sm text-red-600 md:col-span-2">{error}</p>}
+              </form>
+            )}
+
+            {links.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">Your links</h3>
+                {links.map((link) => (
+                  <div
+                    key={link.id}
+                    className={`flex items-center justify-between gap-4 p-3 rounded-lg border ${
+                      link.status === "active" ? "bg-white" : "bg-gray-50 opacity-75"
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm truncate">{link.bookTitle}</span>
+                        <span className="text-xs text-gray-500">{assetLabel(link.assetType)}</span>
+                        {link.hasPassword && (
+                          <span title="Password protected">
+                            <Lock className="w-3 h-3 text-gray-500" />
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1 flex flex-wrap items-center gap-x-3">
+                        {link.label && <span>{link.label}</span>}
+                        <span>
+                          {link.status === "active"
+                            ? `Expires ${formatDate(link.expiresAt)}`
+                            : link.status === "expired"
+                              ? `Expired ${formatDate(link.expiresAt)}`
+                              : "Revoked"}
+                        </span>
+                        <span className="inline-flex items-center gap-1">
+                          <Eye className="w-3 h-3" />
+                          {link.viewCount} {link.viewCount === 1 ? "view" : "views"}
+                          {link.lastViewedAt && ` (last ${formatDate(link.lastViewedAt)})`}
+                        </span>
+                      </div>
+                    </div>
+                    {link.status === "active" && (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Button size="sm" variant="outline" onClick={() => handleCopy(link)}>
+                          {copiedId === link.id ? (
+                            <>
+                              <Check className="w-3 h-3 mr-1" />
+                              Copied
+                            </>
+                          ) : (
+                            <>
+                              <Copy className="w-3 h-3 mr-1" />
+                              Copy
+                            </>
+                          )}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => handleRevoke(link)}
+                        >
+                          <XCircle className="w-3 h-3 mr-1" />
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -23,6 +23,14 @@ export const env = createEnv({
 		UPLOAD_DIR: z.string().optional(),
 		BOOK_REPORTS_PATH: z.string().optional(),
 		
+		// S3-compatible blob storage (optional - local disk is used by default)
+		STORAGE_DRIVER: z.enum(["local", "s3"]).optional(),
+		S3_ENDPOINT: z.string().url().optional(),
+		S3_REGION: z.string().optional(),
+		S3_BUCKET: z.string().optional(),
+		S3_ACCESS_KEY_ID: z.string().optional(),
+		S3_SECRET_ACCESS_KEY: z.string().optional(),
+		
 		// URLs (optional - have defaults)
 		BETTER_AUTH_URL: z.string().url().optional(),
 		CUSTOM_DOMAIN: z.string().optional(),
@@ -73,6 +81,12 @@ export const env = createEnv({
 		REPORT_STORAGE_PATH: process.env.REPORT_STORAGE_PATH,
 		UPLOAD_DIR: process.env.UPLOAD_DIR,
 		BOOK_REPORTS_PATH: process.env.BOOK_REPORTS_PATH,
+		STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+		S3_ENDPOINT: process.env.S3_ENDPOINT,
+		S3_REGION: process.env.S3_REGION,
+		S3_BUCKET: process.env.S3_BUCKET,
+		S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+		S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
 		BETTER_AUTH_URL: process.env.BETTER_AUTH_URL,
 		CUSTOM_DOMAIN: process.env.CUSTOM_DOMAIN,
 		STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
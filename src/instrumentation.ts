@@ -36,5 +36,13 @@ export async function register() {
       // Don't throw here to allow the server to start even if DB init fails
       // The error will be caught when first trying to use the DB
     }
+
+    // Poll BookDigest jobs in the background so processing finishes without an open dashboard
+    try {
+      const { startDigestPoller } = await import('@/server/services/digest-poller');
+      startDigestPoller();
+    } catch (error) {
+      console.error('Failed to start digest poller:', error);
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { useEffect, type RefObject } from "react";
+
+/**
+ * Viewer side of the report annotation overlay (see src/server/utils/report-annotation-overlay.ts)
+ *
+ * The report iframe is sandboxed into an opaque origin, so the overlay in it
+ * can't call the API with the author's session. It posts its requests to this
+ * page instead, which makes them for it: only from that iframe, and only to the
+ * annotation routes of the book being viewed.
+ */
+
+const ALLOWED_METHODS = new Set(["GET", "POST", "PATCH", "DELETE"]);
+
+interface BridgeRequest {
+  type: "report-annotations:request";
+  id: number;
+  method: string;
+  url: string;
+  body: unknown;
+}
+
+function isBridgeRequest(data: unknown): data is BridgeRequest {
+  const message = data as Partial<BridgeRequest> | null;
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    message.type === "report-annotations:request" &&
+    typeof message.id === "number" &&
+    typeof message.method === "string" &&
+    typeof message.url === "string"
+  );
+}
+
+export function useReportAnnotationBridge(frameRef: RefObject<HTMLIFrameElement | null>, bookId: string) {
+  useEffect(() => {
+    const basePath = `/api/books/${encodeURIComponent(bookId)}/report/annotations`;
+
+    const handleMessage = async (event: MessageEvent) => {
+      const frame = frameRef.current?.contentWindow;
+      if (!frame || event.source !== frame || !isBridgeRequest(event.data)) return;
+      const { id, method, url: requestUrl, body } = event.data;
+
+      // The sandboxed frame has no origin to address, hence "*"; the reply only goes to that frame
+      const reply = (ok: boolean, data: unknown) =>
+        frame.postMessage({ type: "report-annotations:response", id, ok, body: data }, "*");
+
+      const url = new URL(requestUrl, window.location.origin);
+      const isAnnotationRoute = url.pathname === basePath || url.pathname.startsWith(`${basePath}/`);
+      if (url.origin !== window.location.origin || !isAnnotationRoute || !ALLOWED_METHODS.has(method)) {
+        reply(false, { error: "Request not allowed" });
+        return;
+      }
+
+      try {
+        const response = await fetch(`${url.pathname}${url.search}`, {
+          method,
+          headers: body ? { "Content-Type": "application/json" } : undefined,
+          body: body ? JSON.stringify(body) : undefined,
+        });
+        const data = await response.json().catch(() => ({}));
+        reply(response.ok, data);
+      } catch (error) {
+        console.error("[Report Annotations] Request failed:", error);
+        reply(false, { error: "Request failed" });
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [frameRef, bookId]);
+}
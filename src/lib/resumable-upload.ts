@@ -0,0 +1,159 @@
+/**
+ * Client side of the resumable upload protocol (see src/server/utils/resumable-upload.ts)
+ *
+ * Uploads a file in numbered chunks and returns an uploadId to send to the upload
+ * route in place of the file. The session id is remembered in localStorage, so if
+ * the page is reloaded or the connection drops, uploading the same file again
+ * picks up from the chunks the server already has.
+ */
+
+export type ResumableUploadPurpose = "manuscript" | "asset";
+
+interface ResumableUploadOptions {
+  purpose: ResumableUploadPurpose;
+  onProgress?: (fraction: number) => void;
+}
+
+interface UploadSessionStatus {
+  uploadId: string;
+  status: "uploading" | "complete";
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+}
+
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+function getStorageKey(file: File, purpose: ResumableUploadPurpose): string {
+  return `resumable-upload:${purpose}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => null);
+  return data?.error || fallback;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Look up a previous session for this file, if the server still has it
+ */
+async function findExistingSession(storageKey: string): Promise<UploadSessionStatus | null> {
+  const uploadId = localStorage.getItem(storageKey);
+  if (!uploadId) return null;
+
+  const response = await fetch(`/api/uploads/sessions/${uploadId}`).catch(() => null);
+  if (!response?.ok) {
+    localStorage.removeItem(storageKey);
+    return null;
+  }
+  return response.json();
+}
+
+async function startSession(file: File, purpose: ResumableUploadPurpose): Promise<UploadSessionStatus> {
+  const response = await fetch("/api/uploads/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type,
+      purpose,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to start upload"));
+  }
+
+  const data = await response.json();
+  return { ...data, status: "uploading", receivedChunks: [] };
+}
+
+/**
+ * PUT a chunk, retrying network errors and server errors with backoff
+ */
+async function putChunk(uploadId: string, index: number, chunk: ArrayBuffer, hash: string): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(`/api/uploads/sessions/${uploadId}/chunks/${index}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream", "X-Chunk-SHA256": hash },
+        body: chunk,
+      });
+
+      if (response.ok) return;
+
+      // Client errors other than timeouts/rate limits won't succeed on retry
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      if (!retryable || attempt >= MAX_CHUNK_ATTEMPTS) {
+        throw new Error(await readError(response, `Failed to upload part ${index + 1}`));
+      }
+    } catch (error) {
+      // fetch() rejects on network failures - retry those too
+      if (attempt >= MAX_CHUNK_ATTEMPTS || !(error instanceof TypeError)) {
+        throw error;
+      }
+    }
+
+    await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  }
+}
+
+/**
+ * Upload a file with the resumable protocol and return its uploadId
+ */
+export async function uploadFileResumable(file: File, options: ResumableUploadOptions): Promise<string> {
+  const storageKey = getStorageKey(file, options.purpose);
+  const session = (await findExistingSession(storageKey)) ?? (await startSession(file, options.purpose));
+  localStorage.setItem(storageKey, session.uploadId);
+
+  if (session.status === "complete") {
+    options.onProgress?.(1);
+    localStorage.removeItem(storageKey);
+    return session.uploadId;
+  }
+
+  const received = new Set(session.receivedChunks);
+  const chunkHashes: string[] = [];
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    const start = index * session.chunkSize;
+    const chunk = await file.slice(start, Math.min(start + session.chunkSize, file.size)).arrayBuffer();
+    const hash = await sha256Hex(chunk);
+    chunkHashes.push(hash);
+
+    if (!received.has(index)) {
+      await putChunk(session.uploadId, index, chunk, hash);
+    }
+    options.onProgress?.((index + 1) / session.totalChunks);
+  }
+
+  const checksum = await sha256Hex(new TextEncoder().encode(chunkHashes.join("")).buffer as ArrayBuffer);
+  const response = await fetch(`/api/uploads/sessions/${session.uploadId}/complete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ checksum }),
+  });
+
+  if (!response.ok) {
+    // A checksum mismatch means the stored chunks are bad - start fresh next time
+    if (response.status === 422) {
+      localStorage.removeItem(storageKey);
+    }
+    throw new Error(await readError(response, "Failed to complete upload"));
+  }
+
+  localStorage.removeItem(storageKey);
+  return session.uploadId;
+}
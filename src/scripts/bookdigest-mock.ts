@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+/**
+ * Run the local BookDigest mock server
+ * Usage: npm run bookdigest:mock
+ *
+ * Then start the app with:
+ *   BOOKDIGEST_URL=http://127.0.0.1:4010 BOOKDIGEST_API_KEY=mock-key npm run dev
+ *
+ * Settings (environment):
+ *   BOOKDIGEST_MOCK_PORT           Port to listen on (default 4010)
+ *   BOOKDIGEST_MOCK_LATENCY_MS     Delay before every response (default 0)
+ *   BOOKDIGEST_MOCK_PROCESSING_MS  Time until a job finishes (default 5000)
+ *   BOOKDIGEST_MOCK_OUTCOME        "completed" (default) or "failed"
+ *   BOOKDIGEST_MOCK_FAILURE_RATE   Fraction of requests answered with a 5xx (default 0)
+ *   BOOKDIGEST_MOCK_TITLE          Title to report for every book (default none)
+ *   BOOKDIGEST_WEBHOOK_SECRET      Sign completion callbacks with this secret
+ */
+
+import { startBookDigestMock } from "@/server/services/bookdigest-mock";
+
+function readNumber(name: string, fallback: number): number {
+	const value = Number(process.env[name]);
+	return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+async function main() {
+	const title = process.env.BOOKDIGEST_MOCK_TITLE;
+	const mock = await startBookDigestMock(
+		{
+			latencyMs: readNumber("BOOKDIGEST_MOCK_LATENCY_MS", 0),
+			processingMs: readNumber("BOOKDIGEST_MOCK_PROCESSING_MS", 5000),
+			outcome: process.env.BOOKDIGEST_MOCK_OUTCOME === "failed" ? "failed" : "completed",
+			failureRate: Math.min(readNumber("BOOKDIGEST_MOCK_FAILURE_RATE", 0), 1),
+			result: title ? { meta: { title } } : {},
+			webhookSecret: process.env.BOOKDIGEST_WEBHOOK_SECRET || null,
+		},
+		readNumber("BOOKDIGEST_MOCK_PORT", 4010)
+	);
+
+	console.log(`✅ BookDigest mock listening on ${mock.url}`);
+	console.log(`   Start the app with BOOKDIGEST_URL=${mock.url} and any BOOKDIGEST_API_KEY`);
+
+	const shutdown = () => {
+		mock.close().finally(() => process.exit(0));
+	};
+	process.on("SIGINT", shutdown);
+	process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+	console.error("Failed to start BookDigest mock:", error);
+	process.exit(1);
+});
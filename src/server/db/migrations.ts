@@ -5,10 +5,13 @@
 
 import Database from "better-sqlite3";
 import { sqlite } from "./index";
+import { putContent } from "@/server/utils/content-store";
+import { readLegacyBookVersionFile } from "@/server/utils/book-version-file";
 
 // Guard to prevent migrations from running multiple times simultaneously
 let migrationsInitialized = false;
 let migrationsInitializing = false;
+let contentBackfillRunning = false;
 
 export interface ColumnInfo {
   name: string;
@@ -191,6 +194,52 @@ export function ensureOtherTableColumns(): void {
   try {
     console.log("[Migrations] Checking other table columns...");
 
+    // Book versions table - manuscript statistics
+    const bookVersionTableCheck = sqlite
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='getlostportal_book_version'"
+      )
+      .get();
+
+    if (bookVersionTableCheck) {
+      const statsColumns = [
+        { name: "wordCount", definition: "integer" },
+        { name: "characterCount", definition: "integer" },
+        { name: "estimatedPages", definition: "integer" },
+        { name: "chapterCount", definition: "integer" },
+        { name: "averageChapterLength", definition: "integer" },
+        { name: "dialogueRatio", definition: "real" },
+        { name: "readingTimeMinutes", definition: "integer" },
+      ];
+
+      for (const column of statsColumns) {
+        if (addColumnIfMissing("getlostportal_book_version", column.name, column.definition)) {
+          console.log(`✅ [Migrations] Added ${column.name} to book_version table`);
+        }
+      }
+
+      // Content-addressed storage location
+      if (addColumnIfMissing("getlostportal_book_version", "contentHash", "text(64)")) {
+        console.log("✅ [Migrations] Added contentHash to book_version table");
+      }
+      if (addColumnIfMissing("getlostportal_book_version", "storagePath", "text(1000)")) {
+        console.log("✅ [Migrations] Added storagePath to book_version table");
+      }
+      sqlite.exec(
+        "CREATE INDEX IF NOT EXISTS version_content_hash_idx ON getlostportal_book_version (contentHash)"
+      );
+
+      // Near-duplicate detection
+      if (addColumnIfMissing("getlostportal_book_version", "textFingerprint", "text")) {
+        console.log("✅ [Migrations] Added textFingerprint to book_version table");
+      }
+
+      // EPUB structural validation
+      if (addColumnIfMissing("getlostportal_book_version", "epubValidation", "text")) {
+        console.log("✅ [Migrations] Added epubValidation to book_version table");
+      }
+    }
+
     // Reports table - viewedAt
     const reportsTableCheck = sqlite
       .prepare(
@@ -202,6 +251,9 @@ export function ensureOtherTableColumns(): void {
       if (addColumnIfMissing("getlostportal_report", "viewedAt", "integer")) {
         console.log("✅ [Migrations] Added viewedAt to reports table");
       }
+      if (addColumnIfMissing("getlostportal_report", "structuredContent", "text")) {
+        console.log("✅ [Migrations] Added structuredContent to reports table");
+      }
     }
 
     // Marketing Assets table - viewedAt and isActive
@@ -249,6 +301,40 @@ export function ensureOtherTableColumns(): void {
       }
     }
 
+    // Digest jobs table - the version that was digested
+    const digestJobTableCheck = sqlite
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='getlostportal_digest_job'"
+      )
+      .get();
+
+    if (digestJobTableCheck) {
+      if (addColumnIfMissing("getlostportal_digest_job", "bookVersionId", "text(255)")) {
+        console.log("✅ [Migrations] Added bookVersionId to digest_job table");
+      }
+
+      // AI token usage and cost
+      const usageColumns = [
+        { name: "aiProcessed", definition: "integer" },
+        { name: "tokenCount", definition: "integer" },
+        { name: "inputTokens", definition: "integer" },
+        { name: "outputTokens", definition: "integer" },
+        { name: "costCents", definition: "real" },
+      ];
+
+      for (const column of usageColumns) {
+        if (addColumnIfMissing("getlostportal_digest_job", column.name, column.definition)) {
+          console.log(`✅ [Migrations] Added ${column.name} to digest_job table`);
+        }
+      }
+      if (addColumnIfMissing("getlostportal_digest_job", "applyMetadata", "integer DEFAULT true NOT NULL")) {
+        console.log("✅ [Migrations] Added applyMetadata to digest_job table");
+      }
+      sqlite.exec(
+        "CREATE INDEX IF NOT EXISTS digest_job_version_idx ON getlostportal_digest_job (bookVersionId)"
+      );
+    }
+
     console.log("✅ [Migrations] Other table columns check complete");
   } catch (error: any) {
     console.error("[Migrations] Error ensuring other table columns:", error.message);
@@ -318,13 +404,25 @@ function ensureEssentialTables(): void {
           fileType text(100) NOT NULL,
           fileData text,
           mimeType text(100),
+          contentHash text(64),
+          storagePath text(1000),
+          textFingerprint text,
+          epubValidation text,
           summary text,
+          wordCount integer,
+          characterCount integer,
+          estimatedPages integer,
+          chapterCount integer,
+          averageChapterLength integer,
+          dialogueRatio real,
+          readingTimeMinutes integer,
           uploadedAt integer DEFAULT (unixepoch()) NOT NULL,
           FOREIGN KEY (bookId) REFERENCES getlostportal_book(id) ON UPDATE no action ON DELETE no action
         )
       `);
       sqlite.exec(`CREATE INDEX IF NOT EXISTS version_book_idx ON getlostportal_book_version (bookId)`);
       sqlite.exec(`CREATE INDEX IF NOT EXISTS version_uploaded_idx ON getlostportal_book_version (uploadedAt)`);
+      sqlite.exec(`CREATE INDEX IF NOT EXISTS version_content_hash_idx ON getlostportal_book_version (contentHash)`);
       console.log("[Migrations] ✅ Created getlostportal_book_version table");
     }
 
@@ -341,6 +439,7 @@ function ensureEssentialTables(): void {
         CREATE TABLE IF NOT EXISTS getlostportal_digest_job (
           id text(255) PRIMARY KEY NOT NULL,
           bookId text(255),
+          bookVersionId text(255),
           externalJobId text(255),
           status text(50) DEFAULT 'pending' NOT NULL,
           attempts integer DEFAULT 0 NOT NULL,
@@ -358,12 +457,19 @@ function ensureEssentialTables(): void {
           brief text,
           shortSummary text,
           summary text,
+          aiProcessed integer,
+          tokenCount integer,
+          inputTokens integer,
+          outputTokens integer,
+          costCents real,
+          applyMetadata integer DEFAULT true NOT NULL,
           createdAt integer DEFAULT (unixepoch()) NOT NULL,
           updatedAt integer DEFAULT (unixepoch()) NOT NULL,
           FOREIGN KEY (bookId) REFERENCES getlostportal_book(id) ON UPDATE no action ON DELETE no action
         )
       `);
       sqlite.exec(`CREATE INDEX IF NOT EXISTS digest_job_book_idx ON getlostportal_digest_job (bookId)`);
+      sqlite.exec(`CREATE INDEX IF NOT EXISTS digest_job_version_idx ON getlostportal_digest_job (bookVersionId)`);
       sqlite.exec(`CREATE INDEX IF NOT EXISTS digest_job_status_idx ON getlostportal_digest_job (status)`);
       console.log("[Migrations] ✅ Created getlostportal_digest_job table");
     }
@@ -413,6 +519,7 @@ function ensureEssentialTables(): void {
           bookVersionId text(255) NOT NULL,
           status text(50) DEFAULT 'pending' NOT NULL,
           htmlContent text,
+          structuredContent text,
           pdfUrl text(1000),
           adminNotes text,
           requestedAt integer DEFAULT (unixepoch()) NOT NULL,
@@ -655,12 +762,163 @@ function ensureEssentialTables(): void {
       sqlite.exec(`CREATE INDEX IF NOT EXISTS summary_source_idx ON getlostportal_summary (source)`);
       console.log("[Migrations] ✅ Created getlostportal_summary table");
     }
+
+    // Check if report annotation tables exist
+    const annotationCheck = sqlite
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='getlostportal_report_annotation'"
+      )
+      .get();
+
+    if (!annotationCheck) {
+      console.log("[Migrations] Creating getlostportal_report_annotation tables...");
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS getlostportal_report_annotation (
+          id text(255) PRIMARY KEY NOT NULL,
+          reportId text(255) NOT NULL,
+          userId text(255) NOT NULL,
+          quote text NOT NULL,
+          prefix text,
+          suffix text,
+          startOffset integer NOT NULL,
+          endOffset integer NOT NULL,
+          resolvedAt integer,
+          resolvedBy text(255),
+          createdAt integer DEFAULT (unixepoch()) NOT NULL,
+          updatedAt integer DEFAULT (unixepoch()) NOT NULL,
+          FOREIGN KEY (reportId) REFERENCES getlostportal_report(id) ON UPDATE no action ON DELETE no action,
+          FOREIGN KEY (userId) REFERENCES getlostportal_user(id) ON UPDATE no action ON DELETE no action
+        )
+      `);
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS getlostportal_report_annotation_comment (
+          id text(255) PRIMARY KEY NOT NULL,
+          annotationId text(255) NOT NULL,
+          userId text(255) NOT NULL,
+          body text NOT NULL,
+          fromAdmin integer DEFAULT false NOT NULL,
+          createdAt integer DEFAULT (unixepoch()) NOT NULL,
+          FOREIGN KEY (annotationId) REFERENCES getlostportal_report_annotation(id) ON UPDATE no action ON DELETE no action,
+          FOREIGN KEY (userId) REFERENCES getlostportal_user(id) ON UPDATE no action ON DELETE no action
+        )
+      `);
+      sqlite.exec(`CREATE INDEX IF NOT EXISTS annotation_report_idx ON getlostportal_report_annotation (reportId)`);
+      sqlite.exec(`CREATE INDEX IF NOT EXISTS annotation_user_idx ON getlostportal_report_annotation (userId)`);
+      sqlite.exec(
+        `CREATE INDEX IF NOT EXISTS annotation_comment_annotation_idx ON getlostportal_report_annotation_comment (annotationId)`
+      );
+      console.log("[Migrations] ✅ Created getlostportal_report_annotation tables");
+    }
+
+    // Check if share link table exists
+    const shareLinkCheck = sqlite
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='getlostportal_share_link'"
+      )
+      .get();
+
+    if (!shareLinkCheck) {
+      console.log("[Migrations] Creating getlostportal_share_link table...");
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS getlostportal_share_link (
+          id text(255) PRIMARY KEY NOT NULL,
+          bookId text(255) NOT NULL,
+          userId text(255) NOT NULL,
+          assetType text(50) NOT NULL,
+          label text(255),
+          passwordHash text(255),
+          expiresAt integer NOT NULL,
+          revokedAt integer,
+          viewCount integer DEFAULT 0 NOT NULL,
+          lastViewedAt integer,
+          createdAt integer DEFAULT (unixepoch()) NOT NULL,
+          FOREIGN KEY (bookId) REFERENCES getlostportal_book(id) ON UPDATE no action ON DELETE no action,
+          FOREIGN KEY (userId) REFERENCES getlostportal_user(id) ON UPDATE no action ON DELETE no action
+        )
+      `);
+      sqlite.exec(`CREATE INDEX IF NOT EXISTS share_link_user_idx ON getlostportal_share_link (userId)`);
+      sqlite.exec(`CREATE INDEX IF NOT EXISTS share_link_book_idx ON getlostportal_share_link (bookId)`);
+      console.log("[Migrations] ✅ Created getlostportal_share_link table");
+    }
   } catch (error: any) {
     console.error("[Migrations] Error ensuring essential tables:", error.message);
     // Don't throw - allow app to continue
   }
 }
 
+interface LegacyVersionRow {
+  id: string;
+  bookId: string;
+  versionNumber: number;
+  fileName: string;
+  fileData: string | null;
+}
+
+/**
+ * Move book version files into the content-addressed store
+ * Each version without a storagePath is read from its base64 fileData (or the old
+ * per-book copy), written to the store, and then fileData is cleared.
+ * Rows are handled one at a time so large manuscripts aren't all held in memory.
+ */
+export async function backfillVersionContent(): Promise<{ moved: number; missing: number }> {
+  const result = { moved: 0, missing: 0 };
+  if (!sqlite || contentBackfillRunning) {
+    return result;
+  }
+
+  contentBackfillRunning = true;
+  try {
+    const pendingIds = sqlite
+      .prepare("SELECT id FROM getlostportal_book_version WHERE storagePath IS NULL")
+      .all() as { id: string }[];
+
+    if (pendingIds.length === 0) {
+      return result;
+    }
+
+    console.log(`[Migrations] Moving ${pendingIds.length} book version file(s) into the content store...`);
+
+    const selectVersion = sqlite.prepare(
+      "SELECT id, bookId, versionNumber, fileName, fileData FROM getlostportal_book_version WHERE id = ?"
+    );
+    const updateVersion = sqlite.prepare(
+      "UPDATE getlostportal_book_version SET contentHash = ?, storagePath = ?, fileData = NULL WHERE id = ?"
+    );
+
+    for (const { id } of pendingIds) {
+      const version = selectVersion.get(id) as LegacyVersionRow | undefined;
+      if (!version) continue;
+
+      const fileBuffer = version.fileData
+        ? Buffer.from(version.fileData, "base64")
+        : await readLegacyBookVersionFile(version.bookId, version.versionNumber, version.fileName);
+
+      // No copy anywhere - leave the row for manual follow-up
+      if (!fileBuffer) {
+        result.missing++;
+        continue;
+      }
+
+      const stored = await putContent(fileBuffer);
+      updateVersion.run(stored.hash, stored.storagePath, version.id);
+      result.moved++;
+    }
+
+    if (result.moved > 0) {
+      // Give the space used by the cleared fileData back to the filesystem
+      sqlite.exec("VACUUM");
+    }
+
+    console.log(
+      `[Migrations] ✅ Content store backfill complete (${result.moved} moved, ${result.missing} without a file)`
+    );
+  } finally {
+    contentBackfillRunning = false;
+  }
+
+  return result;
+}
+
 /**
  * Initialize migrations - call this on app startup
  * This is called automatically when the database connection is established
@@ -740,6 +998,11 @@ export function initializeMigrations(): void {
     // This is lightweight and safe to run multiple times
     ensureBooksTableColumns();
     ensureOtherTableColumns();
+
+    // File backfill is async - run it in the background so startup isn't blocked
+    backfillVersionContent().catch((error) => {
+      console.error("[Migrations] Content store backfill failed:", error?.message || error);
+    });
     
     migrationsInitialized = true;
     console.log("[Migrations] ✅ Migration check complete");
@@ -792,6 +1055,11 @@ export async function runPendingMigrations(): Promise<{
       changesMade = true;
     }
 
+    const backfill = await backfillVersionContent();
+    if (backfill.moved > 0) {
+      changesMade = true;
+    }
+
     return {
       success: true,
       changesMade,
@@ -121,14 +121,27 @@ export const bookVersions = createTable(
 		fileUrl: d.text({ length: 1000 }).notNull(),
 		fileSize: d.integer({ mode: "number" }).notNull(),
 		fileType: d.text({ length: 100 }).notNull(),
-		fileData: d.text(), // Base64 encoded file data (legacy, will migrate to file system)
+		fileData: d.text(), // Base64 encoded file data (legacy, moved to the content store and cleared by migration)
 		mimeType: d.text({ length: 100 }), // MIME type of the file
+		contentHash: d.text({ length: 64 }), // SHA-256 of the file
+		storagePath: d.text({ length: 1000 }), // Key in the content-addressed store (sha256/ab/<hash>)
+		textFingerprint: d.text(), // MinHash signature of the extracted text, for near-duplicate detection
+		epubValidation: d.text(), // JSON EPUB structural validation report (EPUB uploads only)
 		summary: d.text(),
+		// Manuscript statistics computed locally from the extracted text
+		wordCount: d.integer({ mode: "number" }),
+		characterCount: d.integer({ mode: "number" }),
+		estimatedPages: d.integer({ mode: "number" }),
+		chapterCount: d.integer({ mode: "number" }),
+		averageChapterLength: d.integer({ mode: "number" }), // Words per chapter
+		dialogueRatio: d.real(), // 0-1 share of words inside quotation marks
+		readingTimeMinutes: d.integer({ mode: "number" }),
 		uploadedAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
 	}),
 	(t) => [
 		index("version_book_idx").on(t.bookId),
 		index("version_uploaded_idx").on(t.uploadedAt),
+		index("version_content_hash_idx").on(t.contentHash),
 	],
 );
 
@@ -140,6 +153,7 @@ export const reports = createTable(
 		bookVersionId: d.text({ length: 255 }).notNull().references(() => bookVersions.id),
 		status: d.text({ length: 50 }).notNull().default("pending"), // pending, analyzing, completed, preview
 		htmlContent: d.text(), // HTML version of the report
+		structuredContent: d.text(), // JSON StructuredReport (see utils/report-schema.ts); htmlContent is rendered from it
 		pdfUrl: d.text({ length: 1000 }), // URL to PDF version
 		adminNotes: d.text(), // Notes from admin
 		requestedAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
@@ -155,12 +169,50 @@ export const reports = createTable(
 	],
 );
 
+// Report Annotations - highlights authors make on a report, each with a comment thread
+export const reportAnnotations = createTable(
+	"report_annotation",
+	(d) => ({
+		id: d.text({ length: 255 }).notNull().primaryKey().$defaultFn(() => crypto.randomUUID()),
+		reportId: d.text({ length: 255 }).notNull().references(() => reports.id),
+		userId: d.text({ length: 255 }).notNull().references(() => users.id), // Who highlighted it
+		quote: d.text().notNull(), // The highlighted text
+		prefix: d.text(), // Text just before and after the highlight, to find it again if offsets drift
+		suffix: d.text(),
+		startOffset: d.integer({ mode: "number" }).notNull(), // Character range in the report's text content
+		endOffset: d.integer({ mode: "number" }).notNull(),
+		resolvedAt: d.integer({ mode: "timestamp" }),
+		resolvedBy: d.text({ length: 255 }),
+		createdAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+		updatedAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+	}),
+	(t) => [
+		index("annotation_report_idx").on(t.reportId),
+		index("annotation_user_idx").on(t.userId),
+	],
+);
+
+// Report Annotation Comments - the thread under an annotation
+export const reportAnnotationComments = createTable(
+	"report_annotation_comment",
+	(d) => ({
+		id: d.text({ length: 255 }).notNull().primaryKey().$defaultFn(() => crypto.randomUUID()),
+		annotationId: d.text({ length: 255 }).notNull().references(() => reportAnnotations.id),
+		userId: d.text({ length: 255 }).notNull().references(() => users.id),
+		body: d.text().notNull(),
+		fromAdmin: d.integer({ mode: "boolean" }).default(false).notNull(), // Written by one of our analysts
+		createdAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+	}),
+	(t) => [index("annotation_comment_annotation_idx").on(t.annotationId)],
+);
+
 // Digest Jobs table for tracking BookDigest service jobs
 export const digestJobs = createTable(
 	"digest_job",
 	(d) => ({
 		id: d.text({ length: 255 }).notNull().primaryKey().$defaultFn(() => crypto.randomUUID()),
 		bookId: d.text({ length: 255 }).notNull().references(() => books.id),
+		bookVersionId: d.text({ length: 255 }).references(() => bookVersions.id), // Version that was digested
 		externalJobId: d.text({ length: 255 }), // Job ID from BookDigest service
 		status: d.text({ length: 50 }).notNull().default("pending"), // pending, processing, completed, failed
 		attempts: d.integer({ mode: "number" }).notNull().default(0),
@@ -179,11 +231,19 @@ export const digestJobs = createTable(
 		brief: d.text(),
 		shortSummary: d.text(),
 		summary: d.text(),
+		// AI usage reported by the service, and its cost at the rates in effect on completion
+		aiProcessed: d.integer({ mode: "boolean" }),
+		tokenCount: d.integer({ mode: "number" }),
+		inputTokens: d.integer({ mode: "number" }),
+		outputTokens: d.integer({ mode: "number" }),
+		costCents: d.real(), // Fractional cents - single jobs often cost less than a cent
+		applyMetadata: d.integer({ mode: "boolean" }).default(true).notNull(), // Backfill the book's title, cover and description on completion
 		createdAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
 		updatedAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
 	}),
 	(t) => [
 		index("digest_job_book_idx").on(t.bookId),
+		index("digest_job_version_idx").on(t.bookVersionId),
 		index("digest_job_status_idx").on(t.status),
 	],
 );
@@ -378,6 +438,28 @@ export const purchases = createTable(
 	],
 );
 
+// Share Links - signed, expiring links to a book's deliverables for people without an account
+export const shareLinks = createTable(
+	"share_link",
+	(d) => ({
+		id: d.text({ length: 255 }).notNull().primaryKey().$defaultFn(() => crypto.randomUUID()),
+		bookId: d.text({ length: 255 }).notNull().references(() => books.id),
+		userId: d.text({ length: 255 }).notNull().references(() => users.id), // Who created the link
+		assetType: d.text({ length: 50 }).notNull(), // report, covers, marketing-assets, landing-page
+		label: d.text({ length: 255 }), // Who the link is for, e.g. "Agent - Jane"
+		passwordHash: d.text({ length: 255 }), // bcrypt hash; null when no password is needed
+		expiresAt: d.integer({ mode: "timestamp" }).notNull(),
+		revokedAt: d.integer({ mode: "timestamp" }),
+		viewCount: d.integer({ mode: "number" }).default(0).notNull(),
+		lastViewedAt: d.integer({ mode: "timestamp" }),
+		createdAt: d.integer({ mode: "timestamp" }).default(sql`(unixepoch())`).notNull(),
+	}),
+	(t) => [
+		index("share_link_user_idx").on(t.userId),
+		index("share_link_book_idx").on(t.bookId),
+	],
+);
+
 // Relations - Updated to include all new tables
 export const booksRelations = relations(books, ({ one, many }) => ({
 	user: one(users, { fields: [books.userId], references: [users.id] }),
@@ -389,6 +471,7 @@ export const booksRelations = relations(books, ({ one, many }) => ({
 	covers: many(bookCovers),
 	landingPages: many(landingPages),
 	purchases: many(purchases),
+	shareLinks: many(shareLinks),
 }));
 
 export const bookVersionsRelations = relations(bookVersions, ({ one, many }) => ({
@@ -397,8 +480,23 @@ export const bookVersionsRelations = relations(bookVersions, ({ one, many }) =>
 	summaries: many(summaries),
 }));
 
-export const reportsRelations = relations(reports, ({ one }) => ({
+export const reportsRelations = relations(reports, ({ one, many }) => ({
 	bookVersion: one(bookVersions, { fields: [reports.bookVersionId], references: [bookVersions.id] }),
+	annotations: many(reportAnnotations),
+}));
+
+export const reportAnnotationsRelations = relations(reportAnnotations, ({ one, many }) => ({
+	report: one(reports, { fields: [reportAnnotations.reportId], references: [reports.id] }),
+	user: one(users, { fields: [reportAnnotations.userId], references: [users.id] }),
+	comments: many(reportAnnotationComments),
+}));
+
+export const reportAnnotationCommentsRelations = relations(reportAnnotationComments, ({ one }) => ({
+	annotation: one(reportAnnotations, {
+		fields: [reportAnnotationComments.annotationId],
+		references: [reportAnnotations.id],
+	}),
+	user: one(users, { fields: [reportAnnotationComments.userId], references: [users.id] }),
 }));
 
 export const notificationsRelations = relations(notifications, ({ one }) => ({
@@ -407,6 +505,7 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
 
 export const digestJobsRelations = relations(digestJobs, ({ one }) => ({
 	book: one(books, { fields: [digestJobs.bookId], references: [books.id] }),
+	bookVersion: one(bookVersions, { fields: [digestJobs.bookVersionId], references: [bookVersions.id] }),
 }));
 
 export const bookFeaturesRelations = relations(bookFeatures, ({ one }) => ({
@@ -434,3 +533,8 @@ export const purchasesRelations = relations(purchases, ({ one }) => ({
 	user: one(users, { fields: [purchases.userId], references: [users.id] }),
 	book: one(books, { fields: [purchases.bookId], references: [books.id] }),
 }));
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+	book: one(books, { fields: [shareLinks.bookId], references: [books.id] }),
+	user: one(users, { fields: [shareLinks.userId], references: [users.id] }),
+}));
@@ -0,0 +1,136 @@
+import { db } from "@/server/db";
+import { summaries } from "@/server/db/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+/**
+ * Per-version book summaries
+ *
+ * Completed digests write a `source = "digest"` row for the version that was
+ * digested, so each draft keeps its own summary. The free summary shown to
+ * authors reads from here.
+ */
+
+export interface SummaryMetadata {
+  language?: string;
+  pages?: number;
+  words?: number;
+}
+
+export interface VersionSummary {
+  id: string;
+  bookVersionId: string | null;
+  source: string;
+  brief: string | null;
+  shortSummary: string | null;
+  fullSummary: string | null;
+  metadata: SummaryMetadata | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type SummaryRow = typeof summaries.$inferSelect;
+
+/**
+ * Parse the JSON metadata column; invalid JSON reads as no metadata
+ */
+export function parseSummaryMetadata(raw: string | null): SummaryMetadata | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? (parsed as SummaryMetadata) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toVersionSummary(row: SummaryRow): VersionSummary {
+  return {
+    id: row.id,
+    bookVersionId: row.bookVersionId,
+    source: row.source,
+    brief: row.brief,
+    shortSummary: row.shortSummary,
+    fullSummary: row.fullSummary,
+    metadata: parseSummaryMetadata(row.metadata),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * The most detailed summary text available
+ */
+export function getSummaryText(summary: Pick<VersionSummary, "brief" | "shortSummary" | "fullSummary">): string | null {
+  return summary.fullSummary?.trim() || summary.shortSummary?.trim() || summary.brief?.trim() || null;
+}
+
+/**
+ * Create or replace the summary for a book version from one source
+ * A version has at most one summary per source, so re-running a digest
+ * overwrites the previous digest summary for that version
+ */
+export async function upsertVersionSummary(values: {
+  bookId: string;
+  bookVersionId: string | null;
+  source: string;
+  brief?: string | null;
+  shortSummary?: string | null;
+  fullSummary?: string | null;
+  metadata?: SummaryMetadata | null;
+}): Promise<string> {
+  const [existing] = await db
+    .select({ id: summaries.id })
+    .from(summaries)
+    .where(
+      and(
+        eq(summaries.bookId, values.bookId),
+        values.bookVersionId ? eq(summaries.bookVersionId, values.bookVersionId) : isNull(summaries.bookVersionId),
+        eq(summaries.source, values.source)
+      )
+    )
+    .limit(1);
+
+  const fields = {
+    brief: values.brief ?? null,
+    shortSummary: values.shortSummary ?? null,
+    fullSummary: values.fullSummary ?? null,
+    metadata: values.metadata ? JSON.stringify(values.metadata) : null,
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    await db.update(summaries).set(fields).where(eq(summaries.id, existing.id));
+    return existing.id;
+  }
+
+  const [created] = await db
+    .insert(summaries)
+    .values({
+      bookId: values.bookId,
+      bookVersionId: values.bookVersionId,
+      source: values.source,
+      ...fields,
+    })
+    .returning({ id: summaries.id });
+  return created!.id;
+}
+
+/**
+ * Latest summary for each version of a book, keyed by version ID
+ * Summaries not tied to a version are left out
+ */
+export async function getSummariesByVersion(bookId: string): Promise<Map<string, VersionSummary>> {
+  const rows = await db
+    .select()
+    .from(summaries)
+    .where(eq(summaries.bookId, bookId))
+    .orderBy(desc(summaries.updatedAt));
+
+  const byVersion = new Map<string, VersionSummary>();
+  for (const row of rows) {
+    if (row.bookVersionId && !byVersion.has(row.bookVersionId)) {
+      byVersion.set(row.bookVersionId, toVersionSummary(row));
+    }
+  }
+  return byVersion;
+}
@@ -0,0 +1,391 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+import type { BookDigestStatusResponse } from "./bookdigest";
+import { signWebhookPayload } from "@/server/utils/webhook-signature";
+
+/**
+ * Local stand-in for the BookDigest service
+ *
+ * Implements `POST /v1/ingest`, `GET /v1/jobs/:id` and the job cover endpoint
+ * with configurable latency, failure injection and canned results, so the
+ * digest code paths can run in development, Vitest and Playwright without the
+ * real service. Point BOOKDIGEST_URL at it and set any BOOKDIGEST_API_KEY.
+ *
+ * Control endpoints for runs that can't hold a reference to the server:
+ *   GET  /__mock/jobs    - jobs received so far
+ *   POST /__mock/config  - merge options, e.g. {"outcome":"failed"} or
+ *                          {"failNext":{"endpoint":"ingest","status":503}}
+ *   POST /__mock/reset   - forget all jobs, as if BookDigest restarted
+ */
+
+export type BookDigestMockResult = NonNullable<BookDigestStatusResponse["result"]>;
+
+export type BookDigestMockEndpoint = "ingest" | "status" | "cover";
+
+export interface BookDigestMockOptions {
+  /** Required X-API-Key value; null accepts any non-empty key */
+  apiKey: string | null;
+  /** Delay before every response */
+  latencyMs: number;
+  /** Time from ingest until a job finishes (pending for the first half, then processing) */
+  processingMs: number;
+  /** How jobs finish */
+  outcome: "completed" | "failed";
+  /** Error reported for failed jobs */
+  error: string;
+  /** Fields merged over the default canned result */
+  result: Partial<BookDigestMockResult>;
+  /** Cover served for completed jobs; null leaves `cover_url` out */
+  cover: { data: Buffer; contentType: string } | null;
+  /** Fraction (0-1) of ingest and status requests answered with a random 5xx */
+  failureRate: number;
+  /** Signs completion callbacks to the submitted `callback_url`; null sends none */
+  webhookSecret: string | null;
+}
+
+export interface BookDigestMockJob {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  callbackUrl: string | null;
+  createdAt: number;
+  readyAt: number;
+  callbackSent: boolean;
+}
+
+export interface BookDigestMock {
+  url: string;
+  jobs: Map<string, BookDigestMockJob>;
+  /** Every request received, newest last, e.g. "POST /v1/ingest 200" */
+  requests: string[];
+  configure(options: Partial<BookDigestMockOptions>): void;
+  /** Answer the next `times` requests to an endpoint with `status` */
+  failNext(endpoint: BookDigestMockEndpoint, status: number, times?: number): void;
+  /** Finish all jobs now, regardless of processingMs */
+  finishJobs(): void;
+  /** Forget all jobs, requests and injected failures, as if the service restarted */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+// 1x1 transparent PNG
+const DEFAULT_COVER = {
+  data: Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+    "base64"
+  ),
+  contentType: "image/png",
+};
+
+const DEFAULT_OPTIONS: BookDigestMockOptions = {
+  apiKey: null,
+  latencyMs: 0,
+  processingMs: 0,
+  outcome: "completed",
+  error: "Mock BookDigest failure",
+  result: {},
+  cover: DEFAULT_COVER,
+  failureRate: 0,
+  webhookSecret: null,
+};
+
+/**
+ * Canned result for a job; the title is left out unless configured so the
+ * mock doesn't rename books in end-to-end runs
+ */
+function buildResult(job: BookDigestMockJob, options: BookDigestMockOptions): BookDigestMockResult {
+  const words = Math.max(1, Math.round(job.fileSize / 6));
+  const base: BookDigestMockResult = {
+    cover_url: options.cover ? `/v1/jobs/${job.id}/cover` : undefined,
+    meta: {
+      pages: Math.max(1, Math.ceil(words / 275)),
+      words,
+      language: "en",
+      format: path.extname(job.fileName).slice(1).toLowerCase() || undefined,
+    },
+    brief: `A mock digest of ${job.fileName}.`,
+    short_summary: `Mock short summary of ${job.fileName}.`,
+    summary: `Mock summary of ${job.fileName}, generated by the local BookDigest mock.`,
+    ai_processed: false,
+    token_count: words,
+    input_tokens: words,
+    output_tokens: 0,
+  };
+
+  return {
+    ...base,
+    ...options.result,
+    meta: { ...base.meta, ...options.result.meta },
+  };
+}
+
+function buildStatus(job: BookDigestMockJob, options: BookDigestMockOptions, now: number): BookDigestStatusResponse {
+  const format = path.extname(job.fileName).slice(1).toLowerCase() || undefined;
+  if (now < job.readyAt) {
+    const halfway = job.createdAt + (job.readyAt - job.createdAt) / 2;
+    return { id: job.id, status: now < halfway ? "pending" : "processing", format };
+  }
+  if (options.outcome === "failed") {
+    return { id: job.id, status: "failed", format, error: options.error };
+  }
+  return { id: job.id, status: "completed", format, result: buildResult(job, options) };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Start a mock BookDigest server
+ * Port 0 (the default) picks a free port; the chosen one is in `url`
+ */
+export async function startBookDigestMock(
+  initialOptions: Partial<BookDigestMockOptions> = {},
+  port = 0
+): Promise<BookDigestMock> {
+  let options: BookDigestMockOptions = { ...DEFAULT_OPTIONS, ...initialOptions };
+  const jobs = new Map<string, BookDigestMockJob>();
+  const requests: string[] = [];
+  const injectedFailures: Record<BookDigestMockEndpoint, { status: number; times: number }[]> = {
+    ingest: [],
+    status: [],
+    cover: [],
+  };
+  const timers = new Set<NodeJS.Timeout>();
+  let jobCounter = 0;
+
+  function takeInjectedFailure(endpoint: BookDigestMockEndpoint): number | null {
+    const queue = injectedFailures[endpoint];
+    const next = queue[0];
+    if (next) {
+      next.times -= 1;
+      if (next.times <= 0) queue.shift();
+      return next.status;
+    }
+    if (endpoint !== "cover" && options.failureRate > 0 && Math.random() < options.failureRate) {
+      return Math.random() < 0.5 ? 502 : 503;
+    }
+    return null;
+  }
+
+  async function sendCallback(job: BookDigestMockJob) {
+    if (job.callbackSent || !job.callbackUrl || !options.webhookSecret) return;
+    job.callbackSent = true;
+
+    const body = JSON.stringify(buildStatus(job, options, Date.now()));
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const response = await fetch(job.callbackUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-BookDigest-Timestamp": String(timestamp),
+          "X-BookDigest-Signature": signWebhookPayload(options.webhookSecret, timestamp, body),
+        },
+        body,
+      });
+      console.log(`[BookDigest Mock] Callback for ${job.id} answered ${response.status}`);
+    } catch (error) {
+      console.error(`[BookDigest Mock] Callback for ${job.id} failed:`, error);
+    }
+  }
+
+  function scheduleCallback(job: BookDigestMockJob) {
+    if (!job.callbackUrl) return;
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      void sendCallback(job);
+    }, Math.max(0, job.readyAt - Date.now()));
+    timer.unref();
+    timers.add(timer);
+  }
+
+  async function handleIngest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const body = await readBody(req);
+    let form: FormData;
+    try {
+      form = await new Request("http://bookdigest.mock/v1/ingest", {
+        method: "POST",
+        headers: { "Content-Type": req.headers["content-type"] ?? "" },
+        body: new Uint8Array(body),
+      }).formData();
+    } catch {
+      return sendJson(res, 400, { error: "Expected multipart/form-data" });
+    }
+
+    const file = form.get("file");
+    if (!(file instanceof Blob)) {
+      return sendJson(res, 400, { error: "Missing file" });
+    }
+
+    const callbackUrl = form.get("callback_url");
+    const now = Date.now();
+    jobCounter += 1;
+    const job: BookDigestMockJob = {
+      id: `mock-${jobCounter}`,
+      fileName: file instanceof File ? file.name : "upload.bin",
+      fileSize: file.size,
+      callbackUrl: typeof callbackUrl === "string" && callbackUrl ? callbackUrl : null,
+      createdAt: now,
+      readyAt: now + options.processingMs,
+      callbackSent: false,
+    };
+    jobs.set(job.id, job);
+    scheduleCallback(job);
+
+    console.log(`[BookDigest Mock] Accepted ${job.fileName} (${job.fileSize} bytes) as ${job.id}`);
+    sendJson(res, 200, { job_id: job.id });
+  }
+
+  async function handleControl(req: http.IncomingMessage, res: http.ServerResponse, route: string) {
+    if (req.method === "GET" && route === "/__mock/jobs") {
+      return sendJson(res, 200, { jobs: [...jobs.values()] });
+    }
+    if (req.method === "POST" && route === "/__mock/reset") {
+      mock.reset();
+      return sendJson(res, 200, { ok: true });
+    }
+    if (req.method === "POST" && route === "/__mock/config") {
+      let update: Partial<BookDigestMockOptions> & {
+        failNext?: { endpoint: BookDigestMockEndpoint; status: number; times?: number };
+      };
+      try {
+        update = JSON.parse((await readBody(req)).toString("utf8") || "{}");
+      } catch {
+        return sendJson(res, 400, { error: "Invalid JSON" });
+      }
+      const { failNext, ...rest } = update;
+      mock.configure(rest);
+      if (failNext) {
+        mock.failNext(failNext.endpoint, failNext.status, failNext.times);
+      }
+      return sendJson(res, 200, { ok: true });
+    }
+    sendJson(res, 404, { error: "Not found" });
+  }
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const route = new URL(req.url ?? "/", "http://bookdigest.mock").pathname;
+
+    if (options.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, options.latencyMs));
+    }
+
+    if (route.startsWith("/__mock/")) {
+      return handleControl(req, res, route);
+    }
+
+    const apiKey = req.headers["x-api-key"];
+    if (!apiKey || (options.apiKey !== null && apiKey !== options.apiKey)) {
+      return sendJson(res, 401, { error: "Invalid API key" });
+    }
+
+    const jobMatch = route.match(/^\/v1\/jobs\/([^/]+)(\/cover)?$/);
+    const endpoint: BookDigestMockEndpoint | null =
+      req.method === "POST" && route === "/v1/ingest"
+        ? "ingest"
+        : req.method === "GET" && jobMatch
+          ? (jobMatch[2] ? "cover" : "status")
+          : null;
+
+    if (!endpoint) {
+      return sendJson(res, 404, { error: "Not found" });
+    }
+
+    const injected = takeInjectedFailure(endpoint);
+    if (injected !== null) {
+      res.writeHead(injected, { "Content-Type": "text/plain" });
+      return res.end(`Injected ${injected} from BookDigest mock`);
+    }
+
+    if (endpoint === "ingest") {
+      return handleIngest(req, res);
+    }
+
+    const job = jobs.get(decodeURIComponent(jobMatch![1]!));
+    if (!job) {
+      return sendJson(res, 404, { error: "Job not found" });
+    }
+
+    if (endpoint === "cover") {
+      if (!options.cover || Date.now() < job.readyAt) {
+        return sendJson(res, 404, { error: "Cover not available" });
+      }
+      res.writeHead(200, { "Content-Type": options.cover.contentType });
+      return res.end(options.cover.data);
+    }
+
+    sendJson(res, 200, buildStatus(job, options, Date.now()));
+  }
+
+  const server = http.createServer((req, res) => {
+    res.on("finish", () => {
+      requests.push(`${req.method} ${req.url} ${res.statusCode}`);
+    });
+    handle(req, res).catch((error) => {
+      console.error("[BookDigest Mock] Request failed:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Mock server error" });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  const mock: BookDigestMock = {
+    url: `http://127.0.0.1:${boundPort}`,
+    jobs,
+    requests,
+    configure(update) {
+      options = { ...options, ...update };
+    },
+    failNext(endpoint, status, times = 1) {
+      injectedFailures[endpoint].push({ status, times });
+    },
+    finishJobs() {
+      const now = Date.now();
+      for (const job of jobs.values()) {
+        if (job.readyAt > now) {
+          job.readyAt = now;
+          void sendCallback(job);
+        }
+      }
+    },
+    reset() {
+      // Job ids keep counting up so old ids stay unknown
+      jobs.clear();
+      requests.length = 0;
+      for (const queue of Object.values(injectedFailures)) queue.length = 0;
+    },
+    close() {
+      for (const timer of timers) clearTimeout(timer);
+      timers.clear();
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      });
+    },
+  };
+
+  return mock;
+}
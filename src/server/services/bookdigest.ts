@@ -1,17 +1,20 @@
 import { db } from "@/server/db";
-import { digestJobs, books } from "@/server/db/schema";
-import { eq, and } from "drizzle-orm";
-import { promises as fs } from "fs";
-import path from "path";
+import { digestJobs, books, bookVersions, notifications } from "@/server/db/schema";
+import { eq, and, desc, inArray, isNull } from "drizzle-orm";
+import { getBlobStore } from "@/server/storage";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+import { upsertVersionSummary } from "./book-summaries";
+import { calculateDigestCostCents } from "./digest-costs";
 
-const BOOKDIGEST_URL = process.env.BOOKDIGEST_URL || "https://bookdigest.onrender.com";
-const BOOKDIGEST_API_KEY = process.env.BOOKDIGEST_API_KEY || "";
+const DEFAULT_BOOKDIGEST_URL = "https://bookdigest.onrender.com";
 
 interface BookDigestJobResponse {
   job_id: string;
 }
 
-interface BookDigestStatusResponse {
+type DigestJob = typeof digestJobs.$inferSelect;
+
+export interface BookDigestStatusResponse {
   id: string;
   status: "pending" | "processing" | "completed" | "failed";
   format?: string;
@@ -37,26 +40,176 @@ interface BookDigestStatusResponse {
   };
 }
 
-export async function triggerBookDigest(bookId: string, fileBuffer: Buffer, fileName: string) {
+/**
+ * BookDigest base URL and API key, read on each call so tests and the local
+ * mock server can point the service elsewhere after this module has loaded
+ */
+function getBookDigestUrl(): string {
+  return (process.env.BOOKDIGEST_URL || DEFAULT_BOOKDIGEST_URL).replace(/\/+$/, "");
+}
+
+function getBookDigestApiKey(): string {
+  return process.env.BOOKDIGEST_API_KEY || "";
+}
+
+/**
+ * Whether BookDigest calls can be made at all
+ */
+export function isBookDigestConfigured(): boolean {
+  return Boolean(getBookDigestApiKey());
+}
+
+/**
+ * Shared secret for signed completion callbacks (webhooks are off without it)
+ */
+export function getDigestWebhookSecret(): string | null {
+  return process.env.BOOKDIGEST_WEBHOOK_SECRET || null;
+}
+
+/**
+ * URL BookDigest should call when a job finishes, if webhooks are set up
+ * Jobs without a callback are still picked up by the digest poller
+ */
+export function getDigestCallbackUrl(): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!getDigestWebhookSecret() || !appUrl) {
+    return null;
+  }
+  return `${appUrl.replace(/\/+$/, "")}/api/webhooks/bookdigest`;
+}
+
+/**
+ * Whether a failed BookDigest request is worth retrying later
+ * Network errors (no status), timeouts, rate limits and 5xx responses are transient
+ */
+export function isTransientDigestFailure(status: number | null): boolean {
+  return status === null || status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/**
+ * Send a book file to BookDigest for an existing digest job record
+ *
+ * Transient failures leave the job `pending` with the error recorded, so the
+ * digest poller re-submits it after a backoff. Other failures mark it `failed`.
+ */
+export async function submitDigestJob(
+  job: { id: string; bookId: string; attempts: number },
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<string | null> {
+  const attempts = job.attempts + 1;
+  let status: number | null = null;
+  let error: string;
+
+  try {
+    // Create FormData for file upload
+    const formData = new FormData();
+    const file = new Blob([fileBuffer as any], { type: 'application/octet-stream' });
+    formData.append("file", file, fileName);
+    const callbackUrl = getDigestCallbackUrl();
+    if (callbackUrl) {
+      formData.append("callback_url", callbackUrl);
+    }
+
+    // Send request to BookDigest service
+    const response = await fetch(`${getBookDigestUrl()}/v1/ingest`, {
+      method: "POST",
+      headers: {
+        "X-API-Key": getBookDigestApiKey(),
+      },
+      body: formData,
+    });
+
+    if (response.ok) {
+      const data: BookDigestJobResponse = await response.json();
+
+      // Update job with external ID
+      await db
+        .update(digestJobs)
+        .set({
+          externalJobId: data.job_id,
+          status: "processing",
+          startedAt: new Date(),
+          attempts,
+          lastAttemptAt: new Date(),
+          error: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(digestJobs.id, job.id));
+
+      console.log(`BookDigest job ${data.job_id} started for book ${job.bookId}`);
+      return data.job_id;
+    }
+
+    status = response.status;
+    error = await response.text();
+    console.error(`BookDigest API error: ${error}`);
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : "Unknown error";
+    console.error("Failed to submit book to BookDigest:", requestError);
+  }
+
+  // Don't throw - BookDigest is optional, book creation should still succeed
+  const transient = isTransientDigestFailure(status);
+  await db
+    .update(digestJobs)
+    .set({
+      status: transient ? "pending" : "failed",
+      error,
+      attempts,
+      lastAttemptAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(digestJobs.id, job.id));
+
+  if (transient) {
+    console.log(`[Digest] Submission of job ${job.id} failed transiently, will retry`);
+  }
+  return null;
+}
+
+/**
+ * Start a digest of a book's manuscript
+ * Results are stored against `bookVersionId`, defaulting to the book's latest version
+ */
+export async function triggerBookDigest(
+  bookId: string,
+  fileBuffer: Buffer,
+  fileName: string,
+  bookVersionId?: string | null
+) {
   try {
     // Check if API key is configured
-    if (!BOOKDIGEST_API_KEY) {
+    if (!isBookDigestConfigured()) {
       console.log(`BookDigest API key not configured, skipping digest for book ${bookId}`);
       return null;
     }
 
-    // Check if a job already exists for this book
+    let versionId = bookVersionId ?? null;
+    if (!versionId) {
+      const [latestVersion] = await db
+        .select({ id: bookVersions.id })
+        .from(bookVersions)
+        .where(eq(bookVersions.bookId, bookId))
+        .orderBy(desc(bookVersions.uploadedAt))
+        .limit(1);
+      versionId = latestVersion?.id ?? null;
+    }
+
+    // Check if a job already exists for this version (including one waiting to be re-submitted).
+    // Other versions of the book are digested separately, so their jobs don't count
     const existingJob = await db
       .select()
       .from(digestJobs)
       .where(and(
         eq(digestJobs.bookId, bookId),
-        eq(digestJobs.status, "processing")
+        versionId ? eq(digestJobs.bookVersionId, versionId) : isNull(digestJobs.bookVersionId),
+        inArray(digestJobs.status, ["pending", "processing"])
       ))
       .limit(1);
 
     if (existingJob.length > 0) {
-      console.log(`Digest job already in progress for book ${bookId}`);
+      console.log(`Digest job already in progress for book ${bookId} (version ${versionId ?? "unknown"})`);
       return existingJob[0];
     }
 
@@ -65,6 +218,7 @@ export async function triggerBookDigest(bookId: string, fileBuffer: Buffer, file
       .insert(digestJobs)
       .values({
         bookId,
+        bookVersionId: versionId,
         status: "pending",
         attempts: 0,
         createdAt: new Date(),
@@ -72,83 +226,327 @@ export async function triggerBookDigest(bookId: string, fileBuffer: Buffer, file
       })
       .returning();
 
-    // Create FormData for file upload
-    const formData = new FormData();
-    const file = new Blob([fileBuffer as any], { type: 'application/octet-stream' });
-    formData.append("file", file, fileName);
+    const externalJobId = await submitDigestJob(newJob!, fileBuffer, fileName);
+    if (!externalJobId) {
+      return null;
+    }
 
-    // Send request to BookDigest service
-    const response = await fetch(`${BOOKDIGEST_URL}/v1/ingest`, {
-      method: "POST",
-      headers: {
-        "X-API-Key": BOOKDIGEST_API_KEY,
-      },
-      body: formData,
-    });
+    return {
+      ...newJob!,
+      externalJobId,
+      status: "processing",
+    };
+  } catch (error) {
+    console.error("Failed to trigger BookDigest:", error);
+    // Don't throw - return null so book creation can continue
+    return null;
+  }
+}
 
-    if (!response.ok) {
-      const error = await response.text();
-      // Don't throw error - just log it and mark job as failed
-      // BookDigest is optional, book creation should still succeed
-      console.error(`BookDigest API error: ${error}`);
-      
-      // Update job status to failed
-      await db
-        .update(digestJobs)
-        .set({
-          status: "failed",
-          error: error,
-          updatedAt: new Date(),
-        })
-        .where(eq(digestJobs.id, newJob!.id));
-      
-      return null;
+/**
+ * Digest one version of a book on demand
+ *
+ * Unlike upload-time digests, the book's title, cover and description are only
+ * backfilled from the results when `applyMetadata` is set, so re-running an
+ * older draft doesn't overwrite what the author has edited since.
+ */
+export async function digestBookVersion(
+  bookId: string,
+  bookVersionId: string,
+  options: { applyMetadata?: boolean } = {}
+): Promise<{ ok: true; job: DigestJob } | { ok: false; status: number; error: string }> {
+  if (!isBookDigestConfigured()) {
+    return { ok: false, status: 503, error: "BookDigest is not configured" };
+  }
+
+  const [version] = await db
+    .select({
+      id: bookVersions.id,
+      bookId: bookVersions.bookId,
+      versionNumber: bookVersions.versionNumber,
+      fileName: bookVersions.fileName,
+      storagePath: bookVersions.storagePath,
+      fileData: bookVersions.fileData,
+    })
+    .from(bookVersions)
+    .where(and(eq(bookVersions.id, bookVersionId), eq(bookVersions.bookId, bookId)))
+    .limit(1);
+
+  if (!version) {
+    return { ok: false, status: 404, error: "Version not found" };
+  }
+
+  const [activeJob] = await db
+    .select({ id: digestJobs.id })
+    .from(digestJobs)
+    .where(and(
+      eq(digestJobs.bookVersionId, bookVersionId),
+      inArray(digestJobs.status, ["pending", "processing"])
+    ))
+    .limit(1);
+
+  if (activeJob) {
+    return { ok: false, status: 409, error: "A digest of this version is already in progress" };
+  }
+
+  const fileBuffer = await readBookVersionFile(version);
+  if (!fileBuffer) {
+    return { ok: false, status: 404, error: "Manuscript file not found" };
+  }
+
+  const [newJob] = await db
+    .insert(digestJobs)
+    .values({
+      bookId,
+      bookVersionId,
+      status: "pending",
+      attempts: 0,
+      applyMetadata: options.applyMetadata ?? false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  console.log(`[Digest] Re-running digest for book ${bookId} v${version.versionNumber}`);
+  await submitDigestJob(newJob!, fileBuffer, version.fileName);
+
+  // Submission records its outcome on the job (processing, pending for a retry, or failed)
+  const [job] = await db
+    .select()
+    .from(digestJobs)
+    .where(eq(digestJobs.id, newJob!.id))
+    .limit(1);
+
+  return { ok: true, job: job! };
+}
+
+/**
+ * Tell the book's owner how processing ended
+ */
+export async function notifyDigestOutcome(bookId: string, status: "completed" | "failed") {
+  const [book] = await db
+    .select({
+      title: books.title,
+      userId: books.userId,
+    })
+    .from(books)
+    .where(eq(books.id, bookId))
+    .limit(1);
+
+  if (!book) return;
+
+  await db.insert(notifications).values(
+    status === "completed"
+      ? {
+          userId: book.userId,
+          type: "processing_completed",
+          title: "Book Processing Complete",
+          message: `"${book.title}" has been successfully analyzed and is ready to view.`,
+          data: JSON.stringify({ bookId }),
+          read: false,
+        }
+      : {
+          userId: book.userId,
+          type: "processing_failed",
+          title: "Book Processing Failed",
+          message: `Processing failed for "${book.title}". Please try uploading again.`,
+          data: JSON.stringify({ bookId }),
+          read: false,
+        }
+  );
+}
+
+/**
+ * Apply a BookDigest job status to our records
+ * Shared by status polling and the completion webhook: on completion this
+ * downloads the cover, stores the results on the digest job and the version's
+ * summary, and backfills the book's title, cover and description if the job allows it
+ */
+export async function applyDigestStatus(job: DigestJob, data: BookDigestStatusResponse) {
+  const jobId = job.id;
+
+  // Update job based on status
+  if (data.status === "completed" && data.result) {
+    const result = data.result;
+
+    // Download and store cover image locally if present
+    // (skipped without backfill - it would replace the book's current cover file)
+    let coverImageUrl: string | null = null;
+    if (result.cover_url && job.applyMetadata) {
+      try {
+        // Build the URL to fetch from BookDigest
+        const sourceUrl = result.cover_url.startsWith("/")
+          ? `${getBookDigestUrl()}${result.cover_url}`
+          : result.cover_url;
+
+        // Fetch the image
+        const imageResponse = await fetch(sourceUrl, {
+          headers: {
+            "X-API-Key": getBookDigestApiKey(),
+          },
+        });
+
+        if (imageResponse.ok) {
+          const imageBuffer = await imageResponse.arrayBuffer();
+          const buffer = Buffer.from(imageBuffer);
+
+          // Get the book ID from the digest job
+          const [job] = await db.select({ bookId: digestJobs.bookId })
+            .from(digestJobs)
+            .where(eq(digestJobs.id, jobId))
+            .limit(1);
+
+          if (job) {
+            // Determine file extension from content type
+            const contentType = imageResponse.headers.get("content-type") || "image/jpeg";
+            const ext = contentType.split('/')[1] || 'jpg';
+            const coverFileName = `${job.bookId}.${ext}`;
+
+            // Save cover image to blob storage
+            await getBlobStore("covers").put(coverFileName, buffer, { contentType });
+
+            // Store the API path for serving
+            coverImageUrl = `/api/covers/${job.bookId}.${ext}`;
+          }
+        }
+      } catch (error) {
+        console.error("Failed to download cover image:", error);
+        // Continue without cover if download fails
+      }
     }
 
-    const data: BookDigestJobResponse = await response.json();
+    // Price the AI usage at today's rates so later rate changes don't rewrite history
+    const usage = {
+      aiProcessed: result.ai_processed ?? null,
+      tokenCount: result.token_count ?? null,
+      inputTokens: result.input_tokens ?? null,
+      outputTokens: result.output_tokens ?? null,
+    };
 
-    // Update job with external ID
+    // Update digest job with results
     await db
       .update(digestJobs)
       .set({
-        externalJobId: data.job_id,
-        status: "processing",
-        startedAt: new Date(),
-        attempts: 1,
-        lastAttemptAt: new Date(),
+        status: "completed",
+        completedAt: new Date(),
+        textUrl: result.text_url,
+        coverUrl: result.cover_url,
+        title: result.meta?.title,
+        author: result.meta?.author,
+        pages: result.meta?.pages,
+        words: result.meta?.words,
+        language: result.meta?.language,
+        brief: result.brief,
+        shortSummary: result.short_summary,
+        summary: result.summary,
+        ...usage,
+        costCents: calculateDigestCostCents(usage),
         updatedAt: new Date(),
       })
-      .where(eq(digestJobs.id, newJob!.id));
-
-    console.log(`BookDigest job ${data.job_id} started for book ${bookId}`);
+      .where(eq(digestJobs.id, jobId));
 
-    return {
-      ...newJob!,
-      externalJobId: data.job_id,
-      status: "processing",
-    };
-  } catch (error) {
-    console.error("Failed to trigger BookDigest:", error);
+    // Keep the summaries with the draft they describe
+    await upsertVersionSummary({
+      bookId: job.bookId,
+      bookVersionId: job.bookVersionId,
+      source: "digest",
+      brief: result.brief,
+      shortSummary: result.short_summary,
+      fullSummary: result.summary,
+      metadata: {
+        language: result.meta?.language,
+        pages: result.meta?.pages,
+        words: result.meta?.words,
+      },
+    });
 
-    // Update job status to failed if it exists
-    try {
-      await db
-        .update(digestJobs)
-        .set({
-          status: "failed",
-          error: error instanceof Error ? error.message : "Unknown error",
-          updatedAt: new Date(),
+    // Update book with extracted metadata, unless this run was asked to leave it alone
+    if (job.bookId && job.applyMetadata) {
+      const [existingBook] = await db
+        .select({
+          title: books.title,
+          coverImageUrl: books.coverImageUrl,
+          description: books.description,
         })
-        .where(and(
-          eq(digestJobs.bookId, bookId),
-          eq(digestJobs.status, "pending")
-        ));
-    } catch (updateError) {
-      console.error("Failed to update digest job status:", updateError);
+        .from(books)
+        .where(eq(books.id, job.bookId))
+        .limit(1);
+
+      if (existingBook) {
+        const updates: {
+          title?: string;
+          coverImageUrl?: string;
+          description?: string;
+          updatedAt: Date;
+        } = {
+          updatedAt: new Date(),
+        };
+        let hasUpdates = false;
+
+        // Update title if extracted from digest
+        // Always prefer digest title as it's extracted from book metadata (more accurate than filename)
+        if (result.meta?.title && result.meta.title.trim()) {
+          const extractedTitle = result.meta.title.trim();
+          const currentTitle = existingBook.title;
+          
+          // Always update if digest extracted a title and it's different from current
+          // The current title likely came from filename, so digest title is more accurate
+          if (extractedTitle !== currentTitle) {
+            updates.title = extractedTitle;
+            hasUpdates = true;
+            console.log(`[Digest] Updating book ${job.bookId} title: "${currentTitle}" -> "${extractedTitle}"`);
+          } else {
+            console.log(`[Digest] Title unchanged: "${currentTitle}" matches digest title`);
+          }
+        }
+
+        // Update cover image if extracted and not already set
+        if (coverImageUrl && !existingBook.coverImageUrl) {
+          updates.coverImageUrl = coverImageUrl;
+          hasUpdates = true;
+          console.log(`Updating book ${job.bookId} with cover URL: ${coverImageUrl}`);
+        }
+
+        // Update description with brief if extracted and empty
+        if (result.brief && result.brief.trim() && !existingBook.description) {
+          updates.description = result.brief.trim();
+          hasUpdates = true;
+          console.log(`Updating book ${job.bookId} description with brief`);
+        }
+
+        // Apply all updates at once
+        if (hasUpdates) {
+          // Remove updatedAt from the set call since it's already in the object
+          const { updatedAt, ...updateFields } = updates;
+          await db
+            .update(books)
+            .set({
+              ...updateFields,
+              updatedAt,
+            })
+            .where(eq(books.id, job.bookId));
+          console.log(`Successfully updated book ${job.bookId} with extracted metadata`);
+        } else {
+          console.log(`No metadata updates needed for book ${job.bookId}`);
+        }
+      }
     }
 
-    // Don't throw - return null so book creation can continue
-    return null;
+    return { ...job, status: "completed", result };
+  } else if (data.status === "failed") {
+    await db
+      .update(digestJobs)
+      .set({
+        status: "failed",
+        error: data.error || "Processing failed",
+        updatedAt: new Date(),
+      })
+      .where(eq(digestJobs.id, jobId));
+
+    return { ...job, status: "failed", error: data.error };
+  } else {
+    // Still processing
+    return { ...job, status: data.status };
   }
 }
 
@@ -164,229 +562,88 @@ export async function checkBookDigestStatus(jobId: string) {
     throw new Error("Digest job not found or no external ID");
   }
 
+  // Every status poll counts as an attempt - the digest poller backs off on these
+  const attempts = job.attempts + 1;
+  await db
+    .update(digestJobs)
+    .set({
+      attempts,
+      lastAttemptAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(digestJobs.id, jobId));
+
   try {
 
     // Check status from BookDigest service
-    const response = await fetch(`${BOOKDIGEST_URL}/v1/jobs/${job.externalJobId}`, {
+    const response = await fetch(`${getBookDigestUrl()}/v1/jobs/${job.externalJobId}`, {
       headers: {
-        "X-API-Key": BOOKDIGEST_API_KEY,
+        "X-API-Key": getBookDigestApiKey(),
       },
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`BookDigest API error: ${error}`);
-    }
-
-    const data: BookDigestStatusResponse = await response.json();
-
-    // Update job based on status
-    if (data.status === "completed" && data.result) {
-      const result = data.result;
-
-      // Download and store cover image locally if present
-      let coverImageUrl: string | null = null;
-      if (result.cover_url) {
-        try {
-          // Build the URL to fetch from BookDigest
-          const sourceUrl = result.cover_url.startsWith("/")
-            ? `${BOOKDIGEST_URL}${result.cover_url}`
-            : result.cover_url;
-
-          // Fetch the image
-          const imageResponse = await fetch(sourceUrl, {
-            headers: {
-              "X-API-Key": BOOKDIGEST_API_KEY,
-            },
-          });
-
-          if (imageResponse.ok) {
-            const imageBuffer = await imageResponse.arrayBuffer();
-            const buffer = Buffer.from(imageBuffer);
-
-            // Get the book ID from the digest job
-            const [job] = await db.select({ bookId: digestJobs.bookId })
-              .from(digestJobs)
-              .where(eq(digestJobs.id, jobId))
-              .limit(1);
-
-            if (job) {
-              // Save cover to file system
-              // Use process.cwd() to ensure we resolve from project root
-              const coverStoragePath = process.env.COVER_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'covers');
-              const coverDir = path.resolve(coverStoragePath);
-
-              // Create directory if it doesn't exist
-              await fs.mkdir(coverDir, { recursive: true });
-
-              // Determine file extension from content type
-              const contentType = imageResponse.headers.get("content-type") || "image/jpeg";
-              const ext = contentType.split('/')[1] || 'jpg';
-              const coverFileName = `${job.bookId}.${ext}`;
-              const coverFilePath = path.join(coverDir, coverFileName);
-
-              // Save cover image to disk
-              await fs.writeFile(coverFilePath, buffer);
-
-              // Store the API path for serving
-              coverImageUrl = `/api/covers/${job.bookId}.${ext}`;
-            }
-          }
-        } catch (error) {
-          console.error("Failed to download cover image:", error);
-          // Continue without cover if download fails
-        }
-      }
-
-      // Update digest job with results
+    // BookDigest no longer knows the job (e.g. it restarted) - queue it for re-submission
+    if (response.status === 404) {
+      console.warn(`[Digest] BookDigest lost job ${job.externalJobId}, queueing book ${job.bookId} for re-submission`);
       await db
         .update(digestJobs)
         .set({
-          status: "completed",
-          completedAt: new Date(),
-          textUrl: result.text_url,
-          coverUrl: result.cover_url,
-          title: result.meta?.title,
-          author: result.meta?.author,
-          pages: result.meta?.pages,
-          words: result.meta?.words,
-          language: result.meta?.language,
-          brief: result.brief,
-          shortSummary: result.short_summary,
-          summary: result.summary,
+          status: "pending",
+          externalJobId: null,
+          error: "BookDigest no longer has this job",
           updatedAt: new Date(),
         })
         .where(eq(digestJobs.id, jobId));
 
-      // Update book with extracted metadata
-      if (job.bookId) {
-        const [existingBook] = await db
-          .select({
-            title: books.title,
-            coverImageUrl: books.coverImageUrl,
-            description: books.description,
-          })
-          .from(books)
-          .where(eq(books.id, job.bookId))
-          .limit(1);
-
-        if (existingBook) {
-          const updates: {
-            title?: string;
-            coverImageUrl?: string;
-            description?: string;
-            updatedAt: Date;
-          } = {
-            updatedAt: new Date(),
-          };
-          let hasUpdates = false;
-
-          // Update title if extracted from digest
-          // Always prefer digest title as it's extracted from book metadata (more accurate than filename)
-          if (result.meta?.title && result.meta.title.trim()) {
-            const extractedTitle = result.meta.title.trim();
-            const currentTitle = existingBook.title;
-            
-            // Always update if digest extracted a title and it's different from current
-            // The current title likely came from filename, so digest title is more accurate
-            if (extractedTitle !== currentTitle) {
-              updates.title = extractedTitle;
-              hasUpdates = true;
-              console.log(`[Digest] Updating book ${job.bookId} title: "${currentTitle}" -> "${extractedTitle}"`);
-            } else {
-              console.log(`[Digest] Title unchanged: "${currentTitle}" matches digest title`);
-            }
-          }
-
-          // Update cover image if extracted and not already set
-          if (coverImageUrl && !existingBook.coverImageUrl) {
-            updates.coverImageUrl = coverImageUrl;
-            hasUpdates = true;
-            console.log(`Updating book ${job.bookId} with cover URL: ${coverImageUrl}`);
-          }
-
-          // Update description with brief if extracted and empty
-          if (result.brief && result.brief.trim() && !existingBook.description) {
-            updates.description = result.brief.trim();
-            hasUpdates = true;
-            console.log(`Updating book ${job.bookId} description with brief`);
-          }
+      return { ...job, attempts, status: "pending" };
+    }
 
-          // Apply all updates at once
-          if (hasUpdates) {
-            // Remove updatedAt from the set call since it's already in the object
-            const { updatedAt, ...updateFields } = updates;
-            await db
-              .update(books)
-              .set({
-                ...updateFields,
-                updatedAt,
-              })
-              .where(eq(books.id, job.bookId));
-            console.log(`Successfully updated book ${job.bookId} with extracted metadata`);
-          } else {
-            console.log(`No metadata updates needed for book ${job.bookId}`);
-          }
-        }
-      }
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`BookDigest API error: ${error}`);
+    }
 
-      return { ...job, status: "completed", result };
-    } else if (data.status === "failed") {
-      await db
-        .update(digestJobs)
-        .set({
-          status: "failed",
-          error: data.error || "Processing failed",
-          updatedAt: new Date(),
-        })
-        .where(eq(digestJobs.id, jobId));
+    const data: BookDigestStatusResponse = await response.json();
 
-      return { ...job, status: "failed", error: data.error };
-    } else {
-      // Still processing
-      return { ...job, status: data.status };
-    }
+    return await applyDigestStatus({ ...job, attempts }, data);
   } catch (error) {
     console.error("Failed to check BookDigest status:", error);
-
-    // Increment attempts
-    await db
-      .update(digestJobs)
-      .set({
-        attempts: job.attempts + 1,
-        lastAttemptAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(digestJobs.id, jobId));
-
     throw error;
   }
 }
 
-// Retry failed or stuck jobs
-export async function retryFailedDigestJobs() {
-  try {
-    // Find jobs that are stuck or failed but haven't exceeded max attempts
-    const stuckJobs = await db
-      .select()
-      .from(digestJobs)
-      .where(and(
-        eq(digestJobs.status, "processing"),
-        // Consider jobs stuck if they've been processing for over 10 minutes
-        // This would need a more complex query in production
-      ))
-      .limit(10);
-
-    for (const job of stuckJobs) {
-      if (job.externalJobId && job.attempts < 5) {
-        try {
-          await checkBookDigestStatus(job.id);
-        } catch (error) {
-          console.error(`Failed to check status for job ${job.id}:`, error);
-        }
-      }
-    }
-  } catch (error) {
-    console.error("Failed to retry digest jobs:", error);
+/**
+ * Handle a signed completion callback from BookDigest
+ * The payload has the same shape as a `/v1/jobs/:id` response. Deliveries for
+ * jobs that already finished are acknowledged without changes, so retries are safe.
+ */
+export async function handleDigestWebhook(
+  data: BookDigestStatusResponse
+): Promise<{ ok: true; status: string } | { ok: false; status: number; error: string }> {
+  if (!data?.id || !data.status) {
+    return { ok: false, status: 400, error: "Invalid payload" };
   }
-}
\ No newline at end of file
+
+  const [job] = await db
+    .select()
+    .from(digestJobs)
+    .where(eq(digestJobs.externalJobId, data.id))
+    .limit(1);
+
+  if (!job) {
+    return { ok: false, status: 404, error: "Digest job not found" };
+  }
+
+  if (job.status === "completed" || job.status === "failed") {
+    console.log(`[Digest Webhook] Job ${job.id} already ${job.status}, ignoring delivery`);
+    return { ok: true, status: job.status };
+  }
+
+  const updated = await applyDigestStatus(job, data);
+  if (updated.status === "completed" || updated.status === "failed") {
+    await notifyDigestOutcome(job.bookId, updated.status);
+  }
+
+  console.log(`[Digest Webhook] Job ${job.id} for book ${job.bookId} is now ${updated.status}`);
+  return { ok: true, status: updated.status };
+}
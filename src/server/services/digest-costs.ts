@@ -0,0 +1,216 @@
+import { db } from "@/server/db";
+import { books, digestJobs, purchases, users } from "@/server/db/schema";
+import { and, eq, gte, inArray, lt } from "drizzle-orm";
+
+/**
+ * AI token usage and cost of BookDigest jobs
+ *
+ * Rates are cents per million tokens, read from the environment. A job's cost
+ * is worked out once, when it completes, and stored on the job - changing the
+ * rates later doesn't rewrite past spend. The admin report sets that spend
+ * against completed purchases over the same period.
+ */
+
+export interface DigestTokenRates {
+  inputCentsPerMillion: number;
+  outputCentsPerMillion: number;
+}
+
+export interface DigestTokenUsage {
+  aiProcessed?: boolean | null;
+  tokenCount?: number | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+}
+
+export interface DigestCostTotals {
+  jobs: number;
+  inputTokens: number;
+  outputTokens: number;
+  tokenCount: number;
+  costCents: number;
+  revenueCents: number;
+}
+
+export interface DigestCostReport {
+  from: string;
+  to: string;
+  rates: DigestTokenRates;
+  totals: DigestCostTotals;
+  byDay: Array<DigestCostTotals & { date: string }>;
+  byUser: Array<DigestCostTotals & { userId: string; email: string | null; name: string | null }>;
+  byBook: Array<DigestCostTotals & { bookId: string; title: string | null; userEmail: string | null }>;
+}
+
+function readRate(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Current token rates: DIGEST_COST_INPUT_CENTS_PER_MILLION (default 300, i.e.
+ * $3 per million) and DIGEST_COST_OUTPUT_CENTS_PER_MILLION (default 1500)
+ */
+export function getDigestTokenRates(): DigestTokenRates {
+  return {
+    inputCentsPerMillion: readRate("DIGEST_COST_INPUT_CENTS_PER_MILLION", 300),
+    outputCentsPerMillion: readRate("DIGEST_COST_OUTPUT_CENTS_PER_MILLION", 1500),
+  };
+}
+
+/**
+ * Cost of one job in (fractional) cents
+ * Jobs the service didn't run through AI cost nothing; when only a total token
+ * count is reported it is priced at the input rate. Returns null when the job
+ * reported no usage at all.
+ */
+export function calculateDigestCostCents(
+  usage: DigestTokenUsage,
+  rates: DigestTokenRates = getDigestTokenRates()
+): number | null {
+  if (usage.aiProcessed === false) {
+    return 0;
+  }
+
+  const hasSplit = usage.inputTokens != null || usage.outputTokens != null;
+  if (!hasSplit && usage.tokenCount == null) {
+    return null;
+  }
+
+  const inputTokens = hasSplit ? usage.inputTokens ?? 0 : usage.tokenCount ?? 0;
+  const outputTokens = hasSplit ? usage.outputTokens ?? 0 : 0;
+  return (inputTokens * rates.inputCentsPerMillion + outputTokens * rates.outputCentsPerMillion) / 1_000_000;
+}
+
+function emptyTotals(): DigestCostTotals {
+  return { jobs: 0, inputTokens: 0, outputTokens: 0, tokenCount: 0, costCents: 0, revenueCents: 0 };
+}
+
+// Local calendar day, matching the activity analytics
+function formatDay(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+function sortBySpend<T extends DigestCostTotals>(rows: T[]): T[] {
+  return rows.sort((a, b) => b.costCents - a.costCents || b.revenueCents - a.revenueCents);
+}
+
+/**
+ * Digest spend and purchase revenue between `from` (inclusive) and `to` (exclusive),
+ * per day, per user and per book
+ */
+export async function getDigestCostReport(range: { from: Date; to: Date }): Promise<DigestCostReport> {
+  const { from, to } = range;
+
+  const jobRows = await db
+    .select({
+      bookId: digestJobs.bookId,
+      completedAt: digestJobs.completedAt,
+      tokenCount: digestJobs.tokenCount,
+      inputTokens: digestJobs.inputTokens,
+      outputTokens: digestJobs.outputTokens,
+      costCents: digestJobs.costCents,
+      userId: books.userId,
+    })
+    .from(digestJobs)
+    .innerJoin(books, eq(digestJobs.bookId, books.id))
+    .where(and(eq(digestJobs.status, "completed"), gte(digestJobs.completedAt, from), lt(digestJobs.completedAt, to)));
+
+  // Purchases count on completion; older rows may only have createdAt
+  const purchaseRows = (
+    await db
+      .select({
+        userId: purchases.userId,
+        bookId: purchases.bookId,
+        amount: purchases.amount,
+        completedAt: purchases.completedAt,
+        createdAt: purchases.createdAt,
+      })
+      .from(purchases)
+      .where(and(eq(purchases.status, "completed"), lt(purchases.createdAt, to)))
+  )
+    .map((purchase) => ({ ...purchase, paidAt: purchase.completedAt ?? purchase.createdAt }))
+    .filter((purchase) => purchase.paidAt >= from && purchase.paidAt < to);
+
+  const totals = emptyTotals();
+  const byDay = new Map<string, DigestCostTotals & { date: string }>();
+  const byUser = new Map<string, DigestCostTotals & { userId: string; email: string | null; name: string | null }>();
+  const byBook = new Map<string, DigestCostTotals & { bookId: string; title: string | null; userEmail: string | null }>();
+
+  // Every day in the range, so quiet days show as zero
+  for (let day = new Date(from); day < to; day.setDate(day.getDate() + 1)) {
+    byDay.set(formatDay(day), { date: formatDay(day), ...emptyTotals() });
+  }
+
+  const dayRow = (date: Date) => {
+    const key = formatDay(date);
+    if (!byDay.has(key)) byDay.set(key, { date: key, ...emptyTotals() });
+    return byDay.get(key)!;
+  };
+  const userRow = (userId: string) => {
+    if (!byUser.has(userId)) byUser.set(userId, { userId, email: null, name: null, ...emptyTotals() });
+    return byUser.get(userId)!;
+  };
+  const bookRow = (bookId: string) => {
+    if (!byBook.has(bookId)) byBook.set(bookId, { bookId, title: null, userEmail: null, ...emptyTotals() });
+    return byBook.get(bookId)!;
+  };
+
+  for (const job of jobRows) {
+    const rows = [totals, dayRow(job.completedAt!), userRow(job.userId), bookRow(job.bookId)];
+    for (const row of rows) {
+      row.jobs += 1;
+      row.inputTokens += job.inputTokens ?? 0;
+      row.outputTokens += job.outputTokens ?? 0;
+      row.tokenCount += job.tokenCount ?? (job.inputTokens ?? 0) + (job.outputTokens ?? 0);
+      row.costCents += job.costCents ?? 0;
+    }
+  }
+
+  for (const purchase of purchaseRows) {
+    const rows = [totals, dayRow(purchase.paidAt), userRow(purchase.userId)];
+    if (purchase.bookId) rows.push(bookRow(purchase.bookId));
+    for (const row of rows) {
+      row.revenueCents += purchase.amount;
+    }
+  }
+
+  // Names for the people and books in the report
+  if (byUser.size > 0) {
+    const people = await db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(inArray(users.id, [...byUser.keys()]));
+    for (const person of people) {
+      const row = byUser.get(person.id)!;
+      row.email = person.email;
+      row.name = person.name;
+    }
+  }
+
+  if (byBook.size > 0) {
+    const bookRows = await db
+      .select({ id: books.id, title: books.title, userEmail: users.email })
+      .from(books)
+      .innerJoin(users, eq(books.userId, users.id))
+      .where(inArray(books.id, [...byBook.keys()]));
+    for (const book of bookRows) {
+      const row = byBook.get(book.id)!;
+      row.title = book.title;
+      row.userEmail = book.userEmail;
+    }
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    rates: getDigestTokenRates(),
+    totals,
+    byDay: [...byDay.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    byUser: sortBySpend([...byUser.values()]),
+    byBook: sortBySpend([...byBook.values()]),
+  };
+}
@@ -0,0 +1,204 @@
+import { db } from "@/server/db";
+import { bookVersions, digestJobs } from "@/server/db/schema";
+import { desc, eq, inArray } from "drizzle-orm";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+import { checkBookDigestStatus, isBookDigestConfigured, notifyDigestOutcome, submitDigestJob } from "./bookdigest";
+
+/**
+ * Server-side scheduler for BookDigest jobs
+ *
+ * Each tick looks at `pending` and `processing` jobs. Jobs past the deadline
+ * are failed; the rest are polled (or re-submitted, for jobs whose submission
+ * failed transiently) once their backoff has elapsed. The backoff doubles with
+ * every attempt, counted from `lastAttemptAt`.
+ */
+
+export interface DigestPollerConfig {
+  intervalMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  deadlineMs: number;
+  batchSize: number;
+}
+
+export interface DigestJobUpdate {
+  id: string;
+  bookId: string;
+  status: string;
+}
+
+export interface DigestPollResult {
+  checked: number;
+  updated: DigestJobUpdate[];
+}
+
+type ActiveDigestJob = typeof digestJobs.$inferSelect;
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Poller settings, read from the environment on each call
+ */
+export function getDigestPollerConfig(): DigestPollerConfig {
+  return {
+    intervalMs: readNumber("DIGEST_POLL_INTERVAL_SECONDS", 30) * 1000,
+    baseDelayMs: readNumber("DIGEST_POLL_BASE_DELAY_SECONDS", 15) * 1000,
+    maxDelayMs: readNumber("DIGEST_POLL_MAX_DELAY_SECONDS", 600) * 1000,
+    deadlineMs: readNumber("DIGEST_JOB_DEADLINE_MINUTES", 120) * 60 * 1000,
+    batchSize: Math.floor(readNumber("DIGEST_POLL_BATCH_SIZE", 20)),
+  };
+}
+
+/**
+ * When a job is next due: base delay doubled per attempt, capped at the max delay
+ */
+export function getNextAttemptAt(
+  job: Pick<ActiveDigestJob, "attempts" | "lastAttemptAt">,
+  config: DigestPollerConfig = getDigestPollerConfig()
+): Date {
+  if (!job.lastAttemptAt) {
+    return new Date(0);
+  }
+  const exponent = Math.min(Math.max(job.attempts - 1, 0), 30);
+  const delay = Math.min(config.baseDelayMs * 2 ** exponent, config.maxDelayMs);
+  return new Date(job.lastAttemptAt.getTime() + delay);
+}
+
+/**
+ * Send the job's manuscript version (or the book's latest, for older jobs) to BookDigest again
+ */
+async function resubmitDigestJob(job: ActiveDigestJob): Promise<string> {
+  const [version] = await db
+    .select({
+      bookId: bookVersions.bookId,
+      versionNumber: bookVersions.versionNumber,
+      fileName: bookVersions.fileName,
+      storagePath: bookVersions.storagePath,
+      fileData: bookVersions.fileData,
+    })
+    .from(bookVersions)
+    .where(job.bookVersionId ? eq(bookVersions.id, job.bookVersionId) : eq(bookVersions.bookId, job.bookId))
+    .orderBy(desc(bookVersions.uploadedAt))
+    .limit(1);
+
+  const fileBuffer = version ? await readBookVersionFile(version) : null;
+  if (!version || !fileBuffer) {
+    await db
+      .update(digestJobs)
+      .set({ status: "failed", error: "Manuscript file not found for re-submission", updatedAt: new Date() })
+      .where(eq(digestJobs.id, job.id));
+    return "failed";
+  }
+
+  console.log(`[Digest Poller] Re-submitting job ${job.id} (attempt ${job.attempts + 1})`);
+  const externalJobId = await submitDigestJob(job, fileBuffer, version.fileName);
+  if (externalJobId) return "processing";
+
+  const [updated] = await db
+    .select({ status: digestJobs.status })
+    .from(digestJobs)
+    .where(eq(digestJobs.id, job.id))
+    .limit(1);
+  return updated?.status ?? "failed";
+}
+
+/**
+ * Run one poller tick
+ * Returns the jobs that were checked and their status afterwards
+ */
+export async function pollDigestJobs(now: Date = new Date()): Promise<DigestPollResult> {
+  const config = getDigestPollerConfig();
+
+  const activeJobs = await db
+    .select()
+    .from(digestJobs)
+    .where(inArray(digestJobs.status, ["pending", "processing"]));
+
+  const updated: DigestJobUpdate[] = [];
+
+  // Stuck jobs: still not finished after the deadline
+  const expired = activeJobs.filter((job) => now.getTime() - job.createdAt.getTime() > config.deadlineMs);
+  for (const job of expired) {
+    const minutes = Math.round(config.deadlineMs / 60000);
+    console.warn(`[Digest Poller] Job ${job.id} for book ${job.bookId} missed the ${minutes} minute deadline`);
+    await db
+      .update(digestJobs)
+      .set({
+        status: "failed",
+        error: `Timed out after ${minutes} minutes`,
+        updatedAt: new Date(),
+      })
+      .where(eq(digestJobs.id, job.id));
+    await notifyDigestOutcome(job.bookId, "failed");
+    updated.push({ id: job.id, bookId: job.bookId, status: "failed" });
+  }
+
+  // Pending jobs with no attempts yet are still being submitted by the upload request
+  const due = activeJobs
+    .filter((job) => !expired.includes(job))
+    .filter((job) => (job.status === "processing" ? Boolean(job.externalJobId) : job.attempts > 0))
+    .filter((job) => getNextAttemptAt(job, config) <= now)
+    .sort((a, b) => (a.lastAttemptAt?.getTime() ?? 0) - (b.lastAttemptAt?.getTime() ?? 0))
+    .slice(0, config.batchSize);
+
+  for (const job of due) {
+    try {
+      const status = job.status === "processing"
+        ? (await checkBookDigestStatus(job.id)).status
+        : await resubmitDigestJob(job);
+
+      if (status === "completed" || status === "failed") {
+        await notifyDigestOutcome(job.bookId, status);
+      }
+      updated.push({ id: job.id, bookId: job.bookId, status });
+    } catch (error) {
+      // Already counted as an attempt, so the next try backs off further
+      console.error(`[Digest Poller] Failed to check job ${job.id}:`, error);
+    }
+  }
+
+  return { checked: expired.length + due.length, updated };
+}
+
+// Kept on globalThis so dev-mode reloads don't start a second timer
+const pollerState = globalThis as typeof globalThis & {
+  digestPollerTimer?: NodeJS.Timeout;
+  digestPollerRunning?: boolean;
+};
+
+/**
+ * Start polling BookDigest jobs in the background
+ * Does nothing when BookDigest isn't configured or DIGEST_POLLER_ENABLED=false
+ */
+export function startDigestPoller(): boolean {
+  if (pollerState.digestPollerTimer) return true;
+  if (!isBookDigestConfigured() || process.env.DIGEST_POLLER_ENABLED === "false") {
+    console.log("[Digest Poller] Not started (BookDigest not configured or poller disabled)");
+    return false;
+  }
+
+  const { intervalMs } = getDigestPollerConfig();
+  pollerState.digestPollerTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow one
+    if (pollerState.digestPollerRunning) return;
+    pollerState.digestPollerRunning = true;
+    try {
+      const result = await pollDigestJobs();
+      if (result.updated.length > 0) {
+        console.log(`[Digest Poller] Updated ${result.updated.length} of ${result.checked} jobs`);
+      }
+    } catch (error) {
+      console.error("[Digest Poller] Tick failed:", error);
+    } finally {
+      pollerState.digestPollerRunning = false;
+    }
+  }, intervalMs);
+  pollerState.digestPollerTimer.unref();
+
+  console.log(`[Digest Poller] Polling BookDigest jobs every ${intervalMs / 1000}s`);
+  return true;
+}
+
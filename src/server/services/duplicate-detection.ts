@@ -0,0 +1,163 @@
+import { db } from "@/server/db";
+import { books, bookVersions } from "@/server/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+import {
+  canExtractManuscriptMetadata,
+  extractManuscriptMetadata,
+} from "@/server/utils/extract-manuscript-metadata";
+import { compareTextFingerprints, computeTextFingerprint } from "@/server/utils/manuscript-fingerprint";
+
+/**
+ * Duplicate manuscript detection
+ *
+ * Before a manuscript is stored as a new book or version, it is compared with
+ * every version the author already has: first by content hash (the exact same
+ * file), then by text fingerprint (the same text with trivial edits, or
+ * exported to a different format).
+ */
+
+// Estimated share of 5-word shingles in common. Ordinary revisions between
+// drafts score well below this, so only near-identical text is flagged.
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+// Versions uploaded before fingerprints existed are fingerprinted on demand;
+// cap how many per check so one upload never re-extracts a whole library
+const MAX_FINGERPRINTS_PER_CHECK = 5;
+
+export interface DuplicateManuscript {
+  kind: "exact" | "near";
+  similarity: number; // 0-1, 1 for exact matches
+  bookId: string;
+  bookTitle: string;
+  versionId: string;
+  versionNumber: number;
+  url: string;
+}
+
+interface CandidateVersion {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  versionNumber: number;
+  fileName: string;
+  storagePath: string | null;
+  contentHash: string | null;
+  textFingerprint: string | null;
+}
+
+function toDuplicate(
+  version: CandidateVersion,
+  kind: DuplicateManuscript["kind"],
+  similarity: number
+): DuplicateManuscript {
+  return {
+    kind,
+    similarity,
+    bookId: version.bookId,
+    bookTitle: version.bookTitle,
+    versionId: version.id,
+    versionNumber: version.versionNumber,
+    url: `/dashboard/book/${version.bookId}`,
+  };
+}
+
+/**
+ * Fingerprint a stored version that predates fingerprints and save the result
+ * An empty string is saved when the file has no usable text, so it isn't retried
+ */
+async function fingerprintStoredVersion(version: CandidateVersion): Promise<string> {
+  let fingerprint = "";
+  try {
+    const fileBuffer = await readBookVersionFile(version);
+    if (fileBuffer) {
+      const metadata = await extractManuscriptMetadata(fileBuffer, version.fileName);
+      fingerprint = (metadata?.text && computeTextFingerprint(metadata.text)) || "";
+    }
+  } catch (error) {
+    console.error(`[Duplicates] Failed to fingerprint version ${version.id}:`, error);
+  }
+
+  await db
+    .update(bookVersions)
+    .set({ textFingerprint: fingerprint })
+    .where(eq(bookVersions.id, version.id));
+
+  return fingerprint;
+}
+
+/**
+ * Find an existing version of the user's books that duplicates an upload
+ * Exact matches win over near matches; among near matches the most similar wins.
+ */
+export async function findDuplicateManuscript(input: {
+  userId: string;
+  contentHash: string;
+  textFingerprint: string | null;
+}): Promise<DuplicateManuscript | null> {
+  const candidates: CandidateVersion[] = await db
+    .select({
+      id: bookVersions.id,
+      bookId: bookVersions.bookId,
+      bookTitle: books.title,
+      versionNumber: bookVersions.versionNumber,
+      fileName: bookVersions.fileName,
+      storagePath: bookVersions.storagePath,
+      contentHash: bookVersions.contentHash,
+      textFingerprint: bookVersions.textFingerprint,
+    })
+    .from(bookVersions)
+    .innerJoin(books, eq(bookVersions.bookId, books.id))
+    .where(eq(books.userId, input.userId))
+    .orderBy(desc(bookVersions.uploadedAt));
+
+  const exact = candidates.find((version) => version.contentHash === input.contentHash);
+  if (exact) {
+    console.log(`[Duplicates] Upload matches version ${exact.id} exactly`);
+    return toDuplicate(exact, "exact", 1);
+  }
+
+  if (!input.textFingerprint) {
+    return null;
+  }
+
+  let best: { version: CandidateVersion; similarity: number } | null = null;
+  let fingerprintsComputed = 0;
+
+  for (const version of candidates) {
+    let fingerprint = version.textFingerprint;
+    if (fingerprint === null) {
+      if (fingerprintsComputed >= MAX_FINGERPRINTS_PER_CHECK || !canExtractManuscriptMetadata(version.fileName)) {
+        continue;
+      }
+      fingerprint = await fingerprintStoredVersion(version);
+      fingerprintsComputed++;
+    }
+    if (!fingerprint) continue;
+
+    const similarity = compareTextFingerprints(input.textFingerprint, fingerprint);
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { version, similarity };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  console.log(
+    `[Duplicates] Upload is ${Math.round(best.similarity * 100)}% similar to version ${best.version.id}`
+  );
+  return toDuplicate(best.version, "near", best.similarity);
+}
+
+/**
+ * Human-readable warning for a duplicate upload
+ */
+export function describeDuplicate(duplicate: DuplicateManuscript): string {
+  const location = `version ${duplicate.versionNumber} of "${duplicate.bookTitle}"`;
+  if (duplicate.kind === "exact") {
+    return `This file is identical to ${location}.`;
+  }
+  return `This manuscript is ${Math.round(duplicate.similarity * 100)}% similar to ${location}.`;
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { db } from "@/server/db";
+import { bookCovers } from "@/server/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { assertValidBlobKey, getBlobStore, type BlobArea } from "@/server/storage";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+import { buildEpub, detectCoverImageType, type EpubChapterInput } from "@/server/utils/build-epub";
+import { extractManuscriptMetadata } from "@/server/utils/extract-manuscript-metadata";
+import { isEpubFileName } from "./epub-validation";
+
+interface ExportBook {
+  id: string;
+  title: string;
+  authorName: string | null;
+  description: string | null;
+  coverImageUrl: string | null;
+}
+
+interface ExportBookVersion {
+  id: string;
+  bookId: string;
+  versionNumber: number;
+  fileName: string;
+  storagePath: string | null;
+  fileData?: string | null;
+}
+
+export type EpubExportResult =
+  | { ok: true; epub: Buffer }
+  | { ok: false; status: number; error: string };
+
+// API routes that serve images out of a blob store, and the store behind each
+const BLOB_URL_PREFIXES: Array<{ prefix: string; area: BlobArea }> = [
+  { prefix: "/api/covers/", area: "covers" },
+  { prefix: "/api/uploads/admin/", area: "admin-uploads" },
+  { prefix: "/api/uploads/precanned/", area: "precanned" },
+];
+
+/**
+ * Read a cover image from the URL we store for it
+ * Handles our own API routes and files in public/ - remote URLs are not fetched
+ */
+export async function readCoverImage(imageUrl: string): Promise<Buffer | null> {
+  const urlPath = imageUrl.split(/[?#]/)[0] ?? "";
+  if (!urlPath.startsWith("/") || urlPath.startsWith("//")) {
+    return null;
+  }
+
+  try {
+    const blobRoute = BLOB_URL_PREFIXES.find((route) => urlPath.startsWith(route.prefix));
+    if (blobRoute) {
+      const key = decodeURIComponent(urlPath.slice(blobRoute.prefix.length));
+      assertValidBlobKey(key);
+      const image = await getBlobStore(blobRoute.area).get(key);
+      // Precanned covers are served from /api/covers but live in the precanned store
+      if (!image && blobRoute.area === "covers") {
+        return getBlobStore("precanned").get(`uploads/${key}`);
+      }
+      return image;
+    }
+
+    const publicDir = path.resolve(process.cwd(), "public");
+    const filePath = path.resolve(publicDir, `.${decodeURIComponent(urlPath)}`);
+    if (!filePath.startsWith(publicDir + path.sep)) {
+      return null;
+    }
+    return await fs.readFile(filePath);
+  } catch (error) {
+    console.warn(`[EPUB Export] Could not read cover image ${imageUrl}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Find the image for the book's primary cover
+ * Falls back to the cover uploaded with the book when no primary cover is set or
+ * it isn't an image the EPUB can embed (HTML gallery covers point at a placeholder
+ * SVG or a video)
+ */
+async function loadPrimaryCover(book: ExportBook): Promise<Buffer | null> {
+  const [primaryCover] = await db
+    .select({ imageUrl: bookCovers.imageUrl })
+    .from(bookCovers)
+    .where(and(eq(bookCovers.bookId, book.id), eq(bookCovers.isPrimary, true)))
+    .orderBy(desc(bookCovers.updatedAt))
+    .limit(1);
+
+  for (const imageUrl of [primaryCover?.imageUrl, book.coverImageUrl]) {
+    if (!imageUrl) continue;
+    const image = await readCoverImage(imageUrl);
+    if (image && detectCoverImageType(image)) return image;
+  }
+  return null;
+}
+
+/**
+ * Build an EPUB 3 for a book version from its manuscript text and detected chapters
+ * The EPUB is generated fresh on every call, so it always reflects the current
+ * book title, description and primary cover
+ */
+export async function exportBookVersionEpub(
+  book: ExportBook,
+  version: ExportBookVersion
+): Promise<EpubExportResult> {
+  if (isEpubFileName(version.fileName)) {
+    return { ok: false, status: 400, error: "This version is already an EPUB" };
+  }
+
+  const fileBuffer = await readBookVersionFile(version);
+  if (!fileBuffer) {
+    return { ok: false, status: 404, error: "Manuscript file not found" };
+  }
+
+  const metadata = await extractManuscriptMetadata(fileBuffer, version.fileName);
+  const text = metadata?.text?.trim();
+  if (!text) {
+    return { ok: false, status: 422, error: "No text could be extracted from this manuscript" };
+  }
+
+  // Manuscripts without detectable chapters become a single section
+  const chapters: EpubChapterInput[] = metadata?.chapters?.length
+    ? metadata.chapters.map((chapter) => ({ title: chapter.title, text: chapter.text }))
+    : [{ title: book.title, text }];
+
+  const cover = await loadPrimaryCover(book);
+
+  const epub = buildEpub({
+    identifier: version.id,
+    title: book.title,
+    author: book.authorName,
+    description: book.description,
+    language: metadata?.language,
+    cover,
+    chapters,
+  });
+
+  console.log(`[EPUB Export] Built EPUB for book ${book.id} v${version.versionNumber}:`, {
+    chapters: chapters.length,
+    cover: Boolean(cover),
+    bytes: epub.length,
+  });
+
+  return { ok: true, epub };
+}
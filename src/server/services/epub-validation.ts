@@ -0,0 +1,58 @@
+import path from "path";
+import { db } from "@/server/db";
+import { bookVersions } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { validateEpub, type EpubValidationReport } from "@/server/utils/validate-epub";
+
+/**
+ * Check whether a version's file is an EPUB we can validate
+ */
+export function isEpubFileName(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() === ".epub";
+}
+
+/**
+ * Validate an EPUB and store the report on the book version
+ * Returns null for other formats, or if validation itself failed
+ */
+export async function recordEpubValidation(
+  bookVersionId: string,
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<EpubValidationReport | null> {
+  if (!isEpubFileName(fileName)) {
+    return null;
+  }
+
+  try {
+    const report = validateEpub(fileBuffer);
+
+    await db
+      .update(bookVersions)
+      .set({ epubValidation: JSON.stringify(report) })
+      .where(eq(bookVersions.id, bookVersionId));
+
+    console.log(`[EPUB Check] Validated version ${bookVersionId}:`, {
+      errors: report.errorCount,
+      warnings: report.warningCount,
+    });
+
+    return report;
+  } catch (error) {
+    // The report is informational - never fail an upload over it
+    console.error(`[EPUB Check] Failed to validate version ${bookVersionId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Parse a stored validation report (null when missing or unreadable)
+ */
+export function parseEpubValidation(value: string | null | undefined): EpubValidationReport | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as EpubValidationReport;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,311 @@
+import { z } from "zod";
+import { db } from "@/server/db";
+import {
+  bookVersions,
+  reportAnnotationComments,
+  reportAnnotations,
+  reports,
+  users,
+} from "@/server/db/schema";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+
+/**
+ * Author annotations on manuscript reports
+ *
+ * An annotation highlights a range of a report's text, stored as character
+ * offsets into the text the report viewer renders plus the quoted text and a
+ * little context either side, so the overlay can find the range again after the
+ * report is re-uploaded. Each annotation carries a comment thread that the
+ * author and our admins reply to, and can be resolved and reopened.
+ */
+
+const MAX_QUOTE_LENGTH = 5000;
+const MAX_CONTEXT_LENGTH = 200;
+const MAX_COMMENT_LENGTH = 5000;
+
+const commentBodySchema = z.string().trim().min(1, "Comment cannot be empty").max(MAX_COMMENT_LENGTH);
+
+const createAnnotationSchema = z
+  .object({
+    reportId: z.string().min(1),
+    quote: z.string().min(1, "Select some text to annotate").max(MAX_QUOTE_LENGTH),
+    prefix: z.string().max(MAX_CONTEXT_LENGTH).optional(),
+    suffix: z.string().max(MAX_CONTEXT_LENGTH).optional(),
+    startOffset: z.number().int().min(0),
+    endOffset: z.number().int().min(1),
+    comment: commentBodySchema.optional(),
+  })
+  .refine((input) => input.endOffset > input.startOffset, {
+    message: "endOffset must be after startOffset",
+    path: ["endOffset"],
+  });
+
+export interface AnnotationComment {
+  id: string;
+  userId: string;
+  authorName: string | null;
+  body: string;
+  fromAdmin: boolean;
+  createdAt: Date;
+}
+
+export interface AnnotationThread {
+  id: string;
+  reportId: string;
+  versionNumber: number;
+  userId: string;
+  authorName: string | null;
+  quote: string;
+  prefix: string | null;
+  suffix: string | null;
+  startOffset: number;
+  endOffset: number;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+  createdAt: Date;
+  comments: AnnotationComment[];
+}
+
+export type AnnotationResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+function invalid(error: z.ZodError): { ok: false; status: number; error: string } {
+  const issue = error.issues[0];
+  return { ok: false, status: 400, error: issue?.message ?? "Invalid annotation" };
+}
+
+// Annotation, but only when it is on a report of this book
+async function findAnnotation(bookId: string, annotationId: string) {
+  const [row] = await db
+    .select({ annotation: reportAnnotations })
+    .from(reportAnnotations)
+    .innerJoin(reports, eq(reportAnnotations.reportId, reports.id))
+    .innerJoin(bookVersions, eq(reports.bookVersionId, bookVersions.id))
+    .where(and(eq(reportAnnotations.id, annotationId), eq(bookVersions.bookId, bookId)))
+    .limit(1);
+  return row?.annotation;
+}
+
+async function getThread(bookId: string, annotationId: string): Promise<AnnotationThread> {
+  const [thread] = await listAnnotations(bookId, { annotationIds: [annotationId] });
+  return thread!;
+}
+
+/**
+ * Annotations with their comment threads, latest version first and then in report order;
+ * all of the book's reports unless one is given
+ */
+export async function listAnnotations(
+  bookId: string,
+  options: { reportId?: string; annotationIds?: string[] } = {}
+): Promise<AnnotationThread[]> {
+  const conditions = [eq(bookVersions.bookId, bookId)];
+  if (options.reportId) conditions.push(eq(reportAnnotations.reportId, options.reportId));
+  if (options.annotationIds) conditions.push(inArray(reportAnnotations.id, options.annotationIds));
+
+  const rows = await db
+    .select({
+      annotation: reportAnnotations,
+      versionNumber: bookVersions.versionNumber,
+      authorName: users.name,
+    })
+    .from(reportAnnotations)
+    .innerJoin(reports, eq(reportAnnotations.reportId, reports.id))
+    .innerJoin(bookVersions, eq(reports.bookVersionId, bookVersions.id))
+    .leftJoin(users, eq(reportAnnotations.userId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(bookVersions.versionNumber), asc(reportAnnotations.startOffset), asc(reportAnnotations.createdAt));
+
+  if (rows.length === 0) return [];
+
+  const comments = await db
+    .select({ comment: reportAnnotationComments, authorName: users.name })
+    .from(reportAnnotationComments)
+    .leftJoin(users, eq(reportAnnotationComments.userId, users.id))
+    .where(inArray(reportAnnotationComments.annotationId, rows.map((row) => row.annotation.id)))
+    // Comments in the same second keep the order they were written
+    .orderBy(asc(reportAnnotationComments.createdAt), asc(sql`${reportAnnotationComments}.rowid`));
+
+  return rows.map(({ annotation, versionNumber, authorName }) => ({
+    id: annotation.id,
+    reportId: annotation.reportId,
+    versionNumber,
+    userId: annotation.userId,
+    authorName,
+    quote: annotation.quote,
+    prefix: annotation.prefix,
+    suffix: annotation.suffix,
+    startOffset: annotation.startOffset,
+    endOffset: annotation.endOffset,
+    resolvedAt: annotation.resolvedAt,
+    resolvedBy: annotation.resolvedBy,
+    createdAt: annotation.createdAt,
+    comments: comments
+      .filter(({ comment }) => comment.annotationId === annotation.id)
+      .map(({ comment, authorName: commentAuthor }) => ({
+        id: comment.id,
+        userId: comment.userId,
+        authorName: commentAuthor,
+        body: comment.body,
+        fromAdmin: comment.fromAdmin,
+        createdAt: comment.createdAt,
+      })),
+  }));
+}
+
+/**
+ * Highlight a range of a completed report of this book, optionally starting its thread
+ */
+export async function createAnnotation(
+  bookId: string,
+  userId: string,
+  input: unknown,
+  options: { fromAdmin?: boolean } = {}
+): Promise<AnnotationResult<AnnotationThread>> {
+  const parsed = createAnnotationSchema.safeParse(input);
+  if (!parsed.success) return invalid(parsed.error);
+  const { reportId, quote, prefix, suffix, startOffset, endOffset, comment } = parsed.data;
+
+  const [report] = await db
+    .select({ id: reports.id, status: reports.status })
+    .from(reports)
+    .innerJoin(bookVersions, eq(reports.bookVersionId, bookVersions.id))
+    .where(and(eq(reports.id, reportId), eq(bookVersions.bookId, bookId)))
+    .limit(1);
+
+  if (!report || report.status !== "completed") {
+    return { ok: false, status: 404, error: "Report not found" };
+  }
+
+  const [annotation] = await db
+    .insert(reportAnnotations)
+    .values({
+      reportId,
+      userId,
+      quote,
+      prefix: prefix || null,
+      suffix: suffix || null,
+      startOffset,
+      endOffset,
+    })
+    .returning({ id: reportAnnotations.id });
+
+  if (comment) {
+    await db.insert(reportAnnotationComments).values({
+      annotationId: annotation!.id,
+      userId,
+      body: comment,
+      fromAdmin: options.fromAdmin ?? false,
+    });
+  }
+
+  return { ok: true, value: await getThread(bookId, annotation!.id) };
+}
+
+/**
+ * Reply to an annotation's thread
+ */
+export async function addAnnotationComment(
+  bookId: string,
+  annotationId: string,
+  userId: string,
+  body: unknown,
+  options: { fromAdmin?: boolean } = {}
+): Promise<AnnotationResult<AnnotationThread>> {
+  const parsed = commentBodySchema.safeParse(body);
+  if (!parsed.success) return invalid(parsed.error);
+
+  const annotation = await findAnnotation(bookId, annotationId);
+  if (!annotation) {
+    return { ok: false, status: 404, error: "Annotation not found" };
+  }
+
+  await db.insert(reportAnnotationComments).values({
+    annotationId,
+    userId,
+    body: parsed.data,
+    fromAdmin: options.fromAdmin ?? false,
+  });
+  await db
+    .update(reportAnnotations)
+    .set({ updatedAt: new Date() })
+    .where(eq(reportAnnotations.id, annotationId));
+
+  return { ok: true, value: await getThread(bookId, annotationId) };
+}
+
+/**
+ * Resolve an annotation's thread, or reopen it
+ */
+export async function setAnnotationResolved(
+  bookId: string,
+  annotationId: string,
+  userId: string,
+  resolved: boolean
+): Promise<AnnotationResult<AnnotationThread>> {
+  const annotation = await findAnnotation(bookId, annotationId);
+  if (!annotation) {
+    return { ok: false, status: 404, error: "Annotation not found" };
+  }
+
+  await db
+    .update(reportAnnotations)
+    .set({
+      resolvedAt: resolved ? new Date() : null,
+      resolvedBy: resolved ? userId : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(reportAnnotations.id, annotationId));
+
+  return { ok: true, value: await getThread(bookId, annotationId) };
+}
+
+/**
+ * Remove the annotations on reports that are about to be deleted, by report or by book version
+ */
+export async function deleteReportAnnotations(filter: {
+  reportIds?: string[];
+  bookVersionIds?: string[];
+}): Promise<void> {
+  const reportIds = [...(filter.reportIds ?? [])];
+  if (filter.bookVersionIds && filter.bookVersionIds.length > 0) {
+    const versionReports = await db
+      .select({ id: reports.id })
+      .from(reports)
+      .where(inArray(reports.bookVersionId, filter.bookVersionIds));
+    reportIds.push(...versionReports.map((report) => report.id));
+  }
+  if (reportIds.length === 0) return;
+
+  const annotations = await db
+    .select({ id: reportAnnotations.id })
+    .from(reportAnnotations)
+    .where(inArray(reportAnnotations.reportId, reportIds));
+  if (annotations.length === 0) return;
+
+  const annotationIds = annotations.map((annotation) => annotation.id);
+  await db.delete(reportAnnotationComments).where(inArray(reportAnnotationComments.annotationId, annotationIds));
+  await db.delete(reportAnnotations).where(inArray(reportAnnotations.id, annotationIds));
+}
+
+/**
+ * Remove an annotation and its thread; only whoever made it, or an admin, may
+ */
+export async function deleteAnnotation(
+  bookId: string,
+  annotationId: string,
+  userId: string,
+  options: { isAdmin?: boolean } = {}
+): Promise<AnnotationResult<{ id: string }>> {
+  const annotation = await findAnnotation(bookId, annotationId);
+  if (!annotation) {
+    return { ok: false, status: 404, error: "Annotation not found" };
+  }
+  if (annotation.userId !== userId && !options.isAdmin) {
+    return { ok: false, status: 403, error: "Only the author of an annotation can delete it" };
+  }
+
+  await db.delete(reportAnnotationComments).where(eq(reportAnnotationComments.annotationId, annotationId));
+  await db.delete(reportAnnotations).where(eq(reportAnnotations.id, annotationId));
+
+  return { ok: true, value: { id: annotationId } };
+}
@@ -0,0 +1,191 @@
+import { createHash } from "crypto";
+import path from "path";
+import { db } from "@/server/db";
+import { reports } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { getBlobStore } from "@/server/storage";
+import { bundleReportHtmlFromContent } from "@/server/utils/bundle-report-html";
+import {
+  buildPrintableReportHtml,
+  buildReportPageTemplates,
+  type PrintableReportDetails,
+} from "@/server/utils/build-printable-report";
+import { SANDBOX_SCRIPT_SOURCES, sandboxHtml, sanitizeUploadedHtml } from "@/server/utils/sandbox-html";
+
+/**
+ * PDF exports of manuscript reports
+ *
+ * The report's bundled HTML is printed by headless Chromium (playwright-core)
+ * with a cover page, contents and page headers/footers. Each PDF is cached in
+ * the reports store under the report id and a hash of its HTML and printed
+ * details, so re-uploading a report produces a new PDF and the previous one is
+ * deleted.
+ *
+ * Chromium runs on the server, so the report is printed the way it is viewed:
+ * sanitized and served with the sandbox CSP, and every request it makes other
+ * than for data: and blob: URLs or to the CDN and font hosts below is blocked.
+ */
+
+// Rendering waits for the Tailwind CDN script; give up on pages that never settle
+const RENDER_TIMEOUT_MS = 60_000;
+
+// The report is served to Chromium from here, so it gets the sandbox CSP as a real response header
+const DOCUMENT_URL = "https://report-pdf.invalid/";
+
+// Web fonts reports load alongside the scripts allowed by SANDBOX_SCRIPT_SOURCES
+const PDF_FONT_HOSTS = ["https://fonts.googleapis.com", "https://fonts.gstatic.com"];
+
+// CDN redirects (e.g. unpkg's @latest) leave the allowlisted paths, so requests are checked by
+// origin; the sandbox CSP still decides which scripts run
+const PDF_REQUEST_HOSTS = [...new Set(SANDBOX_SCRIPT_SOURCES.map((source) => new URL(source).origin)), ...PDF_FONT_HOSTS];
+
+export interface ReportPdfSource {
+  id: string;
+  bookId: string;
+  htmlContent: string;
+  pdfUrl: string | null;
+}
+
+export type ReportPdfDetails = Omit<PrintableReportDetails, "generatedAt">;
+
+// Renders in progress, so simultaneous downloads of a new revision print once
+const inFlight = new Map<string, Promise<Buffer>>();
+
+// Each render launches its own Chromium, so renders of different reports wait their turn
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Identifies a printed report; changes whenever its HTML or the cover and header details do
+ */
+export function getReportRevision(htmlContent: string, details: ReportPdfDetails): string {
+  const printed = [htmlContent, details.title, details.author ?? null, details.versionNumber ?? null];
+  return createHash("sha256").update(JSON.stringify(printed)).digest("hex").slice(0, 16);
+}
+
+function getPdfKey(reportId: string, revision: string): string {
+  return `pdf/${reportId}/${revision}.pdf`;
+}
+
+function getPdfUrl(bookId: string, revision: string): string {
+  return `/api/books/${bookId}/report/download?format=pdf&revision=${revision}`;
+}
+
+// Revision of the PDF recorded in `pdfUrl` by an earlier export, if any
+function getCachedRevision(pdfUrl: string | null): string | null {
+  if (!pdfUrl?.includes("format=pdf")) return null;
+  return new URL(pdfUrl, "http://localhost").searchParams.get("revision");
+}
+
+// Images referenced by path rather than embedded are looked up where uploads put them
+function getImageSearchDirs(): string[] {
+  const dirs = [path.resolve(process.env.REPORT_STORAGE_PATH || "./uploads/reports")];
+  if (process.env.BOOK_REPORTS_PATH) {
+    dirs.push(path.resolve(process.env.BOOK_REPORTS_PATH));
+  }
+  return dirs;
+}
+
+/**
+ * Whether Chromium may make a request while printing a report
+ * Anything on the server's own network, file: URLs and other hosts are refused.
+ */
+export function isAllowedPdfRequest(url: string): boolean {
+  if (url.startsWith("data:") || url.startsWith("blob:")) return true;
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === "https:" && PDF_REQUEST_HOSTS.includes(origin);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Print HTML to a PDF with headless Chromium, one render at a time
+ */
+export function renderReportPdf(html: string, details: PrintableReportDetails): Promise<Buffer> {
+  const render = renderQueue.then(() => printReportPdf(html, details));
+  renderQueue = render.catch(() => undefined);
+  return render;
+}
+
+async function printReportPdf(html: string, details: PrintableReportDetails): Promise<Buffer> {
+  const { chromium } = await import("playwright-core");
+  const browser = await chromium.launch({
+    executablePath: process.env.REPORT_PDF_CHROMIUM_PATH || undefined,
+  });
+
+  try {
+    const page = await browser.newPage();
+    const document = sandboxHtml(sanitizeUploadedHtml(buildPrintableReportHtml(html, details)));
+
+    await page.route("**/*", (route) => {
+      const url = route.request().url();
+      if (url === DOCUMENT_URL) {
+        return route.fulfill({
+          status: 200,
+          contentType: "text/html; charset=utf-8",
+          headers: document.headers,
+          body: document.html,
+        });
+      }
+      return isAllowedPdfRequest(url) ? route.continue() : route.abort("blockedbyclient");
+    });
+    await page.goto(DOCUMENT_URL, {
+      waitUntil: "networkidle",
+      timeout: RENDER_TIMEOUT_MS,
+    });
+    await page.emulateMedia({ media: "print" });
+
+    const pdf = await page.pdf({
+      format: "A4",
+      printBackground: true,
+      preferCSSPageSize: true,
+      displayHeaderFooter: true,
+      ...buildReportPageTemplates(details),
+      margin: { top: "22mm", bottom: "20mm", left: "14mm", right: "14mm" },
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
+
+async function generateReportPdf(report: ReportPdfSource, revision: string, details: ReportPdfDetails): Promise<Buffer> {
+  const store = getBlobStore("reports");
+  const bundledHtml = await bundleReportHtmlFromContent(report.htmlContent, getImageSearchDirs());
+  const pdf = await renderReportPdf(bundledHtml, { ...details, generatedAt: new Date() });
+
+  await store.put(getPdfKey(report.id, revision), pdf, { contentType: "application/pdf" });
+  await db
+    .update(reports)
+    .set({ pdfUrl: getPdfUrl(report.bookId, revision) })
+    .where(eq(reports.id, report.id));
+
+  const previous = getCachedRevision(report.pdfUrl);
+  if (previous && previous !== revision) {
+    await store.delete(getPdfKey(report.id, previous));
+  }
+
+  console.log(`[Report PDF] Rendered report ${report.id} revision ${revision} (${pdf.length} bytes)`);
+  return pdf;
+}
+
+/**
+ * PDF of a report's current HTML, rendered on first request and cached per revision
+ */
+export async function getReportPdf(report: ReportPdfSource, details: ReportPdfDetails): Promise<Buffer> {
+  const revision = getReportRevision(report.htmlContent, details);
+  const key = getPdfKey(report.id, revision);
+
+  const cached = await getBlobStore("reports").get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = generateReportPdf(report, revision, details).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
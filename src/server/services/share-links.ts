@@ -0,0 +1,359 @@
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { db } from "@/server/db";
+import { bookCovers, books, bookVersions, landingPages, marketingAssets, reports, shareLinks } from "@/server/db/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import {
+  createShareToken,
+  createShareUnlockValue,
+  readShareToken,
+  verifyShareUnlockValue,
+} from "@/server/utils/share-token";
+
+/**
+ * Share links for a book's deliverables
+ *
+ * Authors can share the manuscript report, covers gallery, marketing assets or
+ * landing page preview with someone who has no account. A link serves whichever
+ * deliverable is active when it is opened (the same one the author sees), until
+ * it expires or is revoked. Links can need a password and count their views.
+ */
+
+export const SHARE_ASSET_TYPES = ["report", "covers", "marketing-assets", "landing-page"] as const;
+export type ShareAssetType = (typeof SHARE_ASSET_TYPES)[number];
+
+export const SHARE_ASSET_LABELS: Record<ShareAssetType, string> = {
+  report: "Manuscript report",
+  covers: "Book covers",
+  "marketing-assets": "Marketing assets",
+  "landing-page": "Landing page preview",
+};
+
+export const MAX_SHARE_LINK_DAYS = 90;
+const MIN_PASSWORD_LENGTH = 6;
+
+const createShareLinkSchema = z.object({
+  bookId: z.string().min(1, "Choose a book"),
+  assetType: z.enum(SHARE_ASSET_TYPES),
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS).default(7),
+  label: z.string().trim().max(255).optional(),
+  password: z
+    .string()
+    .max(128)
+    .refine((password) => password === "" || password.length >= MIN_PASSWORD_LENGTH, {
+      message: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`,
+    })
+    .optional(),
+});
+
+type ShareLinkRow = typeof shareLinks.$inferSelect;
+
+export interface ShareLinkSummary {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  assetType: string;
+  label: string | null;
+  hasPassword: boolean;
+  status: "active" | "expired" | "revoked";
+  expiresAt: Date;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+  url: string; // Path of the public page; add the site's origin to share it
+}
+
+export type ShareLinkResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+function getShareSecret(): string {
+  const secret = process.env.BETTER_AUTH_SECRET || process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not configured");
+  }
+  return secret;
+}
+
+export function getShareUrl(link: Pick<ShareLinkRow, "id" | "expiresAt">): string {
+  return `/api/share/${createShareToken(getShareSecret(), link.id, link.expiresAt)}`;
+}
+
+function summarize(link: ShareLinkRow, bookTitle: string, now: Date): ShareLinkSummary {
+  return {
+    id: link.id,
+    bookId: link.bookId,
+    bookTitle,
+    assetType: link.assetType,
+    label: link.label,
+    hasPassword: Boolean(link.passwordHash),
+    status: link.revokedAt ? "revoked" : link.expiresAt <= now ? "expired" : "active",
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    viewCount: link.viewCount,
+    lastViewedAt: link.lastViewedAt,
+    createdAt: link.createdAt,
+    url: getShareUrl(link),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Uploaded HTML sometimes has links to the machine it was made on
+function stripLocalhostUrls(html: string): string {
+  return html.replace(/https?:\/\/localhost:\d+\//gi, "/").replace(/https?:\/\/127\.0\.0\.1:\d+\//gi, "/");
+}
+
+function readMetadataHtml(metadata: string | null): string | null {
+  if (!metadata) return null;
+  try {
+    const parsed = JSON.parse(metadata);
+    return typeof parsed.htmlContent === "string" ? parsed.htmlContent : null;
+  } catch {
+    return null;
+  }
+}
+
+function isHtmlVariant(metadata: string | null): boolean {
+  if (!metadata) return false;
+  try {
+    return JSON.parse(metadata).variant === "html";
+  } catch {
+    return false;
+  }
+}
+
+async function getReportHtml(bookId: string): Promise<string | null> {
+  const [latestVersion] = await db
+    .select({ id: bookVersions.id })
+    .from(bookVersions)
+    .where(eq(bookVersions.bookId, bookId))
+    .orderBy(desc(bookVersions.uploadedAt))
+    .limit(1);
+  if (!latestVersion) return null;
+
+  const completed = await db
+    .select({ htmlContent: reports.htmlContent, adminNotes: reports.adminNotes })
+    .from(reports)
+    .where(and(eq(reports.bookVersionId, latestVersion.id), eq(reports.status, "completed")))
+    .orderBy(desc(reports.requestedAt));
+
+  // The active report if one is marked, as in the author's viewer, else the latest
+  const active = completed.find((report) => {
+    if (!report.adminNotes) return false;
+    try {
+      return JSON.parse(report.adminNotes).isActive === true;
+    } catch {
+      return false;
+    }
+  });
+  return (active ?? completed[0])?.htmlContent ?? null;
+}
+
+async function getCoversHtml(bookId: string, bookTitle: string): Promise<string | null> {
+  const covers = await db.select().from(bookCovers).where(eq(bookCovers.bookId, bookId));
+  const primary =
+    covers.find((cover) => cover.isPrimary) ?? covers.find((cover) => isHtmlVariant(cover.metadata)) ?? covers[0];
+  if (!primary) return null;
+
+  const html = readMetadataHtml(primary.metadata);
+  if (html) return html;
+
+  // Image covers get a plain gallery
+  const images = covers.filter((cover) => cover.imageUrl);
+  if (images.length === 0) return null;
+  const figures = images
+    .map(
+      (cover) => `
+      <figure>
+        <img src="${escapeHtml(cover.imageUrl!)}" alt="${escapeHtml(cover.title || bookTitle)}">
+        ${cover.title ? `<figcaption>${escapeHtml(cover.title)}</figcaption>` : ""}
+      </figure>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(bookTitle)} - Covers</title>
+    <style>
+      body { font-family: system-ui, -apple-system, sans-serif; margin: 0; padding: 2rem; background: #f9fafb; color: #111827; }
+      h1 { text-align: center; margin-bottom: 2rem; }
+      .gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 1.5rem; }
+      figure { margin: 0; text-align: center; }
+      img { width: 100%; border-radius: 0.5rem; box-shadow: 0 4px 12px rgba(0,0,0,0.15); }
+      figcaption { margin-top: 0.5rem; color: #4b5563; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(bookTitle)}</h1>
+    <div class="gallery">${figures}
+    </div>
+  </body>
+</html>`;
+}
+
+async function getMarketingAssetsHtml(bookId: string): Promise<string | null> {
+  const assets = await db.select().from(marketingAssets).where(eq(marketingAssets.bookId, bookId));
+  const active =
+    assets.find((asset) => asset.isActive === true) ?? assets.find((asset) => isHtmlVariant(asset.metadata)) ?? assets[0];
+  return active ? readMetadataHtml(active.metadata) : null;
+}
+
+async function getLandingPageHtml(bookId: string): Promise<string | null> {
+  const pages = await db.select().from(landingPages).where(eq(landingPages.bookId, bookId));
+  const page = pages.find((landingPage) => landingPage.isActive === true) ?? pages[0];
+  return page?.htmlContent ?? null;
+}
+
+/**
+ * HTML of the book's current deliverable of a type, or null if there is none yet
+ */
+export async function getSharedContent(bookId: string, assetType: string): Promise<string | null> {
+  const [book] = await db.select({ title: books.title }).from(books).where(eq(books.id, bookId)).limit(1);
+  if (!book) return null;
+
+  let html: string | null = null;
+  if (assetType === "report") html = await getReportHtml(bookId);
+  else if (assetType === "covers") html = await getCoversHtml(bookId, book.title);
+  else if (assetType === "marketing-assets") html = await getMarketingAssetsHtml(bookId);
+  else if (assetType === "landing-page") html = await getLandingPageHtml(bookId);
+
+  return html ? stripLocalhostUrls(html) : null;
+}
+
+/**
+ * Share a deliverable of one of the user's books
+ */
+export async function createShareLink(
+  userId: string,
+  input: unknown,
+  now: Date = new Date()
+): Promise<ShareLinkResult<ShareLinkSummary>> {
+  const parsed = createShareLinkSchema.safeParse(input);
+  if (!parsed.success) {
+    return { ok: false, status: 400, error: parsed.error.issues[0]?.message ?? "Invalid share link" };
+  }
+  const { bookId, assetType, expiresInDays, label, password } = parsed.data;
+
+  const [book] = await db
+    .select({ userId: books.userId, title: books.title })
+    .from(books)
+    .where(eq(books.id, bookId))
+    .limit(1);
+  if (!book || book.userId !== userId) {
+    return { ok: false, status: 404, error: "Book not found" };
+  }
+
+  if (!(await getSharedContent(bookId, assetType))) {
+    return { ok: false, status: 404, error: `This book has no ${SHARE_ASSET_LABELS[assetType].toLowerCase()} to share yet` };
+  }
+
+  const [link] = await db
+    .insert(shareLinks)
+    .values({
+      bookId,
+      userId,
+      assetType,
+      label: label || null,
+      passwordHash: password ? await bcrypt.hash(password, 10) : null,
+      // Whole seconds, so the token's expiry matches the stored one
+      expiresAt: new Date(Math.floor(now.getTime() / 1000 + expiresInDays * 24 * 60 * 60) * 1000),
+      createdAt: now,
+    })
+    .returning();
+
+  console.log(`[Share Links] User ${userId} shared ${assetType} of book ${bookId} until ${link!.expiresAt.toISOString()}`);
+  return { ok: true, value: summarize(link!, book.title, now) };
+}
+
+/**
+ * All of a user's share links, newest first
+ */
+export async function listShareLinks(userId: string, now: Date = new Date()): Promise<ShareLinkSummary[]> {
+  const rows = await db
+    .select({ link: shareLinks, bookTitle: books.title })
+    .from(shareLinks)
+    .innerJoin(books, eq(shareLinks.bookId, books.id))
+    .where(eq(shareLinks.userId, userId))
+    .orderBy(desc(shareLinks.createdAt));
+
+  return rows.map(({ link, bookTitle }) => summarize(link, bookTitle, now));
+}
+
+/**
+ * Stop a link from working; it stays in the list as revoked
+ */
+export async function revokeShareLink(
+  userId: string,
+  linkId: string,
+  now: Date = new Date()
+): Promise<ShareLinkResult<ShareLinkSummary>> {
+  const [row] = await db
+    .select({ link: shareLinks, bookTitle: books.title })
+    .from(shareLinks)
+    .innerJoin(books, eq(shareLinks.bookId, books.id))
+    .where(and(eq(shareLinks.id, linkId), eq(shareLinks.userId, userId)))
+    .limit(1);
+  if (!row) {
+    return { ok: false, status: 404, error: "Share link not found" };
+  }
+
+  const revokedAt = row.link.revokedAt ?? now;
+  await db.update(shareLinks).set({ revokedAt }).where(eq(shareLinks.id, linkId));
+  return { ok: true, value: summarize({ ...row.link, revokedAt }, row.bookTitle, now) };
+}
+
+/**
+ * The link a token opens, if it is still valid
+ */
+export async function resolveShareToken(token: string, now: Date = new Date()): Promise<ShareLinkResult<ShareLinkRow>> {
+  const read = readShareToken(getShareSecret(), token, now);
+  if (!read.ok) {
+    return { ok: false, status: read.error.includes("expired") ? 410 : 404, error: read.error };
+  }
+
+  const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, read.linkId)).limit(1);
+  if (!link || link.expiresAt.getTime() !== read.expiresAt.getTime()) {
+    return { ok: false, status: 404, error: "Invalid share link" };
+  }
+  if (link.revokedAt) {
+    return { ok: false, status: 410, error: "This share link has been revoked" };
+  }
+  return { ok: true, value: link };
+}
+
+export async function checkShareLinkPassword(link: ShareLinkRow, password: string): Promise<boolean> {
+  if (!link.passwordHash) return true;
+  return bcrypt.compare(password, link.passwordHash);
+}
+
+/**
+ * Cookie set once a link's password has been entered, so the viewer isn't asked again
+ */
+export function getShareUnlockCookie(link: ShareLinkRow): { name: string; value: string } {
+  return {
+    name: `share_unlock_${link.id}`,
+    value: createShareUnlockValue(getShareSecret(), link.id, link.passwordHash ?? ""),
+  };
+}
+
+export function isShareLinkUnlocked(link: ShareLinkRow, cookieValue: string | undefined): boolean {
+  if (!link.passwordHash) return true;
+  return verifyShareUnlockValue(getShareSecret(), link.id, link.passwordHash, cookieValue);
+}
+
+export async function recordShareLinkView(linkId: string, now: Date = new Date()): Promise<void> {
+  await db
+    .update(shareLinks)
+    .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: now })
+    .where(eq(shareLinks.id, linkId));
+}
@@ -0,0 +1,92 @@
+import { db } from "@/server/db";
+import { bookVersions, reports } from "@/server/db/schema";
+import { and, desc, eq, ne } from "drizzle-orm";
+import { getBlobStore } from "@/server/storage";
+import { parseStructuredReport, readStructuredReport } from "@/server/utils/report-schema";
+import { renderReportHtml } from "@/server/utils/render-report-html";
+
+/**
+ * Structured manuscript reports
+ *
+ * Admins upload a report as JSON; it is validated, stored on the version's
+ * report and rendered to the HTML the viewer serves. Re-uploading replaces the
+ * version's latest full report rather than adding another.
+ */
+
+type ReportRow = typeof reports.$inferSelect;
+
+export type SaveStructuredReportResult =
+  | { ok: true; report: ReportRow }
+  | { ok: false; status: number; error: string; details?: string[] };
+
+export async function saveStructuredReport(
+  bookId: string,
+  input: unknown,
+  options: { analyzedBy: string; bookVersionId?: string }
+): Promise<SaveStructuredReportResult> {
+  const parsed = parseStructuredReport(input);
+  if (!parsed.ok) {
+    return { ok: false, status: 400, error: "Invalid structured report", details: parsed.errors };
+  }
+
+  const [version] = await db
+    .select({ id: bookVersions.id })
+    .from(bookVersions)
+    .where(
+      options.bookVersionId
+        ? and(eq(bookVersions.id, options.bookVersionId), eq(bookVersions.bookId, bookId))
+        : eq(bookVersions.bookId, bookId)
+    )
+    .orderBy(desc(bookVersions.uploadedAt))
+    .limit(1);
+
+  if (!version) {
+    return { ok: false, status: 404, error: "No book version found" };
+  }
+
+  const [existing] = await db
+    .select({ id: reports.id })
+    .from(reports)
+    .where(and(eq(reports.bookVersionId, version.id), ne(reports.status, "preview")))
+    .orderBy(desc(reports.requestedAt))
+    .limit(1);
+
+  const reportId = existing?.id ?? crypto.randomUUID();
+  const values = {
+    status: "completed",
+    completedAt: new Date(),
+    analyzedBy: options.analyzedBy,
+    structuredContent: JSON.stringify(parsed.report),
+    htmlContent: renderReportHtml(parsed.report),
+  };
+
+  if (existing) {
+    await db.update(reports).set(values).where(eq(reports.id, reportId));
+  } else {
+    await db.insert(reports).values({ id: reportId, bookVersionId: version.id, requestedAt: new Date(), ...values });
+  }
+
+  // Keep the stored file in step with the row, as the HTML upload does
+  await getBlobStore("reports").put(`${reportId}.html`, Buffer.from(values.htmlContent, "utf-8"), {
+    contentType: "text/html",
+  });
+  console.log(`[Structured Report] Saved report ${reportId} for version ${version.id}`);
+
+  const [report] = await db.select().from(reports).where(eq(reports.id, reportId)).limit(1);
+  return { ok: true, report: report! };
+}
+
+/**
+ * Teaser HTML rendered from the latest completed structured report of a version
+ */
+export async function renderStructuredPreview(bookVersionId: string): Promise<string | null> {
+  const [report] = await db
+    .select({ structuredContent: reports.structuredContent })
+    .from(reports)
+    .where(and(eq(reports.bookVersionId, bookVersionId), eq(reports.status, "completed")))
+    .orderBy(desc(reports.requestedAt))
+    .limit(1);
+
+  const structured = readStructuredReport(report?.structuredContent);
+  return structured ? renderReportHtml(structured, { variant: "preview" }) : null;
+}
@@ -0,0 +1,60 @@
+import { extractManuscriptMetadata } from "@/server/utils/extract-manuscript-metadata";
+import { readBookVersionFile } from "@/server/utils/book-version-file";
+import { diffManuscripts, type ManuscriptDiff, type ManuscriptDocument } from "@/server/utils/manuscript-diff";
+
+interface DiffableVersion {
+  id: string;
+  bookId: string;
+  versionNumber: number;
+  fileName: string;
+  storagePath?: string | null;
+  fileData?: string | null;
+}
+
+export type VersionDiffResult =
+  | { ok: true; diff: ManuscriptDiff }
+  | { ok: false; versionNumber: number; error: string };
+
+/**
+ * Read a version's file and extract its text and chapters
+ */
+async function loadVersionDocument(
+  version: DiffableVersion
+): Promise<{ ok: true; document: ManuscriptDocument } | { ok: false; error: string }> {
+  const fileBuffer = await readBookVersionFile(version);
+  if (!fileBuffer) {
+    return { ok: false, error: "File not found" };
+  }
+
+  const metadata = await extractManuscriptMetadata(fileBuffer, version.fileName);
+  if (!metadata?.text?.trim()) {
+    return { ok: false, error: "No text could be extracted from this file" };
+  }
+
+  return { ok: true, document: { text: metadata.text, chapters: metadata.chapters ?? [] } };
+}
+
+/**
+ * Compare the extracted text of two versions of a book
+ */
+export async function compareBookVersions(
+  fromVersion: DiffableVersion,
+  toVersion: DiffableVersion
+): Promise<VersionDiffResult> {
+  const [from, to] = await Promise.all([
+    loadVersionDocument(fromVersion),
+    loadVersionDocument(toVersion),
+  ]);
+
+  if (!from.ok) {
+    return { ok: false, versionNumber: fromVersion.versionNumber, error: from.error };
+  }
+  if (!to.ok) {
+    return { ok: false, versionNumber: toVersion.versionNumber, error: to.error };
+  }
+
+  console.log(
+    `[Diff] Compared book ${toVersion.bookId} v${fromVersion.versionNumber} -> v${toVersion.versionNumber}`
+  );
+  return { ok: true, diff: diffManuscripts(from.document, to.document) };
+}
@@ -0,0 +1,38 @@
+import { db } from "@/server/db";
+import { bookVersions } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import type { ManuscriptMetadata } from "@/server/utils/extract-manuscript-metadata";
+import { computeManuscriptStats, type ManuscriptStats } from "@/server/utils/manuscript-stats";
+
+/**
+ * Compute manuscript statistics from extracted metadata and store them on the book version
+ * Returns null when the file had no extractable text (e.g. legacy .doc or scanned PDFs)
+ */
+export async function recordVersionStats(
+  bookVersionId: string,
+  metadata: ManuscriptMetadata | null
+): Promise<ManuscriptStats | null> {
+  if (!metadata?.text?.trim()) {
+    return null;
+  }
+
+  try {
+    const stats = computeManuscriptStats(metadata.text, metadata.chapters);
+
+    await db
+      .update(bookVersions)
+      .set(stats)
+      .where(eq(bookVersions.id, bookVersionId));
+
+    console.log(`[Stats] Recorded stats for version ${bookVersionId}:`, {
+      words: stats.wordCount,
+      chapters: stats.chapterCount,
+    });
+
+    return stats;
+  } catch (error) {
+    // Stats are informational - never fail an upload over them
+    console.error(`[Stats] Failed to record stats for version ${bookVersionId}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Blob storage abstraction
+ *
+ * Files are addressed by an area (what kind of file it is) and a key within that
+ * area, e.g. ("covers", "{bookId}.jpg") or ("admin-uploads", "{bookId}/report/videos/intro.mp4").
+ * Drivers decide where the bytes actually live - see ./local.ts and ./s3.ts.
+ */
+
+export type BlobArea = "books" | "covers" | "reports" | "admin-uploads" | "precanned";
+
+export interface BlobInfo {
+  size: number;
+}
+
+export interface PutBlobOptions {
+  contentType?: string;
+}
+
+export interface BlobStore {
+  readonly driver: "local" | "s3";
+  /** Write (or overwrite) a blob */
+  put(key: string, data: Buffer, options?: PutBlobOptions): Promise<void>;
+  /** Read a blob, or null if it doesn't exist */
+  get(key: string): Promise<Buffer | null>;
+  /** Size of a blob, or null if it doesn't exist */
+  stat(key: string): Promise<BlobInfo | null>;
+  /** Delete a blob (no-op if it doesn't exist) */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Check that a key is a plain relative path ("a/b/c.png")
+ * Rejects empty segments, "." and "..", backslashes and absolute paths so keys
+ * can't escape their area on either driver.
+ */
+export function assertValidBlobKey(key: string): void {
+  if (!key || key.startsWith("/") || key.includes("\\") || key.includes("\0")) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  for (const segment of key.split("/")) {
+    if (!segment || segment === "." || segment === "..") {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import path from "path";
+import type { BlobArea, BlobStore } from "./blob-store";
+import { createLocalBlobStore } from "./local";
+import { createS3BlobStore } from "./s3";
+
+export type { BlobArea, BlobInfo, BlobStore, PutBlobOptions } from "./blob-store";
+export { assertValidBlobKey } from "./blob-store";
+
+/**
+ * Where each area lives with the local driver (defaults match the old hard-coded paths)
+ */
+function getLocalRoot(area: BlobArea): string {
+  switch (area) {
+    case "books":
+      return process.env.BOOK_STORAGE_PATH || "./uploads/books";
+    case "covers":
+      return process.env.COVER_STORAGE_PATH || path.join(process.cwd(), "uploads", "covers");
+    case "reports":
+      return process.env.REPORT_STORAGE_PATH || "./uploads/reports";
+    case "admin-uploads":
+      return path.join(process.cwd(), "public", "uploads", "admin");
+    case "precanned":
+      return path.join(process.cwd(), "public", "uploads", "precanned");
+  }
+}
+
+/**
+ * Key prefix for each area when everything shares one S3 bucket
+ */
+const S3_PREFIXES: Record<BlobArea, string> = {
+  books: "books/",
+  covers: "covers/",
+  reports: "reports/",
+  "admin-uploads": "uploads/admin/",
+  precanned: "uploads/precanned/",
+};
+
+/**
+ * Get the blob store for an area
+ *
+ * STORAGE_DRIVER=s3 stores everything in S3_BUCKET at S3_ENDPOINT; anything
+ * else (or unset) uses the local filesystem.
+ */
+export function getBlobStore(area: BlobArea): BlobStore {
+  if (process.env.STORAGE_DRIVER === "s3") {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error(
+        "STORAGE_DRIVER=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY"
+      );
+    }
+
+    return createS3BlobStore({
+      endpoint: S3_ENDPOINT,
+      region: process.env.S3_REGION || "us-east-1",
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      prefix: S3_PREFIXES[area],
+    });
+  }
+
+  return createLocalBlobStore(getLocalRoot(area));
+}
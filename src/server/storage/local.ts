@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { assertValidBlobKey, type BlobStore } from "./blob-store";
+
+/**
+ * Blob store backed by a directory on the local filesystem (e.g. the Render disk)
+ */
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  const root = path.resolve(rootDir);
+
+  function resolveKey(key: string): string {
+    assertValidBlobKey(key);
+    const resolved = path.resolve(root, ...key.split("/"));
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return resolved;
+  }
+
+  return {
+    driver: "local",
+
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write to a temp file and rename so readers never see a partial file
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        const { code } = error as NodeJS.ErrnoException;
+        if (code === "ENOENT" || code === "EISDIR") return null;
+        throw error;
+      }
+    },
+
+    async stat(key) {
+      try {
+        const stats = await fs.stat(resolveKey(key));
+        return stats.isFile() ? { size: stats.size } : null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
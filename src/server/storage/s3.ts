@@ -0,0 +1,169 @@
+import { createHash, createHmac } from "crypto";
+import { assertValidBlobKey, type BlobStore } from "./blob-store";
+
+/**
+ * Blob store backed by an S3-compatible object store (AWS S3, MinIO, R2, B2...)
+ *
+ * Requests are signed with AWS Signature Version 4 and use path-style URLs
+ * (`{endpoint}/{bucket}/{key}`), which every S3-compatible service accepts.
+ */
+
+export interface S3BlobStoreConfig {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string; // Prepended to every key, e.g. "covers/"
+}
+
+interface SignRequestInput {
+  method: string;
+  url: URL;
+  headers: Record<string, string>; // Headers to sign (host is added automatically)
+  payloadHash: string;
+  date: Date;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = createHash("sha256").update("").digest("hex");
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * URI-encode a path segment the way SigV4 expects (RFC 3986 unreserved characters only)
+ */
+function encodeKeySegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Build the SigV4 Authorization header for a request
+ * `headers` must already include x-amz-date and x-amz-content-sha256.
+ */
+export function signS3Request(input: SignRequestInput): string {
+  const amzDate = input.date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = { host: input.url.host };
+  for (const [name, value] of Object.entries(input.headers)) {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, " ");
+  }
+  const headerNames = Object.keys(headers).sort();
+  const canonicalHeaders = headerNames.map((name) => `${name}:${headers[name]}\n`).join("");
+  const signedHeaders = headerNames.join(";");
+
+  const canonicalQuery = [...input.url.searchParams.entries()]
+    .map(([name, value]) => `${encodeKeySegment(name)}=${encodeKeySegment(value)}`)
+    .sort()
+    .join("&");
+
+  const canonicalRequest = [
+    input.method,
+    input.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    input.payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${input.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${input.secretAccessKey}`, dateStamp), input.region), "s3"),
+    "aws4_request"
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+export function createS3BlobStore(config: S3BlobStoreConfig): BlobStore {
+  const endpoint = config.endpoint.replace(/\/+$/, "");
+  const prefix = config.prefix ?? "";
+
+  function objectUrl(key: string): URL {
+    assertValidBlobKey(key);
+    const objectKey = `${prefix}${key}`.split("/").map(encodeKeySegment).join("/");
+    return new URL(`${endpoint}/${encodeKeySegment(config.bucket)}/${objectKey}`);
+  }
+
+  async function send(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = objectUrl(key);
+    const date = new Date();
+    const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+    const signedHeaders: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": date.toISOString().replace(/[:-]|\.\d{3}/g, ""),
+    };
+
+    const authorization = signS3Request({
+      method,
+      url,
+      headers: signedHeaders,
+      payloadHash,
+      date,
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    });
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...signedHeaders,
+        Authorization: authorization,
+        ...(contentType ? { "Content-Type": contentType } : {}),
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  return {
+    driver: "s3",
+
+    async put(key, data, options) {
+      const response = await send("PUT", key, data, options?.contentType);
+      if (!response.ok) {
+        throw new Error(`[S3] PUT ${key} failed with status ${response.status}`);
+      }
+    },
+
+    async get(key) {
+      const response = await send("GET", key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`[S3] GET ${key} failed with status ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async stat(key) {
+      const response = await send("HEAD", key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`[S3] HEAD ${key} failed with status ${response.status}`);
+      }
+      return { size: Number(response.headers.get("content-length") ?? 0) };
+    },
+
+    async delete(key) {
+      const response = await send("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`[S3] DELETE ${key} failed with status ${response.status}`);
+      }
+    },
+  };
+}
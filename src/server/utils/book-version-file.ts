@@ -0,0 +1,70 @@
+import path from "path";
+import { getBlobStore } from "@/server/storage";
+import { putContent, readContent } from "./content-store";
+
+/**
+ * Manuscript files for book versions
+ *
+ * New uploads go to the content-addressed store and the version records the
+ * hash and storage path. Versions from before the store existed are read from
+ * the old per-book copy (`{bookId}{ext}`, `{bookId}-v{n}{ext}`) or the legacy
+ * base64 `fileData` column until the backfill migration has moved them.
+ */
+
+interface StoredBookVersion {
+  bookId: string;
+  versionNumber: number;
+  fileName: string;
+  storagePath?: string | null;
+  fileData?: string | null; // Legacy base64 copy in the database
+}
+
+export interface BookVersionFileLocation {
+  contentHash: string;
+  storagePath: string;
+}
+
+/**
+ * Read the per-book copy written before the content store existed
+ */
+export async function readLegacyBookVersionFile(
+  bookId: string,
+  versionNumber: number,
+  fileName: string
+): Promise<Buffer | null> {
+  const ext = path.extname(fileName);
+  const key = versionNumber <= 1 ? `${bookId}${ext}` : `${bookId}-v${versionNumber}${ext}`;
+  return getBlobStore("books").get(key);
+}
+
+/**
+ * Store a manuscript file, returning the values to record on the book version
+ */
+export async function storeBookVersionFile(fileBuffer: Buffer): Promise<BookVersionFileLocation> {
+  const stored = await putContent(fileBuffer);
+  return { contentHash: stored.hash, storagePath: stored.storagePath };
+}
+
+/**
+ * Read the manuscript file for a book version
+ * Returns null if the file can't be found in the store or any legacy location
+ */
+export async function readBookVersionFile(version: StoredBookVersion): Promise<Buffer | null> {
+  try {
+    if (version.storagePath) {
+      const stored = await readContent(version.storagePath);
+      if (stored) return stored;
+      console.error(`[Storage] ${version.storagePath} is missing from the content store`);
+    }
+
+    const legacy = await readLegacyBookVersionFile(version.bookId, version.versionNumber, version.fileName);
+    if (legacy) return legacy;
+  } catch (error) {
+    console.error(`[Storage] Failed to read file for book ${version.bookId} v${version.versionNumber}:`, error);
+  }
+
+  if (version.fileData) {
+    return Buffer.from(version.fileData, "base64");
+  }
+  return null;
+}
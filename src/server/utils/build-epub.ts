@@ -0,0 +1,275 @@
+import AdmZip from "adm-zip";
+
+/**
+ * EPUB 3 builder for plain manuscripts
+ *
+ * Produces a reflowable EPUB with OPF metadata, a navigation document, an
+ * optional cover page and one XHTML document per chapter. Chapter text is the
+ * plain text from the extractors, so paragraphs are split on blank lines and
+ * no inline formatting is kept.
+ */
+
+export interface EpubChapterInput {
+  title: string;
+  text: string;
+}
+
+export interface EpubBookInput {
+  identifier: string; // Stable per edition, e.g. the book version ID
+  title: string;
+  author?: string | null;
+  description?: string | null;
+  language?: string | null;
+  cover?: Buffer | null;
+  chapters: EpubChapterInput[];
+  modifiedAt?: Date;
+}
+
+interface CoverImageType {
+  mediaType: string;
+  extension: string;
+}
+
+const DEFAULT_LANGUAGE = "en";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STYLESHEET = `body { margin: 0 5%; font-family: serif; line-height: 1.5; }
+h1 { margin: 3em 0 2em; text-align: center; font-size: 1.6em; page-break-before: always; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h1 + p { text-indent: 0; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+nav ol { list-style: none; padding: 0; }
+`;
+
+// XML 1.0 allows tab, line feed, carriage return and everything from space up,
+// except lone surrogates (a string's code points only yield those when unpaired) and U+FFFE/U+FFFF
+function isXmlCharacter(character: string): boolean {
+  const code = character.codePointAt(0) ?? 0;
+  if (code < 0x20) return code === 0x09 || code === 0x0a || code === 0x0d;
+  if (code >= 0xd800 && code <= 0xdfff) return false;
+  return code !== 0xfffe && code !== 0xffff;
+}
+
+/**
+ * Escape text for XML content and attribute values
+ * Also drops characters that are not allowed in XML 1.0
+ */
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isXmlCharacter)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Normalize a language tag, falling back to English when it isn't valid BCP 47
+ */
+function normalizeLanguage(language: string | null | undefined): string {
+  const candidate = language?.trim().replace(/_/g, "-");
+  if (!candidate) return DEFAULT_LANGUAGE;
+  try {
+    return Intl.getCanonicalLocales(candidate)[0] ?? DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+}
+
+/**
+ * Detect the cover image format from its magic bytes
+ * Only raster formats that are EPUB core media types are accepted
+ */
+export function detectCoverImageType(image: Buffer): CoverImageType | null {
+  if (image.length >= 3 && image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff) {
+    return { mediaType: "image/jpeg", extension: "jpg" };
+  }
+  if (image.length >= 8 && image.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { mediaType: "image/png", extension: "png" };
+  }
+  if (image.length >= 6 && /^GIF8[79]a$/.test(image.subarray(0, 6).toString("latin1"))) {
+    return { mediaType: "image/gif", extension: "gif" };
+  }
+  if (
+    image.length >= 12 &&
+    image.subarray(0, 4).toString("latin1") === "RIFF" &&
+    image.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return { mediaType: "image/webp", extension: "webp" };
+  }
+  return null;
+}
+
+/**
+ * Format a date the way dcterms:modified requires (no milliseconds)
+ */
+function formatModified(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}Z`;
+}
+
+function xhtmlDocument(title: string, language: string, body: string, stylesheetHref: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="${stylesheetHref}"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function chapterFileName(index: number): string {
+  return `chapter-${String(index + 1).padStart(3, "0")}.xhtml`;
+}
+
+function chapterBody(chapter: EpubChapterInput, index: number): string {
+  const paragraphs = chapter.text
+    .split(/\n[ \t]*\n+/)
+    .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map((paragraph) => `    <p>${escapeXml(paragraph)}</p>`);
+
+  return [
+    `  <section epub:type="chapter" id="chapter-${index + 1}">`,
+    `    <h1>${escapeXml(chapter.title)}</h1>`,
+    ...paragraphs,
+    "  </section>",
+  ].join("\n");
+}
+
+/**
+ * Build an EPUB 3 file from book metadata and chapters
+ * Chapters without a title get "Chapter N"; an empty chapter list is an error
+ */
+export function buildEpub(input: EpubBookInput): Buffer {
+  const chapters = input.chapters.map((chapter, index) => ({
+    title: chapter.title.trim() || `Chapter ${index + 1}`,
+    text: chapter.text,
+  }));
+  if (chapters.length === 0) {
+    throw new Error("An EPUB needs at least one chapter");
+  }
+
+  const title = input.title.trim() || "Untitled";
+  const language = normalizeLanguage(input.language);
+  const identifier = UUID_PATTERN.test(input.identifier) ? `urn:uuid:${input.identifier}` : input.identifier;
+  const coverType = input.cover ? detectCoverImageType(input.cover) : null;
+  if (input.cover && !coverType) {
+    console.warn("[EPUB Builder] Skipping cover image in an unsupported format");
+  }
+
+  const manifestItems: string[] = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="style" href="styles.css" media-type="text/css"/>`,
+  ];
+  const spineItems: string[] = [];
+
+  if (coverType) {
+    manifestItems.push(
+      `<item id="cover-image" href="images/cover.${coverType.extension}" media-type="${coverType.mediaType}" properties="cover-image"/>`,
+      `<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>`
+    );
+    spineItems.push(`<itemref idref="cover"/>`);
+  }
+
+  chapters.forEach((_, index) => {
+    manifestItems.push(
+      `<item id="chapter-${index + 1}" href="text/${chapterFileName(index)}" media-type="application/xhtml+xml"/>`
+    );
+    spineItems.push(`<itemref idref="chapter-${index + 1}"/>`);
+  });
+
+  const metadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    input.author?.trim() ? `<dc:creator>${escapeXml(input.author.trim())}</dc:creator>` : null,
+    `<dc:language>${language}</dc:language>`,
+    input.description?.trim() ? `<dc:description>${escapeXml(input.description.trim())}</dc:description>` : null,
+    `<meta property="dcterms:modified">${formatModified(input.modifiedAt ?? new Date())}</meta>`,
+    // EPUB 2 readers (and some retailer tools) still look for the cover this way
+    coverType ? `<meta name="cover" content="cover-image"/>` : null,
+  ].filter(Boolean);
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join("\n    ")}
+  </metadata>
+  <manifest>
+    ${manifestItems.join("\n    ")}
+  </manifest>
+  <spine>
+    ${spineItems.join("\n    ")}
+  </spine>
+</package>
+`;
+
+  const navLinks = chapters
+    .map((chapter, index) => `      <li><a href="text/${chapterFileName(index)}">${escapeXml(chapter.title)}</a></li>`)
+    .join("\n");
+  const nav = xhtmlDocument(
+    title,
+    language,
+    `  <nav epub:type="toc" id="toc">
+    <h1>Contents</h1>
+    <ol>
+${navLinks}
+    </ol>
+  </nav>`,
+    "styles.css"
+  );
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+  // The mimetype entry must come first and be stored uncompressed
+  const zip = new AdmZip(undefined, { noSort: true });
+  zip.addFile("mimetype", Buffer.from("application/epub+zip"));
+  const mimetypeEntry = zip.getEntry("mimetype");
+  if (mimetypeEntry) {
+    mimetypeEntry.header.method = 0;
+  }
+  zip.addFile("META-INF/container.xml", Buffer.from(container));
+  zip.addFile("OEBPS/content.opf", Buffer.from(opf));
+  zip.addFile("OEBPS/nav.xhtml", Buffer.from(nav));
+  zip.addFile("OEBPS/styles.css", Buffer.from(STYLESHEET));
+
+  if (input.cover && coverType) {
+    zip.addFile(`OEBPS/images/cover.${coverType.extension}`, input.cover);
+    zip.addFile(
+      "OEBPS/cover.xhtml",
+      Buffer.from(
+        xhtmlDocument(
+          title,
+          language,
+          `  <section epub:type="cover" class="cover">
+    <img src="images/cover.${coverType.extension}" alt="${escapeXml(title)}"/>
+  </section>`,
+          "styles.css"
+        )
+      )
+    );
+  }
+
+  chapters.forEach((chapter, index) => {
+    zip.addFile(
+      `OEBPS/text/${chapterFileName(index)}`,
+      Buffer.from(xhtmlDocument(chapter.title, language, chapterBody(chapter, index), "../styles.css"))
+    );
+  });
+
+  return zip.toBuffer();
+}
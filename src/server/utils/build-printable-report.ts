@@ -0,0 +1,141 @@
+/**
+ * Prepare report HTML for printing to PDF
+ *
+ * Reports are tabbed pages that show one section at a time. For print every
+ * `tab-content` panel is shown on its own page, the tab bar is hidden, and a
+ * cover page and table of contents (one entry per tab) are added in front.
+ * Page headers and footers are added by the PDF renderer, not here.
+ */
+
+export interface PrintableReportDetails {
+  title: string;
+  author?: string | null;
+  versionNumber?: number | null;
+  generatedAt: Date;
+}
+
+export interface ReportContentsEntry {
+  id: string;
+  title: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Sections of a report, in tab order: each tab button whose panel is in the page
+ */
+export function getReportContents(html: string): ReportContentsEntry[] {
+  const entries: ReportContentsEntry[] = [];
+  const seen = new Set<string>();
+  const buttonRegex = /<button\b[^>]*\bdata-tab=["']([^"']+)["'][^>]*>([\s\S]*?)<\/button>/gi;
+
+  for (const match of html.matchAll(buttonRegex)) {
+    const id = match[1]!;
+    if (seen.has(id)) continue;
+    const hasPanel = new RegExp(`\\bid=["']${id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}["']`).test(html);
+    const title = decodeEntities(match[2]!.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+    if (!hasPanel || !title) continue;
+    seen.add(id);
+    entries.push({ id, title });
+  }
+
+  return entries;
+}
+
+const PRINT_STYLES = `
+    <style data-report-print>
+        @page { size: A4; margin: 22mm 14mm 20mm; }
+        html, body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+        .tab-content { display: block !important; break-before: page; }
+        .tab-button, button[data-tab] { display: none !important; }
+        div:has(> .tab-button) { display: none !important; }
+        .report-pdf-cover, .report-pdf-contents { font-family: system-ui, -apple-system, sans-serif; color: #111827; break-after: page; }
+        .report-pdf-cover { min-height: 230mm; display: flex; flex-direction: column; justify-content: center; text-align: center; }
+        .report-pdf-cover .label { font-size: 12pt; letter-spacing: 0.2em; text-transform: uppercase; color: #2563eb; }
+        .report-pdf-cover h1 { font-size: 30pt; margin: 12pt 0 6pt; }
+        .report-pdf-cover .author { font-size: 16pt; color: #4b5563; }
+        .report-pdf-cover .meta { margin-top: 36pt; font-size: 10pt; color: #6b7280; }
+        .report-pdf-contents { padding: 12mm 8mm; }
+        .report-pdf-contents h2 { font-size: 20pt; margin: 0 0 16pt; }
+        .report-pdf-contents ol { margin: 0; padding-left: 18pt; font-size: 12pt; line-height: 2; }
+        .report-pdf-contents a { color: #111827; text-decoration: none; }
+    </style>
+`;
+
+function renderCover(details: PrintableReportDetails): string {
+  const meta = [
+    details.versionNumber != null ? `Version ${details.versionNumber}` : null,
+    `Generated ${details.generatedAt.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })}`,
+  ].filter(Boolean);
+
+  return `
+    <section class="report-pdf-cover">
+        <div class="label">Manuscript Report</div>
+        <h1>${escapeHtml(details.title)}</h1>
+        ${details.author ? `<div class="author">${escapeHtml(details.author)}</div>` : ""}
+        <div class="meta">${meta.map((line) => escapeHtml(line!)).join(" &middot; ")}</div>
+    </section>`;
+}
+
+function renderContents(entries: ReportContentsEntry[]): string {
+  if (entries.length === 0) return "";
+  const items = entries
+    .map((entry) => `<li><a href="#${escapeHtml(entry.id)}">${escapeHtml(entry.title)}</a></li>`)
+    .join("\n            ");
+
+  return `
+    <nav class="report-pdf-contents">
+        <h2>Contents</h2>
+        <ol>
+            ${items}
+        </ol>
+    </nav>`;
+}
+
+/**
+ * Report HTML with print styles, a cover page and a table of contents
+ */
+export function buildPrintableReportHtml(html: string, details: PrintableReportDetails): string {
+  const frontMatter = renderCover(details) + renderContents(getReportContents(html));
+
+  let printable = /<\/head>/i.test(html)
+    ? html.replace(/<\/head>/i, `${PRINT_STYLES}</head>`)
+    : PRINT_STYLES + html;
+
+  printable = /<body\b[^>]*>/i.test(printable)
+    ? printable.replace(/<body\b[^>]*>/i, (body) => body + frontMatter)
+    : frontMatter + printable;
+
+  return printable;
+}
+
+/**
+ * Chromium header and footer templates; `pageNumber` and `totalPages` are filled in per page
+ */
+export function buildReportPageTemplates(details: PrintableReportDetails): {
+  headerTemplate: string;
+  footerTemplate: string;
+} {
+  const style = "width: 100%; font-family: system-ui, sans-serif; font-size: 8px; color: #6b7280; padding: 0 14mm;";
+  return {
+    headerTemplate: `<div style="${style} display: flex; justify-content: space-between;"><span>${escapeHtml(details.title)}</span><span>Manuscript Report</span></div>`,
+    footerTemplate: `<div style="${style} text-align: center;">Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>`,
+  };
+}
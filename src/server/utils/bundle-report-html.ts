@@ -1,5 +1,6 @@
 import { promises as fs } from "fs";
 import path from "path";
+import { validateExtractedFileType } from "./validate-file-type";
 
 /**
  * Bundle report HTML with embedded images as base64 data URLs
@@ -285,6 +286,18 @@ export async function bundleReportHtmlFromContent(
         console.warn(`[Bundle Report] Image not found in any search directory: ${imagePath}`);
         continue;
       }
+
+      // Images usually come out of an uploaded ZIP - only embed ones whose content matches the extension.
+      // SVG is text and can't be sniffed; as a data URL in the page it can't run scripts either
+      if (mimeType !== 'image/svg+xml') {
+        const typeValidation = await validateExtractedFileType(
+          new File([new Uint8Array(imageBuffer)], path.basename(imagePath))
+        );
+        if (!typeValidation.isValid) {
+          console.warn(`[Bundle Report] Skipping image ${imagePath}: ${typeValidation.error}`);
+          continue;
+        }
+      }
       
       // Create data URL
       const imageBase64 = imageBuffer.toString('base64');
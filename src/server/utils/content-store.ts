@@ -0,0 +1,50 @@
+import { createHash } from "crypto";
+import { getBlobStore } from "@/server/storage";
+
+/**
+ * Content-addressed storage for uploaded files
+ *
+ * Each file is written once under its SHA-256 hash, so re-uploading the same
+ * manuscript doesn't use any more space. Keys look like `sha256/ab/abcdef…` and
+ * live in the "books" blob area, so they work with any storage driver.
+ */
+
+export interface StoredContent {
+  hash: string;
+  storagePath: string;
+  size: number;
+  created: boolean; // false when identical content was already stored
+}
+
+export function hashContent(fileBuffer: Buffer): string {
+  return createHash("sha256").update(fileBuffer).digest("hex");
+}
+
+export function getContentKey(hash: string): string {
+  return `sha256/${hash.slice(0, 2)}/${hash}`;
+}
+
+/**
+ * Store a file under its SHA-256 hash (no-op if the content is already stored)
+ */
+export async function putContent(fileBuffer: Buffer): Promise<StoredContent> {
+  const hash = hashContent(fileBuffer);
+  const storagePath = getContentKey(hash);
+  const store = getBlobStore("books");
+
+  // Size mismatch means a previous write was cut short - rewrite it
+  const existing = await store.stat(storagePath);
+  if (existing?.size === fileBuffer.length) {
+    return { hash, storagePath, size: fileBuffer.length, created: false };
+  }
+
+  await store.put(storagePath, fileBuffer);
+  return { hash, storagePath, size: fileBuffer.length, created: true };
+}
+
+/**
+ * Read stored content by its key, or null if it isn't in the store
+ */
+export async function readContent(storagePath: string): Promise<Buffer | null> {
+  return getBlobStore("books").get(storagePath);
+}
@@ -0,0 +1,218 @@
+import { JSDOM } from "jsdom";
+import {
+  detectChapters,
+  paragraphsToText,
+  type ManuscriptChapter,
+  type ManuscriptParagraph,
+} from "./manuscript-text";
+import { openArchive } from "./safe-archive";
+
+interface DocxMetadata {
+  title?: string;
+  author?: string;
+  description?: string;
+  language?: string;
+  text?: string;
+  chapters?: ManuscriptChapter[];
+}
+
+interface DocxStyle {
+  name?: string;
+  outlineLevel?: number;
+}
+
+function parseXml(xml: string): Document {
+  return new JSDOM(xml, { contentType: "text/xml" }).window.document;
+}
+
+function firstText(doc: Document, tagName: string): string | undefined {
+  const element = doc.getElementsByTagName(tagName)[0];
+  return element?.textContent?.trim() || undefined;
+}
+
+/**
+ * Read heading information from word/styles.xml
+ * Style IDs are localized by Word ("Heading1", "Überschrift1", ...), so we map
+ * each ID to its English style name and outline level instead of relying on the ID
+ */
+function parseStyles(stylesXml: string | null): Map<string, DocxStyle> {
+  const styles = new Map<string, DocxStyle>();
+  if (!stylesXml) return styles;
+
+  const doc = parseXml(stylesXml);
+  for (const style of doc.getElementsByTagName("w:style")) {
+    const styleId = style.getAttribute("w:styleId");
+    if (!styleId) continue;
+
+    const name = style.getElementsByTagName("w:name")[0]?.getAttribute("w:val") || undefined;
+    const outlineValue = style.getElementsByTagName("w:outlineLvl")[0]?.getAttribute("w:val");
+    const outlineLevel = outlineValue !== null && outlineValue !== undefined
+      ? Number.parseInt(outlineValue, 10)
+      : undefined;
+
+    styles.set(styleId, {
+      name,
+      outlineLevel: Number.isNaN(outlineLevel) ? undefined : outlineLevel,
+    });
+  }
+
+  return styles;
+}
+
+/**
+ * Resolve a paragraph's heading level (1-based) from its style or direct formatting
+ */
+function getHeadingLevel(paragraph: Element, styles: Map<string, DocxStyle>): number | undefined {
+  const pPr = Array.from(paragraph.children).find((child) => child.tagName === "w:pPr");
+  if (!pPr) return undefined;
+
+  const directOutline = pPr.getElementsByTagName("w:outlineLvl")[0]?.getAttribute("w:val");
+  if (directOutline) {
+    const level = Number.parseInt(directOutline, 10);
+    // Outline level 9 means "body text"
+    if (!Number.isNaN(level) && level < 9) return level + 1;
+  }
+
+  const styleId = pPr.getElementsByTagName("w:pStyle")[0]?.getAttribute("w:val");
+  if (!styleId) return undefined;
+
+  const style = styles.get(styleId);
+  const headingName = (style?.name || styleId).match(/^heading\s*(\d)$/i);
+  if (headingName?.[1]) {
+    return Number.parseInt(headingName[1], 10);
+  }
+
+  if (style?.outlineLevel !== undefined && style.outlineLevel < 9) {
+    return style.outlineLevel + 1;
+  }
+
+  return undefined;
+}
+
+/**
+ * Collect the visible text of a paragraph (runs, tabs and line breaks)
+ */
+function getParagraphText(paragraph: Element): string {
+  let text = "";
+  for (const node of paragraph.getElementsByTagName("*")) {
+    switch (node.tagName) {
+      case "w:t":
+        text += node.textContent || "";
+        break;
+      case "w:tab":
+        text += "\t";
+        break;
+      case "w:br":
+      case "w:cr":
+        text += "\n";
+        break;
+    }
+  }
+  return text;
+}
+
+/**
+ * Paragraphs inside text boxes are nested in another paragraph; skip them so
+ * their text isn't counted twice
+ */
+function isNestedParagraph(paragraph: Element): boolean {
+  let parent = paragraph.parentElement;
+  while (parent) {
+    if (parent.tagName === "w:p") return true;
+    parent = parent.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Extract metadata, plain text and chapters from a DOCX file
+ * DOCX files are ZIP archives containing:
+ * - docProps/core.xml (title, creator, description, language)
+ * - word/document.xml (body paragraphs)
+ * - word/styles.xml (style names, used to find headings)
+ */
+export async function extractDocxMetadata(
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<DocxMetadata> {
+  const metadata: DocxMetadata = {};
+
+  try {
+    // Word embeds spreadsheets and other Office files as ZIPs, which are never opened here
+    const opened = openArchive(fileBuffer, { allowNestedArchives: true });
+    if (!opened.ok) {
+      console.warn(`[DOCX] Refusing to read ${fileName}: ${opened.error}`);
+      return metadata;
+    }
+    const readEntry = opened.archive.readText;
+
+    // Core properties
+    const coreXml = readEntry("docProps/core.xml");
+    if (coreXml) {
+      const coreDoc = parseXml(coreXml);
+      metadata.title = firstText(coreDoc, "dc:title");
+      metadata.author = firstText(coreDoc, "dc:creator");
+      metadata.description = firstText(coreDoc, "dc:description");
+      metadata.language = firstText(coreDoc, "dc:language");
+    } else {
+      console.warn("[DOCX] No docProps/core.xml found in DOCX");
+    }
+
+    const documentXml = readEntry("word/document.xml");
+    if (!documentXml) {
+      console.warn("[DOCX] No word/document.xml found in DOCX");
+      return metadata;
+    }
+
+    const styles = parseStyles(readEntry("word/styles.xml"));
+    const documentDoc = parseXml(documentXml);
+    const body = documentDoc.getElementsByTagName("w:body")[0];
+
+    const paragraphs: ManuscriptParagraph[] = [];
+    if (body) {
+      for (const paragraph of body.getElementsByTagName("w:p")) {
+        if (isNestedParagraph(paragraph)) continue;
+        paragraphs.push({
+          text: getParagraphText(paragraph),
+          headingLevel: getHeadingLevel(paragraph, styles),
+        });
+      }
+    }
+
+    // Language is often only set on the default run properties
+    if (!metadata.language) {
+      const stylesXml = readEntry("word/styles.xml");
+      const langMatch = stylesXml?.match(/<w:lang\b[^>]*\bw:val="([^"]+)"/);
+      if (langMatch?.[1]) {
+        metadata.language = langMatch[1];
+      }
+    }
+
+    // Fall back to a "Title" styled paragraph when core properties have no title
+    if (!metadata.title) {
+      const titleParagraph = body
+        ? Array.from(body.getElementsByTagName("w:p")).find((p) => {
+            const styleId = p.getElementsByTagName("w:pStyle")[0]?.getAttribute("w:val");
+            const styleName = styleId ? styles.get(styleId)?.name || styleId : "";
+            return /^title$/i.test(styleName);
+          })
+        : undefined;
+      metadata.title = titleParagraph ? getParagraphText(titleParagraph).trim() || undefined : undefined;
+    }
+
+    metadata.text = paragraphsToText(paragraphs);
+    metadata.chapters = detectChapters(paragraphs);
+
+    console.log("[DOCX] Extracted metadata:", {
+      title: metadata.title,
+      author: metadata.author,
+      paragraphs: paragraphs.length,
+      chapters: metadata.chapters.length,
+    });
+
+    return metadata;
+  } catch (error) {
+    console.error(`[DOCX] Failed to extract metadata from ${fileName}:`, error);
+    return metadata;
+  }
+}
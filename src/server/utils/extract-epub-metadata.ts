@@ -1,7 +1,13 @@
 import { promises as fs } from "fs";
 import path from "path";
-import AdmZip from "adm-zip";
 import { JSDOM } from "jsdom";
+import {
+  detectChapters,
+  paragraphsToText,
+  type ManuscriptChapter,
+  type ManuscriptParagraph,
+} from "./manuscript-text";
+import { openArchive, type SafeArchive } from "./safe-archive";
 
 interface EpubMetadata {
   title?: string;
@@ -10,6 +16,129 @@ interface EpubMetadata {
   coverImage?: Buffer;
   coverImageMimeType?: string;
   language?: string;
+  text?: string;
+  chapters?: ManuscriptChapter[];
+}
+
+export interface EpubManifestItem {
+  id: string;
+  href: string;
+  path: string; // Entry path inside the archive
+  mediaType: string;
+  properties: string[];
+}
+
+export interface EpubPackage {
+  opfPath: string;
+  opfDir: string;
+  opfDocument: Document;
+  version: string; // "2.0", "3.0", ...
+  manifest: EpubManifestItem[];
+  spine: Array<{ idref: string; linear: boolean }>;
+}
+
+const BLOCK_SELECTOR = "h1, h2, h3, h4, h5, h6, p, li, blockquote, pre";
+
+/**
+ * Turn a manifest href into a zip entry path (drops the fragment, decodes %20 etc.)
+ */
+function decodeHref(href: string): string {
+  const withoutFragment = href.split("#")[0] || "";
+  try {
+    return decodeURIComponent(withoutFragment);
+  } catch {
+    return withoutFragment;
+  }
+}
+
+/**
+ * Resolve an href relative to a directory inside the archive
+ */
+export function resolveEpubHref(baseDir: string, href: string): string {
+  return path.posix.join(baseDir, decodeHref(href));
+}
+
+/**
+ * Locate and parse the package document (OPF) through META-INF/container.xml
+ */
+export function readEpubPackage(
+  archive: SafeArchive
+): { ok: true; epub: EpubPackage } | { ok: false; error: string } {
+  const containerXml = archive.readText("META-INF/container.xml");
+  if (!containerXml) {
+    return { ok: false, error: "META-INF/container.xml is missing" };
+  }
+
+  const containerDoc = new JSDOM(containerXml, { contentType: "text/xml" }).window.document;
+  const opfPath = containerDoc.querySelector("rootfile")?.getAttribute("full-path");
+  if (!opfPath) {
+    return { ok: false, error: "container.xml does not point to a package document" };
+  }
+
+  const opfXml = archive.readText(opfPath);
+  if (!opfXml) {
+    return { ok: false, error: `The package document ${opfPath} is missing` };
+  }
+
+  const opfDocument = new JSDOM(opfXml, { contentType: "text/xml" }).window.document;
+  const opfDir = path.posix.dirname(opfPath);
+
+  const manifest: EpubManifestItem[] = [];
+  for (const item of opfDocument.querySelectorAll("manifest > item")) {
+    const href = item.getAttribute("href") || "";
+    manifest.push({
+      id: item.getAttribute("id") || "",
+      href,
+      path: resolveEpubHref(opfDir, href),
+      mediaType: item.getAttribute("media-type") || "",
+      properties: (item.getAttribute("properties") || "").split(/\s+/).filter(Boolean),
+    });
+  }
+
+  const spine = Array.from(opfDocument.querySelectorAll("spine > itemref")).map((itemref) => ({
+    idref: itemref.getAttribute("idref") || "",
+    linear: itemref.getAttribute("linear") !== "no",
+  }));
+
+  return {
+    ok: true,
+    epub: {
+      opfPath,
+      opfDir,
+      opfDocument,
+      version: opfDocument.documentElement.getAttribute("version") || "",
+      manifest,
+      spine,
+    },
+  };
+}
+
+/**
+ * Read the paragraphs of one XHTML content document in reading order
+ * Nested blocks (a <p> inside a <blockquote>) are only read once
+ */
+function readContentDocument(xhtml: string): ManuscriptParagraph[] {
+  let document: Document;
+  try {
+    document = new JSDOM(xhtml, { contentType: "application/xhtml+xml" }).window.document;
+  } catch {
+    // Plenty of EPUBs ship XHTML that isn't well-formed XML
+    document = new JSDOM(xhtml, { contentType: "text/html" }).window.document;
+  }
+
+  const paragraphs: ManuscriptParagraph[] = [];
+  for (const element of document.querySelectorAll(BLOCK_SELECTOR)) {
+    if (element.querySelector(BLOCK_SELECTOR)) {
+      continue;
+    }
+    const text = (element.textContent || "").replace(/\s+/g, " ").trim();
+    if (!text) {
+      continue;
+    }
+    const heading = /^h([1-6])$/i.exec(element.localName);
+    paragraphs.push(heading ? { text, headingLevel: Number(heading[1]) } : { text });
+  }
+  return paragraphs;
 }
 
 /**
@@ -27,43 +156,21 @@ export async function extractEpubMetadata(
 
   try {
     // EPUB files are ZIP archives
-    const zip = new AdmZip(fileBuffer);
-    const zipEntries = zip.getEntries();
-
-    // Find container.xml to locate the OPF file
-    const containerEntry = zipEntries.find(
-      (entry) => entry.entryName === "META-INF/container.xml"
-    );
-
-    if (!containerEntry) {
-      console.warn("[EPUB] No container.xml found in EPUB");
+    const opened = openArchive(fileBuffer);
+    if (!opened.ok) {
+      console.warn(`[EPUB] Refusing to read ${fileName}: ${opened.error}`);
       return metadata;
     }
+    const archive = opened.archive;
+    const zipEntries = archive.entries;
 
-    const containerXml = containerEntry.getData().toString("utf-8");
-    const containerDom = new JSDOM(containerXml, { contentType: "text/xml" });
-    const containerDoc = containerDom.window.document;
-
-    // Find the OPF file path
-    const rootfileElement = containerDoc.querySelector("rootfile");
-    const opfPath = rootfileElement?.getAttribute("full-path");
-
-    if (!opfPath) {
-      console.warn("[EPUB] No OPF file path found in container.xml");
+    // Locate the OPF file through container.xml
+    const packageResult = readEpubPackage(archive);
+    if (!packageResult.ok) {
+      console.warn(`[EPUB] ${packageResult.error}`);
       return metadata;
     }
-
-    // Read the OPF file
-    const opfEntry = zipEntries.find((entry) => entry.entryName === opfPath);
-
-    if (!opfEntry) {
-      console.warn(`[EPUB] OPF file not found: ${opfPath}`);
-      return metadata;
-    }
-
-    const opfXml = opfEntry.getData().toString("utf-8");
-    const opfDom = new JSDOM(opfXml, { contentType: "text/xml" });
-    const opfDoc = opfDom.window.document;
+    const { opfPath, opfDocument: opfDoc, manifest, spine } = packageResult.epub;
 
     // Extract metadata from OPF
     const metadataElement = opfDoc.querySelector("metadata");
@@ -137,12 +244,9 @@ export async function extractEpubMetadata(
         const opfDir = path.dirname(opfPath);
         const coverPath = path.join(opfDir, coverHref).replace(/\\/g, "/");
 
-        const coverEntry = zipEntries.find(
-          (entry) => entry.entryName === coverPath
-        );
+        const coverData = archive.read(coverPath);
 
-        if (coverEntry && !coverEntry.isDirectory) {
-          const coverData = coverEntry.getData();
+        if (coverData) {
           metadata.coverImage = Buffer.from(coverData);
 
           // Determine MIME type from file extension or manifest
@@ -178,12 +282,12 @@ export async function extractEpubMetadata(
         for (const coverName of commonCoverNames) {
           const coverEntry = zipEntries.find(
             (entry) =>
-              entry.entryName.toLowerCase().endsWith(coverName.toLowerCase()) &&
+              entry.name.toLowerCase().endsWith(coverName.toLowerCase()) &&
               !entry.isDirectory
           );
+          const coverData = coverEntry && archive.read(coverEntry.name);
 
-          if (coverEntry) {
-            const coverData = coverEntry.getData();
+          if (coverEntry && coverData) {
             metadata.coverImage = Buffer.from(coverData);
 
             const ext = path.extname(coverName).toLowerCase();
@@ -196,7 +300,7 @@ export async function extractEpubMetadata(
             }
 
             console.log(
-              `[EPUB] Found cover image by filename: ${coverEntry.entryName}`
+              `[EPUB] Found cover image by filename: ${coverEntry.name}`
             );
             break;
           }
@@ -204,10 +308,37 @@ export async function extractEpubMetadata(
       }
     }
 
+    // Read the text of the spine documents in reading order
+    if (manifestElement) {
+      const paragraphs: ManuscriptParagraph[] = [];
+
+      for (const itemref of spine) {
+        if (!itemref.linear) {
+          continue;
+        }
+        const item = manifest.find((candidate) => candidate.id === itemref.idref);
+        // Skip the EPUB 3 navigation document (table of contents)
+        if (!item?.href || item.properties.includes("nav")) {
+          continue;
+        }
+
+        const contentXhtml = archive.readText(item.path);
+        if (contentXhtml) {
+          paragraphs.push(...readContentDocument(contentXhtml));
+        }
+      }
+
+      if (paragraphs.length > 0) {
+        metadata.text = paragraphsToText(paragraphs);
+        metadata.chapters = detectChapters(paragraphs);
+      }
+    }
+
     console.log(`[EPUB] Extracted metadata:`, {
       title: metadata.title,
       author: metadata.author,
       hasCover: !!metadata.coverImage,
+      chapters: metadata.chapters?.length ?? 0,
     });
 
     return metadata;
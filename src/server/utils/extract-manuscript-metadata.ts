@@ -0,0 +1,60 @@
+import path from "path";
+import { extractEpubMetadata } from "./extract-epub-metadata";
+import { extractDocxMetadata } from "./extract-docx-metadata";
+import { extractPdfMetadata } from "./extract-pdf-metadata";
+import { extractTxtMetadata } from "./extract-txt-metadata";
+import { extractMarkdownMetadata } from "./extract-markdown-metadata";
+import { extractRtfMetadata } from "./extract-rtf-metadata";
+import { extractOdtMetadata } from "./extract-odt-metadata";
+import type { ManuscriptChapter } from "./manuscript-text";
+
+export interface ManuscriptMetadata {
+  title?: string;
+  author?: string;
+  description?: string;
+  coverImage?: Buffer;
+  coverImageMimeType?: string;
+  language?: string;
+  pageCount?: number;
+  text?: string;
+  chapters?: ManuscriptChapter[];
+}
+
+type MetadataExtractor = (fileBuffer: Buffer, fileName: string) => Promise<ManuscriptMetadata>;
+
+// Extractors keyed by lowercase file extension
+const EXTRACTORS: Record<string, MetadataExtractor> = {
+  ".epub": extractEpubMetadata,
+  ".docx": extractDocxMetadata,
+  ".pdf": extractPdfMetadata,
+  ".txt": extractTxtMetadata,
+  ".md": extractMarkdownMetadata,
+  ".markdown": extractMarkdownMetadata,
+  ".mmd": extractMarkdownMetadata, // MultiMarkdown, as compiled by Scrivener
+  ".rtf": extractRtfMetadata,
+  ".odt": extractOdtMetadata,
+};
+
+export const METADATA_EXTRACTION_EXTENSIONS = Object.keys(EXTRACTORS);
+
+/**
+ * Check whether we can extract metadata from a manuscript file
+ */
+export function canExtractManuscriptMetadata(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() in EXTRACTORS;
+}
+
+/**
+ * Extract metadata from a manuscript file, choosing the extractor by extension
+ * Returns null for formats we don't extract from
+ */
+export async function extractManuscriptMetadata(
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<ManuscriptMetadata | null> {
+  const extractor = EXTRACTORS[path.extname(fileName).toLowerCase()];
+  if (!extractor) {
+    return null;
+  }
+  return extractor(fileBuffer, fileName);
+}
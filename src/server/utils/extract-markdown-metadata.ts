@@ -0,0 +1,205 @@
+import {
+  detectChapters,
+  paragraphsToText,
+  type ManuscriptChapter,
+  type ManuscriptParagraph,
+} from "./manuscript-text";
+
+interface MarkdownMetadata {
+  title?: string;
+  author?: string;
+  description?: string;
+  language?: string;
+  text?: string;
+  chapters?: ManuscriptChapter[];
+}
+
+// Header keys we map to metadata, in both YAML front matter and MultiMarkdown headers
+const METADATA_KEYS: Record<string, "title" | "author" | "description" | "language"> = {
+  title: "title",
+  author: "author",
+  authors: "author",
+  description: "description",
+  summary: "description",
+  abstract: "description",
+  lang: "language",
+  language: "language",
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+/**
+ * Split off the metadata header
+ *
+ * Supports YAML front matter ("---" fenced) and MultiMarkdown headers
+ * ("Key: value" lines before the first blank line), which is what Scrivener
+ * writes when compiling to MultiMarkdown. Only simple "key: value" pairs are read.
+ */
+function splitHeader(markdown: string): { header: Record<string, string>; body: string } {
+  const header: Record<string, string> = {};
+  const readPairs = (lines: string[]) => {
+    for (const line of lines) {
+      const match = line.match(/^([A-Za-z][\w -]*):\s*(.*)$/);
+      if (!match?.[1] || !match[2]) continue;
+      header[match[1].trim().toLowerCase()] = match[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+    }
+  };
+
+  const frontMatter = markdown.match(/^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+  if (frontMatter) {
+    readPairs((frontMatter[1] ?? "").split("\n"));
+    return { header, body: markdown.slice(frontMatter[0].length) };
+  }
+
+  // A MultiMarkdown header is only recognised when it starts with a known key,
+  // so an opening line like "Note: ..." stays part of the text
+  const firstBlock = markdown.split(/\n[ \t]*\n/)[0] ?? "";
+  const lines = firstBlock.split("\n");
+  const firstKey = lines[0]?.match(/^([A-Za-z][\w -]*):/)?.[1]?.toLowerCase();
+  const isHeader =
+    firstKey !== undefined &&
+    firstKey in METADATA_KEYS &&
+    lines.every((line) => /^([A-Za-z][\w -]*):/.test(line) || /^\s+\S/.test(line));
+  if (isHeader) {
+    readPairs(lines);
+    return { header, body: markdown.slice(firstBlock.length) };
+  }
+
+  return { header, body: markdown };
+}
+
+/**
+ * Remove inline Markdown syntax, keeping the visible text
+ */
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "") // images
+    .replace(/\[\^[^\]]+\]/g, "") // footnote references
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // inline links
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1") // reference links
+    .replace(/<[^>]+>/g, "") // inline HTML
+    .replace(/`+([^`]*)`+/g, "$1")
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "$2")
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, "$1")
+    .replace(/\b_(?=\S)(.+?)(?<=\S)_\b/g, "$1")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, "$1")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity] ?? entity);
+}
+
+/**
+ * Turn Markdown into paragraphs, keeping ATX ("# Title") and setext
+ * ("Title" underlined with = or -) headings as heading levels
+ */
+function parseMarkdownParagraphs(markdown: string): ManuscriptParagraph[] {
+  const paragraphs: ManuscriptParagraph[] = [];
+  let block: string[] = [];
+  let fence: string | null = null;
+
+  const flush = (headingLevel?: number) => {
+    const text = stripInline(block.join(" ")).replace(/\s+/g, " ").trim();
+    if (text) {
+      paragraphs.push(headingLevel ? { text, headingLevel } : { text });
+    }
+    block = [];
+  };
+
+  for (const line of markdown.split("\n")) {
+    // Code is kept as text, without the fences
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch?.[1] && (!fence || fenceMatch[1].startsWith(fence))) {
+      flush();
+      fence = fence ? null : fenceMatch[1];
+      continue;
+    }
+    if (fence) {
+      block.push(line);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading?.[1]) {
+      flush();
+      block = [heading[2] ?? ""];
+      flush(heading[1].length);
+      continue;
+    }
+
+    if (block.length > 0 && /^\s{0,3}(=+|-+)\s*$/.test(line)) {
+      flush(line.trim().startsWith("=") ? 1 : 2);
+      continue;
+    }
+
+    // Thematic breaks ("***", "* * *", "---") are scene breaks in manuscripts
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    // Link reference definitions are not visible text
+    if (/^\s{0,3}\[[^\]^][^\]]*\]:\s*\S/.test(line)) {
+      continue;
+    }
+
+    block.push(
+      line
+        .replace(/^\s{0,3}\[\^[^\]]+\]:\s*/, "") // footnote definitions keep their text
+        .replace(/^(\s*>\s?)+/, "")
+        .replace(/^\s*([-*+]|\d+[.)])\s+/, "")
+    );
+  }
+  flush();
+
+  return paragraphs;
+}
+
+/**
+ * Extract metadata, plain text and chapters from a Markdown manuscript
+ * Front matter or a MultiMarkdown header supplies the metadata; headings mark chapters
+ */
+export async function extractMarkdownMetadata(
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<MarkdownMetadata> {
+  const metadata: MarkdownMetadata = {};
+
+  try {
+    const raw = fileBuffer.toString("utf-8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+    const { header, body } = splitHeader(raw);
+
+    for (const [key, value] of Object.entries(header)) {
+      const field = METADATA_KEYS[key];
+      if (field && !metadata[field]) {
+        metadata[field] = value;
+      }
+    }
+
+    const paragraphs = parseMarkdownParagraphs(body);
+    metadata.text = paragraphsToText(paragraphs);
+    metadata.chapters = detectChapters(paragraphs);
+
+    console.log(`[Markdown] Extracted metadata from ${fileName}:`, {
+      title: metadata.title,
+      author: metadata.author,
+      paragraphs: paragraphs.length,
+      chapters: metadata.chapters.length,
+    });
+
+    return metadata;
+  } catch (error) {
+    console.error(`[Markdown] Failed to extract metadata from ${fileName}:`, error);
+    return metadata;
+  }
+}
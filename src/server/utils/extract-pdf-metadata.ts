@@ -0,0 +1,832 @@
+import zlib from "zlib";
+import {
+  countWords,
+  detectChapters,
+  type ManuscriptChapter,
+  type ManuscriptParagraph,
+} from "./manuscript-text";
+
+interface PdfMetadata {
+  title?: string;
+  author?: string;
+  description?: string;
+  language?: string;
+  pageCount?: number;
+  coverImage?: Buffer;
+  coverImageMimeType?: string;
+  text?: string;
+  chapters?: ManuscriptChapter[];
+}
+
+/*
+ * Minimal PDF object model
+ * We only need enough of the format to read the document info dictionary,
+ * walk the page tree, decode content streams and find embedded JPEG images.
+ */
+
+class PdfName {
+  constructor(public readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(public readonly num: number) {}
+}
+
+class PdfOperator {
+  constructor(public readonly op: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfRef | Buffer | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+interface FontDecoder {
+  codeLength: number;
+  map: Map<number, string> | null;
+  canDecode: boolean;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+// Safety limits so a malformed file can't keep us busy forever
+const MAX_PAGES_FOR_TEXT = 2000;
+const MAX_PAGE_TREE_DEPTH = 32;
+// Flate streams can inflate to gigabytes, so cap each stream and the document as a whole
+const MAX_STREAM_DECODED_SIZE = 32 * 1024 * 1024;
+const MAX_DOCUMENT_DECODED_SIZE = 256 * 1024 * 1024;
+
+/**
+ * Tokenizer/parser for PDF objects and content streams
+ */
+class PdfParser {
+  constructor(
+    private readonly data: Buffer,
+    public pos = 0
+  ) {}
+
+  private skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos]!;
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // Comment - skip to end of line
+        while (this.pos < this.data.length && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readLiteralString(): Buffer {
+    // Opening "(" already consumed
+    const bytes: number[] = [];
+    let depth = 1;
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++]!;
+      if (byte === 0x5c) {
+        const next = this.data[this.pos++];
+        if (next === undefined) break;
+        switch (next) {
+          case 0x6e: bytes.push(0x0a); break; // \n
+          case 0x72: bytes.push(0x0d); break; // \r
+          case 0x74: bytes.push(0x09); break; // \t
+          case 0x62: bytes.push(0x08); break; // \b
+          case 0x66: bytes.push(0x0c); break; // \f
+          case 0x0d:
+            // Line continuation
+            if (this.data[this.pos] === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let octal = next - 0x30;
+              for (let i = 0; i < 2; i++) {
+                const digit = this.data[this.pos];
+                if (digit === undefined || digit < 0x30 || digit > 0x37) break;
+                octal = octal * 8 + (digit - 0x30);
+                this.pos++;
+              }
+              bytes.push(octal & 0xff);
+            } else {
+              bytes.push(next);
+            }
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) break;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private readHexString(): Buffer {
+    // Opening "<" already consumed
+    let hex = "";
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++]!;
+      if (byte === 0x3e) break;
+      if (!WHITESPACE.has(byte)) hex += String.fromCharCode(byte);
+    }
+    if (hex.length % 2 === 1) hex += "0";
+    return Buffer.from(hex, "hex");
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos]!;
+      if (WHITESPACE.has(byte) || DELIMITERS.has(byte)) break;
+      this.pos++;
+    }
+    return this.data.toString("latin1", start, this.pos);
+  }
+
+  /**
+   * Read the next token. Returns undefined at end of data.
+   * Operators and structural tokens ("[", "<<", ...) come back as PdfOperator.
+   */
+  nextToken(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.data.length) return undefined;
+
+    const byte = this.data[this.pos]!;
+    if (byte === 0x28) {
+      this.pos++;
+      return this.readLiteralString();
+    }
+    if (byte === 0x3c) {
+      if (this.data[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return new PdfOperator("<<");
+      }
+      this.pos++;
+      return this.readHexString();
+    }
+    if (byte === 0x3e && this.data[this.pos + 1] === 0x3e) {
+      this.pos += 2;
+      return new PdfOperator(">>");
+    }
+    if (byte === 0x5b || byte === 0x5d || byte === 0x7b || byte === 0x7d) {
+      this.pos++;
+      return new PdfOperator(String.fromCharCode(byte));
+    }
+    if (byte === 0x2f) {
+      this.pos++;
+      const raw = this.readRegular();
+      return new PdfName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16))));
+    }
+    if (DELIMITERS.has(byte)) {
+      // Stray delimiter (e.g. unmatched ")") - skip it
+      this.pos++;
+      return new PdfOperator(String.fromCharCode(byte));
+    }
+
+    const word = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number.parseFloat(word);
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    return new PdfOperator(word);
+  }
+
+  /**
+   * Parse one object value (dictionaries, arrays and "n g R" references included)
+   */
+  parseValue(token = this.nextToken()): PdfValue | PdfOperator | undefined {
+    if (token instanceof PdfOperator) {
+      if (token.op === "[") {
+        const items: PdfValue[] = [];
+        for (;;) {
+          const next = this.nextToken();
+          if (next === undefined || (next instanceof PdfOperator && next.op === "]")) break;
+          const value = this.parseValue(next);
+          if (value !== undefined && !(value instanceof PdfOperator)) items.push(value);
+        }
+        return items;
+      }
+      if (token.op === "<<") {
+        const dict: PdfDict = new Map();
+        for (;;) {
+          const key = this.nextToken();
+          if (key === undefined || (key instanceof PdfOperator && key.op === ">>")) break;
+          if (!(key instanceof PdfName)) continue;
+          const value = this.parseValue();
+          if (value !== undefined && !(value instanceof PdfOperator)) dict.set(key.name, value);
+        }
+        return dict;
+      }
+      return token;
+    }
+
+    if (typeof token === "number" && Number.isInteger(token)) {
+      // Look ahead for an indirect reference: "12 0 R"
+      const saved = this.pos;
+      const generation = this.nextToken();
+      if (typeof generation === "number") {
+        const keyword = this.nextToken();
+        if (keyword instanceof PdfOperator && keyword.op === "R") {
+          return new PdfRef(token);
+        }
+      }
+      this.pos = saved;
+    }
+
+    return token;
+  }
+}
+
+function getName(value: PdfValue | undefined): string | undefined {
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+function isDict(value: PdfValue | PdfOperator | undefined): value is PdfDict {
+  return value instanceof Map;
+}
+
+/**
+ * Decode a PDF text string (UTF-16BE with BOM, UTF-8 with BOM, or PDFDocEncoding)
+ */
+function decodePdfString(bytes: Buffer): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    const swapped = Buffer.from(bytes.subarray(2));
+    swapped.swap16();
+    return swapped.toString("utf16le");
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return bytes.subarray(3).toString("utf-8");
+  }
+  return bytes.toString("latin1");
+}
+
+function decodeUtf16Be(hex: string): string {
+  const bytes = Buffer.from(hex.padStart(Math.ceil(hex.length / 4) * 4, "0"), "hex");
+  bytes.swap16();
+  return bytes.toString("utf16le");
+}
+
+/**
+ * Parse a ToUnicode CMap into a code -> text map
+ */
+function parseToUnicodeCMap(cmap: string): { map: Map<number, string>; codeLength: number } {
+  const map = new Map<number, string>();
+  let codeLength = 1;
+
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  if (codespace?.[1]) {
+    codeLength = Math.max(1, Math.ceil(codespace[1].length / 2));
+  }
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of (block[1] || "").matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(Number.parseInt(entry[1]!, 16), decodeUtf16Be(entry[2]!));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const body = block[1] || "";
+    for (const entry of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]+)>|\[([^\]]*)\])/g)) {
+      const start = Number.parseInt(entry[1]!, 16);
+      const end = Number.parseInt(entry[2]!, 16);
+      if (end - start > 0xffff) continue;
+
+      if (entry[3]) {
+        const base = Buffer.from(entry[3].padStart(Math.ceil(entry[3].length / 4) * 4, "0"), "hex");
+        for (let code = start; code <= end; code++) {
+          const dest = Buffer.from(base);
+          // Increment the last UTF-16 unit
+          const last = dest.length - 2;
+          dest.writeUInt16BE((dest.readUInt16BE(last) + (code - start)) & 0xffff, last);
+          dest.swap16();
+          map.set(code, dest.toString("utf16le"));
+        }
+      } else if (entry[4]) {
+        const targets = Array.from(entry[4].matchAll(/<([0-9a-fA-F]*)>/g));
+        targets.forEach((target, i) => {
+          map.set(start + i, decodeUtf16Be(target[1]!));
+        });
+      }
+    }
+  }
+
+  return { map, codeLength };
+}
+
+/**
+ * In-memory view of a PDF file's objects
+ */
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly decodedStreams = new Map<number, Buffer | null>();
+  private decodedBytes = 0;
+  private readonly fontDecoders = new Map<PdfDict, FontDecoder>();
+  readonly trailer: PdfDict = new Map();
+
+  constructor(private readonly data: Buffer) {
+    this.indexObjects();
+    this.indexObjectStreams();
+    this.readTrailer();
+  }
+
+  private indexObjects(): void {
+    const source = this.data.toString("latin1");
+    const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+
+    for (const match of source.matchAll(objectPattern)) {
+      const num = Number.parseInt(match[1]!, 10);
+      const parser = new PdfParser(this.data, (match.index ?? 0) + match[0].length);
+      const value = parser.parseValue();
+      if (value === undefined || value instanceof PdfOperator) continue;
+
+      const object: PdfObject = { value };
+
+      // Stream data follows "stream" + EOL and ends at "endstream"
+      const after = parser.nextToken();
+      if (after instanceof PdfOperator && after.op === "stream" && isDict(value)) {
+        let start = parser.pos;
+        if (this.data[start] === 0x0d) start++;
+        if (this.data[start] === 0x0a) start++;
+
+        const declaredLength = value.get("Length");
+        let end = typeof declaredLength === "number" ? start + declaredLength : -1;
+        if (end < start || end > this.data.length || source.slice(end, end + 20).indexOf("endstream") === -1) {
+          end = source.indexOf("endstream", start);
+          if (end === -1) end = this.data.length;
+          // Trim the EOL before "endstream"
+          if (this.data[end - 1] === 0x0a) end--;
+          if (this.data[end - 1] === 0x0d) end--;
+        }
+        object.stream = this.data.subarray(start, Math.max(start, end));
+      }
+
+      // Later objects win (incremental updates append new versions)
+      this.objects.set(num, object);
+    }
+  }
+
+  /**
+   * Objects inside compressed object streams (PDF 1.5+)
+   */
+  private indexObjectStreams(): void {
+    for (const [num, object] of Array.from(this.objects.entries())) {
+      if (!isDict(object.value) || getName(object.value.get("Type")) !== "ObjStm") continue;
+
+      const decoded = this.getStreamData(num);
+      const count = object.value.get("N");
+      const first = object.value.get("First");
+      if (!decoded || typeof count !== "number" || typeof first !== "number") continue;
+
+      const header = new PdfParser(decoded);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const objNum = header.nextToken();
+        const offset = header.nextToken();
+        if (typeof objNum !== "number" || typeof offset !== "number") break;
+        entries.push([objNum, offset]);
+      }
+
+      for (const [objNum, offset] of entries) {
+        if (this.objects.has(objNum)) continue;
+        const value = new PdfParser(decoded, first + offset).parseValue();
+        if (value !== undefined && !(value instanceof PdfOperator)) {
+          this.objects.set(objNum, { value });
+        }
+      }
+    }
+  }
+
+  private readTrailer(): void {
+    const source = this.data.toString("latin1");
+
+    // Classic trailer dictionaries, then cross-reference stream dictionaries
+    for (const match of source.matchAll(/trailer\s*<</g)) {
+      const value = new PdfParser(this.data, (match.index ?? 0) + "trailer".length).parseValue();
+      if (isDict(value)) {
+        for (const [key, entry] of value) this.trailer.set(key, entry);
+      }
+    }
+    if (!this.trailer.has("Root")) {
+      for (const object of this.objects.values()) {
+        if (isDict(object.value) && getName(object.value.get("Type")) === "XRef") {
+          for (const key of ["Root", "Info", "Encrypt"]) {
+            const entry = object.value.get(key);
+            if (entry !== undefined) this.trailer.set(key, entry);
+          }
+        }
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef && depth < 16) {
+      return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  getDict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  getRawStream(ref: PdfValue | undefined): { dict: PdfDict; data: Buffer } | undefined {
+    if (!(ref instanceof PdfRef)) return undefined;
+    const object = this.objects.get(ref.num);
+    if (!object?.stream || !isDict(object.value)) return undefined;
+    return { dict: object.value, data: object.stream };
+  }
+
+  /**
+   * Decoded stream contents (FlateDecode only - other filters return null)
+   */
+  getStreamData(num: number): Buffer | null {
+    if (this.decodedStreams.has(num)) return this.decodedStreams.get(num) ?? null;
+
+    const object = this.objects.get(num);
+    let result: Buffer | null = null;
+    if (object?.stream && isDict(object.value)) {
+      const filter = this.resolve(object.value.get("Filter"));
+      const filters = (Array.isArray(filter) ? filter : filter ? [filter] : [])
+        .map((f) => getName(this.resolve(f)))
+        .filter((f): f is string => Boolean(f));
+
+      result = object.stream;
+      for (const name of filters) {
+        if (name !== "FlateDecode" && name !== "Fl") {
+          result = null;
+          break;
+        }
+        const budget = Math.min(MAX_STREAM_DECODED_SIZE, MAX_DOCUMENT_DECODED_SIZE - this.decodedBytes);
+        if (budget <= 0) {
+          result = null;
+          break;
+        }
+        try {
+          // Output past the budget throws, so oversized streams are treated like undecodable ones
+          result = zlib.inflateSync(result, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: budget });
+        } catch {
+          result = null;
+          break;
+        }
+      }
+    }
+
+    this.decodedBytes += result?.length ?? 0;
+    this.decodedStreams.set(num, result);
+    return result;
+  }
+
+  /**
+   * Walk the page tree, returning each page with its inherited resources
+   */
+  getPages(): Array<{ page: PdfDict; resources?: PdfDict }> {
+    const pages: Array<{ page: PdfDict; resources?: PdfDict }> = [];
+    const root = this.getDict(this.trailer.get("Root"));
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined, depth: number) => {
+      if (!node || visited.has(node) || depth > MAX_PAGE_TREE_DEPTH) return;
+      visited.add(node);
+
+      const resources = this.getDict(node.get("Resources")) ?? inherited;
+      const kids = this.resolve(node.get("Kids"));
+      if (getName(node.get("Type")) === "Pages" || Array.isArray(kids)) {
+        for (const kid of Array.isArray(kids) ? kids : []) {
+          walk(this.getDict(kid), resources, depth + 1);
+        }
+      } else {
+        pages.push({ page: node, resources });
+      }
+    };
+
+    walk(this.getDict(root?.get("Pages")), undefined, 0);
+    return pages;
+  }
+
+  getPageContent(page: PdfDict): Buffer {
+    const contents = page.get("Contents");
+    const refs = Array.isArray(contents) ? contents : [contents];
+    const chunks: Buffer[] = [];
+    for (const ref of refs) {
+      if (ref instanceof PdfRef) {
+        const data = this.getStreamData(ref.num);
+        if (data) chunks.push(data, Buffer.from("\n"));
+      }
+    }
+    return Buffer.concat(chunks);
+  }
+
+  getFontDecoder(font: PdfDict): FontDecoder {
+    const cached = this.fontDecoders.get(font);
+    if (cached) return cached;
+
+    const isComposite = getName(font.get("Subtype")) === "Type0";
+    let decoder: FontDecoder = {
+      codeLength: isComposite ? 2 : 1,
+      map: null,
+      // Composite fonts without a ToUnicode map use glyph IDs we can't map back to text
+      canDecode: !isComposite,
+    };
+
+    const toUnicode = font.get("ToUnicode");
+    if (toUnicode instanceof PdfRef) {
+      const data = this.getStreamData(toUnicode.num);
+      if (data) {
+        const parsed = parseToUnicodeCMap(data.toString("latin1"));
+        decoder = {
+          codeLength: isComposite ? Math.max(parsed.codeLength, 2) : parsed.codeLength,
+          map: parsed.map,
+          canDecode: true,
+        };
+      }
+    }
+
+    this.fontDecoders.set(font, decoder);
+    return decoder;
+  }
+}
+
+function decodeShownText(bytes: Buffer, decoder: FontDecoder | undefined): string {
+  if (!decoder) return bytes.toString("latin1");
+  if (!decoder.canDecode) return "";
+
+  let text = "";
+  for (let i = 0; i + decoder.codeLength <= bytes.length; i += decoder.codeLength) {
+    const code = decoder.codeLength === 2 ? bytes.readUInt16BE(i) : bytes[i]!;
+    const mapped = decoder.map?.get(code);
+    if (mapped !== undefined) {
+      text += mapped;
+    } else if (decoder.codeLength === 1) {
+      text += String.fromCharCode(code);
+    }
+  }
+  return text;
+}
+
+/**
+ * Extract text lines from a page content stream
+ */
+function extractPageLines(doc: PdfDocument, content: Buffer, resources: PdfDict | undefined): string[] {
+  const fonts = doc.getDict(resources?.get("Font"));
+  const parser = new PdfParser(content);
+  const lines: string[] = [];
+  let line = "";
+  let operands: PdfValue[] = [];
+  let decoder: FontDecoder | undefined;
+  let lastY: number | null = null;
+
+  const newLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, " ").trim());
+    line = "";
+  };
+
+  for (;;) {
+    const token = parser.nextToken();
+    if (token === undefined) break;
+
+    if (!(token instanceof PdfOperator) || token.op === "[" || token.op === "<<") {
+      const value = parser.parseValue(token);
+      if (value !== undefined && !(value instanceof PdfOperator)) operands.push(value);
+      continue;
+    }
+
+    switch (token.op) {
+      case "BI": {
+        // Inline image - skip binary data up to "EI"
+        const end = content.indexOf("EI", parser.pos);
+        parser.pos = end === -1 ? content.length : end + 2;
+        break;
+      }
+      case "Tf": {
+        const fontName = getName(operands[0]);
+        const font = fontName ? doc.getDict(fonts?.get(fontName)) : undefined;
+        decoder = font ? doc.getFontDecoder(font) : undefined;
+        break;
+      }
+      case "Td":
+      case "TD": {
+        const [tx, ty] = operands;
+        if (typeof ty === "number" && Math.abs(ty) > 0.01) {
+          newLine();
+        } else if (typeof tx === "number" && tx > 0) {
+          line += " ";
+        }
+        break;
+      }
+      case "Tm": {
+        const y = operands[5];
+        if (typeof y === "number") {
+          if (lastY !== null && Math.abs(y - lastY) > 0.01) newLine();
+          lastY = y;
+        }
+        break;
+      }
+      case "T*":
+      case "ET":
+        newLine();
+        break;
+      case "Tj":
+        if (Buffer.isBuffer(operands[0])) line += decodeShownText(operands[0], decoder);
+        break;
+      case "'":
+        newLine();
+        if (Buffer.isBuffer(operands[0])) line += decodeShownText(operands[0], decoder);
+        break;
+      case '"':
+        newLine();
+        if (Buffer.isBuffer(operands[2])) line += decodeShownText(operands[2], decoder);
+        break;
+      case "TJ": {
+        const items = operands[0];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (Buffer.isBuffer(item)) {
+              line += decodeShownText(item, decoder);
+            } else if (typeof item === "number" && item < -200) {
+              // Large negative kerning is a word gap
+              line += " ";
+            }
+          }
+        }
+        break;
+      }
+    }
+    operands = [];
+  }
+  newLine();
+
+  return lines;
+}
+
+/**
+ * Drop page numbers and running headers/footers
+ * A line that keeps showing up at the top or bottom of pages is a running
+ * header; we keep its first occurrence (often the real chapter heading) and
+ * drop the repeats.
+ */
+function removeRepeatedLines(pages: string[][]): string[][] {
+  // Headers often carry the page number ("The Quiet Harbor 12"); strip it unless
+  // that leaves a single word, so "Chapter 1" and "Chapter 2" stay distinct
+  const normalize = (line: string) => {
+    const collapsed = line.replace(/\s+/g, " ").trim().toLowerCase();
+    const withoutNumber = collapsed.replace(/^\d+\s+|\s+\d+$/g, "");
+    return withoutNumber.includes(" ") ? withoutNumber : collapsed;
+  };
+  const edgeLines = (lines: string[]) => [...lines.slice(0, 2), ...lines.slice(-2)];
+
+  const edgeCounts = new Map<string, number>();
+  for (const lines of pages) {
+    for (const key of new Set(edgeLines(lines).map(normalize))) {
+      edgeCounts.set(key, (edgeCounts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const seen = new Set<string>();
+  return pages.map((lines) => {
+    const edges = new Set(edgeLines(lines));
+    return lines.filter((line) => {
+      if (/^\d+$/.test(line)) return false;
+      if (!edges.has(line)) return true;
+
+      const key = normalize(line);
+      if ((edgeCounts.get(key) ?? 0) < 2) return true;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  });
+}
+
+/**
+ * Find the largest JPEG image drawn on a page (used as the cover)
+ */
+function findPageImage(doc: PdfDocument, resources: PdfDict | undefined): Buffer | undefined {
+  const xObjects = doc.getDict(resources?.get("XObject"));
+  if (!xObjects) return undefined;
+
+  let best: { data: Buffer; area: number } | undefined;
+  for (const ref of xObjects.values()) {
+    const stream = doc.getRawStream(ref);
+    if (!stream || getName(stream.dict.get("Subtype")) !== "Image") continue;
+
+    const filter = doc.resolve(stream.dict.get("Filter"));
+    const filters = Array.isArray(filter) ? filter.map(getName) : [getName(filter)];
+    // Only a lone DCTDecode filter means the stream bytes are a plain JPEG file
+    if (filters.length !== 1 || filters[0] !== "DCTDecode") continue;
+
+    const width = doc.resolve(stream.dict.get("Width"));
+    const height = doc.resolve(stream.dict.get("Height"));
+    const area = (typeof width === "number" ? width : 0) * (typeof height === "number" ? height : 0);
+    if (!best || area > best.area) {
+      best = { data: stream.data, area };
+    }
+  }
+
+  return best ? Buffer.from(best.data) : undefined;
+}
+
+/**
+ * Extract metadata from a PDF file
+ * PDF metadata lives in:
+ * - The document info dictionary (Title, Author, Subject)
+ * - The catalog's XMP metadata stream (fallback for title/language)
+ * - The page tree (page count, text layer, first-page image)
+ */
+export async function extractPdfMetadata(
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<PdfMetadata> {
+  const metadata: PdfMetadata = {};
+
+  try {
+    if (fileBuffer.subarray(0, 1024).indexOf("%PDF-") === -1) {
+      console.warn(`[PDF] ${fileName} does not look like a PDF file`);
+      return metadata;
+    }
+
+    const doc = new PdfDocument(fileBuffer);
+    const pages = doc.getPages();
+    metadata.pageCount = pages.length;
+
+    // Encrypted files have encrypted strings and streams - page count is all we can read
+    if (doc.trailer.has("Encrypt")) {
+      console.warn(`[PDF] ${fileName} is encrypted, skipping text extraction`);
+      return metadata;
+    }
+
+    // Document info dictionary
+    const info = doc.getDict(doc.trailer.get("Info"));
+    const readInfo = (key: string): string | undefined => {
+      const value = doc.resolve(info?.get(key));
+      return Buffer.isBuffer(value) ? decodePdfString(value).trim() || undefined : undefined;
+    };
+    metadata.title = readInfo("Title");
+    metadata.author = readInfo("Author");
+    metadata.description = readInfo("Subject");
+
+    // XMP metadata as a fallback
+    const catalog = doc.getDict(doc.trailer.get("Root"));
+    const catalogLang = doc.resolve(catalog?.get("Lang"));
+    if (Buffer.isBuffer(catalogLang)) {
+      metadata.language = decodePdfString(catalogLang).trim() || undefined;
+    }
+    const xmpRef = catalog?.get("Metadata");
+    if (xmpRef instanceof PdfRef && (!metadata.title || !metadata.author)) {
+      const xmp = doc.getStreamData(xmpRef.num)?.toString("utf-8") ?? "";
+      const xmpValue = (tag: string) =>
+        xmp.match(new RegExp(`<dc:${tag}>[\\s\\S]*?<rdf:li[^>]*>([^<]+)</rdf:li>`))?.[1]?.trim();
+      metadata.title ??= xmpValue("title");
+      metadata.author ??= xmpValue("creator");
+    }
+
+    // Cover from the first page
+    const firstPage = pages[0];
+    if (firstPage) {
+      const image = findPageImage(doc, firstPage.resources);
+      if (image) {
+        metadata.coverImage = image;
+        metadata.coverImageMimeType = "image/jpeg";
+      }
+    }
+
+    // Text layer
+    const pageLines = removeRepeatedLines(
+      pages.slice(0, MAX_PAGES_FOR_TEXT).map(({ page, resources }) =>
+        extractPageLines(doc, doc.getPageContent(page), resources)
+      )
+    );
+    const text = pageLines.map((lines) => lines.join("\n")).filter(Boolean).join("\n\n");
+    if (countWords(text) > 0) {
+      const paragraphs: ManuscriptParagraph[] = pageLines.flat().map((line) => ({ text: line }));
+      metadata.text = text;
+      metadata.chapters = detectChapters(paragraphs);
+    }
+
+    console.log("[PDF] Extracted metadata:", {
+      title: metadata.title,
+      author: metadata.author,
+      pages: metadata.pageCount,
+      hasText: !!metadata.text,
+      hasCover: !!metadata.coverImage,
+    });
+
+    return metadata;
+  } catch (error) {
+    console.error(`[PDF] Failed to extract metadata from ${fileName}:`, error);
+    return metadata;
+  }
+}
@@ -1,3 +1,27 @@
+import { readStructuredReport, type ReportScore } from "./report-schema";
+
+/**
+ * Summary of a stored report: the structured summary when the report has one,
+ * otherwise scraped from the HTML of older uploads
+ */
+export function getReportSummary(report: {
+  structuredContent?: string | null;
+  htmlContent?: string | null;
+}): string | null {
+  const structured = readStructuredReport(report.structuredContent);
+  if (structured) {
+    return structured.summary;
+  }
+  return extractSummaryFromReportHtml(report.htmlContent);
+}
+
+/**
+ * Scores of a stored report; HTML-only reports have none
+ */
+export function getReportScores(report: { structuredContent?: string | null }): ReportScore[] {
+  return readStructuredReport(report.structuredContent)?.scores ?? [];
+}
+
 /**
  * Extract summary text from report HTML
  * Looks for content in the "Overview" tab section
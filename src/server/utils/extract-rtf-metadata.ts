@@ -0,0 +1,296 @@
+import {
+  detectChapters,
+  paragraphsToText,
+  type ManuscriptChapter,
+  type ManuscriptParagraph,
+} from "./manuscript-text";
+
+interface RtfMetadata {
+  title?: string;
+  author?: string;
+  description?: string;
+  text?: string;
+  chapters?: ManuscriptChapter[];
+}
+
+interface RtfStyle {
+  name: string;
+  outlineLevel?: number;
+}
+
+interface RtfGroup {
+  destination: string; // "body", "info", an \info field, "stylesheet" or "style"
+  skip: boolean; // Ignorable or non-visible destination
+  unicodeSkip: number; // Fallback characters after each \uN (\ucN)
+  style?: { number: number; name: string; outlineLevel?: number };
+}
+
+// Destinations whose content is never part of the visible text
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "generator",
+  "pict",
+  "object",
+  "fldinst",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "footnote",
+  "annotation",
+  "xmlnstbl",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+]);
+
+// \info fields we read
+const INFO_FIELDS = new Set(["title", "author", "subject", "doccomm"]);
+
+// Control symbols and words that stand for a single character
+const CHARACTER_WORDS: Record<string, string> = {
+  tab: "\t",
+  line: "\n",
+  emdash: "—",
+  endash: "–",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  bullet: "•",
+  "~": " ",
+  _: "‑",
+};
+
+const windows1252 = new TextDecoder("windows-1252");
+
+/**
+ * Parse an RTF document into paragraphs, \info fields and paragraph styles
+ *
+ * This is a small tokenizer rather than a full RTF reader: it tracks groups,
+ * destinations and paragraph properties, which is all we need for text.
+ */
+function parseRtf(rtf: string): { paragraphs: ManuscriptParagraph[]; info: Record<string, string> } {
+  const paragraphs: ManuscriptParagraph[] = [];
+  const info: Record<string, string> = {};
+  const styles = new Map<number, RtfStyle>();
+  const stack: RtfGroup[] = [];
+  let group: RtfGroup = { destination: "body", skip: false, unicodeSkip: 1 };
+
+  let paragraphText = "";
+  let paragraphStyle: number | undefined;
+  let paragraphOutline: number | undefined;
+  let pendingSkip = 0;
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (group.skip) return;
+    if (group.destination === "body") {
+      paragraphText += text;
+    } else if (INFO_FIELDS.has(group.destination)) {
+      info[group.destination] = (info[group.destination] ?? "") + text;
+    } else if (group.style) {
+      group.style.name += text;
+    }
+  };
+
+  const getHeadingLevel = (): number | undefined => {
+    // Outline level 9 means "body text"
+    if (paragraphOutline !== undefined && paragraphOutline < 9) return paragraphOutline + 1;
+    const style = paragraphStyle !== undefined ? styles.get(paragraphStyle) : undefined;
+    if (!style) return undefined;
+    const headingName = style.name.match(/^heading\s*(\d)$/i);
+    if (headingName?.[1]) return Number.parseInt(headingName[1], 10);
+    if (style.outlineLevel !== undefined && style.outlineLevel < 9) return style.outlineLevel + 1;
+    return undefined;
+  };
+
+  const endParagraph = () => {
+    if (paragraphText.trim()) {
+      paragraphs.push({ text: paragraphText, headingLevel: getHeadingLevel() });
+    }
+    paragraphText = "";
+  };
+
+  const handleControlWord = (word: string, param: number | null) => {
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      group.skip = true;
+      return;
+    }
+    if (word in CHARACTER_WORDS) {
+      emit(CHARACTER_WORDS[word]!);
+      return;
+    }
+
+    switch (word) {
+      case "info":
+      case "stylesheet":
+        group.destination = word;
+        break;
+      case "title":
+      case "author":
+      case "subject":
+      case "doccomm":
+        if (group.destination === "info") group.destination = word;
+        break;
+      case "par":
+      case "sect":
+      case "page":
+        if (group.destination === "body" && !group.skip) endParagraph();
+        break;
+      case "pard":
+        paragraphStyle = undefined;
+        paragraphOutline = undefined;
+        break;
+      case "s":
+        if (group.style) group.style.number = param ?? 0;
+        else if (group.destination === "body") paragraphStyle = param ?? 0;
+        break;
+      case "outlinelevel":
+        if (group.style) group.style.outlineLevel = param ?? 0;
+        else if (group.destination === "body") paragraphOutline = param ?? 0;
+        break;
+      case "uc":
+        group.unicodeSkip = param ?? 1;
+        break;
+      case "u":
+        if (param !== null) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = group.unicodeSkip;
+        }
+        break;
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i]!;
+
+    if (char === "{") {
+      stack.push(group);
+      group = { ...group };
+      if (group.destination === "stylesheet") {
+        group.destination = "style";
+        group.style = { number: 0, name: "" };
+      }
+      pendingSkip = 0;
+      i++;
+      continue;
+    }
+
+    if (char === "}") {
+      const closed = group;
+      group = stack.pop() ?? group;
+      if (closed.style && closed.style !== group.style && !closed.skip) {
+        const name = closed.style.name.replace(/;\s*$/, "").trim();
+        styles.set(closed.style.number, { name, outlineLevel: closed.style.outlineLevel });
+      }
+      pendingSkip = 0;
+      i++;
+      continue;
+    }
+
+    if (char === "\r" || char === "\n") {
+      i++;
+      continue;
+    }
+
+    if (char !== "\\") {
+      emit(char);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === undefined) break;
+
+    // Hex-encoded byte in the document's ANSI code page
+    if (next === "'") {
+      const byte = Number.parseInt(rtf.slice(i + 2, i + 4), 16);
+      if (!Number.isNaN(byte)) emit(windows1252.decode(new Uint8Array([byte])));
+      i += 4;
+      continue;
+    }
+
+    // Ignorable destination: skip the group unless we understand it
+    if (next === "*") {
+      group.skip = true;
+      i += 2;
+      continue;
+    }
+
+    if (!/[a-z]/i.test(next)) {
+      // Control symbols: escaped characters, \~, \_, \- (optional hyphen) and
+      // line breaks written as a backslash before a newline
+      if (next === "\\" || next === "{" || next === "}") emit(next);
+      else if (next === "~" || next === "_") emit(CHARACTER_WORDS[next]!);
+      else if (next === "\n" || next === "\r") handleControlWord("par", null);
+      i += 2;
+      continue;
+    }
+
+    const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40));
+    const word = match?.[1] ?? next;
+    const param = match?.[2] !== undefined ? Number.parseInt(match[2], 10) : null;
+    i += 1 + (match?.[0].length ?? 1);
+
+    // Binary data is skipped byte for byte
+    if (word === "bin" && param !== null) {
+      i += param;
+      continue;
+    }
+
+    handleControlWord(word, param);
+  }
+  endParagraph();
+
+  return { paragraphs, info };
+}
+
+/**
+ * Extract metadata, plain text and chapters from an RTF manuscript
+ * Scrivener compiles to RTF by default; its title and author end up in the
+ * \info group, and chapter titles use heading styles or outline levels
+ */
+export async function extractRtfMetadata(
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<RtfMetadata> {
+  const metadata: RtfMetadata = {};
+
+  try {
+    // RTF is 7-bit ASCII; other characters are escaped with \'hh or \uN
+    const { paragraphs, info } = parseRtf(fileBuffer.toString("latin1"));
+
+    metadata.title = info.title?.trim() || undefined;
+    metadata.author = info.author?.trim() || undefined;
+    metadata.description = info.doccomm?.trim() || info.subject?.trim() || undefined;
+    metadata.text = paragraphsToText(paragraphs);
+    metadata.chapters = detectChapters(paragraphs);
+
+    console.log(`[RTF] Extracted metadata from ${fileName}:`, {
+      title: metadata.title,
+      author: metadata.author,
+      paragraphs: paragraphs.length,
+      chapters: metadata.chapters.length,
+    });
+
+    return metadata;
+  } catch (error) {
+    console.error(`[RTF] Failed to extract metadata from ${fileName}:`, error);
+    return metadata;
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  detectChapters,
+  paragraphsToText,
+  textToParagraphs,
+  type ManuscriptChapter,
+} from "./manuscript-text";
+
+interface TxtMetadata {
+  text?: string;
+  chapters?: ManuscriptChapter[];
+}
+
+/**
+ * Extract text and chapters from a plain text manuscript
+ * Plain text has no embedded metadata, so only the body is returned
+ */
+export async function extractTxtMetadata(
+  fileBuffer: Buffer,
+  fileName: string
+): Promise<TxtMetadata> {
+  const metadata: TxtMetadata = {};
+
+  try {
+    // Strip a UTF-8 byte order mark if present
+    const raw = fileBuffer.toString("utf-8").replace(/^\uFEFF/, "");
+    const paragraphs = textToParagraphs(raw);
+
+    metadata.text = paragraphsToText(paragraphs);
+    metadata.chapters = detectChapters(paragraphs);
+
+    console.log(`[TXT] Extracted text from ${fileName}:`, {
+      paragraphs: paragraphs.length,
+      chapters: metadata.chapters.length,
+    });
+
+    return metadata;
+  } catch (error) {
+    console.error(`[TXT] Failed to extract text from ${fileName}:`, error);
+    return metadata;
+  }
+}
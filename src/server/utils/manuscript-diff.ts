@@ -0,0 +1,371 @@
+import { countWords, type ManuscriptChapter } from "./manuscript-text";
+
+/**
+ * Paragraph- and word-level diff between two extracted manuscripts
+ *
+ * Chapters are paired by title first, then renamed chapters are paired by
+ * content similarity. Within a chapter, paragraphs are aligned with an LCS
+ * diff; a removed paragraph followed by a similar added one is reported as
+ * "changed" with an inline word diff.
+ */
+
+export interface ManuscriptDocument {
+  text: string;
+  chapters: ManuscriptChapter[];
+}
+
+export interface WordSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export type ParagraphDiff =
+  | { type: "unchanged"; text: string }
+  | { type: "added"; text: string }
+  | { type: "removed"; text: string }
+  | { type: "changed"; oldText: string; newText: string; segments: WordSegment[] };
+
+export interface ChapterDiff {
+  title: string;
+  oldTitle: string | null; // Set when the chapter was renamed or removed
+  status: "added" | "removed" | "changed" | "unchanged";
+  oldWordCount: number;
+  newWordCount: number;
+  wordDelta: number;
+  added: number;
+  removed: number;
+  changed: number;
+  paragraphs: ParagraphDiff[]; // Empty for unchanged chapters
+}
+
+export interface ManuscriptDiff {
+  chapters: ChapterDiff[];
+  totals: {
+    oldWordCount: number;
+    newWordCount: number;
+    wordDelta: number;
+    added: number;
+    removed: number;
+    changed: number;
+    chaptersAdded: number;
+    chaptersRemoved: number;
+    chaptersChanged: number;
+  };
+}
+
+// Edited paragraphs must share at least this share of words to count as "changed"
+const CHANGED_PARAGRAPH_SIMILARITY = 0.5;
+// Untitled/renamed chapters must share this share of words to be paired
+const RENAMED_CHAPTER_SIMILARITY = 0.3;
+// Above this many LCS cells the unmatched middle is reported as removed + added
+const MAX_LCS_CELLS = 4_000_000;
+
+type Operation<T> = { type: "equal" | "added" | "removed"; value: T };
+
+/**
+ * Longest-common-subsequence diff of two sequences
+ * Common prefix/suffix are trimmed before the quadratic step
+ */
+function diffSequences<T>(oldItems: T[], newItems: T[], key: (item: T) => string): Operation<T>[] {
+  let start = 0;
+  while (
+    start < oldItems.length &&
+    start < newItems.length &&
+    key(oldItems[start] as T) === key(newItems[start] as T)
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldItems.length;
+  let newEnd = newItems.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    key(oldItems[oldEnd - 1] as T) === key(newItems[newEnd - 1] as T)
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const head = oldItems.slice(0, start).map((value): Operation<T> => ({ type: "equal", value }));
+  const tail = oldItems.slice(oldEnd).map((value): Operation<T> => ({ type: "equal", value }));
+  const oldMiddle = oldItems.slice(start, oldEnd);
+  const newMiddle = newItems.slice(start, newEnd);
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...oldMiddle.map((value): Operation<T> => ({ type: "removed", value })),
+      ...newMiddle.map((value): Operation<T> => ({ type: "added", value })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+  const oldKeys = oldMiddle.map(key);
+  const newKeys = newMiddle.map(key);
+  const lengths = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[at(i, j)] =
+        oldKeys[i] === newKeys[j]
+          ? (lengths[at(i + 1, j + 1)] ?? 0) + 1
+          : Math.max(lengths[at(i + 1, j)] ?? 0, lengths[at(i, j + 1)] ?? 0);
+    }
+  }
+
+  const middle: Operation<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldKeys[i] === newKeys[j]) {
+      middle.push({ type: "equal", value: oldMiddle[i] as T });
+      i++;
+      j++;
+    } else if ((lengths[at(i + 1, j)] ?? 0) >= (lengths[at(i, j + 1)] ?? 0)) {
+      middle.push({ type: "removed", value: oldMiddle[i] as T });
+      i++;
+    } else {
+      middle.push({ type: "added", value: newMiddle[j] as T });
+      j++;
+    }
+  }
+  for (; i < rows; i++) middle.push({ type: "removed", value: oldMiddle[i] as T });
+  for (; j < cols; j++) middle.push({ type: "added", value: newMiddle[j] as T });
+
+  return [...head, ...middle, ...tail];
+}
+
+function normalizeParagraph(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(normalizeParagraph).filter(Boolean);
+}
+
+/**
+ * Share of distinct words two texts have in common (Jaccard index)
+ */
+function wordSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []);
+  const wordsB = new Set(b.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []);
+  if (wordsA.size === 0 && wordsB.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Inline word diff of two versions of a paragraph
+ * Whitespace is kept attached to the preceding word so segments can be
+ * concatenated back into the original text
+ */
+export function diffWords(oldText: string, newText: string): WordSegment[] {
+  const tokenize = (text: string) => text.match(/\S+\s*/g) ?? [];
+  const operations = diffSequences(tokenize(oldText), tokenize(newText), (token) => token.trim());
+
+  const segments: WordSegment[] = [];
+  for (const operation of operations) {
+    const last = segments[segments.length - 1];
+    if (last && last.type === operation.type) {
+      last.text += operation.value;
+    } else {
+      segments.push({ type: operation.type, text: operation.value });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Paragraph diff of two chapter texts
+ */
+export function diffParagraphs(oldText: string, newText: string): ParagraphDiff[] {
+  const operations = diffSequences(splitParagraphs(oldText), splitParagraphs(newText), (p) => p);
+  const result: ParagraphDiff[] = [];
+
+  let index = 0;
+  while (index < operations.length) {
+    const operation = operations[index] as Operation<string>;
+    if (operation.type === "equal") {
+      result.push({ type: "unchanged", text: operation.value });
+      index++;
+      continue;
+    }
+
+    // Collect a run of removals and additions, then pair up similar paragraphs
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < operations.length && (operations[index] as Operation<string>).type !== "equal") {
+      const current = operations[index] as Operation<string>;
+      (current.type === "removed" ? removed : added).push(current.value);
+      index++;
+    }
+
+    let addedIndex = 0;
+    for (const oldParagraph of removed) {
+      const matchOffset = added
+        .slice(addedIndex)
+        .findIndex((newParagraph) => wordSimilarity(oldParagraph, newParagraph) >= CHANGED_PARAGRAPH_SIMILARITY);
+
+      if (matchOffset === -1) {
+        result.push({ type: "removed", text: oldParagraph });
+        continue;
+      }
+
+      // Paragraphs inserted before the edited one
+      for (const newParagraph of added.slice(addedIndex, addedIndex + matchOffset)) {
+        result.push({ type: "added", text: newParagraph });
+      }
+      const newParagraph = added[addedIndex + matchOffset] as string;
+      result.push({
+        type: "changed",
+        oldText: oldParagraph,
+        newText: newParagraph,
+        segments: diffWords(oldParagraph, newParagraph),
+      });
+      addedIndex += matchOffset + 1;
+    }
+    for (const newParagraph of added.slice(addedIndex)) {
+      result.push({ type: "added", text: newParagraph });
+    }
+  }
+
+  return result;
+}
+
+function buildChapterDiff(oldChapter: ManuscriptChapter | null, newChapter: ManuscriptChapter | null): ChapterDiff {
+  const oldText = oldChapter?.text ?? "";
+  const newText = newChapter?.text ?? "";
+  const paragraphs = diffParagraphs(oldText, newText);
+
+  const added = paragraphs.filter((p) => p.type === "added").length;
+  const removed = paragraphs.filter((p) => p.type === "removed").length;
+  const changed = paragraphs.filter((p) => p.type === "changed").length;
+  const oldWordCount = oldChapter ? countWords(oldText) : 0;
+  const newWordCount = newChapter ? countWords(newText) : 0;
+  const renamed = Boolean(oldChapter && newChapter && oldChapter.title !== newChapter.title);
+
+  let status: ChapterDiff["status"] = "unchanged";
+  if (!oldChapter) {
+    status = "added";
+  } else if (!newChapter) {
+    status = "removed";
+  } else if (added + removed + changed > 0 || renamed) {
+    status = "changed";
+  }
+
+  return {
+    title: newChapter?.title ?? oldChapter?.title ?? "",
+    oldTitle: oldChapter && (renamed || !newChapter) ? oldChapter.title : null,
+    status,
+    oldWordCount,
+    newWordCount,
+    wordDelta: newWordCount - oldWordCount,
+    added,
+    removed,
+    changed,
+    paragraphs: status === "unchanged" ? [] : paragraphs,
+  };
+}
+
+/**
+ * Use the whole text as one chapter when a version has no detectable chapters
+ */
+function chaptersOf(document: ManuscriptDocument): ManuscriptChapter[] {
+  if (document.chapters.length > 0) {
+    return document.chapters;
+  }
+  return [{ index: 0, title: "Manuscript", text: document.text, wordCount: countWords(document.text) }];
+}
+
+/**
+ * Compare two extracted manuscripts chapter by chapter
+ */
+export function diffManuscripts(oldDocument: ManuscriptDocument, newDocument: ManuscriptDocument): ManuscriptDiff {
+  const oldChapters = chaptersOf(oldDocument);
+  const newChapters = chaptersOf(newDocument);
+
+  // Pair chapters with the same title, then unmatched chapters with similar text
+  const pairs = new Map<number, number>(); // new index -> old index
+  const usedOld = new Set<number>();
+  newChapters.forEach((chapter, newIndex) => {
+    const oldIndex = oldChapters.findIndex(
+      (candidate, i) => !usedOld.has(i) && normalizeTitle(candidate.title) === normalizeTitle(chapter.title)
+    );
+    if (oldIndex !== -1) {
+      pairs.set(newIndex, oldIndex);
+      usedOld.add(oldIndex);
+    }
+  });
+  newChapters.forEach((chapter, newIndex) => {
+    if (pairs.has(newIndex)) return;
+    let best = -1;
+    let bestSimilarity = RENAMED_CHAPTER_SIMILARITY;
+    oldChapters.forEach((candidate, oldIndex) => {
+      if (usedOld.has(oldIndex)) return;
+      const similarity = wordSimilarity(candidate.text, chapter.text);
+      if (similarity >= bestSimilarity) {
+        best = oldIndex;
+        bestSimilarity = similarity;
+      }
+    });
+    if (best !== -1) {
+      pairs.set(newIndex, best);
+      usedOld.add(best);
+    }
+  });
+
+  // Keep the new version's order; removed chapters go after the chapter that preceded them
+  const entries: { order: number; diff: ChapterDiff }[] = newChapters.map((chapter, newIndex) => {
+    const oldIndex = pairs.get(newIndex);
+    return {
+      order: newIndex,
+      diff: buildChapterDiff(oldIndex === undefined ? null : (oldChapters[oldIndex] ?? null), chapter),
+    };
+  });
+  const newIndexByOld = new Map(Array.from(pairs, ([newIndex, oldIndex]) => [oldIndex, newIndex]));
+  oldChapters.forEach((chapter, oldIndex) => {
+    if (usedOld.has(oldIndex)) return;
+    let order = -1;
+    for (let previous = oldIndex - 1; previous >= 0; previous--) {
+      const newIndex = newIndexByOld.get(previous);
+      if (newIndex !== undefined) {
+        order = newIndex;
+        break;
+      }
+    }
+    entries.push({ order: order + 0.5 + oldIndex / 1e6, diff: buildChapterDiff(chapter, null) });
+  });
+  entries.sort((a, b) => a.order - b.order);
+
+  const chapters = entries.map((entry) => entry.diff);
+  const oldWordCount = countWords(oldDocument.text);
+  const newWordCount = countWords(newDocument.text);
+
+  return {
+    chapters,
+    totals: {
+      oldWordCount,
+      newWordCount,
+      wordDelta: newWordCount - oldWordCount,
+      added: chapters.reduce((total, chapter) => total + chapter.added, 0),
+      removed: chapters.reduce((total, chapter) => total + chapter.removed, 0),
+      changed: chapters.reduce((total, chapter) => total + chapter.changed, 0),
+      chaptersAdded: chapters.filter((chapter) => chapter.status === "added").length,
+      chaptersRemoved: chapters.filter((chapter) => chapter.status === "removed").length,
+      chaptersChanged: chapters.filter((chapter) => chapter.status === "changed").length,
+    },
+  };
+}
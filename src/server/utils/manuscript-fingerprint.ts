@@ -0,0 +1,99 @@
+/**
+ * Text fingerprints for near-duplicate manuscript detection
+ *
+ * The text is split into overlapping word shingles (runs of SHINGLE_SIZE words)
+ * and summarised as a MinHash signature: for each of SIGNATURE_SIZE hash
+ * functions, the smallest hash of any shingle. The share of positions where two
+ * signatures agree estimates the Jaccard similarity of their shingle sets, so
+ * manuscripts can be compared without keeping their full text around.
+ *
+ * Words are lowercased and stripped of punctuation first, so the same text
+ * exported as PDF, DOCX or TXT produces (nearly) the same fingerprint.
+ */
+
+export const SHINGLE_SIZE = 5;
+export const SIGNATURE_SIZE = 128;
+
+// Too few shingles and the similarity estimate is meaningless
+const MIN_SHINGLES = 20;
+
+/**
+ * murmur3 32-bit finalizer - spreads the bits of a 32-bit value
+ */
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// One seed per hash function. Fingerprints are stored, so these must never change.
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+function normalizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Compute the MinHash fingerprint of a manuscript's text
+ * Returns null when the text is too short to compare meaningfully
+ */
+export function computeTextFingerprint(text: string): string | null {
+  const words = normalizeWords(text);
+  const shingleCount = words.length - SHINGLE_SIZE + 1;
+  if (shingleCount < MIN_SHINGLES) {
+    return null;
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  const seen = new Set<number>();
+
+  for (let i = 0; i < shingleCount; i++) {
+    const shingleHash = hashString(words.slice(i, i + SHINGLE_SIZE).join(" "));
+    if (seen.has(shingleHash)) continue;
+    seen.add(shingleHash);
+
+    for (let k = 0; k < SIGNATURE_SIZE; k++) {
+      const value = mix32(shingleHash ^ SEEDS[k]!);
+      if (value < signature[k]!) {
+        signature[k] = value;
+      }
+    }
+  }
+
+  // Stored as fixed-width hex: 8 characters per hash
+  return signature.map((value) => value.toString(16).padStart(8, "0")).join("");
+}
+
+/**
+ * Estimate the similarity (0-1) of two texts from their fingerprints
+ */
+export function compareTextFingerprints(a: string, b: string): number {
+  if (a.length !== b.length || a.length !== SIGNATURE_SIZE * 8) {
+    return 0;
+  }
+
+  let matches = 0;
+  for (let k = 0; k < SIGNATURE_SIZE; k++) {
+    const offset = k * 8;
+    if (a.slice(offset, offset + 8) === b.slice(offset, offset + 8)) {
+      matches++;
+    }
+  }
+  return matches / SIGNATURE_SIZE;
+}
@@ -0,0 +1,59 @@
+import { countWords, type ManuscriptChapter } from "./manuscript-text";
+
+// Typical trade paperback page and adult silent reading speed
+export const WORDS_PER_PAGE = 250;
+export const WORDS_PER_MINUTE = 230;
+
+export interface ManuscriptStats {
+  wordCount: number;
+  characterCount: number;
+  estimatedPages: number;
+  chapterCount: number;
+  averageChapterLength: number | null; // words per chapter, null when no chapters were detected
+  dialogueRatio: number; // share of words inside quotation marks, 0-1
+  readingTimeMinutes: number;
+}
+
+// Quoted passages within a single paragraph. Single curly quotes only count
+// when they open after whitespace and close before punctuation, so
+// apostrophes ("don’t") aren't mistaken for dialogue.
+const DIALOGUE_PATTERN =
+  /“[^”\n]*”?|"[^"\n]*"|«[^»\n]*»|„[^“”\n]*[“”]|(?<=^|[\s([—–-])‘[^\n]*?’(?=[\s.,;:!?)\]—–-]|$)/gmu;
+
+/**
+ * Share of words that appear inside quotation marks
+ */
+export function calculateDialogueRatio(text: string): number {
+  const totalWords = countWords(text);
+  if (totalWords === 0) {
+    return 0;
+  }
+
+  let dialogueWords = 0;
+  for (const match of text.matchAll(DIALOGUE_PATTERN)) {
+    dialogueWords += countWords(match[0]);
+  }
+
+  return Math.round(Math.min(dialogueWords / totalWords, 1) * 1000) / 1000;
+}
+
+/**
+ * Compute manuscript statistics from extracted text and chapters
+ */
+export function computeManuscriptStats(
+  text: string,
+  chapters: ManuscriptChapter[] = []
+): ManuscriptStats {
+  const wordCount = countWords(text);
+  const chapterWords = chapters.reduce((total, chapter) => total + chapter.wordCount, 0);
+
+  return {
+    wordCount,
+    characterCount: Array.from(text.replace(/\s+/g, " ").trim()).length,
+    estimatedPages: Math.ceil(wordCount / WORDS_PER_PAGE),
+    chapterCount: chapters.length,
+    averageChapterLength: chapters.length > 0 ? Math.round(chapterWords / chapters.length) : null,
+    dialogueRatio: calculateDialogueRatio(text),
+    readingTimeMinutes: Math.ceil(wordCount / WORDS_PER_MINUTE),
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Plain-text helpers shared by the manuscript extractors
+ * Extractors turn their source format into a list of paragraphs (with an
+ * optional heading level) and use these helpers to build text and chapters
+ */
+
+export interface ManuscriptParagraph {
+  text: string;
+  headingLevel?: number; // 1 = top-level heading, undefined = body text
+}
+
+export interface ManuscriptChapter {
+  index: number;
+  title: string;
+  text: string;
+  wordCount: number;
+}
+
+// Body paragraphs that look like chapter openings when a file has no heading styles
+const CHAPTER_HEADING_PATTERN =
+  /^(chapter|part|book|prologue|epilogue|interlude)\b[\s\dA-Za-z.:,'-]{0,60}$/i;
+
+/**
+ * Count words in a block of text
+ */
+export function countWords(text: string): number {
+  const matches = text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu);
+  return matches ? matches.length : 0;
+}
+
+/**
+ * Join paragraphs into plain text (one blank line between paragraphs)
+ */
+export function paragraphsToText(paragraphs: ManuscriptParagraph[]): string {
+  return paragraphs
+    .map((p) => p.text.trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Split plain text into paragraphs
+ * Paragraphs are separated by blank lines; text without any blank lines is
+ * treated as one paragraph per line
+ */
+export function textToParagraphs(text: string): ManuscriptParagraph[] {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  const separator = /\n[ \t]*\n/.test(normalized) ? /\n[ \t]*\n+/ : /\n/;
+
+  return normalized
+    .split(separator)
+    .map((block) => block.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map((block) => ({ text: block }));
+}
+
+/**
+ * Detect chapter boundaries from a list of paragraphs
+ *
+ * Uses the shallowest heading level present in the document as the chapter
+ * level. When no headings exist, falls back to "Chapter 1" / "Prologue" style
+ * lines. Text before the first chapter heading is not counted as a chapter.
+ */
+export function detectChapters(paragraphs: ManuscriptParagraph[]): ManuscriptChapter[] {
+  const headingLevels = paragraphs.flatMap((p) =>
+    p.headingLevel !== undefined && p.headingLevel > 0 && p.text.trim() ? [p.headingLevel] : []
+  );
+
+  const chapterLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : null;
+
+  const isChapterStart = (p: ManuscriptParagraph): boolean => {
+    const text = p.text.trim();
+    if (!text) return false;
+    if (chapterLevel !== null) {
+      return p.headingLevel === chapterLevel;
+    }
+    return CHAPTER_HEADING_PATTERN.test(text);
+  };
+
+  const chapters: ManuscriptChapter[] = [];
+  let current: { title: string; body: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const text = current.body.join("\n\n");
+    chapters.push({
+      index: chapters.length,
+      title: current.title,
+      text,
+      wordCount: countWords(text),
+    });
+  };
+
+  for (const paragraph of paragraphs) {
+    if (isChapterStart(paragraph)) {
+      flush();
+      current = { title: paragraph.text.trim(), body: [] };
+      continue;
+    }
+
+    const text = paragraph.text.trim();
+    if (current && text) {
+      current.body.push(text);
+    }
+  }
+  flush();
+
+  return chapters;
+}
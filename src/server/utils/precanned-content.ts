@@ -10,6 +10,8 @@ import {
 } from "@/server/db/schema";
 import { and, eq, sql } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { getBlobStore } from "@/server/storage";
+import { sanitizeUploadedHtml } from "@/server/utils/sandbox-html";
 
 type PrecannedManifest = {
   books: PrecannedManifestBook[];
@@ -63,7 +65,6 @@ export type ImportPrecannedResult = {
 };
 
 const PRECANNED_ROOT = path.resolve(process.cwd(), "precannedcontent");
-const PRECANNED_PUBLIC_ROOT = path.resolve(process.cwd(), "public", "uploads", "precanned");
 const PRECANNED_MANIFEST_PATH = path.resolve(PRECANNED_ROOT, "manifest.json");
 
 let manifestCache: PrecannedManifest | null = null;
@@ -122,10 +123,6 @@ async function loadManifest(): Promise<PrecannedManifest> {
   return parsed;
 }
 
-async function ensureDirectory(dirPath: string) {
-  await fs.mkdir(dirPath, { recursive: true });
-}
-
 async function copyPrecannedAsset(relativePath: string, destSegments: string[]) {
   const sourcePath = path.resolve(PRECANNED_ROOT, relativePath);
   console.log(`[copyPrecannedAsset] Source: ${sourcePath}`);
@@ -134,17 +131,13 @@ async function copyPrecannedAsset(relativePath: string, destSegments: string[])
   if (!destSegments || destSegments.length === 0) {
     throw new Error("copyPrecannedAsset: 'destSegments' must be a non-empty array");
   }
-  const destinationDir = path.join(PRECANNED_PUBLIC_ROOT, ...destSegments.slice(0, - 1));
-  await ensureDirectory(destinationDir);
-  const fileName = destSegments[destSegments.length - 1]!;
-  const destinationPath = path.join(destinationDir, fileName);
+  const destinationPath = destSegments.join("/");
 
   console.log(`[copyPrecannedAsset] Destination: ${destinationPath}`);
-  console.log(`[copyPrecannedAsset] PRECANNED_PUBLIC_ROOT: ${PRECANNED_PUBLIC_ROOT}`);
 
   if (!copiedAssetPaths.has(destinationPath)) {
     try {
-      await fs.copyFile(sourcePath, destinationPath);
+      await getBlobStore("precanned").put(destinationPath, await fs.readFile(sourcePath));
       copiedAssetPaths.add(destinationPath);
       console.log(`[copyPrecannedAsset] ✅ Copied file to ${destinationPath}`);
     } catch (error: any) {
@@ -290,7 +283,7 @@ async function readHtmlFile(relativePath?: string) {
   if (!relativePath) return null;
   const absolutePath = path.resolve(PRECANNED_ROOT, relativePath);
   const htmlBuffer = await fs.readFile(absolutePath);
-  return bundleHtmlInline(absolutePath, htmlBuffer.toString("utf-8"));
+  return sanitizeUploadedHtml(await bundleHtmlInline(absolutePath, htmlBuffer.toString("utf-8")));
 }
 
 const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
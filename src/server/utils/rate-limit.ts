@@ -173,6 +173,18 @@ export const RATE_LIMITS = {
     maxRequests: 60, // 60 requests per minute
   },
   
+  // Export endpoints that render documents with headless Chromium - moderate limits
+  EXPORT: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 20, // 20 exports per hour
+  },
+  
+  // Digest re-runs - strict limits (each run spends AI tokens)
+  DIGEST: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 5, // 5 runs per hour
+  },
+  
   // Admin endpoints - moderate limits
   ADMIN: {
     windowMs: 60 * 1000, // 1 minute
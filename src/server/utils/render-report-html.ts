@@ -0,0 +1,295 @@
+import { getPreviewSections, type ReportScore, type ReportSection, type StructuredReport } from "./report-schema";
+
+/**
+ * Render a structured report as a standalone HTML page
+ *
+ * The markup follows the hand-built reports (Tailwind from the CDN, a tab bar
+ * and one `tab-content` panel per section, the summary under "Classification"
+ * in the overview) so rendered and uploaded reports look the same in the viewer.
+ * The `preview` variant is the free teaser: the overview plus preview sections.
+ */
+
+export type ReportVariant = "full" | "preview";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Paragraph breaks in long text fields become separate paragraphs
+function renderParagraphs(value: string, className: string): string {
+  return value
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p class="${className}">${escapeHtml(paragraph.trim())}</p>`)
+    .join("\n");
+}
+
+// Only page-relative, http(s) and inline image sources are kept
+function safeImageUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  if (/^(https?:\/\/|\/(?!\/)|data:image\/(png|jpe?g|gif|webp);base64,)/i.test(url)) {
+    return url;
+  }
+  return null;
+}
+
+function formatScore(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+const TAB_CLASS =
+  "tab-button flex items-center justify-center gap-1 sm:gap-2 px-2 sm:px-3 lg:px-4 py-2 sm:py-2.5 lg:py-3 text-xs sm:text-sm font-medium rounded-md";
+const ACTIVE_TAB_CLASS = `${TAB_CLASS} bg-white text-gray-900 shadow-sm`;
+const INACTIVE_TAB_CLASS = `${TAB_CLASS} text-gray-500 hover:bg-white hover:text-gray-900 transition-colors`;
+
+const FINDING_KIND_CLASS: Record<string, string> = {
+  strength: "bg-green-100 text-green-800",
+  consideration: "bg-amber-100 text-amber-800",
+  issue: "bg-red-100 text-red-800",
+};
+
+const PRIORITY_CLASS: Record<string, string> = {
+  high: "bg-red-100 text-red-800",
+  medium: "bg-amber-100 text-amber-800",
+  low: "bg-gray-200 text-gray-800",
+};
+
+function renderHeader(report: StructuredReport): string {
+  const { book } = report;
+  const heading = book.author ? `${book.title} by ${book.author}` : book.title;
+  const cover = safeImageUrl(book.coverImageUrl);
+
+  return `
+        <section class="px-4 py-8 sm:px-6 lg:px-8 bg-white border-b">
+            <div class="mx-auto max-w-6xl">
+                <div class="bg-blue-50 p-6 rounded-lg">
+                    <div class="flex flex-col lg:flex-row gap-8 items-center">
+                        <div class="flex-1">
+                            <h1 class="text-2xl lg:text-3xl text-black font-medium mb-3">${escapeHtml(heading)}</h1>
+                            ${book.tagline ? `<h2 class="text-xl text-blue-600 mb-4">${escapeHtml(book.tagline)}</h2>` : ""}
+                        </div>
+                        ${
+                          cover
+                            ? `<div class="flex justify-center lg:justify-end w-56 h-80 flex-shrink-0">
+                            <img src="${escapeHtml(cover)}" alt="${escapeHtml(book.title)}" class="w-56 h-80 object-contain rounded-lg shadow-lg" />
+                        </div>`
+                            : ""
+                        }
+                    </div>
+                </div>
+            </div>
+        </section>`;
+}
+
+function renderTabs(sections: ReportSection[]): string {
+  const tabs = [{ id: "overview", title: "Overview" }, ...sections];
+  const columns = Math.min(tabs.length, 5);
+  const buttons = tabs
+    .map(
+      (tab, index) =>
+        `<button class="${index === 0 ? ACTIVE_TAB_CLASS : INACTIVE_TAB_CLASS}" data-tab="${tab.id}">${escapeHtml(tab.title)}</button>`
+    )
+    .join("\n                ");
+
+  return `
+        <div class="mx-auto max-w-6xl">
+            <div class="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-${columns} gap-1 rounded-lg border bg-gray-100 p-1 shadow-sm mb-8">
+                ${buttons}
+            </div>
+        </div>`;
+}
+
+function renderScores(scores: ReportScore[]): string {
+  if (scores.length === 0) return "";
+  const rows = scores
+    .map((score) => {
+      const percent = Math.round((score.value / score.max) * 100);
+      return `
+                                <div data-score="${escapeHtml(score.id)}">
+                                    <div class="flex items-center justify-between mb-1">
+                                        <span class="text-sm font-medium text-gray-700">${escapeHtml(score.label)}</span>
+                                        <span class="text-sm font-semibold text-gray-900">${formatScore(score.value)}/${formatScore(score.max)}</span>
+                                    </div>
+                                    <div class="w-full h-2 bg-gray-200 rounded-full">
+                                        <div class="h-2 bg-blue-600 rounded-full" style="width: ${percent}%"></div>
+                                    </div>
+                                    ${score.note ? `<p class="text-xs text-gray-500 mt-1">${escapeHtml(score.note)}</p>` : ""}
+                                </div>`;
+    })
+    .join("");
+
+  return `
+                        <div class="bg-gray-50 rounded-lg p-6">
+                            <h3 class="text-lg font-semibold mb-4">Scores</h3>
+                            <div class="space-y-4">${rows}
+                            </div>
+                        </div>`;
+}
+
+function renderOverview(report: StructuredReport, sections: ReportSection[]): string {
+  const intros = sections
+    .filter((section) => section.intro)
+    .map(
+      (section) => `
+                                <div>
+                                    <div class="text-sm font-medium text-gray-700 mb-2">${escapeHtml(section.title)}</div>
+                                    <div class="text-sm text-gray-600 leading-relaxed">${escapeHtml(section.intro!)}</div>
+                                </div>`
+    )
+    .join("");
+
+  return `
+        <div id="overview" class="tab-content active space-y-8">
+            <div class="mx-auto max-w-6xl">
+                <div class="grid gap-8 lg:grid-cols-3">
+                    <div class="lg:col-span-2 space-y-8">
+                        <div class="bg-gray-50 rounded-lg p-6">
+                            <h3 class="text-lg font-semibold mb-4">Key Analytical Overview</h3>
+                            <div class="space-y-4">
+                                <div>
+                                    <div class="text-sm font-medium text-gray-700 mb-2">Classification</div>
+                                    <div class="text-sm text-gray-600 leading-relaxed">${escapeHtml(report.summary)}</div>
+                                </div>${intros}
+                            </div>
+                        </div>
+                    </div>
+                    <div class="lg:col-span-1 space-y-8">${renderScores(report.scores)}
+                    </div>
+                </div>
+            </div>
+        </div>`;
+}
+
+function renderSection(section: ReportSection): string {
+  const findings = section.findings
+    .map(
+      (finding) => `
+                        <div class="p-3 rounded-lg bg-gray-50">
+                            <div class="space-y-2">
+                                ${finding.tag ? `<span class="inline-block px-2 py-1 bg-gray-200 text-gray-800 rounded text-xs font-semibold">${escapeHtml(finding.tag)}</span>` : ""}
+                                ${finding.kind ? `<span class="inline-block px-2 py-1 rounded text-xs font-semibold ${FINDING_KIND_CLASS[finding.kind]}">${finding.kind}</span>` : ""}
+                                <div class="text-sm font-medium text-gray-900">${escapeHtml(finding.title)}</div>
+                                ${renderParagraphs(finding.detail, "text-sm text-gray-600 leading-relaxed")}
+                            </div>
+                        </div>`
+    )
+    .join("");
+
+  const excerpts = section.excerpts
+    .map(
+      (excerpt) => `
+                        <figure class="border-l-4 border-blue-200 pl-4">
+                            <blockquote class="text-sm italic text-gray-700 leading-relaxed">${escapeHtml(excerpt.text)}</blockquote>
+                            ${excerpt.location ? `<figcaption class="text-xs text-gray-500 mt-1">${escapeHtml(excerpt.location)}</figcaption>` : ""}
+                            ${excerpt.comment ? `<p class="text-sm text-gray-600 mt-2">${escapeHtml(excerpt.comment)}</p>` : ""}
+                        </figure>`
+    )
+    .join("");
+
+  const recommendations = section.recommendations
+    .map(
+      (recommendation) => `
+                        <li class="space-y-1">
+                            <div class="flex items-center gap-2">
+                                <span class="text-sm font-medium text-gray-900">${escapeHtml(recommendation.title)}</span>
+                                ${recommendation.priority ? `<span class="inline-block px-2 py-0.5 rounded text-xs font-semibold ${PRIORITY_CLASS[recommendation.priority]}">${recommendation.priority} priority</span>` : ""}
+                            </div>
+                            ${renderParagraphs(recommendation.detail, "text-sm text-gray-600 leading-relaxed")}
+                        </li>`
+    )
+    .join("");
+
+  const block = (title: string, body: string) => `
+                <div class="border rounded-lg bg-white shadow-none p-6">
+                    <h3 class="text-xl font-semibold mb-4">${title}</h3>
+                    <div class="space-y-4">${body}
+                    </div>
+                </div>`;
+
+  return `
+        <div id="${section.id}" class="tab-content">
+            <div class="mx-auto max-w-6xl space-y-8">
+                ${section.intro ? `<div class="bg-gray-50 rounded-lg p-6">${renderParagraphs(section.intro, "text-gray-700 leading-relaxed")}</div>` : ""}
+                ${renderScores(section.scores)}
+                ${findings ? block("Findings", findings) : ""}
+                ${excerpts ? block("Excerpts", excerpts) : ""}
+                ${recommendations ? block("Recommendations", `<ul class="space-y-4">${recommendations}</ul>`) : ""}
+            </div>
+        </div>`;
+}
+
+function renderLockedNotice(hidden: ReportSection[]): string {
+  if (hidden.length === 0) return "";
+  const titles = hidden.map((section) => `<li>${escapeHtml(section.title)}</li>`).join("");
+  return `
+        <div class="mx-auto max-w-6xl mt-8">
+            <div class="border border-dashed rounded-lg bg-white p-6 text-center">
+                <h3 class="text-lg font-semibold mb-2">The full report has ${hidden.length} more section${hidden.length === 1 ? "" : "s"}</h3>
+                <ul class="text-sm text-gray-600 space-y-1">${titles}</ul>
+            </div>
+        </div>`;
+}
+
+/**
+ * Render a report, or its teaser with `variant: "preview"`
+ */
+export function renderReportHtml(report: StructuredReport, options: { variant?: ReportVariant } = {}): string {
+  const variant = options.variant ?? "full";
+  const sections = variant === "preview" ? getPreviewSections(report) : report.sections;
+  const hidden = report.sections.filter((section) => !sections.includes(section));
+  const heading = report.book.author ? `${report.book.title} by ${report.book.author}` : report.book.title;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(heading)} - Book Analysis ${variant === "preview" ? "Preview" : "Report"}</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+    <style>
+        .tab-content {
+            display: none;
+        }
+        .tab-content.active {
+            display: block;
+        }
+    </style>
+</head>
+<body class="bg-gray-50 min-h-screen">
+    <header class="bg-white shadow-sm border-b">${renderHeader(report)}${renderTabs(sections)}
+    </header>
+
+    <main class="px-4 py-8 sm:px-6 lg:px-8">${renderOverview(report, sections)}${sections.map(renderSection).join("")}${variant === "preview" ? renderLockedNotice(hidden) : ""}
+    </main>
+
+    <script>
+        // Tab switching functionality
+        document.addEventListener('DOMContentLoaded', function() {
+            const tabButtons = document.querySelectorAll('.tab-button');
+            const tabContents = document.querySelectorAll('.tab-content');
+
+            tabButtons.forEach(button => {
+                button.addEventListener('click', function() {
+                    const targetTab = this.getAttribute('data-tab');
+
+                    tabButtons.forEach(btn => {
+                        btn.classList.remove('bg-white', 'text-gray-900', 'shadow-sm');
+                        btn.classList.add('text-gray-500');
+                    });
+                    tabContents.forEach(content => content.classList.remove('active'));
+
+                    this.classList.remove('text-gray-500');
+                    this.classList.add('bg-white', 'text-gray-900', 'shadow-sm');
+                    document.getElementById(targetTab).classList.add('active');
+                });
+            });
+        });
+    </script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,464 @@
+/**
+ * Annotation overlay for the report viewer
+ *
+ * Adds a small script to a report page that lets the author highlight text and
+ * discuss it. Highlights are stored as offsets into the page's text (every text
+ * node outside scripts, styles and the overlay, in document order) along with
+ * the quote and its surrounding text. When a report is re-uploaded the offsets
+ * may no longer match; the quote is then searched for with its context, then on
+ * its own, and annotations that can't be placed are listed without a highlight.
+ *
+ * Everything the script shows from annotations is set as text, never as HTML.
+ *
+ * Reports are served sandboxed into an opaque origin (see sandbox-html.ts), so
+ * the script can't call the annotations API with the author's session itself.
+ * It posts its requests to the viewer page framing it, which makes them
+ * (see src/lib/report-annotation-bridge.ts); opened on its own, the report
+ * shows no overlay.
+ */
+
+export interface AnnotationOverlayOptions {
+  bookId: string;
+  reportId: string;
+}
+
+const OVERLAY_STYLES = `
+    <style data-report-annotations>
+        mark.report-annotation { background: #fde68a; color: inherit; cursor: pointer; border-radius: 2px; }
+        mark.report-annotation.is-resolved { background: #e5e7eb; }
+        mark.report-annotation.is-active { background: #fbbf24; }
+        #report-annotations { font-family: system-ui, -apple-system, sans-serif; font-size: 14px; color: #111827; }
+        #report-annotations button { font: inherit; cursor: pointer; }
+        #report-annotations .ra-toggle { position: fixed; right: 16px; bottom: 16px; z-index: 2147483000; padding: 8px 14px; border: 0; border-radius: 9999px; background: #2563eb; color: #fff; box-shadow: 0 4px 12px rgba(0,0,0,0.15); }
+        #report-annotations .ra-add { position: absolute; z-index: 2147483001; padding: 4px 10px; border: 0; border-radius: 6px; background: #111827; color: #fff; font-size: 12px; }
+        #report-annotations .ra-panel { position: fixed; top: 0; right: 0; bottom: 0; width: 340px; max-width: 90vw; z-index: 2147483000; background: #fff; border-left: 1px solid #e5e7eb; box-shadow: -4px 0 16px rgba(0,0,0,0.08); display: flex; flex-direction: column; }
+        #report-annotations .ra-header { display: flex; align-items: center; justify-content: space-between; padding: 12px 16px; border-bottom: 1px solid #e5e7eb; font-weight: 600; }
+        #report-annotations .ra-header button { border: 0; background: none; font-size: 18px; color: #6b7280; }
+        #report-annotations .ra-list { flex: 1; overflow-y: auto; padding: 12px 16px; }
+        #report-annotations .ra-empty { color: #6b7280; }
+        #report-annotations .ra-thread { border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px; margin-bottom: 12px; }
+        #report-annotations .ra-thread.is-active { border-color: #f59e0b; }
+        #report-annotations .ra-thread.is-resolved { opacity: 0.7; }
+        #report-annotations .ra-quote { border-left: 3px solid #fbbf24; padding-left: 8px; color: #4b5563; font-style: italic; cursor: pointer; }
+        #report-annotations .ra-note { margin-top: 6px; font-size: 12px; color: #b45309; }
+        #report-annotations .ra-comment { margin-top: 8px; }
+        #report-annotations .ra-author { font-size: 12px; font-weight: 600; color: #374151; }
+        #report-annotations .ra-author.is-team { color: #2563eb; }
+        #report-annotations .ra-body { white-space: pre-wrap; }
+        #report-annotations textarea { width: 100%; box-sizing: border-box; margin-top: 8px; padding: 6px 8px; border: 1px solid #d1d5db; border-radius: 6px; font: inherit; resize: vertical; }
+        #report-annotations .ra-actions { display: flex; gap: 8px; margin-top: 6px; }
+        #report-annotations .ra-actions button { padding: 4px 10px; border: 1px solid #d1d5db; border-radius: 6px; background: #fff; font-size: 12px; }
+        #report-annotations .ra-actions button.ra-primary { border-color: #2563eb; background: #2563eb; color: #fff; }
+        #report-annotations .ra-error { margin-top: 6px; font-size: 12px; color: #dc2626; }
+        @media print { #report-annotations { display: none !important; } mark.report-annotation { background: none; } }
+    </style>
+`;
+
+// Plain ES5 so it runs in whatever the report's own scripts expect
+const OVERLAY_SCRIPT = `
+    <script data-report-annotations>
+    (function () {
+        var configElement = document.getElementById('report-annotations-config');
+        if (!configElement || window.parent === window || !window.Promise || !document.createTreeWalker) return;
+        var config = JSON.parse(configElement.textContent);
+        var baseUrl = '/api/books/' + encodeURIComponent(config.bookId) + '/report/annotations';
+        var CONTEXT_LENGTH = 32;
+
+        var annotations = [];
+        var currentUserId = null;
+        var activeId = null;
+        var pending = null;
+        var panelOpen = false;
+        var root, toggle, panel, list, addButton;
+
+        function el(tag, className, text) {
+            var node = document.createElement(tag);
+            if (className) node.className = className;
+            if (text != null) node.textContent = text;
+            return node;
+        }
+
+        var requests = {};
+        var nextRequestId = 1;
+
+        window.addEventListener('message', function (event) {
+            var message = event.data;
+            if (event.source !== window.parent || !message || message.type !== 'report-annotations:response') return;
+            var callbacks = requests[message.id];
+            if (!callbacks) return;
+            delete requests[message.id];
+            var data = message.body || {};
+            if (message.ok) callbacks.resolve(data);
+            else callbacks.reject(new Error(data.error || 'Request failed'));
+        });
+
+        // Sent through the viewer page; the sandbox leaves this document without an origin to
+        // name, and frame-ancestors keeps the page framing it on our own
+        function request(method, url, body) {
+            return new Promise(function (resolve, reject) {
+                var id = nextRequestId++;
+                requests[id] = { resolve: resolve, reject: reject };
+                window.parent.postMessage({ type: 'report-annotations:request', id: id, method: method, url: url, body: body || null }, '*');
+            });
+        }
+
+        // Text nodes the offsets count, in document order
+        function textNodes() {
+            var walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+                acceptNode: function (node) {
+                    var parent = node.parentNode;
+                    if (!parent || /^(SCRIPT|STYLE|NOSCRIPT|TEMPLATE)$/.test(parent.nodeName)) return NodeFilter.FILTER_REJECT;
+                    if (root && root.contains(node)) return NodeFilter.FILTER_REJECT;
+                    return NodeFilter.FILTER_ACCEPT;
+                }
+            });
+            var nodes = [];
+            var node;
+            while ((node = walker.nextNode())) nodes.push(node);
+            return nodes;
+        }
+
+        function pageText(nodes) {
+            var text = '';
+            for (var i = 0; i < nodes.length; i++) text += nodes[i].data;
+            return text;
+        }
+
+        function pointToOffset(nodes, container, offset) {
+            var point = document.createRange();
+            point.setStart(container, offset);
+            var total = 0;
+            for (var i = 0; i < nodes.length; i++) {
+                var node = nodes[i];
+                if (node === container) return total + offset;
+                if (point.comparePoint(node, node.data.length) > 0) break;
+                total += node.data.length;
+            }
+            return total;
+        }
+
+        function locate(annotation, text) {
+            if (text.slice(annotation.startOffset, annotation.endOffset) === annotation.quote) return annotation.startOffset;
+            var prefix = annotation.prefix || '';
+            var withContext = text.indexOf(prefix + annotation.quote + (annotation.suffix || ''));
+            if (withContext !== -1) return withContext + prefix.length;
+            var quoteOnly = text.indexOf(annotation.quote);
+            return quoteOnly === -1 ? null : quoteOnly;
+        }
+
+        function clearHighlights() {
+            var marks = document.querySelectorAll('mark.report-annotation');
+            for (var i = 0; i < marks.length; i++) {
+                var mark = marks[i];
+                var parent = mark.parentNode;
+                while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+                parent.removeChild(mark);
+                parent.normalize();
+            }
+        }
+
+        function highlight(annotation, start, end) {
+            var nodes = textNodes();
+            var position = 0;
+            var segments = [];
+            for (var i = 0; i < nodes.length; i++) {
+                var nodeStart = position;
+                position += nodes[i].data.length;
+                if (position <= start || nodeStart >= end) continue;
+                segments.push({ node: nodes[i], from: Math.max(start, nodeStart) - nodeStart, to: Math.min(end, position) - nodeStart });
+            }
+            segments.forEach(function (segment) {
+                var node = segment.node;
+                if (!node.data.slice(segment.from, segment.to).trim()) return;
+                if (segment.to < node.data.length) node.splitText(segment.to);
+                if (segment.from > 0) node = node.splitText(segment.from);
+                var mark = el('mark', 'report-annotation' + (annotation.resolvedAt ? ' is-resolved' : ''));
+                mark.setAttribute('data-annotation-id', annotation.id);
+                node.parentNode.replaceChild(mark, node);
+                mark.appendChild(node);
+                mark.addEventListener('click', function () { activate(annotation.id, false); });
+            });
+        }
+
+        function placeAll() {
+            clearHighlights();
+            var text = pageText(textNodes());
+            annotations.forEach(function (annotation) {
+                var start = locate(annotation, text);
+                annotation.placed = start !== null;
+                if (start !== null) highlight(annotation, start, start + annotation.quote.length);
+            });
+        }
+
+        // Reports show one tab at a time; switch to the tab holding a highlight
+        function revealMark(mark) {
+            var panelNode = mark.closest('.tab-content');
+            if (panelNode && panelNode.id && getComputedStyle(panelNode).display === 'none') {
+                var button = document.querySelector('[data-tab="' + panelNode.id.replace(/"/g, '') + '"]');
+                if (button) button.click();
+            }
+            mark.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+
+        function activate(id, scroll) {
+            activeId = id;
+            var marks = document.querySelectorAll('mark.report-annotation');
+            for (var i = 0; i < marks.length; i++) {
+                marks[i].classList.toggle('is-active', marks[i].getAttribute('data-annotation-id') === id);
+            }
+            var first = document.querySelector('mark.report-annotation[data-annotation-id="' + id + '"]');
+            if (scroll && first) revealMark(first);
+            openPanel();
+        }
+
+        function authorLabel(comment) {
+            if (comment.fromAdmin) return 'Get Lost team';
+            if (comment.userId === currentUserId) return 'You';
+            return comment.authorName || 'Author';
+        }
+
+        function renderComposer(container, placeholder, submitLabel, onSubmit, onCancel) {
+            var textarea = el('textarea');
+            textarea.rows = 3;
+            textarea.placeholder = placeholder;
+            var error = el('div', 'ra-error');
+            var actions = el('div', 'ra-actions');
+            var submit = el('button', 'ra-primary', submitLabel);
+            submit.type = 'button';
+            submit.addEventListener('click', function () {
+                if (!textarea.value.trim()) return;
+                submit.disabled = true;
+                error.textContent = '';
+                onSubmit(textarea.value).catch(function (e) {
+                    error.textContent = e.message;
+                    submit.disabled = false;
+                });
+            });
+            actions.appendChild(submit);
+            if (onCancel) {
+                var cancel = el('button', null, 'Cancel');
+                cancel.type = 'button';
+                cancel.addEventListener('click', onCancel);
+                actions.appendChild(cancel);
+            }
+            container.appendChild(textarea);
+            container.appendChild(actions);
+            container.appendChild(error);
+            return textarea;
+        }
+
+        function replaceAnnotation(updated) {
+            var found = false;
+            annotations = annotations.map(function (annotation) {
+                if (annotation.id !== updated.id) return annotation;
+                found = true;
+                return updated;
+            });
+            if (!found) annotations.push(updated);
+        }
+
+        function renderThread(annotation) {
+            var thread = el('div', 'ra-thread' + (annotation.id === activeId ? ' is-active' : '') + (annotation.resolvedAt ? ' is-resolved' : ''));
+            var quote = el('div', 'ra-quote', annotation.quote.length > 200 ? annotation.quote.slice(0, 200) + '\\u2026' : annotation.quote);
+            quote.addEventListener('click', function () { activate(annotation.id, true); renderPanel(); });
+            thread.appendChild(quote);
+            if (!annotation.placed) thread.appendChild(el('div', 'ra-note', 'This text is no longer in the report.'));
+            if (annotation.resolvedAt) thread.appendChild(el('div', 'ra-note', 'Resolved'));
+
+            annotation.comments.forEach(function (comment) {
+                var item = el('div', 'ra-comment');
+                item.appendChild(el('div', 'ra-author' + (comment.fromAdmin ? ' is-team' : ''), authorLabel(comment)));
+                item.appendChild(el('div', 'ra-body', comment.body));
+                thread.appendChild(item);
+            });
+
+            renderComposer(thread, 'Reply\\u2026', 'Reply', function (body) {
+                return request('POST', baseUrl + '/' + encodeURIComponent(annotation.id) + '/comments', { body: body })
+                    .then(function (data) { replaceAnnotation(data.annotation); refresh(); });
+            });
+
+            var actions = el('div', 'ra-actions');
+            var resolve = el('button', null, annotation.resolvedAt ? 'Reopen' : 'Resolve');
+            resolve.type = 'button';
+            resolve.addEventListener('click', function () {
+                request('PATCH', baseUrl + '/' + encodeURIComponent(annotation.id), { resolved: !annotation.resolvedAt })
+                    .then(function (data) { replaceAnnotation(data.annotation); refresh(); })
+                    .catch(function (e) { alert(e.message); });
+            });
+            actions.appendChild(resolve);
+            if (annotation.userId === currentUserId) {
+                var remove = el('button', null, 'Delete');
+                remove.type = 'button';
+                remove.addEventListener('click', function () {
+                    if (!confirm('Delete this note and its replies?')) return;
+                    request('DELETE', baseUrl + '/' + encodeURIComponent(annotation.id))
+                        .then(function () {
+                            annotations = annotations.filter(function (a) { return a.id !== annotation.id; });
+                            refresh();
+                        })
+                        .catch(function (e) { alert(e.message); });
+                });
+                actions.appendChild(remove);
+            }
+            thread.appendChild(actions);
+            return thread;
+        }
+
+        function renderPanel() {
+            toggle.textContent = 'Notes (' + annotations.length + ')';
+            list.textContent = '';
+            if (pending) {
+                var draft = el('div', 'ra-thread is-active');
+                draft.appendChild(el('div', 'ra-quote', pending.quote));
+                var textarea = renderComposer(draft, 'Add a note\\u2026', 'Save note', function (comment) {
+                    var body = pending;
+                    body.comment = comment;
+                    return request('POST', baseUrl, body).then(function (data) {
+                        pending = null;
+                        replaceAnnotation(data.annotation);
+                        activeId = data.annotation.id;
+                        refresh();
+                    });
+                }, function () { pending = null; renderPanel(); });
+                list.appendChild(draft);
+                textarea.focus();
+            }
+            if (annotations.length === 0 && !pending) {
+                list.appendChild(el('p', 'ra-empty', 'Select text in the report to add a note.'));
+            }
+            annotations.forEach(function (annotation) { list.appendChild(renderThread(annotation)); });
+        }
+
+        function openPanel() {
+            panelOpen = true;
+            panel.style.display = 'flex';
+            renderPanel();
+        }
+
+        function refresh() {
+            placeAll();
+            if (activeId) activate(activeId, false);
+            renderPanel();
+        }
+
+        function selectionDraft() {
+            var selection = window.getSelection();
+            if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+            var range = selection.getRangeAt(0);
+            if (root.contains(range.commonAncestorContainer)) return null;
+            var nodes = textNodes();
+            var text = pageText(nodes);
+            var start = pointToOffset(nodes, range.startContainer, range.startOffset);
+            var end = pointToOffset(nodes, range.endContainer, range.endOffset);
+            var quote = text.slice(start, end);
+            if (!quote.trim()) return null;
+            return {
+                reportId: config.reportId,
+                quote: quote,
+                prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+                suffix: text.slice(end, end + CONTEXT_LENGTH),
+                startOffset: start,
+                endOffset: end,
+                rect: range.getBoundingClientRect()
+            };
+        }
+
+        function build() {
+            root = el('div');
+            root.id = 'report-annotations';
+            toggle = el('button', 'ra-toggle', 'Notes');
+            toggle.type = 'button';
+            toggle.addEventListener('click', function () {
+                if (panelOpen) {
+                    panelOpen = false;
+                    panel.style.display = 'none';
+                } else {
+                    openPanel();
+                }
+            });
+            addButton = el('button', 'ra-add', 'Add note');
+            addButton.type = 'button';
+            addButton.style.display = 'none';
+            addButton.addEventListener('mousedown', function (event) { event.preventDefault(); });
+            addButton.addEventListener('click', function () {
+                var draft = selectionDraft();
+                addButton.style.display = 'none';
+                if (!draft) return;
+                delete draft.rect;
+                pending = draft;
+                window.getSelection().removeAllRanges();
+                openPanel();
+            });
+            panel = el('div', 'ra-panel');
+            panel.style.display = 'none';
+            var header = el('div', 'ra-header');
+            header.appendChild(el('span', null, 'Notes'));
+            var close = el('button', null, '\\u00d7');
+            close.type = 'button';
+            close.setAttribute('aria-label', 'Close notes');
+            close.addEventListener('click', function () { panelOpen = false; panel.style.display = 'none'; });
+            header.appendChild(close);
+            list = el('div', 'ra-list');
+            panel.appendChild(header);
+            panel.appendChild(list);
+            root.appendChild(toggle);
+            root.appendChild(addButton);
+            root.appendChild(panel);
+            document.body.appendChild(root);
+
+            document.addEventListener('mouseup', function (event) {
+                if (root.contains(event.target)) return;
+                setTimeout(function () {
+                    var draft = selectionDraft();
+                    if (!draft) {
+                        addButton.style.display = 'none';
+                        return;
+                    }
+                    addButton.style.top = (draft.rect.bottom + window.scrollY + 6) + 'px';
+                    addButton.style.left = (draft.rect.left + window.scrollX) + 'px';
+                    addButton.style.display = 'block';
+                }, 0);
+            });
+        }
+
+        function start() {
+            build();
+            request('GET', baseUrl + '?reportId=' + encodeURIComponent(config.reportId))
+                .then(function (data) {
+                    annotations = data.annotations || [];
+                    currentUserId = data.currentUserId || null;
+                    refresh();
+                })
+                .catch(function (e) { console.error('[Report Annotations] Failed to load annotations:', e); });
+        }
+
+        if (document.readyState === 'loading') {
+            document.addEventListener('DOMContentLoaded', start);
+        } else {
+            start();
+        }
+    })();
+    </script>
+`;
+
+// JSON that can't close the script element it sits in
+function serializeConfig(options: AnnotationOverlayOptions): string {
+  return JSON.stringify({ bookId: options.bookId, reportId: options.reportId })
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026");
+}
+
+/**
+ * Report HTML with the annotation overlay added at the end of the body
+ */
+export function injectAnnotationOverlay(html: string, options: AnnotationOverlayOptions): string {
+  const overlay = `${OVERLAY_STYLES}
+    <script type="application/json" id="report-annotations-config">${serializeConfig(options)}</script>${OVERLAY_SCRIPT}`;
+
+  const bodyEnd = html.toLowerCase().lastIndexOf("</body>");
+  if (bodyEnd === -1) {
+    return html + overlay;
+  }
+  return html.slice(0, bodyEnd) + overlay + html.slice(bodyEnd);
+}
@@ -0,0 +1,107 @@
+import type { ReportFinding, ReportScore, StructuredReport } from "./report-schema";
+
+/**
+ * Line up two structured reports of the same book
+ *
+ * Scores are matched by id (report-level scores, then each section's own) and
+ * sections by id. Findings are matched within a section by title, ignoring case
+ * and spacing: a finding only in the earlier report was resolved unless it was
+ * a strength, and a finding only in the later report is new.
+ */
+
+export interface ScoreDelta {
+  id: string;
+  label: string;
+  max: number;
+  from: number | null;
+  to: number | null;
+  delta: number | null; // On the later report's scale; null unless both reports have the score
+}
+
+export interface SectionComparison {
+  id: string;
+  title: string;
+  status: "added" | "removed" | "both";
+  scores: ScoreDelta[];
+  resolvedFindings: ReportFinding[];
+  newFindings: ReportFinding[];
+}
+
+export interface ReportComparison {
+  scores: ScoreDelta[];
+  sections: SectionComparison[];
+  totals: {
+    improvedScores: number;
+    declinedScores: number;
+    resolvedFindings: number;
+    newFindings: number;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function findingKey(finding: ReportFinding): string {
+  return finding.title.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function compareScores(from: ReportScore[], to: ReportScore[]): ScoreDelta[] {
+  const earlier = new Map(from.map((score) => [score.id, score]));
+  const later = new Map(to.map((score) => [score.id, score]));
+  const ids = [...later.keys(), ...from.map((score) => score.id).filter((id) => !later.has(id))];
+
+  return ids.map((id) => {
+    const before = earlier.get(id);
+    const after = later.get(id);
+    const max = after?.max ?? before!.max;
+    return {
+      id,
+      label: after?.label ?? before!.label,
+      max,
+      from: before ? before.value : null,
+      to: after ? after.value : null,
+      delta: before && after ? round(after.value - (before.value / before.max) * max) : null,
+    };
+  });
+}
+
+export function compareStructuredReports(from: StructuredReport, to: StructuredReport): ReportComparison {
+  const earlierSections = new Map(from.sections.map((section) => [section.id, section]));
+  const laterIds = new Set(to.sections.map((section) => section.id));
+  const ordered = [...to.sections, ...from.sections.filter((section) => !laterIds.has(section.id))];
+
+  const sections = ordered.map((section): SectionComparison => {
+    const before = earlierSections.get(section.id);
+    const after = laterIds.has(section.id) ? section : undefined;
+    const beforeKeys = new Set((before?.findings ?? []).map(findingKey));
+    const afterKeys = new Set((after?.findings ?? []).map(findingKey));
+
+    return {
+      id: section.id,
+      title: section.title,
+      status: before && after ? "both" : after ? "added" : "removed",
+      scores: compareScores(before?.scores ?? [], after?.scores ?? []),
+      resolvedFindings: (before?.findings ?? []).filter(
+        (finding) => finding.kind !== "strength" && !afterKeys.has(findingKey(finding))
+      ),
+      newFindings: (after?.findings ?? []).filter((finding) => !beforeKeys.has(findingKey(finding))),
+    };
+  });
+
+  const scores = compareScores(from.scores, to.scores);
+  const deltas = [...scores, ...sections.flatMap((section) => section.scores)]
+    .map((score) => score.delta)
+    .filter((delta): delta is number => delta !== null);
+
+  return {
+    scores,
+    sections,
+    totals: {
+      improvedScores: deltas.filter((delta) => delta > 0).length,
+      declinedScores: deltas.filter((delta) => delta < 0).length,
+      resolvedFindings: sections.reduce((sum, section) => sum + section.resolvedFindings.length, 0),
+      newFindings: sections.reduce((sum, section) => sum + section.newFindings.length, 0),
+    },
+  };
+}
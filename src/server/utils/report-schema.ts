@@ -0,0 +1,128 @@
+import { z } from "zod";
+
+/**
+ * Structured manuscript reports
+ *
+ * A report is stored as JSON in `reports.structuredContent` and rendered to
+ * `reports.htmlContent` by `renderReportHtml`. Anything that needs the summary,
+ * scores or teaser of a report reads them from here rather than the markup;
+ * reports uploaded as HTML before this existed have no structured content.
+ */
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+const text = z.string().trim().min(1);
+
+const scoreSchema = z
+  .object({
+    id: text.max(50),
+    label: text.max(100),
+    value: z.number().min(0),
+    max: z.number().positive().default(10),
+    note: text.max(1000).optional(),
+  })
+  .refine((score) => score.value <= score.max, { message: "value must not exceed max" });
+
+const findingSchema = z.object({
+  title: text.max(200),
+  detail: text.max(5000),
+  tag: text.max(50).optional(), // Short label shown as a chip, e.g. a mood or genre
+  kind: z.enum(["strength", "consideration", "issue"]).optional(),
+});
+
+const excerptSchema = z.object({
+  text: text.max(5000),
+  location: text.max(200).optional(), // e.g. "Chapter 3"
+  comment: text.max(2000).optional(),
+});
+
+const recommendationSchema = z.object({
+  title: text.max(200),
+  detail: text.max(5000),
+  priority: z.enum(["high", "medium", "low"]).optional(),
+});
+
+const sectionSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z][a-z0-9-]*$/, "section ids must be lowercase letters, digits and dashes")
+    .max(50),
+  title: text.max(100),
+  intro: text.max(5000).optional(),
+  preview: z.boolean().default(false), // Included in the free teaser
+  scores: z.array(scoreSchema).default([]), // Scores for this section alone, compared across versions
+  findings: z.array(findingSchema).default([]),
+  excerpts: z.array(excerptSchema).default([]),
+  recommendations: z.array(recommendationSchema).default([]),
+});
+
+export const structuredReportSchema = z
+  .object({
+    schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+    book: z.object({
+      title: text.max(500),
+      author: text.max(500).optional(),
+      tagline: text.max(500).optional(),
+      coverImageUrl: z.string().trim().max(2000).optional(),
+    }),
+    summary: text.max(10000), // The report's overall classification of the book
+    scores: z.array(scoreSchema).default([]),
+    sections: z.array(sectionSchema).min(1),
+  })
+  .superRefine((report, ctx) => {
+    const ids = new Set<string>();
+    report.sections.forEach((section, index) => {
+      if (section.id === "overview" || ids.has(section.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["sections", index, "id"],
+          message: `duplicate section id "${section.id}"`,
+        });
+      }
+      ids.add(section.id);
+    });
+  });
+
+export type StructuredReport = z.infer<typeof structuredReportSchema>;
+export type ReportScore = StructuredReport["scores"][number];
+export type ReportSection = StructuredReport["sections"][number];
+export type ReportFinding = ReportSection["findings"][number];
+
+/**
+ * Validate an uploaded report, with readable errors for the uploader
+ */
+export function parseStructuredReport(
+  input: unknown
+): { ok: true; report: StructuredReport } | { ok: false; errors: string[] } {
+  const parsed = structuredReportSchema.safeParse(input);
+  if (parsed.success) {
+    return { ok: true, report: parsed.data };
+  }
+  return {
+    ok: false,
+    errors: parsed.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    ),
+  };
+}
+
+/**
+ * Read the stored JSON column; missing or invalid content reads as no structured report
+ */
+export function readStructuredReport(raw: string | null | undefined): StructuredReport | null {
+  if (!raw) return null;
+  try {
+    const parsed = structuredReportSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sections shown in the free teaser: those marked `preview`, or the first one if none are
+ */
+export function getPreviewSections(report: StructuredReport): ReportSection[] {
+  const marked = report.sections.filter((section) => section.preview);
+  return marked.length > 0 ? marked : report.sections.slice(0, 1);
+}
@@ -0,0 +1,354 @@
+import { promises as fs, createReadStream, createWriteStream, openAsBlob } from "fs";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { MAX_ASSET_FILE_SIZE, MAX_FILE_SIZE } from "./validate-file-size";
+
+/**
+ * Resumable chunked uploads
+ *
+ * Protocol:
+ *   1. init     - create a session for a file (name, size, type) and get its chunk size
+ *   2. chunks   - PUT each numbered chunk with its SHA-256; chunks can be sent in any
+ *                 order and re-sent after a dropped connection
+ *   3. complete - send the upload checksum; the server assembles the chunks and checks it
+ *
+ * The upload checksum is the SHA-256 of the chunk hashes (lowercase hex, joined in chunk
+ * order), so browsers can compute it without holding the whole file in memory.
+ *
+ * Chunks live on local disk under UPLOAD_DIR until the file is used by the route it was
+ * uploaded for, or until the session expires.
+ */
+
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const MAX_OPEN_UPLOADS_PER_USER = 5;
+
+export type UploadPurpose = "manuscript" | "asset";
+
+export const MAX_UPLOAD_SIZE: Record<UploadPurpose, number> = {
+  manuscript: MAX_FILE_SIZE,
+  asset: MAX_ASSET_FILE_SIZE,
+};
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  purpose: UploadPurpose;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  chunkSize: number;
+  totalChunks: number;
+  status: "uploading" | "complete";
+  createdAt: number;
+  expiresAt: number;
+}
+
+type UploadResult<T = object> = ({ ok: true } & T) | { ok: false; error: string; status: number };
+
+const MANIFEST_FILE = "session.json";
+const ASSEMBLED_FILE = "file";
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getUploadRoot(): string {
+  return path.resolve(process.env.UPLOAD_DIR || "./uploads/tmp", "resumable");
+}
+
+function getSessionDir(uploadId: string): string {
+  return path.join(getUploadRoot(), uploadId);
+}
+
+function getChunkPath(uploadId: string, index: number): string {
+  return path.join(getSessionDir(uploadId), `${String(index).padStart(6, "0")}.part`);
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+async function writeManifest(session: UploadSession): Promise<void> {
+  await fs.writeFile(path.join(getSessionDir(session.id), MANIFEST_FILE), JSON.stringify(session));
+}
+
+async function readManifest(uploadId: string): Promise<UploadSession | null> {
+  try {
+    const raw = await fs.readFile(path.join(getSessionDir(uploadId), MANIFEST_FILE), "utf-8");
+    return JSON.parse(raw) as UploadSession;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the upload checksum from per-chunk SHA-256 hashes
+ */
+export function computeUploadChecksum(chunkHashes: string[]): string {
+  return sha256Hex(chunkHashes.map((hash) => hash.toLowerCase()).join(""));
+}
+
+/**
+ * Remove sessions (and their chunks) that have passed their expiry time
+ */
+export async function cleanupExpiredUploads(now = Date.now()): Promise<number> {
+  let removed = 0;
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getUploadRoot());
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    if (!UUID_PATTERN.test(entry)) continue;
+    const session = await readManifest(entry);
+    // Sessions without a manifest were interrupted during init - treat them as expired
+    if (!session || session.expiresAt <= now) {
+      await fs.rm(getSessionDir(entry), { recursive: true, force: true });
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`[Uploads] Removed ${removed} expired upload session(s)`);
+  }
+  return removed;
+}
+
+async function countOpenUploads(userId: string): Promise<number> {
+  const entries = await fs.readdir(getUploadRoot()).catch(() => [] as string[]);
+  let count = 0;
+  for (const entry of entries) {
+    if (!UUID_PATTERN.test(entry)) continue;
+    const session = await readManifest(entry);
+    if (session?.userId === userId) count++;
+  }
+  return count;
+}
+
+/**
+ * Start a new upload session
+ */
+export async function createUploadSession(input: {
+  userId: string;
+  purpose: UploadPurpose;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+}): Promise<UploadResult<{ session: UploadSession }>> {
+  const fileName = path.basename(input.fileName || "").trim();
+  if (!fileName) {
+    return { ok: false, error: "File name is required", status: 400 };
+  }
+  if (!Number.isSafeInteger(input.fileSize) || input.fileSize <= 0) {
+    return { ok: false, error: "File size must be a positive number of bytes", status: 400 };
+  }
+
+  const maxSize = MAX_UPLOAD_SIZE[input.purpose];
+  if (input.fileSize > maxSize) {
+    const maxSizeMB = Math.round(maxSize / (1024 * 1024));
+    return { ok: false, error: `File exceeds maximum allowed size of ${maxSizeMB}MB`, status: 400 };
+  }
+
+  // Opportunistic cleanup so abandoned uploads don't pile up on disk
+  await cleanupExpiredUploads();
+
+  // Each session can hold up to the maximum file size on disk until it is used or expires
+  if ((await countOpenUploads(input.userId)) >= MAX_OPEN_UPLOADS_PER_USER) {
+    return {
+      ok: false,
+      error: `You can have at most ${MAX_OPEN_UPLOADS_PER_USER} uploads in progress. Finish or cancel one first`,
+      status: 429,
+    };
+  }
+
+  const now = Date.now();
+  const session: UploadSession = {
+    id: randomUUID(),
+    userId: input.userId,
+    purpose: input.purpose,
+    fileName,
+    fileSize: input.fileSize,
+    mimeType: input.mimeType || "application/octet-stream",
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks: Math.ceil(input.fileSize / UPLOAD_CHUNK_SIZE),
+    status: "uploading",
+    createdAt: now,
+    expiresAt: now + UPLOAD_SESSION_TTL_MS,
+  };
+
+  await fs.mkdir(getSessionDir(session.id), { recursive: true });
+  await writeManifest(session);
+
+  console.log(`[Uploads] Started ${session.purpose} upload ${session.id} (${fileName}, ${session.totalChunks} chunks)`);
+  return { ok: true, session };
+}
+
+/**
+ * Load an upload session owned by the given user (null if missing, expired or not theirs)
+ */
+export async function getUploadSession(uploadId: string, userId: string): Promise<UploadSession | null> {
+  if (!UUID_PATTERN.test(uploadId)) return null;
+
+  const session = await readManifest(uploadId);
+  if (!session || session.userId !== userId || session.expiresAt <= Date.now()) {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Indexes of the chunks received so far (for resuming)
+ */
+export async function getReceivedChunks(session: UploadSession): Promise<number[]> {
+  const entries = await fs.readdir(getSessionDir(session.id)).catch(() => [] as string[]);
+  return entries
+    .filter((name) => name.endsWith(".part"))
+    .map((name) => Number.parseInt(name, 10))
+    .filter((index) => index < session.totalChunks)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Read a chunk request body, giving up (null) as soon as it passes the chunk size
+ * Content-Length can't be relied on, as chunked requests don't send it.
+ */
+export async function readUploadChunk(
+  body: ReadableStream<Uint8Array> | null,
+  chunkSize: number
+): Promise<Buffer | null> {
+  if (!body) return Buffer.alloc(0);
+
+  const reader = body.getReader();
+  const parts: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.length;
+    if (received > chunkSize) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Store one chunk after checking its size and SHA-256
+ */
+export async function writeUploadChunk(
+  session: UploadSession,
+  index: number,
+  data: Buffer,
+  sha256: string | null
+): Promise<UploadResult> {
+  if (session.status !== "uploading") {
+    return { ok: false, error: "Upload is already complete", status: 409 };
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    return { ok: false, error: `Chunk index must be between 0 and ${session.totalChunks - 1}`, status: 400 };
+  }
+
+  const isLast = index === session.totalChunks - 1;
+  const expectedSize = isLast ? session.fileSize - session.chunkSize * index : session.chunkSize;
+  if (data.length !== expectedSize) {
+    return { ok: false, error: `Chunk ${index} should be ${expectedSize} bytes, got ${data.length}`, status: 400 };
+  }
+
+  if (!sha256 || sha256Hex(data) !== sha256.toLowerCase()) {
+    return { ok: false, error: `Chunk ${index} checksum mismatch`, status: 422 };
+  }
+
+  // Write to a temp name and rename so a dropped request never leaves a partial chunk
+  const chunkPath = getChunkPath(session.id, index);
+  const tempPath = `${chunkPath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, chunkPath);
+
+  return { ok: true };
+}
+
+/**
+ * Assemble the chunks into the final file and verify the upload checksum
+ */
+export async function completeUploadSession(
+  session: UploadSession,
+  checksum: string
+): Promise<UploadResult<{ session: UploadSession }> & { missingChunks?: number[] }> {
+  if (session.status === "complete") {
+    return { ok: true, session };
+  }
+
+  const received = new Set(await getReceivedChunks(session));
+  const missingChunks: number[] = [];
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (!received.has(index)) missingChunks.push(index);
+  }
+  if (missingChunks.length > 0) {
+    return { ok: false, error: `Missing ${missingChunks.length} chunk(s)`, status: 409, missingChunks };
+  }
+
+  const assembledPath = path.join(getSessionDir(session.id), ASSEMBLED_FILE);
+  const output = createWriteStream(assembledPath);
+  const chunkHashes: string[] = [];
+
+  try {
+    for (let index = 0; index < session.totalChunks; index++) {
+      const hash = createHash("sha256");
+      for await (const data of createReadStream(getChunkPath(session.id, index))) {
+        hash.update(data as Buffer);
+        if (!output.write(data)) {
+          await new Promise<void>((resolve) => output.once("drain", () => resolve()));
+        }
+      }
+      chunkHashes.push(hash.digest("hex"));
+    }
+  } finally {
+    await new Promise<void>((resolve) => output.end(() => resolve()));
+  }
+
+  if (computeUploadChecksum(chunkHashes) !== checksum.toLowerCase()) {
+    await fs.rm(assembledPath, { force: true });
+    return { ok: false, error: "Upload checksum mismatch", status: 422 };
+  }
+
+  // Chunks are no longer needed once the file is assembled
+  await Promise.all(
+    Array.from({ length: session.totalChunks }, (_, index) => fs.rm(getChunkPath(session.id, index), { force: true }))
+  );
+
+  const completed: UploadSession = { ...session, status: "complete" };
+  await writeManifest(completed);
+
+  console.log(`[Uploads] Completed upload ${session.id} (${session.fileName}, ${session.fileSize} bytes)`);
+  return { ok: true, session: completed };
+}
+
+/**
+ * Abandon an upload and delete its chunks
+ */
+export async function discardUploadSession(uploadId: string): Promise<void> {
+  if (!UUID_PATTERN.test(uploadId)) return;
+  await fs.rm(getSessionDir(uploadId), { recursive: true, force: true });
+}
+
+/**
+ * A completed upload as a File backed by the assembled file on disk
+ * Nothing is read into memory until the caller reads the File, so the session
+ * must stay in place until the route is done with it. Routes discard it then;
+ * keeping it also lets the user confirm and resubmit (e.g. after a duplicate warning).
+ */
+export async function readUploadedFile(
+  uploadId: string,
+  userId: string,
+  purpose: UploadPurpose
+): Promise<File | null> {
+  const session = await getUploadSession(uploadId, userId);
+  if (!session || session.status !== "complete" || session.purpose !== purpose) {
+    return null;
+  }
+
+  const blob = await openAsBlob(path.join(getSessionDir(uploadId), ASSEMBLED_FILE), { type: session.mimeType });
+  return new File([blob], session.fileName, { type: session.mimeType });
+}
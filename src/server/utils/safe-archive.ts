@@ -0,0 +1,268 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { crc32, inflateRawSync } from "zlib";
+import AdmZip from "adm-zip";
+
+/**
+ * Hardened ZIP reader
+ *
+ * Every archive we open (EPUB and DOCX manuscripts, admin asset bundles) comes
+ * from a user, so it is checked before anything is decompressed:
+ *   - number of entries, total and per-entry uncompressed size
+ *   - compression ratio (zip bombs)
+ *   - entry paths that are absolute or climb out with ".." (zip-slip)
+ *   - symbolic links, password-protected entries and nested archives
+ *
+ * Sizes come from the archive's central directory, and entries are inflated
+ * here rather than by adm-zip, with the output capped at the declared size and
+ * the CRC checked afterwards. An entry whose header understates its size fails
+ * to decompress instead of exhausting memory.
+ *
+ * Limits can be changed with ARCHIVE_MAX_ENTRIES, ARCHIVE_MAX_TOTAL_SIZE_MB,
+ * ARCHIVE_MAX_ENTRY_SIZE_MB and ARCHIVE_MAX_COMPRESSION_RATIO.
+ */
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxTotalSize: number; // Bytes, uncompressed
+  maxEntrySize: number; // Bytes, uncompressed
+  maxCompressionRatio: number;
+  allowNestedArchives: boolean;
+}
+
+export interface ArchiveEntry {
+  name: string; // Normalized path inside the archive, always with forward slashes
+  size: number; // Uncompressed size in bytes
+  isDirectory: boolean;
+}
+
+export interface SafeArchive {
+  entries: ArchiveEntry[];
+  /** Read an entry's data (null for missing entries and directories) */
+  read(name: string): Buffer | null;
+  /** Read an entry as UTF-8 text */
+  readText(name: string): string | null;
+  /** Write every entry below a directory */
+  extractTo(directory: string): Promise<ArchiveResult>;
+}
+
+type ArchiveResult<T = object> = ({ ok: true } & T) | { ok: false; error: string };
+
+const MB = 1024 * 1024;
+
+// Small entries (blank pages, padding) compress extremely well without being
+// dangerous, so the ratio check only applies above this size
+const RATIO_CHECK_MIN_SIZE = 1 * MB;
+
+// Deflate can grow incompressible data slightly (5 bytes per 16 KB stored block, plus a little slack),
+// so compressed data much larger than that means the declared size is a lie
+const deflateOverhead = (size: number) => Math.ceil(size / 16384) * 5 + 64;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+const NESTED_ARCHIVE_EXTENSIONS = new Set([".zip", ".jar", ".epub", ".7z", ".rar", ".tar", ".gz", ".tgz", ".bz2", ".xz"]);
+
+// Unix file type bits stored in the high 16 bits of the external attributes
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Limits from the environment, falling back to defaults sized for admin asset bundles
+ */
+export function getArchiveLimits(): ArchiveLimits {
+  return {
+    maxEntries: readLimit("ARCHIVE_MAX_ENTRIES", 10000),
+    maxTotalSize: readLimit("ARCHIVE_MAX_TOTAL_SIZE_MB", 1024) * MB,
+    maxEntrySize: readLimit("ARCHIVE_MAX_ENTRY_SIZE_MB", 500) * MB,
+    maxCompressionRatio: readLimit("ARCHIVE_MAX_COMPRESSION_RATIO", 100),
+    allowNestedArchives: false,
+  };
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= MB ? `${Math.round(bytes / MB)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Normalize an entry path, or return null if it could escape the extraction directory
+ */
+function normalizeEntryName(rawName: string): string | null {
+  const name = rawName.replace(/\\/g, "/");
+  if (!name || name.includes("\0") || name.startsWith("/") || /^[a-z]:/i.test(name)) {
+    return null;
+  }
+  const segments = name.split("/").filter((segment) => segment !== "" && segment !== ".");
+  if (segments.length === 0 || segments.includes("..")) {
+    return null;
+  }
+  return segments.join("/") + (name.endsWith("/") ? "/" : "");
+}
+
+function isNestedArchiveData(data: Buffer): boolean {
+  return (
+    (data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04) || // ZIP
+    data.subarray(0, 6).toString("latin1") === "7z\xbc\xaf\x27\x1c" || // 7-Zip
+    data.subarray(0, 4).toString("latin1") === "Rar!" || // RAR
+    (data[0] === 0x1f && data[1] === 0x8b) // gzip
+  );
+}
+
+/**
+ * Decompress an entry, never producing more than its declared size
+ * Throws if the data is larger than declared, fails its CRC or uses an unsupported method.
+ */
+function inflateEntry(entry: AdmZip.IZipEntry): Buffer {
+  const { method, size, crc } = entry.header;
+  const compressed = entry.getCompressedData();
+
+  let data: Buffer;
+  if (method === STORED) {
+    data = compressed;
+  } else if (method === DEFLATED) {
+    // maxOutputLength must be at least 1; an empty entry that inflates to anything fails the length check below
+    data = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+  } else {
+    throw new Error(`Unsupported compression method ${method} for "${entry.entryName}"`);
+  }
+
+  if (data.length !== size || (crc32(data) >>> 0) !== (crc >>> 0)) {
+    throw new Error(`"${entry.entryName}" does not match its declared size or checksum`);
+  }
+  return data;
+}
+
+/**
+ * Open a ZIP archive after checking it against the limits
+ */
+export function openArchive(buffer: Buffer, overrides: Partial<ArchiveLimits> = {}): ArchiveResult<{ archive: SafeArchive }> {
+  const limits = { ...getArchiveLimits(), ...overrides };
+
+  let zipEntries: AdmZip.IZipEntry[];
+  try {
+    zipEntries = new AdmZip(buffer).getEntries();
+  } catch {
+    return { ok: false, error: "The ZIP file could not be read. It may be corrupted or not a ZIP archive." };
+  }
+
+  if (zipEntries.length > limits.maxEntries) {
+    return {
+      ok: false,
+      error: `The archive contains ${zipEntries.length} files, more than the limit of ${limits.maxEntries}.`,
+    };
+  }
+
+  const entries: ArchiveEntry[] = [];
+  const entriesByName = new Map<string, AdmZip.IZipEntry>();
+  let totalSize = 0;
+
+  for (const entry of zipEntries) {
+    const rawName = entry.entryName;
+    const name = normalizeEntryName(rawName);
+    if (!name) {
+      return { ok: false, error: `"${rawName}" has an unsafe path. Files in the archive must stay inside its folder.` };
+    }
+
+    if (((entry.header.attr >>> 16) & UNIX_FILE_TYPE_MASK) === UNIX_SYMLINK) {
+      return { ok: false, error: `"${name}" is a symbolic link. Archives containing links are not accepted.` };
+    }
+
+    if (entry.header.encripted) {
+      return { ok: false, error: `"${name}" is password-protected. Upload an archive without a password.` };
+    }
+
+    if (entry.isDirectory) {
+      entries.push({ name, size: 0, isDirectory: true });
+      continue;
+    }
+
+    if (!limits.allowNestedArchives && NESTED_ARCHIVE_EXTENSIONS.has(path.extname(name).toLowerCase())) {
+      return { ok: false, error: `"${name}" is an archive inside the archive. Include its files directly instead.` };
+    }
+
+    const { size, compressedSize } = entry.header;
+    if (compressedSize > size + deflateOverhead(size)) {
+      return {
+        ok: false,
+        error: `"${name}" declares a smaller size than its compressed data, which is not allowed (possible zip bomb).`,
+      };
+    }
+    if (size > limits.maxEntrySize) {
+      return {
+        ok: false,
+        error: `"${name}" is ${formatSize(size)} uncompressed, more than the ${formatSize(limits.maxEntrySize)} limit per file.`,
+      };
+    }
+    if (size >= RATIO_CHECK_MIN_SIZE && size / Math.max(compressedSize, 1) > limits.maxCompressionRatio) {
+      return {
+        ok: false,
+        error: `"${name}" is compressed more than ${limits.maxCompressionRatio}:1, which is not allowed (possible zip bomb).`,
+      };
+    }
+
+    totalSize += size;
+    if (totalSize > limits.maxTotalSize) {
+      return {
+        ok: false,
+        error: `The archive expands to more than ${formatSize(limits.maxTotalSize)}, the limit for uncompressed contents.`,
+      };
+    }
+
+    entries.push({ name, size, isDirectory: false });
+    entriesByName.set(name, entry);
+  }
+
+  if (totalSize >= RATIO_CHECK_MIN_SIZE && totalSize / Math.max(buffer.length, 1) > limits.maxCompressionRatio) {
+    return {
+      ok: false,
+      error: `The archive is compressed more than ${limits.maxCompressionRatio}:1, which is not allowed (possible zip bomb).`,
+    };
+  }
+
+  const read = (name: string): Buffer | null => {
+    const entry = entriesByName.get(normalizeEntryName(name) ?? "");
+    return entry ? inflateEntry(entry) : null;
+  };
+
+  const archive: SafeArchive = {
+    entries,
+    read,
+    readText: (name) => read(name)?.toString("utf-8") ?? null,
+    extractTo: async (directory) => {
+      const root = path.resolve(directory);
+      for (const entry of entries) {
+        const target = path.resolve(root, entry.name);
+        if (target !== root && !target.startsWith(root + path.sep)) {
+          return { ok: false, error: `"${entry.name}" has an unsafe path. Files in the archive must stay inside its folder.` };
+        }
+
+        if (entry.isDirectory) {
+          await fs.mkdir(target, { recursive: true });
+          continue;
+        }
+
+        let data: Buffer;
+        try {
+          data = read(entry.name) ?? Buffer.alloc(0);
+        } catch {
+          return { ok: false, error: `"${entry.name}" could not be decompressed. The archive may be corrupted.` };
+        }
+        // Renamed archives get past the extension check, so look at the content too
+        if (!limits.allowNestedArchives && isNestedArchiveData(data)) {
+          return { ok: false, error: `"${entry.name}" is an archive inside the archive. Include its files directly instead.` };
+        }
+
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, data);
+      }
+      return { ok: true };
+    },
+  };
+
+  return { ok: true, archive };
+}
@@ -0,0 +1,194 @@
+import { randomBytes } from "crypto";
+import { JSDOM } from "jsdom";
+
+/**
+ * Sandboxing for uploaded HTML deliverables
+ *
+ * Reports, covers, marketing assets and landing pages are HTML written by admins
+ * or imported from precanned packages, and they are served from the app's own
+ * host. Every response carrying one gets a Content-Security-Policy with the
+ * `sandbox` directive, which puts the document in an opaque origin of its own
+ * whether it is framed or opened directly, so its scripts can't read the
+ * session cookie, storage or the dashboard around it. Scripts must also carry
+ * the response's nonce: inline scripts and scripts from SANDBOX_SCRIPT_SOURCES get
+ * it, while event handler attributes, `javascript:` URLs and scripts from
+ * anywhere else never run.
+ *
+ * Uploads are cleaned with sanitizeUploadedHtml as well, so what is stored
+ * matches what is allowed to run.
+ */
+
+// CSP source expressions: one ending in "/" allows everything under that path, others that exact file.
+// The CDNs serve any package, so only the libraries deliverables use are listed.
+export const SANDBOX_SCRIPT_SOURCES = [
+  "https://cdn.tailwindcss.com/",
+  "https://unpkg.com/lucide@latest/",
+  "https://cdn.jsdelivr.net/npm/chart.js",
+  "https://cdn.jsdelivr.net/npm/chart.js/",
+];
+
+// No allow-same-origin: that would hand the document back the app's origin
+const SANDBOX_FLAGS = [
+  "allow-scripts",
+  "allow-popups",
+  "allow-popups-to-escape-sandbox",
+  "allow-downloads",
+  "allow-modals",
+];
+
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "formaction", "xlink:href", "poster", "data", "background"]);
+
+// Whole documents are parsed as documents; anything else as a fragment, so no <html> or <body> is added around it
+const DOCUMENT_PATTERN = /<(!doctype|html|head|body)[\s>/]/i;
+
+interface ParsedHtml {
+  root: ParentNode;
+  serialize: () => string;
+}
+
+/**
+ * Parse HTML the way a browser would, so attributes are found however they are separated
+ */
+function parseHtml(html: string): ParsedHtml {
+  if (DOCUMENT_PATTERN.test(html)) {
+    const dom = new JSDOM(html);
+    return { root: dom.window.document, serialize: () => dom.serialize() };
+  }
+
+  const template = new JSDOM("").window.document.createElement("template");
+  template.innerHTML = html;
+  return { root: template.content, serialize: () => template.innerHTML };
+}
+
+// Elements under a root, including those inside <template> contents
+function getAllElements(root: ParentNode): Element[] {
+  const elements: Element[] = [];
+  for (const element of Array.from(root.querySelectorAll("*"))) {
+    elements.push(element);
+    if (element.localName === "template") {
+      elements.push(...getAllElements((element as HTMLTemplateElement).content));
+    }
+  }
+  return elements;
+}
+
+// SVG scripts name their source with href or xlink:href rather than src
+function getScriptSource(script: Element): string | null {
+  return script.getAttribute("src") ?? script.getAttribute("href") ?? script.getAttribute("xlink:href");
+}
+
+// The parser has already decoded entities; browsers also ignore whitespace and control characters in a scheme
+function isScriptUrl(value: string): boolean {
+  const scheme = Array.from(value)
+    .filter((character) => character.charCodeAt(0) > 0x20)
+    .join("")
+    .toLowerCase();
+  return /^(javascript|vbscript):/.test(scheme);
+}
+
+/**
+ * Whether a script URL is on the allowlist, matched on origin and path as the CSP does;
+ * relative and plain-http sources are not
+ */
+export function isAllowedScriptSource(src: string): boolean {
+  try {
+    const url = new URL(src.trim().startsWith("//") ? `https:${src.trim()}` : src.trim());
+    const location = `${url.origin}${url.pathname}`;
+    return (
+      url.protocol === "https:" &&
+      SANDBOX_SCRIPT_SOURCES.some((source) => (source.endsWith("/") ? location.startsWith(source) : location === source))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Uploaded HTML without event handler attributes, `javascript:` URLs or scripts
+ * loaded from outside SANDBOX_SCRIPT_SOURCES
+ */
+export function sanitizeUploadedHtml(html: string): string {
+  const parsed = parseHtml(html);
+
+  for (const element of getAllElements(parsed.root)) {
+    if (element.localName === "script") {
+      const src = getScriptSource(element);
+      if (src !== null && !isAllowedScriptSource(src)) {
+        element.remove();
+        continue;
+      }
+    }
+
+    for (const { name, value } of Array.from(element.attributes)) {
+      const lowerName = name.toLowerCase();
+      if (lowerName.startsWith("on") || (URL_ATTRIBUTES.has(lowerName) && isScriptUrl(value))) {
+        element.removeAttribute(name);
+      }
+    }
+  }
+
+  return parsed.serialize();
+}
+
+/**
+ * Content-Security-Policy for a sandboxed deliverable
+ */
+export function buildSandboxCsp(nonce: string): string {
+  return [
+    `sandbox ${SANDBOX_FLAGS.join(" ")}`,
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}' ${SANDBOX_SCRIPT_SOURCES.join(" ")}`,
+    "style-src 'self' 'unsafe-inline' https:",
+    "img-src 'self' data: blob: https:",
+    "media-src 'self' data: blob: https:",
+    "font-src 'self' data: https:",
+    "frame-src https:",
+    "connect-src 'none'",
+    "form-action 'none'",
+    "base-uri 'none'",
+    "object-src 'none'",
+    "frame-ancestors 'self'",
+  ].join("; ");
+}
+
+/**
+ * Give the inline and allowlisted scripts of a document this response's nonce
+ */
+export function addScriptNonce(html: string, nonce: string): string {
+  const parsed = parseHtml(html);
+
+  for (const script of getAllElements(parsed.root)) {
+    if (script.localName !== "script") continue;
+    script.removeAttribute("nonce");
+    const src = getScriptSource(script);
+    if (src === null || isAllowedScriptSource(src)) {
+      script.setAttribute("nonce", nonce);
+    }
+  }
+
+  return parsed.serialize();
+}
+
+/**
+ * Headers for raw uploaded files (images, SVGs, videos) served from the app's host
+ * Opened directly, an SVG or a file a browser takes for a page gets an empty
+ * sandbox where nothing runs or loads.
+ */
+export const UPLOADED_FILE_HEADERS = {
+  "Content-Security-Policy": "sandbox; default-src 'none'",
+  "X-Content-Type-Options": "nosniff",
+};
+
+/**
+ * HTML and headers for serving an uploaded deliverable in its own sandbox
+ */
+export function sandboxHtml(html: string): { html: string; headers: Record<string, string> } {
+  const nonce = randomBytes(16).toString("base64");
+  return {
+    html: addScriptNonce(html, nonce),
+    headers: {
+      "Content-Security-Policy": buildSandboxCsp(nonce),
+      "X-Content-Type-Options": "nosniff",
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed tokens for share links
+ *
+ * A token is `{link id}.{expiry, unix seconds}.{signature}`, the signature being
+ * an HMAC-SHA256 (base64url) of the first two parts with the app secret. Edited
+ * or made-up tokens fail the signature check before any lookup; revocation and
+ * passwords are checked against the link itself.
+ */
+
+export type ShareTokenResult =
+  | { ok: true; linkId: string; expiresAt: Date }
+  | { ok: false; error: string };
+
+function sign(secret: string, value: string): string {
+  return createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Token for a share link; the same link and expiry always give the same token
+ */
+export function createShareToken(secret: string, linkId: string, expiresAt: Date): string {
+  const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+/**
+ * Check a token's signature and expiry
+ */
+export function readShareToken(secret: string, token: string, now: Date = new Date()): ShareTokenResult {
+  const parts = token.split(".");
+  if (parts.length !== 3 || !parts[0] || !/^\d+$/.test(parts[1]!)) {
+    return { ok: false, error: "Invalid share link" };
+  }
+
+  const [linkId, expires, signature] = parts as [string, string, string];
+  if (!safeEqual(sign(secret, `${linkId}.${expires}`), signature)) {
+    return { ok: false, error: "Invalid share link" };
+  }
+
+  const expiresAt = new Date(Number(expires) * 1000);
+  if (expiresAt.getTime() <= now.getTime()) {
+    return { ok: false, error: "This share link has expired" };
+  }
+
+  return { ok: true, linkId, expiresAt };
+}
+
+/**
+ * Cookie value proving the password of a link was entered; changes if the password does
+ */
+export function createShareUnlockValue(secret: string, linkId: string, passwordHash: string): string {
+  return sign(secret, `unlock.${linkId}.${passwordHash}`);
+}
+
+export function verifyShareUnlockValue(
+  secret: string,
+  linkId: string,
+  passwordHash: string,
+  value: string | undefined
+): boolean {
+  return Boolean(value) && safeEqual(createShareUnlockValue(secret, linkId, passwordHash), value!);
+}
@@ -1,5 +1,7 @@
-import { promises as fs } from "fs";
+import { promises as fs, openAsBlob } from "fs";
 import path from "path";
+import { getBlobStore } from "@/server/storage";
+import { validateExtractedFileType } from "./validate-file-type";
 
 /**
  * Store an uploaded asset file (video, image, etc.) and return its API URL
@@ -9,7 +11,8 @@ import path from "path";
  * @param bookId - Book ID
  * @param assetType - Type of asset (marketing-assets, covers, landing-page, report)
  * @param fileName - Desired filename for the stored file
- * @returns Object with fileUrl (API path) and destinationPath
+ * @returns Object with fileUrl (API path) and destinationPath (blob key in the admin-uploads area)
+ * @throws If the file's content doesn't match its extension
  */
 export async function storeUploadedAsset(
   sourcePath: string,
@@ -17,19 +20,22 @@ export async function storeUploadedAsset(
   assetType: string,
   fileName: string
 ): Promise<{ fileUrl: string; destinationPath: string }> {
-  // Use public/uploads/admin/{bookId}/{assetType}/videos/ structure
+  // Use {bookId}/{assetType}/videos/ structure
   // This mirrors the precanned structure but for admin uploads
-  const publicRoot = path.resolve(process.cwd(), "public", "uploads", "admin");
   const destSegments = [bookId, assetType, "videos", fileName];
-  const destinationDir = path.join(publicRoot, ...destSegments.slice(0, -1));
+  const destinationPath = destSegments.join("/");
   
-  await fs.mkdir(destinationDir, { recursive: true });
-  
-  const destinationPath = path.join(destinationDir, fileName);
-  
-  // Copy the file
-  await fs.copyFile(sourcePath, destinationPath);
-  console.log(`[storeUploadedAsset] ✅ Copied file to ${destinationPath}`);
+  // Files come out of uploaded ZIPs, so check they really are what their extension says
+  const extracted = new File([await openAsBlob(sourcePath)], path.basename(sourcePath));
+  const typeValidation = await validateExtractedFileType(extracted);
+  if (!typeValidation.isValid) {
+    throw new Error(typeValidation.error);
+  }
+
+  // Copy the file into blob storage
+  const fileBuffer = await fs.readFile(sourcePath);
+  await getBlobStore("admin-uploads").put(destinationPath, fileBuffer);
+  console.log(`[storeUploadedAsset] ✅ Stored file as ${destinationPath}`);
   
   // Return API URL - we'll create an API route to serve these
   // Using /api/uploads/admin/... to match the structure
@@ -0,0 +1,393 @@
+import path from "path";
+import { JSDOM } from "jsdom";
+import { readEpubPackage, resolveEpubHref, type EpubPackage } from "./extract-epub-metadata";
+import { openArchive, type SafeArchive } from "./safe-archive";
+
+/**
+ * EPUB structural validation
+ *
+ * Checks the things retailers reject most often: the mimetype entry, the
+ * package document, manifest/spine consistency, missing resources, broken
+ * internal links, the cover, the navigation document and the language code.
+ * This is not a full EPUBCheck - it covers structure, not every spec rule.
+ */
+
+export type EpubIssueSeverity = "error" | "warning";
+
+export interface EpubIssue {
+  severity: EpubIssueSeverity;
+  message: string;
+  location?: string; // Path inside the EPUB the issue refers to
+}
+
+export type EpubCheckId = "mimetype" | "package" | "manifest" | "resources" | "links" | "cover" | "navigation" | "language";
+
+export interface EpubCheck {
+  id: EpubCheckId;
+  label: string;
+  status: "passed" | "warning" | "error" | "skipped";
+  issues: EpubIssue[];
+}
+
+export interface EpubValidationReport {
+  checkedAt: string; // ISO timestamp
+  epubVersion: string | null;
+  errorCount: number;
+  warningCount: number;
+  checks: EpubCheck[];
+}
+
+const CHECK_LABELS: Record<EpubCheckId, string> = {
+  mimetype: "Mimetype file is first and uncompressed",
+  package: "Package document can be found",
+  manifest: "Manifest and spine are consistent",
+  resources: "Referenced resources are present",
+  links: "Internal links resolve",
+  cover: "Cover image is declared",
+  navigation: "Navigation document is present",
+  language: "Language code is valid",
+};
+
+const EPUB_MIMETYPE = "application/epub+zip";
+const CONTENT_DOCUMENT_TYPES = new Set(["application/xhtml+xml", "image/svg+xml"]);
+
+// Only this many issues are listed per check; the rest are summarised
+const MAX_ISSUES_PER_CHECK = 20;
+
+// Attributes that reference other files from content documents
+const REFERENCE_SELECTOR = "a[href], link[href], img[src], script[src], source[src], audio[src], video[src], iframe[src]";
+
+/**
+ * Check the mimetype entry in the raw ZIP: it must be the first local file,
+ * stored without compression or extra fields, and contain exactly "application/epub+zip"
+ */
+function checkMimetype(buffer: Buffer): EpubIssue[] {
+  if (buffer.length < 30 || buffer.readUInt32LE(0) !== 0x04034b50) {
+    return [{ severity: "error", message: "The file does not start with a ZIP entry." }];
+  }
+
+  const nameLength = buffer.readUInt16LE(26);
+  const extraLength = buffer.readUInt16LE(28);
+  const name = buffer.subarray(30, 30 + nameLength).toString("latin1");
+  if (name !== "mimetype") {
+    return [{ severity: "error", message: `The first file in the archive is "${name}" instead of "mimetype".` }];
+  }
+
+  const issues: EpubIssue[] = [];
+  if (buffer.readUInt16LE(8) !== 0) {
+    issues.push({ severity: "error", message: "The mimetype file is compressed. It must be stored uncompressed." });
+  } else {
+    const dataStart = 30 + nameLength + extraLength;
+    const content = buffer.subarray(dataStart, dataStart + buffer.readUInt32LE(18)).toString("latin1");
+    if (content !== EPUB_MIMETYPE) {
+      issues.push({ severity: "error", message: `The mimetype file contains "${content.trim()}" instead of "${EPUB_MIMETYPE}".` });
+    }
+  }
+  if (extraLength > 0) {
+    issues.push({ severity: "warning", message: "The mimetype entry has an extra field, which some readers reject." });
+  }
+  return issues;
+}
+
+function checkManifest(epub: EpubPackage): EpubIssue[] {
+  const issues: EpubIssue[] = [];
+  const ids = new Set<string>();
+  const paths = new Set<string>();
+
+  for (const item of epub.manifest) {
+    if (!item.id || !item.href || !item.mediaType) {
+      issues.push({
+        severity: "error",
+        message: "A manifest item is missing its id, href or media-type.",
+        location: item.href || item.id || epub.opfPath,
+      });
+      continue;
+    }
+    if (ids.has(item.id)) {
+      issues.push({ severity: "error", message: `The manifest id "${item.id}" is used more than once.`, location: epub.opfPath });
+    }
+    if (paths.has(item.path)) {
+      issues.push({ severity: "warning", message: "This file is listed in the manifest more than once.", location: item.path });
+    }
+    ids.add(item.id);
+    paths.add(item.path);
+  }
+
+  if (epub.spine.length === 0) {
+    issues.push({ severity: "error", message: "The spine is empty, so the book has no reading order.", location: epub.opfPath });
+  }
+
+  const spineIds = new Set<string>();
+  for (const itemref of epub.spine) {
+    const item = epub.manifest.find((candidate) => candidate.id === itemref.idref);
+    if (!item) {
+      issues.push({ severity: "error", message: `The spine refers to "${itemref.idref}", which is not in the manifest.`, location: epub.opfPath });
+      continue;
+    }
+    if (spineIds.has(itemref.idref)) {
+      issues.push({ severity: "error", message: `"${itemref.idref}" appears in the spine more than once.`, location: epub.opfPath });
+    }
+    spineIds.add(itemref.idref);
+    if (!CONTENT_DOCUMENT_TYPES.has(item.mediaType)) {
+      issues.push({ severity: "error", message: `A spine item has media type ${item.mediaType}; it must be XHTML or SVG.`, location: item.path });
+    }
+  }
+
+  if (epub.spine.length > 0 && epub.spine.every((itemref) => !itemref.linear)) {
+    issues.push({ severity: "error", message: "Every spine item is non-linear, so there is no main reading order.", location: epub.opfPath });
+  }
+
+  return issues;
+}
+
+function checkResources(epub: EpubPackage, archive: SafeArchive): EpubIssue[] {
+  const issues: EpubIssue[] = [];
+  const entryNames = new Set(archive.entries.filter((entry) => !entry.isDirectory).map((entry) => entry.name));
+  const manifestPaths = new Set(epub.manifest.map((item) => item.path));
+
+  for (const item of epub.manifest) {
+    // Remote resources are allowed for audio/video and fonts in EPUB 3
+    if (!item.href || /^[a-z][a-z0-9+.-]*:/i.test(item.href)) continue;
+    if (!entryNames.has(item.path)) {
+      issues.push({ severity: "error", message: "This file is listed in the manifest but missing from the EPUB.", location: item.path });
+    }
+  }
+
+  for (const name of entryNames) {
+    if (name === "mimetype" || name.startsWith("META-INF/") || name === epub.opfPath || manifestPaths.has(name)) continue;
+    // macOS archive clutter isn't worth a warning of its own
+    if (name.startsWith("__MACOSX/") || path.posix.basename(name) === ".DS_Store") continue;
+    issues.push({ severity: "warning", message: "This file is in the EPUB but not listed in the manifest.", location: name });
+  }
+
+  return issues;
+}
+
+function parseContentDocument(content: string, mediaType: string): Document {
+  try {
+    return new JSDOM(content, { contentType: mediaType === "image/svg+xml" ? "image/svg+xml" : "application/xhtml+xml" })
+      .window.document;
+  } catch {
+    return new JSDOM(content, { contentType: "text/html" }).window.document;
+  }
+}
+
+function checkLinks(epub: EpubPackage, archive: SafeArchive): EpubIssue[] {
+  const issues: EpubIssue[] = [];
+  const manifestPaths = new Set(epub.manifest.map((item) => item.path));
+  const entryNames = new Set(archive.entries.map((entry) => entry.name));
+  const documents = new Map<string, Document>();
+
+  const loadDocument = (item: { path: string; mediaType: string }): Document | null => {
+    if (!documents.has(item.path)) {
+      const content = archive.readText(item.path);
+      if (content === null) return null;
+      documents.set(item.path, parseContentDocument(content, item.mediaType));
+    }
+    return documents.get(item.path) ?? null;
+  };
+
+  const hasAnchor = (document: Document, fragment: string): boolean => {
+    let id = fragment;
+    try {
+      id = decodeURIComponent(fragment);
+    } catch {
+      // Keep the raw fragment
+    }
+    return Array.from(document.querySelectorAll("[id], a[name]")).some(
+      (element) => element.getAttribute("id") === id || element.getAttribute("name") === id
+    );
+  };
+
+  for (const item of epub.manifest) {
+    if (!CONTENT_DOCUMENT_TYPES.has(item.mediaType)) continue;
+    const document = loadDocument(item);
+    if (!document) continue;
+
+    const baseDir = path.posix.dirname(item.path);
+    for (const element of document.querySelectorAll(REFERENCE_SELECTOR)) {
+      const reference = element.getAttribute("href") ?? element.getAttribute("src") ?? "";
+      // External links (https:, mailto:, ...) and empty references are not checked
+      if (!reference || /^[a-z][a-z0-9+.-]*:/i.test(reference) || reference.startsWith("//")) continue;
+
+      const [target = "", fragment] = reference.split("#", 2);
+      const targetPath = target ? resolveEpubHref(baseDir, target) : item.path;
+
+      if (target && !entryNames.has(targetPath)) {
+        issues.push({ severity: "error", message: `Broken link to "${reference}": the file does not exist.`, location: item.path });
+        continue;
+      }
+      if (target && !manifestPaths.has(targetPath)) {
+        issues.push({ severity: "warning", message: `"${reference}" exists but is not listed in the manifest.`, location: item.path });
+      }
+
+      const targetItem = epub.manifest.find((candidate) => candidate.path === targetPath);
+      if (fragment && targetItem && CONTENT_DOCUMENT_TYPES.has(targetItem.mediaType)) {
+        const targetDocument = loadDocument(targetItem);
+        if (targetDocument && !hasAnchor(targetDocument, fragment)) {
+          issues.push({ severity: "warning", message: `Broken link to "${reference}": no element has the id "${fragment}".`, location: item.path });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkCover(epub: EpubPackage, archive: SafeArchive): EpubIssue[] {
+  // EPUB 3 marks the cover with properties="cover-image"; EPUB 2 uses <meta name="cover" content="id">
+  let cover = epub.manifest.find((item) => item.properties.includes("cover-image"));
+  if (!cover) {
+    const coverId = Array.from(epub.opfDocument.querySelectorAll("metadata meta"))
+      .find((meta) => meta.getAttribute("name") === "cover")
+      ?.getAttribute("content");
+    cover = epub.manifest.find((item) => item.id === coverId);
+  }
+
+  if (!cover) {
+    return [{ severity: "warning", message: "No cover image is declared. Most retailers require one.", location: epub.opfPath }];
+  }
+  if (!cover.mediaType.startsWith("image/")) {
+    return [{ severity: "error", message: `The cover is declared as ${cover.mediaType}, not an image.`, location: cover.path }];
+  }
+  if (!archive.read(cover.path)) {
+    return [{ severity: "error", message: "The declared cover image is missing from the EPUB.", location: cover.path }];
+  }
+  return [];
+}
+
+function checkNavigation(epub: EpubPackage, archive: SafeArchive): EpubIssue[] {
+  const isEpub3 = epub.version.startsWith("3");
+  const nav = epub.manifest.find((item) => item.properties.includes("nav"));
+  const tocId = epub.opfDocument.querySelector("spine")?.getAttribute("toc");
+  const ncx = epub.manifest.find((item) => (tocId && item.id === tocId) || item.mediaType === "application/x-dtbncx+xml");
+
+  if (isEpub3) {
+    if (!nav) {
+      return [{ severity: "error", message: 'EPUB 3 requires a navigation document (a manifest item with properties="nav").', location: epub.opfPath }];
+    }
+    const content = archive.readText(nav.path);
+    if (content === null) {
+      return [{ severity: "error", message: "The navigation document is missing from the EPUB.", location: nav.path }];
+    }
+    const document = parseContentDocument(content, nav.mediaType);
+    const toc = Array.from(document.querySelectorAll("nav")).find((element) =>
+      (element.getAttribute("epub:type") || element.getAttributeNS("http://www.idpf.org/2007/ops", "type") || "")
+        .split(/\s+/)
+        .includes("toc")
+    );
+    if (!toc) {
+      return [{ severity: "error", message: 'The navigation document has no <nav epub:type="toc"> table of contents.', location: nav.path }];
+    }
+    if (!toc.querySelector("a[href]")) {
+      return [{ severity: "warning", message: "The table of contents has no entries.", location: nav.path }];
+    }
+    return [];
+  }
+
+  if (!ncx) {
+    return [{ severity: "error", message: "EPUB 2 requires an NCX table of contents (spine toc attribute).", location: epub.opfPath }];
+  }
+  if (!archive.read(ncx.path)) {
+    return [{ severity: "error", message: "The NCX table of contents is missing from the EPUB.", location: ncx.path }];
+  }
+  return [];
+}
+
+/**
+ * Check that a language code is a well-formed BCP 47 tag with a 2-3 letter language
+ */
+function isValidLanguageTag(tag: string): boolean {
+  if (!/^[a-z]{2,3}(-|$)/i.test(tag)) return false;
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+function checkLanguage(epub: EpubPackage): EpubIssue[] {
+  const languages = Array.from(epub.opfDocument.querySelectorAll("metadata > *"))
+    .filter((element) => element.localName === "language")
+    .map((element) => element.textContent?.trim() ?? "");
+
+  if (languages.length === 0) {
+    return [{ severity: "error", message: "The package has no dc:language.", location: epub.opfPath }];
+  }
+
+  return languages.flatMap((language): EpubIssue[] => {
+    if (isValidLanguageTag(language)) return [];
+    const suggestion = language.replace(/_/g, "-");
+    return [
+      {
+        severity: "error",
+        message: isValidLanguageTag(suggestion)
+          ? `"${language}" is not a valid language code. Use "${suggestion}" instead.`
+          : `"${language}" is not a valid language code. Use a code such as "en" or "en-US".`,
+        location: epub.opfPath,
+      },
+    ];
+  });
+}
+
+function toCheck(id: EpubCheckId, issues: EpubIssue[] | null): EpubCheck {
+  if (issues === null) {
+    return { id, label: CHECK_LABELS[id], status: "skipped", issues: [] };
+  }
+
+  const status = issues.some((issue) => issue.severity === "error")
+    ? "error"
+    : issues.length > 0
+      ? "warning"
+      : "passed";
+
+  const listed = issues.slice(0, MAX_ISSUES_PER_CHECK);
+  const hidden = issues.slice(MAX_ISSUES_PER_CHECK);
+  if (hidden.length > 0) {
+    listed.push({
+      severity: hidden.some((issue) => issue.severity === "error") ? "error" : "warning",
+      message: `${hidden.length} more issues not shown.`,
+    });
+  }
+  return { id, label: CHECK_LABELS[id], status, issues: listed };
+}
+
+/**
+ * Validate the structure of an EPUB file
+ * Checks that depend on the package document are skipped when it can't be read
+ */
+export function validateEpub(fileBuffer: Buffer): EpubValidationReport {
+  const opened = openArchive(fileBuffer);
+  const packageResult = opened.ok ? readEpubPackage(opened.archive) : null;
+  const packageIssues: EpubIssue[] = [];
+  if (!opened.ok) {
+    packageIssues.push({ severity: "error", message: opened.error });
+  } else if (packageResult && !packageResult.ok) {
+    packageIssues.push({ severity: "error", message: packageResult.error });
+  }
+
+  const epub = packageResult?.ok ? packageResult.epub : null;
+  const archive = opened.ok ? opened.archive : null;
+  const run = (check: (epub: EpubPackage, archive: SafeArchive) => EpubIssue[]) =>
+    epub && archive ? check(epub, archive) : null;
+
+  const results: Array<[EpubCheckId, EpubIssue[] | null]> = [
+    ["mimetype", checkMimetype(fileBuffer)],
+    ["package", packageIssues],
+    ["manifest", run(checkManifest)],
+    ["resources", run(checkResources)],
+    ["links", run(checkLinks)],
+    ["cover", run(checkCover)],
+    ["navigation", run(checkNavigation)],
+    ["language", run(checkLanguage)],
+  ];
+
+  const allIssues = results.flatMap(([, issues]) => issues ?? []);
+  return {
+    checkedAt: new Date().toISOString(),
+    epubVersion: epub?.version || null,
+    errorCount: allIssues.filter((issue) => issue.severity === "error").length,
+    warningCount: allIssues.filter((issue) => issue.severity === "warning").length,
+    checks: results.map(([id, issues]) => toCheck(id, issues)),
+  };
+}
@@ -6,6 +6,9 @@
 // Maximum file size: 50MB (same as frontend limit)
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB in bytes
 
+// Maximum size for admin asset bundles (ZIPs with video), which are uploaded in chunks
+export const MAX_ASSET_FILE_SIZE = 500 * 1024 * 1024; // 500MB in bytes
+
 /**
  * Validate file size
  * @param file - The file to validate
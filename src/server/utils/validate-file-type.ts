@@ -1,6 +1,7 @@
 /**
  * File type validation utilities
- * Validates both MIME type and file extension for security
+ * Validates the MIME type and file extension, then sniffs the file's leading
+ * bytes to make sure the content really is the type it claims to be
  */
 
 // Allowed file types for manuscript uploads
@@ -12,8 +13,13 @@ export const ALLOWED_MANUSCRIPT_TYPES = {
     "text/plain", // .txt
     "application/epub+zip", // .epub
     "application/x-epub+zip", // .epub (alternative)
+    "text/markdown", // .md, .markdown, .mmd (Scrivener MultiMarkdown export)
+    "text/x-markdown", // .md (alternative)
+    "application/rtf", // .rtf (Scrivener's default export)
+    "text/rtf", // .rtf (alternative)
+    "application/vnd.oasis.opendocument.text", // .odt
   ],
-  extensions: [".pdf", ".doc", ".docx", ".txt", ".epub"],
+  extensions: [".pdf", ".doc", ".docx", ".txt", ".epub", ".md", ".markdown", ".mmd", ".rtf", ".odt"],
 };
 
 // Allowed file types for cover images
@@ -50,12 +56,319 @@ export const ALLOWED_REPORT_TYPES = {
 export interface FileTypeValidationResult {
   isValid: boolean;
   error?: string;
+  /** Format detected from the file's content, when validation got that far */
+  detectedFormat?: SniffedFormat;
 }
 
 /**
- * Validate file type for manuscript uploads
+ * Content sniffing
+ *
+ * Browsers take the MIME type from the file extension, so neither can be trusted.
+ * These checks look at the file's magic bytes (and, for ZIP containers, its entry
+ * names) to work out what the file actually is.
+ */
+
+export type SniffedFormat =
+  | "pdf"
+  | "doc"
+  | "docx"
+  | "odt"
+  | "rtf"
+  | "epub"
+  | "zip"
+  | "png"
+  | "jpeg"
+  | "webp"
+  | "gif"
+  | "mp4"
+  | "webm"
+  | "avi"
+  | "html"
+  | "text";
+
+const FORMAT_DESCRIPTIONS: Record<SniffedFormat, string> = {
+  pdf: "a PDF document",
+  doc: "a Word 97-2003 document (DOC)",
+  docx: "a Word document (DOCX)",
+  odt: "an OpenDocument text document (ODT)",
+  rtf: "an RTF document",
+  epub: "an EPUB book",
+  zip: "a ZIP archive",
+  png: "a PNG image",
+  jpeg: "a JPEG image",
+  webp: "a WebP image",
+  gif: "a GIF image",
+  mp4: "an MP4 video",
+  webm: "a WebM or Matroska video",
+  avi: "an AVI video",
+  html: "an HTML page",
+  text: "plain text",
+};
+
+// Formats whose content is acceptable for each extension / MIME type.
+// DOCX, ODT and EPUB are ZIP containers, so they also count as ZIP archives.
+const EXTENSION_FORMATS: Record<string, SniffedFormat[]> = {
+  ".pdf": ["pdf"],
+  ".doc": ["doc"],
+  ".docx": ["docx"],
+  ".odt": ["odt"],
+  ".rtf": ["rtf"],
+  ".epub": ["epub"],
+  ".txt": ["text", "html"],
+  ".md": ["text", "html"],
+  ".markdown": ["text", "html"],
+  ".mmd": ["text", "html"],
+  ".zip": ["zip", "docx", "odt", "epub"],
+  ".jpg": ["jpeg"],
+  ".jpeg": ["jpeg"],
+  ".png": ["png"],
+  ".webp": ["webp"],
+  ".gif": ["gif"],
+  // QuickTime and M4V use the same ISO base media container as MP4
+  ".mp4": ["mp4"],
+  ".m4v": ["mp4"],
+  ".mov": ["mp4"],
+  ".webm": ["webm"],
+  ".mkv": ["webm"],
+  ".avi": ["avi"],
+  ".html": ["html"],
+};
+
+const MIME_FORMATS: Record<string, SniffedFormat[]> = {
+  "application/pdf": ["pdf"],
+  "application/msword": ["doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ["docx"],
+  "application/vnd.oasis.opendocument.text": ["odt"],
+  "application/rtf": ["rtf"],
+  "text/rtf": ["rtf"],
+  "application/epub+zip": ["epub"],
+  "application/x-epub+zip": ["epub"],
+  "text/plain": ["text", "html"],
+  "text/markdown": ["text", "html"],
+  "text/x-markdown": ["text", "html"],
+  "application/zip": ["zip", "docx", "odt", "epub"],
+  "application/x-zip-compressed": ["zip", "docx", "odt", "epub"],
+  "application/x-zip": ["zip", "docx", "odt", "epub"],
+  "image/jpeg": ["jpeg"],
+  "image/jpg": ["jpeg"],
+  "image/png": ["png"],
+  "image/webp": ["webp"],
+  "image/gif": ["gif"],
+  "video/mp4": ["mp4"],
+  "video/x-m4v": ["mp4"],
+  "video/quicktime": ["mp4"],
+  "video/webm": ["webm"],
+  "video/x-matroska": ["webm"],
+  "video/x-msvideo": ["avi"],
+  "text/html": ["html"],
+};
+
+const SNIFF_LENGTH = 4096;
+// End of central directory record is 22 bytes plus a comment of up to 64KB
+const ZIP_EOCD_SEARCH_LENGTH = 22 + 0xffff;
+// Don't read absurdly large central directories just to sniff the type
+const MAX_ZIP_DIRECTORY_SIZE = 8 * 1024 * 1024;
+
+// OpenDocument text (and text templates) declare this in their "mimetype" entry
+const ODT_MIMETYPE = "application/vnd.oasis.opendocument.text";
+
+// ISO base media brands that are still images rather than video
+const IMAGE_FTYP_BRANDS = new Set(["avif", "avis", "heic", "heix", "mif1", "msf1"]);
+
+async function readFileRange(file: File, start: number, end: number): Promise<Buffer> {
+  return Buffer.from(await file.slice(start, end).arrayBuffer());
+}
+
+function startsWith(bytes: Buffer, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function asciiAt(bytes: Buffer, offset: number, length: number): string {
+  return bytes.subarray(offset, offset + length).toString("latin1");
+}
+
+/**
+ * Detect HTML or plain text in the leading bytes
+ */
+function sniffText(bytes: Buffer): SniffedFormat | null {
+  // UTF-16 text legitimately contains NUL bytes
+  if (startsWith(bytes, [0xff, 0xfe]) || startsWith(bytes, [0xfe, 0xff])) {
+    return "text";
+  }
+  if (bytes.includes(0)) {
+    return null;
+  }
+
+  const text = bytes.toString("utf-8").replace(/^\uFEFF/, "").trimStart();
+  if (
+    /<(!doctype\s+html|html|head|body)[\s>]/i.test(text) ||
+    /^<([a-z][a-z0-9]*)[\s>/]/i.test(text)
+  ) {
+    return "html";
+  }
+  return "text";
+}
+
+/**
+ * List entry names from a ZIP file's central directory
+ */
+async function readZipEntryNames(file: File): Promise<string[] | null> {
+  const tailStart = Math.max(0, file.size - ZIP_EOCD_SEARCH_LENGTH);
+  const tail = await readFileRange(file, tailStart, file.size);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const directorySize = tail.readUInt32LE(eocd + 12);
+  const directoryOffset = tail.readUInt32LE(eocd + 16);
+  // ZIP64 archives store 0xFFFFFFFF here - not worth parsing just to sniff
+  if (directoryOffset === 0xffffffff || directorySize > MAX_ZIP_DIRECTORY_SIZE) return null;
+  if (directoryOffset + directorySize > file.size) return null;
+
+  const directory = await readFileRange(file, directoryOffset, directoryOffset + directorySize);
+  const names: string[] = [];
+  let offset = 0;
+  while (offset + 46 <= directory.length && directory.readUInt32LE(offset) === 0x02014b50) {
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    names.push(directory.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8"));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+/**
+ * Read the "mimetype" entry when it is the first, uncompressed file in a ZIP
+ * Returns undefined when there is no such entry, null when it can't be read
+ */
+function readLeadingMimetype(head: Buffer): string | null | undefined {
+  if (!startsWith(head, [0x50, 0x4b, 0x03, 0x04]) || head.length < 30) return undefined;
+
+  const nameLength = head.readUInt16LE(26);
+  if (asciiAt(head, 30, nameLength) !== "mimetype") return undefined;
+
+  const method = head.readUInt16LE(8);
+  const dataLength = head.readUInt32LE(18);
+  const dataStart = 30 + nameLength + head.readUInt16LE(28);
+  if (method !== 0 || dataStart + dataLength > head.length) return null;
+  return asciiAt(head, dataStart, dataLength).trim();
+}
+
+/**
+ * Tell DOCX, ODT and EPUB apart from other ZIP archives
+ */
+async function sniffZipContainer(file: File, head: Buffer): Promise<SniffedFormat> {
+  // EPUB and OpenDocument files start with an uncompressed "mimetype" entry naming the format
+  const mimetype = readLeadingMimetype(head);
+  if (mimetype === "application/epub+zip") return "epub";
+  if (mimetype?.startsWith(ODT_MIMETYPE)) return "odt";
+  if (mimetype) return "zip";
+
+  const names = await readZipEntryNames(file);
+  if (!names) return "zip";
+
+  if (names.includes("[Content_Types].xml") && names.some((name) => name.startsWith("word/"))) {
+    return "docx";
+  }
+  if (names.includes("META-INF/container.xml") && names.includes("mimetype")) {
+    return "epub";
+  }
+  if (names.includes("content.xml") && names.includes("META-INF/manifest.xml")) {
+    return "odt";
+  }
+  return "zip";
+}
+
+/**
+ * Work out a file's format from its content
+ * Returns null for empty files and binary content that isn't a known format.
+ */
+export async function sniffFileFormat(file: File): Promise<SniffedFormat | null> {
+  const head = await readFileRange(file, 0, SNIFF_LENGTH);
+  if (head.length === 0) return null;
+
+  // PDF readers accept a header anywhere in the first 1KB
+  if (head.subarray(0, 1024).includes("%PDF-")) return "pdf";
+
+  // PK\x03\x04 (local file header) or PK\x05\x06 (empty archive)
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04]) || startsWith(head, [0x50, 0x4b, 0x05, 0x06])) {
+    return sniffZipContainer(file, head);
+  }
+
+  // OLE compound document, used by Word 97-2003
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return "doc";
+
+  // RTF is plain ASCII, so it has to be recognised before the text check
+  if (asciiAt(head, 0, 5) === "{\\rtf") return "rtf";
+
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (asciiAt(head, 0, 6) === "GIF87a" || asciiAt(head, 0, 6) === "GIF89a") return "gif";
+  if (asciiAt(head, 0, 4) === "RIFF" && asciiAt(head, 8, 4) === "WEBP") return "webp";
+
+  if (asciiAt(head, 4, 4) === "ftyp") {
+    return IMAGE_FTYP_BRANDS.has(asciiAt(head, 8, 4)) ? null : "mp4";
+  }
+  // EBML header, shared by WebM and Matroska
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return "webm";
+  if (asciiAt(head, 0, 4) === "RIFF" && asciiAt(head, 8, 4) === "AVI ") return "avi";
+
+  return sniffText(head);
+}
+
+/**
+ * Formats the file claims to be, from its extension (or MIME type if it has no usable extension)
+ */
+function getClaimedFormats(file: File): SniffedFormat[] {
+  const fileName = file.name.toLowerCase();
+  const fileExtension = fileName.substring(fileName.lastIndexOf("."));
+  const mimeType = file.type.toLowerCase();
+
+  return EXTENSION_FORMATS[fileExtension] ?? MIME_FORMATS[mimeType] ?? [];
+}
+
+/**
+ * Check that a file's content matches the format its name and type claim
  */
-export function validateManuscriptFileType(file: File): FileTypeValidationResult {
+async function validateFileContent(file: File): Promise<FileTypeValidationResult> {
+  if (file.size === 0) {
+    return { isValid: false, error: "The file is empty." };
+  }
+
+  const claimed = getClaimedFormats(file);
+  const detected = await sniffFileFormat(file);
+  const expected = claimed[0] ? FORMAT_DESCRIPTIONS[claimed[0]] : "a supported file type";
+
+  if (!detected) {
+    return {
+      isValid: false,
+      error: `File content does not match its type. Expected ${expected}, but the content is not a recognized file format. The file may be corrupted or renamed.`,
+    };
+  }
+
+  if (!claimed.includes(detected)) {
+    return {
+      isValid: false,
+      detectedFormat: detected,
+      error: `File content does not match its type. Expected ${expected}, but the file is actually ${FORMAT_DESCRIPTIONS[detected]}.`,
+    };
+  }
+
+  return { isValid: true, detectedFormat: detected };
+}
+
+/**
+ * Check the declared MIME type and extension for manuscript uploads
+ */
+function checkManuscriptDeclaredType(file: File): FileTypeValidationResult {
   const fileName = file.name.toLowerCase();
   const fileExtension = fileName.substring(fileName.lastIndexOf("."));
   const mimeType = file.type.toLowerCase();
@@ -114,9 +427,9 @@ export function validateManuscriptFileType(file: File): FileTypeValidationResult
 }
 
 /**
- * Validate file type for cover image uploads
+ * Check the declared MIME type and extension for cover image uploads
  */
-export function validateImageFileType(file: File): FileTypeValidationResult {
+function checkImageDeclaredType(file: File): FileTypeValidationResult {
   const fileName = file.name.toLowerCase();
   const fileExtension = fileName.substring(fileName.lastIndexOf("."));
   const mimeType = file.type.toLowerCase();
@@ -173,9 +486,9 @@ export function validateImageFileType(file: File): FileTypeValidationResult {
 }
 
 /**
- * Validate file type for admin asset uploads (ZIP files)
+ * Check the declared MIME type and extension for admin asset uploads (ZIP files)
  */
-export function validateAssetFileType(file: File): FileTypeValidationResult {
+function checkAssetDeclaredType(file: File): FileTypeValidationResult {
   const fileName = file.name.toLowerCase();
   const fileExtension = fileName.substring(fileName.lastIndexOf("."));
   const mimeType = file.type.toLowerCase();
@@ -232,9 +545,9 @@ export function validateAssetFileType(file: File): FileTypeValidationResult {
 }
 
 /**
- * Validate file type for report uploads (HTML or PDF)
+ * Check the declared MIME type and extension for report uploads (HTML or PDF)
  */
-export function validateReportFileType(file: File): FileTypeValidationResult {
+function checkReportDeclaredType(file: File): FileTypeValidationResult {
   const fileName = file.name.toLowerCase();
   const fileExtension = fileName.substring(fileName.lastIndexOf("."));
   const mimeType = file.type.toLowerCase();
@@ -290,15 +603,58 @@ export function validateReportFileType(file: File): FileTypeValidationResult {
   };
 }
 
+/**
+ * Validate file type for manuscript uploads
+ */
+export async function validateManuscriptFileType(file: File): Promise<FileTypeValidationResult> {
+  const declared = checkManuscriptDeclaredType(file);
+  if (!declared.isValid) {
+    return declared;
+  }
+  return validateFileContent(file);
+}
+
+/**
+ * Validate file type for cover image uploads
+ */
+export async function validateImageFileType(file: File): Promise<FileTypeValidationResult> {
+  const declared = checkImageDeclaredType(file);
+  if (!declared.isValid) {
+    return declared;
+  }
+  return validateFileContent(file);
+}
+
+/**
+ * Validate file type for admin asset uploads (ZIP files)
+ */
+export async function validateAssetFileType(file: File): Promise<FileTypeValidationResult> {
+  const declared = checkAssetDeclaredType(file);
+  if (!declared.isValid) {
+    return declared;
+  }
+  return validateFileContent(file);
+}
+
+/**
+ * Validate file type for report uploads (HTML or PDF)
+ */
+export async function validateReportFileType(file: File): Promise<FileTypeValidationResult> {
+  const declared = checkReportDeclaredType(file);
+  if (!declared.isValid) {
+    return declared;
+  }
+  return validateFileContent(file);
+}
+
 /**
  * Validate file type for admin asset uploads (ZIP or HTML)
  * This is a combined validation for endpoints that accept both ZIP and HTML
  */
-export function validateAssetOrHtmlFileType(file: File): FileTypeValidationResult {
+export async function validateAssetOrHtmlFileType(file: File): Promise<FileTypeValidationResult> {
   // First check if it's a valid asset (ZIP)
-  const assetValidation = validateAssetFileType(file);
-  if (assetValidation.isValid) {
-    return { isValid: true };
+  if (checkAssetDeclaredType(file).isValid) {
+    return validateFileContent(file);
   }
 
   // Then check if it's a valid HTML file
@@ -311,7 +667,7 @@ export function validateAssetOrHtmlFileType(file: File): FileTypeValidationResul
     (fileExtension === ".html" || mimeType === "text/html" || (!mimeType || mimeType === "application/octet-stream"));
 
   if (isHtml) {
-    return { isValid: true };
+    return validateFileContent(file);
   }
 
   return {
@@ -320,3 +676,19 @@ export function validateAssetOrHtmlFileType(file: File): FileTypeValidationResul
   };
 }
 
+/**
+ * Validate a file unpacked from an uploaded ZIP (a video or image) before it is stored
+ * Only extensions whose content can be sniffed are accepted, and the content must match.
+ */
+export async function validateExtractedFileType(file: File): Promise<FileTypeValidationResult> {
+  const fileName = file.name.toLowerCase();
+  const fileExtension = fileName.substring(fileName.lastIndexOf("."));
+
+  if (!EXTENSION_FORMATS[fileExtension]) {
+    return {
+      isValid: false,
+      error: `Unsupported file type in archive: ${fileExtension || "unknown type"}`,
+    };
+  }
+  return validateFileContent(file);
+}
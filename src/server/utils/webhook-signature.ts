@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * HMAC-SHA256 signatures for inbound webhooks
+ *
+ * The sender signs `{timestamp}.{raw body}` with the shared secret and sends
+ * the timestamp (unix seconds) and `sha256={hex digest}` in headers. Including
+ * the timestamp lets us reject replays of old deliveries.
+ */
+
+export type WebhookSignatureResult = { ok: true } | { ok: false; error: string };
+
+// How far the signed timestamp may be from our clock
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Compute the signature header value for a payload
+ */
+export function signWebhookPayload(secret: string, timestamp: number | string, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a webhook signature and its timestamp
+ */
+export function verifyWebhookSignature(options: {
+  secret: string;
+  body: string;
+  timestamp: string | null;
+  signature: string | null;
+  now?: Date;
+  toleranceSeconds?: number;
+}): WebhookSignatureResult {
+  const { secret, body, timestamp, signature } = options;
+  if (!timestamp || !signature) {
+    return { ok: false, error: "Missing signature" };
+  }
+
+  const signedAt = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(signedAt)) {
+    return { ok: false, error: "Invalid timestamp" };
+  }
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(now - signedAt) > (options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS)) {
+    return { ok: false, error: "Signature timestamp outside the allowed window" };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature.trim());
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { ok: false, error: "Invalid signature" };
+  }
+
+  return { ok: true };
+}